@@ -4,8 +4,10 @@ import { errorHandler } from './middlewares/errorHandler.middleware.ts';
 import log from './middlewares/logger.middleware.ts';
 import configs from './config/config.ts';
 import router from './routers/index.ts';
+import scheduler from './services/scheduler.service.ts';
+import webhookDispatcher from './services/webhook_dispatcher.service.ts';
 
-const { env, url, port, clientUrl } = configs;
+const { env, url, port, clientUrl, schedulerEnabled } = configs;
 
 const app: Application = new Application();
 
@@ -28,7 +30,25 @@ app.addEventListener('listen', () => {
 });
 
 if (import.meta.main) {
-  await app.listen({ port });
+  const controller = new AbortController();
+
+  // Finish in-flight fetches and webhook attempts before the server goes down
+  const shutdown = async () => {
+    log.info('Shutting down');
+    await scheduler.stop();
+    await webhookDispatcher.stop();
+    controller.abort();
+  };
+  Deno.addSignalListener('SIGTERM', shutdown);
+  Deno.addSignalListener('SIGINT', shutdown);
+
+  // Deliveries still pending from the last run are retried at their planned time
+  await webhookDispatcher.resume();
+  if (schedulerEnabled) {
+    await scheduler.start();
+  }
+
+  await app.listen({ port, signal: controller.signal });
 }
 
 export { app };
@@ -21,6 +21,28 @@ const config: {
   port: number;
   protocol: string;
   dbPath: string;
+  sweepMaxPages: number;
+  storageMode: 'snapshot' | 'cdc';
+  schedulerEnabled: boolean;
+  schedulerJitterMs: number;
+  bybitBaseUrl: string;
+  exchangeMaxRetries: number;
+  exchangeRetryBaseMs: number;
+  exchangeRetryMaxMs: number;
+  exchangeRatePerSec: number;
+  exchangeRateBurst: number;
+  exchangeBreakerThreshold: number;
+  exchangeBreakerCooldownMs: number;
+  rawArchiveRetentionDays: number;
+  bookLookbackHours: number;
+  referenceRateSource: string;
+  referenceRateFile: string;
+  referenceRateUrl: string;
+  webhookMaxAttempts: number;
+  webhookRetryBaseMs: number;
+  webhookRetryMaxMs: number;
+  webhookTimeoutMs: number;
+  webhookAllowedHosts: string[];
   clientHost: string;
   clientPort: number;
   clientProtocol: string;
@@ -40,6 +62,31 @@ const config: {
   port: Number(Deno.env.get('PORT') as unknown as number),
   protocol: Deno.env.get('PROTOCOL') as unknown as string,
   dbPath: Deno.env.get('DB_PATH') as unknown as string || './data/database.duckdb',
+  sweepMaxPages: Number(Deno.env.get('P2P_SWEEP_MAX_PAGES') || 20),
+  storageMode: Deno.env.get('P2P_STORAGE_MODE') === 'cdc' ? 'cdc' : 'snapshot',
+  schedulerEnabled: Deno.env.get('P2P_SCHEDULER_ENABLED') !== 'false',
+  schedulerJitterMs: Number(Deno.env.get('P2P_SCHEDULER_JITTER_MS') || 1000),
+  bybitBaseUrl: Deno.env.get('BYBIT_BASE_URL') || 'https://api2.bybit.com',
+  exchangeMaxRetries: Number(Deno.env.get('EXCHANGE_MAX_RETRIES') || 3),
+  exchangeRetryBaseMs: Number(Deno.env.get('EXCHANGE_RETRY_BASE_MS') || 500),
+  exchangeRetryMaxMs: Number(Deno.env.get('EXCHANGE_RETRY_MAX_MS') || 10000),
+  exchangeRatePerSec: Number(Deno.env.get('EXCHANGE_RATE_PER_SEC') || 5),
+  exchangeRateBurst: Number(Deno.env.get('EXCHANGE_RATE_BURST') || 10),
+  exchangeBreakerThreshold: Number(Deno.env.get('EXCHANGE_BREAKER_THRESHOLD') || 5),
+  exchangeBreakerCooldownMs: Number(Deno.env.get('EXCHANGE_BREAKER_COOLDOWN_MS') || 60000),
+  rawArchiveRetentionDays: Number(Deno.env.get('P2P_RAW_ARCHIVE_RETENTION_DAYS') || 365),
+  bookLookbackHours: Number(Deno.env.get('P2P_BOOK_LOOKBACK_HOURS') || 24),
+  referenceRateSource: Deno.env.get('P2P_REFERENCE_RATE_SOURCE') || 'file',
+  referenceRateFile: Deno.env.get('P2P_REFERENCE_RATE_FILE') || './data/reference_rates.csv',
+  referenceRateUrl: Deno.env.get('P2P_REFERENCE_RATE_URL') || '',
+  webhookMaxAttempts: Number(Deno.env.get('WEBHOOK_MAX_ATTEMPTS') || 5),
+  webhookRetryBaseMs: Number(Deno.env.get('WEBHOOK_RETRY_BASE_MS') || 1000),
+  webhookRetryMaxMs: Number(Deno.env.get('WEBHOOK_RETRY_MAX_MS') || 60000),
+  webhookTimeoutMs: Number(Deno.env.get('WEBHOOK_TIMEOUT_MS') || 5000),
+  webhookAllowedHosts: (Deno.env.get('WEBHOOK_ALLOWED_HOSTS') || '')
+    .split(',')
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean),
   clientHost: Deno.env.get('CLIENT_HOST') as unknown as string,
   clientPort: Number(Deno.env.get('CLIENT_PORT') as unknown as number),
   clientProtocol: Deno.env.get('CLIENT_PROTOCOL') as unknown as string,
@@ -0,0 +1,140 @@
+import type { RouterContext } from 'jsr:@oak/oak';
+import { Status } from 'jsr:@oak/oak';
+import log from '../middlewares/logger.middleware.ts';
+import { AlertRuleInput, AlertService } from '../services/alert.service.ts';
+import { serializeBigInts, sendError } from '../helpers/response.helper.ts';
+
+export class AlertController {
+  private static alertService = new AlertService();
+
+  /**
+   * Alert rule input from a request body; `merchantId` arrives as a numeric string
+   */
+  private static async ruleInput(request: RouterContext<string>['request']): Promise<AlertRuleInput> {
+    const body = await request.body.json();
+    return {
+      ...body,
+      merchantId: body.merchantId === undefined || body.merchantId === null ? body.merchantId : BigInt(body.merchantId)
+    };
+  }
+
+  /**
+   * List the signed-in user's alert rules
+   * GET /api/alerts
+   */
+  public static async fetch({ response, state }: RouterContext<string>): Promise<void> {
+    try {
+      log.debug(`Getting alert rules of user ${state.id}`);
+      const rules = await AlertController.alertService.getRules(state.id);
+
+      response.status = Status.OK;
+      response.body = {
+        success: true,
+        data: serializeBigInts(rules)
+      };
+    } catch (error) {
+      sendError(response, error);
+    }
+  }
+
+  /**
+   * List the alerts fired for the signed-in user, newest first
+   * GET /api/alerts/events
+   */
+  public static async events({ request, response, state }: RouterContext<string>): Promise<void> {
+    try {
+      const url = new URL(request.url);
+      const date = (name: string) => url.searchParams.has(name) ? new Date(url.searchParams.get(name) as string) : undefined;
+
+      const events = await AlertController.alertService.getEvents(state.id, {
+        ruleId: url.searchParams.get('ruleId') || undefined,
+        from: date('from'),
+        to: date('to'),
+        limit: url.searchParams.has('limit') ? parseInt(url.searchParams.get('limit') as string) : undefined
+      });
+
+      response.status = Status.OK;
+      response.body = {
+        success: true,
+        data: serializeBigInts(events)
+      };
+    } catch (error) {
+      sendError(response, error);
+    }
+  }
+
+  /**
+   * Get one of the signed-in user's alert rules
+   * GET /api/alerts/:id
+   */
+  public static async get({ params, response, state }: RouterContext<string>): Promise<void> {
+    try {
+      const rule = await AlertController.alertService.getRule(state.id, params.id as string);
+
+      response.status = Status.OK;
+      response.body = {
+        success: true,
+        data: serializeBigInts(rule)
+      };
+    } catch (error) {
+      sendError(response, error);
+    }
+  }
+
+  /**
+   * Create an alert rule for the signed-in user
+   * POST /api/alerts
+   */
+  public static async create({ request, response, state }: RouterContext<string>): Promise<void> {
+    try {
+      log.debug(`Creating alert rule for user ${state.id}`);
+      const rule = await AlertController.alertService.createRule(state.id, await AlertController.ruleInput(request));
+
+      response.status = Status.Created;
+      response.body = {
+        success: true,
+        data: serializeBigInts(rule)
+      };
+    } catch (error) {
+      sendError(response, error);
+    }
+  }
+
+  /**
+   * Update one of the signed-in user's alert rules
+   * PUT /api/alerts/:id
+   */
+  public static async update({ params, request, response, state }: RouterContext<string>): Promise<void> {
+    try {
+      log.debug(`Updating alert rule ${params.id}`);
+      const rule = await AlertController.alertService.updateRule(
+        state.id,
+        params.id as string,
+        await AlertController.ruleInput(request)
+      );
+
+      response.status = Status.OK;
+      response.body = {
+        success: true,
+        data: serializeBigInts(rule)
+      };
+    } catch (error) {
+      sendError(response, error);
+    }
+  }
+
+  /**
+   * Delete one of the signed-in user's alert rules
+   * DELETE /api/alerts/:id
+   */
+  public static async remove({ params, response, state }: RouterContext<string>): Promise<void> {
+    try {
+      log.debug(`Removing alert rule ${params.id}`);
+      await AlertController.alertService.removeRule(state.id, params.id as string);
+
+      response.status = Status.NoContent;
+    } catch (error) {
+      sendError(response, error);
+    }
+  }
+}
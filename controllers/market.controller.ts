@@ -0,0 +1,107 @@
+import type { RouterContext } from 'jsr:@oak/oak';
+import { Status } from 'jsr:@oak/oak';
+import log from '../middlewares/logger.middleware.ts';
+import { MarketService } from '../services/market.service.ts';
+import scheduler from '../services/scheduler.service.ts';
+import { serializeBigInts, sendError } from '../helpers/response.helper.ts';
+
+export class MarketController {
+  private static marketService = new MarketService();
+
+  /**
+   * List watched markets
+   * GET /api/p2p/markets
+   */
+  public static async fetch({ response }: RouterContext<string>): Promise<void> {
+    try {
+      log.debug('Getting watched markets');
+      const markets = await MarketController.marketService.getMarkets();
+
+      response.status = Status.OK;
+      response.body = {
+        success: true,
+        data: serializeBigInts(markets)
+      };
+    } catch (error) {
+      sendError(response, error);
+    }
+  }
+
+  /**
+   * Get a single watched market
+   * GET /api/p2p/markets/:id
+   */
+  public static async show({ params, response }: RouterContext<string>): Promise<void> {
+    try {
+      log.debug('Getting watched market');
+      const market = await MarketController.marketService.getMarket(params.id as string);
+
+      response.status = Status.OK;
+      response.body = {
+        success: true,
+        data: serializeBigInts(market)
+      };
+    } catch (error) {
+      sendError(response, error);
+    }
+  }
+
+  /**
+   * Add a market to the watchlist
+   * POST /api/p2p/markets
+   */
+  public static async create({ request, response }: RouterContext<string>): Promise<void> {
+    try {
+      log.debug('Creating watched market');
+      const market = await MarketController.marketService.createMarket(await request.body.json());
+      await scheduler.refresh();
+
+      response.status = Status.Created;
+      response.body = {
+        success: true,
+        data: serializeBigInts(market)
+      };
+    } catch (error) {
+      sendError(response, error);
+    }
+  }
+
+  /**
+   * Update a watched market
+   * PUT /api/p2p/markets/:id
+   */
+  public static async update({ params, request, response }: RouterContext<string>): Promise<void> {
+    try {
+      log.debug('Updating watched market');
+      const market = await MarketController.marketService.updateMarket(
+        params.id as string,
+        await request.body.json()
+      );
+      await scheduler.refresh();
+
+      response.status = Status.OK;
+      response.body = {
+        success: true,
+        data: serializeBigInts(market)
+      };
+    } catch (error) {
+      sendError(response, error);
+    }
+  }
+
+  /**
+   * Remove a market from the watchlist
+   * DELETE /api/p2p/markets/:id
+   */
+  public static async remove({ params, response }: RouterContext<string>): Promise<void> {
+    try {
+      log.debug('Removing watched market');
+      await MarketController.marketService.removeMarket(params.id as string);
+      await scheduler.refresh();
+
+      response.status = Status.NoContent;
+    } catch (error) {
+      sendError(response, error);
+    }
+  }
+}
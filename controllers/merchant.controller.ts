@@ -0,0 +1,100 @@
+import type { RouterContext } from 'jsr:@oak/oak';
+import { Status } from 'jsr:@oak/oak';
+import log from '../middlewares/logger.middleware.ts';
+import { MerchantService } from '../services/merchant.service.ts';
+import { serializeBigInts, sendError } from '../helpers/response.helper.ts';
+
+export class MerchantController {
+  private static merchantService = new MerchantService();
+
+  /**
+   * List merchants listed recently, most active ads first
+   * GET /api/p2p/merchants
+   */
+  public static async fetch({ request, response }: RouterContext<string>): Promise<void> {
+    try {
+      log.debug('Getting merchants');
+      const url = new URL(request.url);
+      const query = (name: string) => url.searchParams.get(name) || undefined;
+      const number = (name: string) => url.searchParams.has(name) ? parseInt(url.searchParams.get(name) as string) : undefined;
+
+      const merchants = await MerchantController.merchantService.getMerchants({
+        hours: number('hours'),
+        exchange: query('exchange'),
+        tokenId: query('tokenId'),
+        currencyId: query('currencyId'),
+        search: query('search'),
+        online: url.searchParams.has('online') ? url.searchParams.get('online') === 'true' : undefined,
+        limit: number('limit')
+      });
+
+      response.status = Status.OK;
+      response.body = {
+        success: true,
+        data: serializeBigInts(merchants)
+      };
+    } catch (error) {
+      sendError(response, error);
+    }
+  }
+
+  /**
+   * Get the profile of a merchant
+   * GET /api/p2p/merchants/:userId
+   */
+  public static async get({ params, request, response }: RouterContext<string>): Promise<void> {
+    try {
+      log.debug(`Getting merchant ${params.userId}`);
+      const url = new URL(request.url);
+
+      const profile = await MerchantController.merchantService.getMerchant(BigInt(params.userId as string), {
+        days: url.searchParams.has('days') ? parseInt(url.searchParams.get('days') as string) : undefined,
+        exchange: url.searchParams.get('exchange') || undefined
+      });
+
+      response.status = Status.OK;
+      response.body = {
+        success: true,
+        data: serializeBigInts(profile)
+      };
+    } catch (error) {
+      sendError(response, error);
+    }
+  }
+
+  /**
+   * Rank the merchants of a token pair and measure how concentrated its book is
+   * GET /api/p2p/merchants/leaderboard/:tokenId/:currencyId
+   */
+  public static async leaderboard({ params, request, response }: RouterContext<string>): Promise<void> {
+    try {
+      log.debug(`Getting merchant leaderboard for ${params.tokenId}/${params.currencyId}`);
+      const url = new URL(request.url);
+      const query = (name: string) => url.searchParams.get(name) || undefined;
+      const number = (name: string) => url.searchParams.has(name) ? parseInt(url.searchParams.get(name) as string) : undefined;
+      const date = (name: string) => url.searchParams.has(name) ? new Date(url.searchParams.get(name) as string) : undefined;
+
+      const leaderboard = await MerchantController.merchantService.getLeaderboard(
+        params.tokenId as string,
+        params.currencyId as string,
+        {
+          side: number('side'),
+          from: date('from'),
+          to: date('to'),
+          interval: query('interval'),
+          limit: number('limit'),
+          marketId: query('marketId'),
+          exchange: query('exchange')
+        }
+      );
+
+      response.status = Status.OK;
+      response.body = {
+        success: true,
+        data: serializeBigInts(leaderboard)
+      };
+    } catch (error) {
+      sendError(response, error);
+    }
+  }
+}
@@ -1,144 +1,84 @@
 import type { RouterContext } from 'jsr:@oak/oak';
 import { Status } from 'jsr:@oak/oak';
 import { P2PService } from '../services/p2p.service.ts';
-import { TRADE_SIDE, PAYMENT_METHODS, DEFAULT_PARAMS } from '../shared/constants.ts';
-
-/**
- * Utility function to serialize BigInt values to strings for JSON serialization
- */
-function serializeBigInts(obj: any): any {
-  if (obj === null || obj === undefined) {
-    return obj;
-  }
-  
-  if (typeof obj === 'bigint') {
-    return obj.toString();
-  }
-  
-  if (Array.isArray(obj)) {
-    return obj.map(serializeBigInts);
-  }
-  
-  if (typeof obj === 'object') {
-    const serialized: any = {};
-    for (const [key, value] of Object.entries(obj)) {
-      serialized[key] = serializeBigInts(value);
-    }
-    return serialized;
-  }
-  
-  return obj;
-}
-
-/**
- * Map DuckDB column results to proper field names
- * This is a workaround for DuckDB column naming issue
- */
-function mapColumns(rawData: any[]): any[] {
-  return rawData.map(item => {
-    // Handle the case where DuckDB returns column_0, column_1, etc.
-    if (item.hasOwnProperty('column_0')) {
-      let fetchTime: string;
-      
-      // Handle different timestamp formats from DuckDB
-      if (item.column_0?.micros) {
-        // Convert microseconds to milliseconds and create ISO string
-        const millis = parseInt(item.column_0.micros) / 1000;
-        fetchTime = new Date(millis).toISOString();
-      } else if (item.column_0 instanceof Date) {
-        fetchTime = item.column_0.toISOString();
-      } else {
-        fetchTime = new Date().toISOString(); // fallback
-      }
-      
-      return {
-        fetch_time: fetchTime,
-        offer_id: String(item.column_1), // Convert to string immediately
-        account_id: String(item.column_2),
-        user_id: String(item.column_3),
-        token_id: item.column_4,
-        currency_id: item.column_5,
-        side: item.column_6,
-        price: Number(item.column_7),
-        total_quantity: Number(item.column_8)
-      };
-    }
-    // If columns have proper names, return as-is
-    return item;
-  });
-}
+import { exchangeHttpClient } from '../services/exchanges/index.ts';
+import { MarketService } from '../services/market.service.ts';
+import { serializeBigInts, sendError } from '../helpers/response.helper.ts';
+import configs from '../config/config.ts';
+import scheduler from '../services/scheduler.service.ts';
+import type { FetchRunStatus } from '../models/fetch_run.model.ts';
+import { OfferEventService } from '../services/offer_event.service.ts';
+import { QuoteService } from '../services/quote.service.ts';
+import { ReferenceRateService } from '../services/reference_rate.service.ts';
+import type { OfferEventType } from '../models/offer_event.model.ts';
+import { UserMerchantService } from '../services/user_merchant.service.ts';
 
 export class P2PController {
   private static p2pService = new P2PService();
+  private static marketService = new MarketService();
+  private static offerEventService = new OfferEventService();
+  private static quoteService = new QuoteService();
+  private static referenceRateService = new ReferenceRateService();
+  private static userMerchantService = new UserMerchantService();
 
   /**
-   * Fetch and store P2P data for a token pair (TBC Bank only)
+   * Fetch and store P2P data for the watched markets
+   * A `marketId` or token pair narrows the fetch; otherwise every enabled market is fetched
    * POST /api/p2p/fetch
    */
   public static async fetchP2PData({ request, response }: RouterContext<string>): Promise<void> {
     try {
-      let tokenId = DEFAULT_PARAMS.TOKEN_ID;
-      let currencyId = DEFAULT_PARAMS.CURRENCY_ID;
-      let payment = [PAYMENT_METHODS.TBC_BANK.toString()]; // TBC Bank payment method only
-      let size = DEFAULT_PARAMS.PAGE_SIZE;
-      let page = DEFAULT_PARAMS.PAGE;
+      let options: { marketId?: string; exchange?: string; tokenId?: string; currencyId?: string } = {};
+      let size: number | undefined;
+      let maxPages: number | undefined;
 
       if (request.method === 'POST') {
         const body = request.body;
-        const bodyData = await body.json();
-        tokenId = bodyData.tokenId || tokenId;
-        currencyId = bodyData.currencyId || currencyId;
-        // Always use TBC Bank payment method, ignore user input
-        payment = [PAYMENT_METHODS.TBC_BANK.toString()];
-        size = bodyData.size || size;
-        page = bodyData.page || page;
+        const bodyData = request.hasBody ? await body.json() : {};
+        options = {
+          marketId: bodyData.marketId,
+          exchange: bodyData.exchange,
+          tokenId: bodyData.tokenId,
+          currencyId: bodyData.currencyId
+        };
+        size = bodyData.size;
+        maxPages = bodyData.sweep === true ? configs.sweepMaxPages : bodyData.maxPages;
       } else {
         // GET request - use query params or defaults
         const url = new URL(request.url);
-        tokenId = url.searchParams.get('tokenId') || tokenId;
-        currencyId = url.searchParams.get('currencyId') || currencyId;
-        // Always use TBC Bank payment method
-        payment = [PAYMENT_METHODS.TBC_BANK.toString()];
-        size = parseInt(url.searchParams.get('size') || DEFAULT_PARAMS.PAGE_SIZE.toString());
-        page = parseInt(url.searchParams.get('page') || DEFAULT_PARAMS.PAGE.toString());
+        options = {
+          marketId: url.searchParams.get('marketId') || undefined,
+          exchange: url.searchParams.get('exchange') || undefined,
+          tokenId: url.searchParams.get('tokenId') || undefined,
+          currencyId: url.searchParams.get('currencyId') || undefined
+        };
+        size = url.searchParams.has('size') ? parseInt(url.searchParams.get('size') as string) : undefined;
+        maxPages = url.searchParams.get('sweep') === 'true'
+          ? configs.sweepMaxPages
+          : url.searchParams.has('maxPages') ? parseInt(url.searchParams.get('maxPages') as string) : undefined;
       }
 
-      // Fetch both buy and sell offers to ensure complete data
-      
-      // Fetch SELL orders
-      await P2PController.p2pService.processAndStoreP2PData(
-        tokenId, 
-        currencyId, 
-        TRADE_SIDE.SELL,
-        payment,
-        size,
-        page
-      );
+      // Validated to be at least 1; never sweep deeper than the configured maximum
+      if (maxPages !== undefined) {
+        maxPages = Math.min(maxPages, configs.sweepMaxPages);
+      }
 
-      // Small delay between requests to avoid rate limiting
-      await new Promise(resolve => setTimeout(resolve, 500));
-
-      // Fetch BUY orders
-      await P2PController.p2pService.processAndStoreP2PData(
-        tokenId, 
-        currencyId, 
-        TRADE_SIDE.BUY,
-        payment,
-        size,
-        page
-      );
+      const markets = await P2PController.marketService.resolveMarkets(options);
+      const results = [];
+
+      for (const market of markets) {
+        // Fetches both buy and sell offers (per the market's sides) to ensure complete data
+        results.push(await P2PController.p2pService.fetchMarket(market, { size, maxPages }));
+      }
 
       response.status = Status.OK;
       response.body = {
         success: true,
-        message: `Successfully fetched and stored both buy and sell P2P data for ${tokenId}/${currencyId}`
+        message: `Successfully fetched and stored P2P data for ${markets.length} watched market(s)`,
+        data: serializeBigInts(results)
       };
     } catch (error) {
-      response.status = Status.InternalServerError;
-      response.body = {
-        success: false,
-        message: error instanceof Error ? error.message : 'Internal server error'
-      };
+      sendError(response, error);
     }
   }
 
@@ -187,8 +127,10 @@ export class P2PController {
       const currencyId = params.currencyId as string;
       const url = new URL(request.url);
       const side = parseInt(url.searchParams.get('side') || '1');
-      const interval = url.searchParams.get('interval') || '1 hour';
+      const interval = url.searchParams.get('interval') || '1h';
       const hours = parseInt(url.searchParams.get('hours') || '24');
+      const marketId = url.searchParams.get('marketId') || undefined;
+      const exchange = url.searchParams.get('exchange') || undefined;
 
       if (!tokenId || !currencyId) {
         response.status = Status.BadRequest;
@@ -204,7 +146,8 @@ export class P2PController {
         currencyId,
         side,
         interval,
-        hours
+        hours,
+        { marketId, exchange }
       );
 
       response.status = Status.OK;
@@ -213,45 +156,189 @@ export class P2PController {
         data: serializeBigInts(aggregations)
       };
     } catch (error) {
-      response.status = Status.InternalServerError;
+      sendError(response, error);
+    }
+  }
+
+  /**
+   * Get the estimated trade flow of a token pair: volume and VWAP per interval and the latest estimated fills
+   * GET /api/p2p/flow/:tokenId/:currencyId
+   */
+  public static async getTradeFlow({ params, request, response }: RouterContext<string>): Promise<void> {
+    try {
+      const url = new URL(request.url);
+      const query = (name: string) => url.searchParams.get(name) || undefined;
+      const numeric = (name: string) => url.searchParams.has(name) ? parseInt(url.searchParams.get(name) as string) : undefined;
+
+      const flow = await P2PController.p2pService.getTradeFlow(params.tokenId as string, params.currencyId as string, {
+        side: numeric('side'),
+        interval: query('interval'),
+        hours: numeric('hours'),
+        limit: numeric('limit'),
+        marketId: query('marketId'),
+        exchange: query('exchange')
+      });
+
+      response.status = Status.OK;
       response.body = {
-        success: false,
-        message: error instanceof Error ? error.message : 'Internal server error'
+        success: true,
+        data: serializeBigInts(flow)
       };
+    } catch (error) {
+      sendError(response, error);
     }
   }
 
   /**
-   * Get market summary for a token pair
-   * GET /api/p2p/summary/:tokenId/:currencyId
+   * Get OHLC candles of the best bid and ask of a token pair, with mid price and spread
+   * GET /api/p2p/candles/:tokenId/:currencyId
    */
-  public static async getMarketSummary({ params, response }: RouterContext<string>): Promise<void> {
+  public static async getCandles({ params, request, response }: RouterContext<string>): Promise<void> {
     try {
-      const tokenId = params.tokenId as string;
-      const currencyId = params.currencyId as string;
+      const url = new URL(request.url);
+      const query = (name: string) => url.searchParams.get(name) || undefined;
 
-      if (!tokenId || !currencyId) {
-        response.status = Status.BadRequest;
-        response.body = {
-          success: false,
-          message: 'tokenId and currencyId are required'
-        };
-        return;
-      }
+      const candles = await P2PController.p2pService.getCandles(params.tokenId as string, params.currencyId as string, {
+        interval: query('interval'),
+        hours: url.searchParams.has('hours') ? parseInt(url.searchParams.get('hours') as string) : undefined,
+        fill: url.searchParams.get('fill') === 'true',
+        marketId: query('marketId'),
+        exchange: query('exchange')
+      });
+
+      response.status = Status.OK;
+      response.body = {
+        success: true,
+        data: serializeBigInts(candles)
+      };
+    } catch (error) {
+      sendError(response, error);
+    }
+  }
+
+  /**
+   * Get the premium of the best bid and ask over the pair's reference FX rate, per interval
+   * GET /api/p2p/premium/:tokenId/:currencyId
+   */
+  public static async getPremium({ params, request, response }: RouterContext<string>): Promise<void> {
+    try {
+      const url = new URL(request.url);
+      const query = (name: string) => url.searchParams.get(name) || undefined;
 
-      const summary = await P2PController.p2pService.getMarketSummary(tokenId, currencyId);
+      const premium = await P2PController.referenceRateService.getPremiumSeries(
+        params.tokenId as string,
+        params.currencyId as string,
+        {
+          interval: query('interval'),
+          hours: url.searchParams.has('hours') ? parseInt(url.searchParams.get('hours') as string) : undefined,
+          source: query('source'),
+          marketId: query('marketId'),
+          exchange: query('exchange')
+        }
+      );
 
       response.status = Status.OK;
       response.body = {
         success: true,
-        data: serializeBigInts(summary)
+        data: serializeBigInts(premium)
       };
     } catch (error) {
-      response.status = Status.InternalServerError;
+      sendError(response, error);
+    }
+  }
+
+  /**
+   * Get both sides of the order book from the snapshots nearest to `at`, with cumulative depth
+   * GET /api/p2p/book/:tokenId/:currencyId
+   */
+  public static async getOrderBook({ params, request, response, state }: RouterContext<string>): Promise<void> {
+    try {
+      const url = new URL(request.url);
+      const query = (name: string) => url.searchParams.get(name) || undefined;
+      const merchants = await P2PController.userMerchantService.getSelection(state?.id, {
+        trustedOnly: url.searchParams.get('trustedOnly') === 'true',
+        excludeAvoided: url.searchParams.get('excludeAvoided') === 'true'
+      });
+
+      const book = await P2PController.p2pService.getOrderBook(params.tokenId as string, params.currencyId as string, {
+        at: url.searchParams.has('at') ? new Date(url.searchParams.get('at') as string) : undefined,
+        marketId: query('marketId'),
+        exchange: query('exchange'),
+        merchants
+      });
+
+      response.status = Status.OK;
       response.body = {
-        success: false,
-        message: error instanceof Error ? error.message : 'Internal server error'
+        success: true,
+        data: serializeBigInts(book)
       };
+    } catch (error) {
+      sendError(response, error);
+    }
+  }
+
+  /**
+   * Quote an amount against the latest snapshot: best executable price, eligible merchants and slippage
+   * GET /api/p2p/quote
+   */
+  public static async getQuote({ request, response, state }: RouterContext<string>): Promise<void> {
+    try {
+      const url = new URL(request.url);
+      const query = (name: string) => url.searchParams.get(name) || undefined;
+      const numeric = (name: string) => url.searchParams.has(name) ? parseFloat(url.searchParams.get(name) as string) : undefined;
+      const merchants = await P2PController.userMerchantService.getSelection(state?.id, {
+        trustedOnly: url.searchParams.get('trustedOnly') === 'true',
+        excludeAvoided: url.searchParams.get('excludeAvoided') === 'true'
+      });
+
+      const quote = await P2PController.quoteService.getQuote({
+        tokenId: query('token') as string,
+        currencyId: query('currency') as string,
+        side: numeric('side') as number,
+        amount: numeric('amount') as number,
+        limit: numeric('limit'),
+        minCompletionRate: numeric('minCompletionRate'),
+        minOrders: numeric('minOrders'),
+        requireKyc: url.searchParams.get('requireKyc') === 'true',
+        merchants,
+        marketId: query('marketId'),
+        exchange: query('exchange')
+      });
+
+      response.status = Status.OK;
+      response.body = {
+        success: true,
+        data: serializeBigInts(quote)
+      };
+    } catch (error) {
+      sendError(response, error);
+    }
+  }
+
+  /**
+   * Get market summary for a token pair over a window, compared with the previous window
+   * GET /api/p2p/summary/:tokenId/:currencyId
+   */
+  public static async getMarketSummary({ params, request, response }: RouterContext<string>): Promise<void> {
+    try {
+      const url = new URL(request.url);
+      const query = (name: string) => url.searchParams.get(name) || undefined;
+      const date = (name: string) => url.searchParams.has(name) ? new Date(url.searchParams.get(name) as string) : undefined;
+
+      const summary = await P2PController.p2pService.getMarketSummary(params.tokenId as string, params.currencyId as string, {
+        from: date('from'),
+        to: date('to'),
+        marketId: query('marketId'),
+        exchange: query('exchange')
+      });
+
+      response.status = Status.OK;
+      response.body = {
+        success: true,
+        data: serializeBigInts(summary)
+      };
+    } catch (error) {
+      sendError(response, error);
     }
   }
 
@@ -259,32 +346,55 @@ export class P2PController {
    * Get latest offers with details
    * GET /api/p2p/offers
    */
-  public static async getLatestOffers({ request, response }: RouterContext<string>): Promise<void> {
+  public static async getLatestOffers({ request, response, state }: RouterContext<string>): Promise<void> {
     try {
       const url = new URL(request.url);
       const limit = parseInt(url.searchParams.get('limit') || '50');
+      const marketId = url.searchParams.get('marketId') || undefined;
+      const merchants = await P2PController.userMerchantService.getSelection(state?.id, {
+        trustedOnly: url.searchParams.get('trustedOnly') === 'true',
+        excludeAvoided: url.searchParams.get('excludeAvoided') === 'true'
+      });
 
-      const offers = await P2PController.p2pService.getLatestOffersWithDetails(limit);
-      
-      // Map DuckDB columns to proper field names and serialize BigInts
-      const mappedOffers = mapColumns(offers);
-      const serializedOffers = serializeBigInts(mappedOffers);
+      const offers = await P2PController.p2pService.getLatestOffersWithDetails(limit, marketId, merchants);
 
       response.status = Status.OK;
       response.body = {
         success: true,
-        data: serializedOffers
+        data: serializeBigInts(offers)
       };
     } catch (error) {
-      response.status = Status.InternalServerError;
-      response.body = {
-        success: false,
-        message: error instanceof Error ? error.message : 'Internal server error'
-      };
+      sendError(response, error);
     }
   }
 
+  /**
+   * Get the lifecycle events of an offer, oldest first, optionally filtered by exchange, type and time range
+   * GET /api/p2p/offers/:offerId/history
+   */
+  public static async getOfferHistory({ params, request, response }: RouterContext<string>): Promise<void> {
+    try {
+      const url = new URL(request.url);
+      const query = (name: string) => url.searchParams.get(name) || undefined;
+      const date = (name: string) => url.searchParams.has(name) ? new Date(url.searchParams.get(name) as string) : undefined;
+
+      const history = await P2PController.offerEventService.getOfferHistory(BigInt(params.offerId as string), {
+        exchange: query('exchange'),
+        types: query('types')?.split(',').map((type) => type.trim() as OfferEventType),
+        from: date('from'),
+        to: date('to'),
+        limit: url.searchParams.has('limit') ? parseInt(url.searchParams.get('limit') as string) : undefined
+      });
 
+      response.status = Status.OK;
+      response.body = {
+        success: true,
+        data: serializeBigInts(history)
+      };
+    } catch (error) {
+      sendError(response, error);
+    }
+  }
 
   /**
    * Cleanup old data
@@ -311,6 +421,79 @@ export class P2PController {
     }
   }
 
+  /**
+   * List fetch runs, newest first, optionally filtered by market, pair, side, status and time range
+   * GET /api/p2p/runs
+   */
+  public static async getFetchRuns({ request, response }: RouterContext<string>): Promise<void> {
+    try {
+      const url = new URL(request.url);
+      const query = (name: string) => url.searchParams.get(name) || undefined;
+      const numeric = (name: string) => url.searchParams.has(name) ? parseInt(url.searchParams.get(name) as string) : undefined;
+      const date = (name: string) => url.searchParams.has(name) ? new Date(url.searchParams.get(name) as string) : undefined;
+
+      const runs = await P2PController.p2pService.getFetchRuns({
+        marketId: query('marketId'),
+        exchange: query('exchange'),
+        tokenId: query('tokenId'),
+        currencyId: query('currencyId'),
+        side: numeric('side'),
+        status: query('status') as FetchRunStatus | undefined,
+        from: date('from'),
+        to: date('to'),
+        limit: numeric('limit'),
+        offset: numeric('offset')
+      });
+
+      response.status = Status.OK;
+      response.body = {
+        success: true,
+        data: serializeBigInts(runs)
+      };
+    } catch (error) {
+      sendError(response, error);
+    }
+  }
+
+  /**
+   * Rebuild stored snapshots in a time range from the raw response archive
+   * POST /api/p2p/reprocess
+   */
+  public static async reprocess({ request, response }: RouterContext<string>): Promise<void> {
+    try {
+      const body = await request.body.json();
+
+      const result = await P2PController.p2pService.reprocessArchive({
+        from: new Date(body.from),
+        to: new Date(body.to),
+        marketId: body.marketId,
+        exchange: body.exchange,
+        tokenId: body.tokenId,
+        currencyId: body.currencyId
+      });
+
+      response.status = Status.OK;
+      response.body = {
+        success: true,
+        data: serializeBigInts(result)
+      };
+    } catch (error) {
+      sendError(response, error);
+    }
+  }
+
+  /**
+   * Get ingestion scheduler status: last run, next run and last error per market
+   * GET /api/p2p/scheduler
+   */
+  public static getSchedulerStatus({ response }: RouterContext<string>): void {
+    response.status = Status.OK;
+    response.body = {
+      success: true,
+      data: serializeBigInts(scheduler.getStatus())
+    };
+  }
+
   /**
    * Get P2P health check
    * GET /api/p2p/health
@@ -326,7 +509,8 @@ export class P2PController {
         message: 'P2P monitoring system is healthy',
         data: {
           timestamp: new Date().toISOString(),
-          offers_count: offers.length
+          offers_count: offers.length,
+          exchange_client: serializeBigInts(exchangeHttpClient.getState())
         }
       };
     } catch (error) {
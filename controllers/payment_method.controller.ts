@@ -0,0 +1,121 @@
+import type { RouterContext } from 'jsr:@oak/oak';
+import { Status } from 'jsr:@oak/oak';
+import log from '../middlewares/logger.middleware.ts';
+import { PaymentMethodService } from '../services/payment_method.service.ts';
+import { serializeBigInts, sendError } from '../helpers/response.helper.ts';
+import type { PaymentMethodSource, PaymentMethodType } from '../models/payment_method.model.ts';
+
+export class PaymentMethodController {
+  private static paymentMethodService = new PaymentMethodService();
+
+  /**
+   * List the payment method catalog
+   * GET /api/p2p/payment-methods
+   */
+  public static async fetch({ request, response }: RouterContext<string>): Promise<void> {
+    try {
+      log.debug('Getting payment methods');
+      const url = new URL(request.url);
+      const query = (name: string) => url.searchParams.get(name) || undefined;
+
+      const methods = await PaymentMethodController.paymentMethodService.getPaymentMethods({
+        type: query('type') as PaymentMethodType | undefined,
+        country: query('country')?.toUpperCase(),
+        currencyId: query('currencyId'),
+        source: query('source') as PaymentMethodSource | undefined,
+        search: query('search')
+      });
+
+      response.status = Status.OK;
+      response.body = {
+        success: true,
+        data: serializeBigInts(methods)
+      };
+    } catch (error) {
+      sendError(response, error);
+    }
+  }
+
+  /**
+   * Get a single catalog entry
+   * GET /api/p2p/payment-methods/:methodId
+   */
+  public static async show({ params, response }: RouterContext<string>): Promise<void> {
+    try {
+      log.debug('Getting payment method');
+      const method = await PaymentMethodController.paymentMethodService.getPaymentMethod(Number(params.methodId));
+
+      response.status = Status.OK;
+      response.body = {
+        success: true,
+        data: serializeBigInts(method)
+      };
+    } catch (error) {
+      sendError(response, error);
+    }
+  }
+
+  /**
+   * Override a catalog entry
+   * PUT /api/p2p/payment-methods/:methodId
+   */
+  public static async override({ params, request, response }: RouterContext<string>): Promise<void> {
+    try {
+      log.debug('Overriding payment method');
+      const body = await request.body.json();
+      const method = await PaymentMethodController.paymentMethodService.overridePaymentMethod(Number(params.methodId), {
+        ...body,
+        country: body.country?.toUpperCase()
+      });
+
+      response.status = Status.OK;
+      response.body = {
+        success: true,
+        data: serializeBigInts(method)
+      };
+    } catch (error) {
+      sendError(response, error);
+    }
+  }
+
+  /**
+   * Release an admin override so syncs manage the entry again
+   * DELETE /api/p2p/payment-methods/:methodId/override
+   */
+  public static async releaseOverride({ params, response }: RouterContext<string>): Promise<void> {
+    try {
+      log.debug('Releasing payment method override');
+      const method = await PaymentMethodController.paymentMethodService.releaseOverride(Number(params.methodId));
+
+      response.status = Status.OK;
+      response.body = {
+        success: true,
+        data: serializeBigInts(method)
+      };
+    } catch (error) {
+      sendError(response, error);
+    }
+  }
+
+  /**
+   * Refresh the catalog from the exchange's payment configuration, or re-apply the bundled seed
+   * POST /api/p2p/payment-methods/sync
+   */
+  public static async sync({ request, response }: RouterContext<string>): Promise<void> {
+    try {
+      log.debug('Syncing payment methods');
+      const body = request.hasBody ? await request.body.json() : {};
+      const result = body.source === 'seed'
+        ? await PaymentMethodController.paymentMethodService.syncFromSeed()
+        : await PaymentMethodController.paymentMethodService.syncFromExchange(body.exchange);
+
+      response.status = Status.OK;
+      response.body = {
+        success: true,
+        data: result
+      };
+    } catch (error) {
+      sendError(response, error);
+    }
+  }
+}
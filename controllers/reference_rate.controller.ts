@@ -0,0 +1,59 @@
+import type { RouterContext } from 'jsr:@oak/oak';
+import { Status } from 'jsr:@oak/oak';
+import log from '../middlewares/logger.middleware.ts';
+import { ReferenceRateService } from '../services/reference_rate.service.ts';
+import { serializeBigInts, sendError } from '../helpers/response.helper.ts';
+
+export class ReferenceRateController {
+  private static referenceRateService = new ReferenceRateService();
+
+  /**
+   * List stored reference rates, newest first
+   * GET /api/p2p/reference-rates
+   */
+  public static async fetch({ request, response }: RouterContext<string>): Promise<void> {
+    try {
+      log.debug('Getting reference rates');
+      const url = new URL(request.url);
+      const query = (name: string) => url.searchParams.get(name) || undefined;
+      const date = (name: string) => url.searchParams.has(name) ? new Date(url.searchParams.get(name) as string) : undefined;
+
+      const rates = await ReferenceRateController.referenceRateService.getReferenceRates({
+        source: query('source'),
+        baseId: query('base')?.toUpperCase(),
+        quoteId: query('quote')?.toUpperCase(),
+        from: date('from'),
+        to: date('to'),
+        limit: url.searchParams.has('limit') ? parseInt(url.searchParams.get('limit') as string) : undefined
+      });
+
+      response.status = Status.OK;
+      response.body = {
+        success: true,
+        data: serializeBigInts(rates)
+      };
+    } catch (error) {
+      sendError(response, error);
+    }
+  }
+
+  /**
+   * Fetch the rates a source publishes and store them
+   * POST /api/p2p/reference-rates/sync
+   */
+  public static async sync({ request, response }: RouterContext<string>): Promise<void> {
+    try {
+      log.debug('Syncing reference rates');
+      const body = request.hasBody ? await request.body.json() : {};
+      const result = await ReferenceRateController.referenceRateService.sync(body.source);
+
+      response.status = Status.OK;
+      response.body = {
+        success: true,
+        data: result
+      };
+    } catch (error) {
+      sendError(response, error);
+    }
+  }
+}
@@ -0,0 +1,98 @@
+import type { RouterContext } from 'jsr:@oak/oak';
+import { Status } from 'jsr:@oak/oak';
+import log from '../middlewares/logger.middleware.ts';
+import { UserMerchantService } from '../services/user_merchant.service.ts';
+import { serializeBigInts, sendError } from '../helpers/response.helper.ts';
+
+export class UserMerchantController {
+  private static userMerchantService = new UserMerchantService();
+
+  /**
+   * Get the signed-in user's trusted and avoided merchants, with the merchants the exchange reports as blocked
+   * GET /api/me/merchants
+   */
+  public static async fetch({ response, state }: RouterContext<string>): Promise<void> {
+    try {
+      log.debug(`Getting merchant lists of user ${state.id}`);
+      const lists = await UserMerchantController.userMerchantService.getLists(state.id);
+
+      response.status = Status.OK;
+      response.body = {
+        success: true,
+        data: serializeBigInts(lists)
+      };
+    } catch (error) {
+      sendError(response, error);
+    }
+  }
+
+  /**
+   * Find merchants by nickname, with the list the signed-in user keeps each one on
+   * GET /api/me/merchants/search
+   */
+  public static async search({ request, response, state }: RouterContext<string>): Promise<void> {
+    try {
+      const url = new URL(request.url);
+      const merchants = await UserMerchantController.userMerchantService.search(
+        state.id,
+        (url.searchParams.get('nickname') as string).trim(),
+        url.searchParams.get('exchange') || undefined
+      );
+
+      response.status = Status.OK;
+      response.body = {
+        success: true,
+        data: serializeBigInts(merchants)
+      };
+    } catch (error) {
+      sendError(response, error);
+    }
+  }
+
+  /**
+   * Put a merchant on one of the signed-in user's lists
+   * POST /api/me/merchants
+   */
+  public static async add({ request, response, state }: RouterContext<string>): Promise<void> {
+    try {
+      const body = await request.body.json();
+      log.debug(`Adding merchant ${body.merchantId ?? body.nickname} to the ${body.list} list of user ${state.id}`);
+
+      const entry = await UserMerchantController.userMerchantService.addMerchant(state.id, {
+        merchantId: body.merchantId !== undefined ? BigInt(body.merchantId) : undefined,
+        nickname: body.nickname?.trim(),
+        list: body.list,
+        exchange: body.exchange?.trim(),
+        note: body.note?.trim()
+      });
+
+      response.status = Status.Created;
+      response.body = {
+        success: true,
+        data: serializeBigInts(entry)
+      };
+    } catch (error) {
+      sendError(response, error);
+    }
+  }
+
+  /**
+   * Take a merchant off the signed-in user's lists
+   * DELETE /api/me/merchants/:merchantId
+   */
+  public static async remove({ params, request, response, state }: RouterContext<string>): Promise<void> {
+    try {
+      log.debug(`Removing merchant ${params.merchantId} from the lists of user ${state.id}`);
+      const url = new URL(request.url);
+      await UserMerchantController.userMerchantService.removeMerchant(
+        state.id,
+        BigInt(params.merchantId as string),
+        url.searchParams.get('exchange') || undefined
+      );
+
+      response.status = Status.NoContent;
+    } catch (error) {
+      sendError(response, error);
+    }
+  }
+}
@@ -0,0 +1,145 @@
+import type { RouterContext } from 'jsr:@oak/oak';
+import { Status } from 'jsr:@oak/oak';
+import log from '../middlewares/logger.middleware.ts';
+import { WebhookService } from '../services/webhook.service.ts';
+import type { WebhookDeliveryStatus } from '../models/webhook.model.ts';
+import { serializeBigInts, sendError } from '../helpers/response.helper.ts';
+
+export class WebhookController {
+  private static webhookService = new WebhookService();
+
+  /**
+   * List the signed-in user's webhooks
+   * GET /api/webhooks
+   */
+  public static async fetch({ response, state }: RouterContext<string>): Promise<void> {
+    try {
+      log.debug(`Getting webhooks of user ${state.id}`);
+      const webhooks = await WebhookController.webhookService.getWebhooks(state.id);
+
+      response.status = Status.OK;
+      response.body = {
+        success: true,
+        data: serializeBigInts(webhooks)
+      };
+    } catch (error) {
+      sendError(response, error);
+    }
+  }
+
+  /**
+   * Get one of the signed-in user's webhooks
+   * GET /api/webhooks/:id
+   */
+  public static async get({ params, response, state }: RouterContext<string>): Promise<void> {
+    try {
+      const webhook = await WebhookController.webhookService.getWebhook(state.id, params.id as string);
+
+      response.status = Status.OK;
+      response.body = {
+        success: true,
+        data: serializeBigInts(webhook)
+      };
+    } catch (error) {
+      sendError(response, error);
+    }
+  }
+
+  /**
+   * List the deliveries of one of the signed-in user's webhooks, newest first
+   * GET /api/webhooks/:id/deliveries
+   */
+  public static async deliveries({ params, request, response, state }: RouterContext<string>): Promise<void> {
+    try {
+      const url = new URL(request.url);
+      const deliveries = await WebhookController.webhookService.getDeliveries(state.id, params.id as string, {
+        status: (url.searchParams.get('status') || undefined) as WebhookDeliveryStatus | undefined,
+        limit: url.searchParams.has('limit') ? parseInt(url.searchParams.get('limit') as string) : undefined
+      });
+
+      response.status = Status.OK;
+      response.body = {
+        success: true,
+        data: serializeBigInts(deliveries)
+      };
+    } catch (error) {
+      sendError(response, error);
+    }
+  }
+
+  /**
+   * Register a webhook for the signed-in user; the response is the only one carrying its secret
+   * POST /api/webhooks
+   */
+  public static async create({ request, response, state }: RouterContext<string>): Promise<void> {
+    try {
+      log.debug(`Creating webhook for user ${state.id}`);
+      const webhook = await WebhookController.webhookService.createWebhook(state.id, await request.body.json());
+
+      response.status = Status.Created;
+      response.body = {
+        success: true,
+        data: serializeBigInts(webhook)
+      };
+    } catch (error) {
+      sendError(response, error);
+    }
+  }
+
+  /**
+   * Send a ping event to one of the signed-in user's webhooks
+   * POST /api/webhooks/:id/ping
+   */
+  public static async ping({ params, response, state }: RouterContext<string>): Promise<void> {
+    try {
+      log.debug(`Pinging webhook ${params.id}`);
+      const delivery = await WebhookController.webhookService.ping(state.id, params.id as string);
+
+      response.status = Status.Accepted;
+      response.body = {
+        success: true,
+        data: serializeBigInts(delivery)
+      };
+    } catch (error) {
+      sendError(response, error);
+    }
+  }
+
+  /**
+   * Update one of the signed-in user's webhooks
+   * PUT /api/webhooks/:id
+   */
+  public static async update({ params, request, response, state }: RouterContext<string>): Promise<void> {
+    try {
+      log.debug(`Updating webhook ${params.id}`);
+      const webhook = await WebhookController.webhookService.updateWebhook(
+        state.id,
+        params.id as string,
+        await request.body.json()
+      );
+
+      response.status = Status.OK;
+      response.body = {
+        success: true,
+        data: serializeBigInts(webhook)
+      };
+    } catch (error) {
+      sendError(response, error);
+    }
+  }
+
+  /**
+   * Delete one of the signed-in user's webhooks with its delivery log
+   * DELETE /api/webhooks/:id
+   */
+  public static async remove({ params, response, state }: RouterContext<string>): Promise<void> {
+    try {
+      log.debug(`Removing webhook ${params.id}`);
+      await WebhookController.webhookService.removeWebhook(state.id, params.id as string);
+
+      response.status = Status.NoContent;
+    } catch (error) {
+      sendError(response, error);
+    }
+  }
+}
@@ -1,12 +1,44 @@
-import { DuckDBInstance } from '@duckdb/node-api';
+import {
+  DuckDBInstance,
+  type DuckDBConnection,
+  type DuckDBPreparedStatement,
+  type DuckDBResultReader,
+} from '@duckdb/node-api';
 import configs from '../config/config.ts';
 import log from '../middlewares/logger.middleware.ts';
+import { DEFAULT_MARKET } from '../shared/constants.ts';
+import paymentMethodSeed from './seeds/payment_methods.json' with { type: 'json' };
 
 const { dbPath } = configs;
 
-interface QueryResult {
-  [key: string]: any;
-}
+/**
+ * Columns of `p2p_offers` that the snapshot views expose, in order
+ */
+const OFFER_SNAPSHOT_COLUMNS = [
+  'exchange', 'offer_id', 'account_id', 'user_id', 'token_id', 'currency_id',
+  'side', 'price_type', 'price', 'premium', 'last_quantity', 'total_quantity',
+  'frozen_quantity', 'executed_quantity', 'min_amount', 'max_amount',
+  'status', 'is_online', 'remark', 'last_logout', 'version', 'auth_status',
+  'user_type', 'payment_period', 'user_mask_id'
+];
+
+/**
+ * Columns of `trading_preferences` that the snapshot views expose, in order
+ */
+const PREFERENCE_SNAPSHOT_COLUMNS = [
+  'offer_id', 'has_unposted_ad', 'is_kyc', 'is_email_verified', 'is_mobile_verified',
+  'register_time_threshold', 'order_finish_30d', 'complete_rate_30d', 'national_limit'
+];
+
+/**
+ * Rows per multi-row INSERT issued by `insertMany`
+ */
+const BULK_INSERT_BATCH_SIZE = 500;
+
+/**
+ * A result row keyed by column name, the row type of `query` and `get` unless the caller gives its own
+ */
+type QueryResult = Record<string, unknown>;
 
 interface RunResult {
   changes?: number;
@@ -16,12 +48,24 @@ interface DatabaseConfig {
   dbPath: string;
 }
 
+/**
+ * Statement executor implemented by the database and by open transactions.
+ * Models accept one so their writes can join a caller's transaction.
+ */
+interface Queryable {
+  query<T = QueryResult>(sql: string, params?: unknown[]): Promise<T[]>;
+  get<T = QueryResult>(sql: string, params?: unknown[]): Promise<T | null>;
+  run(sql: string, params?: unknown[]): Promise<RunResult>;
+}
+
 /**
  * Enhanced DuckDB database wrapper with improved error handling and connection management
  */
 class Database {
   private instance: DuckDBInstance | null = null;
-  private connection: any = null;
+  private connection: DuckDBConnection | null = null;
+  private transactionConnection: DuckDBConnection | null = null;
+  private transactionQueue: Promise<void> = Promise.resolve();
   private isConnected: boolean = false;
   private readonly config: DatabaseConfig;
 
@@ -47,6 +91,8 @@ class Database {
     try {
       this.instance = await DuckDBInstance.create(this.config.dbPath);
       this.connection = await this.instance.connect();
+      // Transactions run on their own connection so readers never see uncommitted rows
+      this.transactionConnection = await this.instance.connect();
       this.isConnected = true;
       
       log.info('Database connected successfully');
@@ -67,7 +113,11 @@ class Database {
     try {
       await this.createCoreTables();
       await this.createP2PTables();
+      await this.migrateP2PTables();
       await this.createIndexes();
+      await this.createSnapshotViews();
+      await this.seedWatchedMarkets();
+      await this.seedPaymentMethods();
       
       log.info('Database schema initialized successfully');
     } catch (error) {
@@ -80,6 +130,7 @@ class Database {
    * Create core application tables
    */
   private async createCoreTables(): Promise<void> {
+    const connection = this.ensureConnection();
     const tables = [
       {
         name: 'users',
@@ -132,21 +183,22 @@ class Database {
     ];
 
     for (const table of tables) {
-      await this.connection.run(table.sql);
+      await connection.run(table.sql);
       log.debug(`Created table: ${table.name}`);
     }
   }
 
   /**
-   * Create P2P monitoring tables (ADR-001)
+   * Definitions of the P2P monitoring tables (ADR-001)
    */
-  private async createP2PTables(): Promise<void> {
-    const p2pTables = [
+  private p2pTables(): Array<{ name: string; sql: string }> {
+    return [
       {
         name: 'p2p_offers',
         sql: `
           CREATE TABLE IF NOT EXISTS p2p_offers (
             fetch_time          TIMESTAMP       NOT NULL,
+            exchange            VARCHAR         NOT NULL DEFAULT 'bybit',
             offer_id            BIGINT          NOT NULL,
             account_id          BIGINT          NOT NULL,
             user_id             BIGINT          NOT NULL,
@@ -171,7 +223,7 @@ class Database {
             user_type           VARCHAR         NOT NULL,
             payment_period      INTEGER         NOT NULL,
             user_mask_id        VARCHAR         NOT NULL,
-            PRIMARY KEY (fetch_time, offer_id)
+            PRIMARY KEY (fetch_time, exchange, offer_id)
           )
         `
       },
@@ -205,11 +257,27 @@ class Database {
         name: 'p2p_users',
         sql: `
           CREATE TABLE IF NOT EXISTS p2p_users (
-            user_id           BIGINT     PRIMARY KEY,
+            user_id           BIGINT     NOT NULL,
+            exchange          VARCHAR    NOT NULL DEFAULT 'bybit',
             account_id        BIGINT,
             nick_name         VARCHAR,
             blocked           BOOLEAN,
-            maker_contact     BOOLEAN
+            maker_contact     BOOLEAN,
+            PRIMARY KEY (exchange, user_id)
+          )
+        `
+      },
+      {
+        // Merchant nicknames over time: every nickname a user was listed under and when
+        name: 'p2p_user_nicknames',
+        sql: `
+          CREATE TABLE IF NOT EXISTS p2p_user_nicknames (
+            exchange     VARCHAR     NOT NULL,
+            user_id      BIGINT      NOT NULL,
+            nick_name    VARCHAR     NOT NULL,
+            first_seen   TIMESTAMP   NOT NULL,
+            last_seen    TIMESTAMP   NOT NULL,
+            PRIMARY KEY (exchange, user_id, nick_name)
           )
         `
       },
@@ -217,8 +285,13 @@ class Database {
         name: 'payment_methods',
         sql: `
           CREATE TABLE IF NOT EXISTS payment_methods (
-            method_id   INTEGER  PRIMARY KEY,
-            name        VARCHAR
+            method_id     INTEGER     PRIMARY KEY,
+            name          VARCHAR,
+            type          VARCHAR,
+            country       VARCHAR,
+            currency_id   VARCHAR,
+            source        VARCHAR     NOT NULL DEFAULT 'unknown',
+            updated_at    TIMESTAMP
           )
         `
       },
@@ -227,9 +300,10 @@ class Database {
         sql: `
           CREATE TABLE IF NOT EXISTS offer_payments (
             fetch_time   TIMESTAMP   NOT NULL,
+            exchange     VARCHAR     NOT NULL DEFAULT 'bybit',
             offer_id     BIGINT      NOT NULL,
             method_id    INTEGER     NOT NULL,
-            PRIMARY KEY (fetch_time, offer_id, method_id)
+            PRIMARY KEY (fetch_time, exchange, offer_id, method_id)
           )
         `
       },
@@ -238,6 +312,7 @@ class Database {
         sql: `
           CREATE TABLE IF NOT EXISTS trading_preferences (
             fetch_time                TIMESTAMP   NOT NULL,
+            exchange                  VARCHAR     NOT NULL DEFAULT 'bybit',
             offer_id                  BIGINT      NOT NULL,
             has_unposted_ad           BOOLEAN,
             is_kyc                    BOOLEAN,
@@ -247,7 +322,7 @@ class Database {
             order_finish_30d          INTEGER,
             complete_rate_30d         DOUBLE,
             national_limit            VARCHAR,
-            PRIMARY KEY (fetch_time, offer_id)
+            PRIMARY KEY (fetch_time, exchange, offer_id)
           )
         `
       },
@@ -260,19 +335,433 @@ class Database {
             sequence    INTEGER
           )
         `
+      },
+      {
+        name: 'watched_markets',
+        sql: `
+          CREATE TABLE IF NOT EXISTS watched_markets (
+            id                  VARCHAR     PRIMARY KEY,
+            exchange            VARCHAR     NOT NULL DEFAULT 'bybit',
+            token_id            VARCHAR     NOT NULL,
+            currency_id         VARCHAR     NOT NULL,
+            sides               SMALLINT[]  NOT NULL,
+            payment_methods     INTEGER[]   NOT NULL,
+            page_depth          INTEGER     NOT NULL DEFAULT 1,
+            poll_interval_sec   INTEGER     NOT NULL DEFAULT 5,
+            enabled             BOOLEAN     NOT NULL DEFAULT true,
+            created_at          TIMESTAMP   DEFAULT CURRENT_TIMESTAMP,
+            updated_at          TIMESTAMP   DEFAULT CURRENT_TIMESTAMP
+          )
+        `
+      },
+      {
+        name: 'fetch_runs',
+        sql: `
+          CREATE TABLE IF NOT EXISTS fetch_runs (
+            id               VARCHAR     PRIMARY KEY,
+            market_id        VARCHAR,
+            exchange         VARCHAR     NOT NULL,
+            token_id         VARCHAR     NOT NULL,
+            currency_id      VARCHAR     NOT NULL,
+            side             SMALLINT    NOT NULL,
+            page             INTEGER     NOT NULL,
+            started_at       TIMESTAMP   NOT NULL,
+            finished_at      TIMESTAMP   NOT NULL,
+            status           VARCHAR     NOT NULL,
+            http_status      INTEGER,
+            ret_code         INTEGER,
+            ret_msg          VARCHAR,
+            items_received   INTEGER     NOT NULL DEFAULT 0,
+            rows_inserted    INTEGER     NOT NULL DEFAULT 0,
+            error            VARCHAR
+          )
+        `
+      },
+      {
+        name: 'raw_responses',
+        sql: `
+          CREATE TABLE IF NOT EXISTS raw_responses (
+            id            VARCHAR     PRIMARY KEY,
+            fetch_time    TIMESTAMP   NOT NULL,
+            market_id     VARCHAR,
+            exchange      VARCHAR     NOT NULL,
+            token_id      VARCHAR     NOT NULL,
+            currency_id   VARCHAR     NOT NULL,
+            side          SMALLINT    NOT NULL,
+            page          INTEGER     NOT NULL,
+            http_status   INTEGER,
+            encoding      VARCHAR     NOT NULL DEFAULT 'gzip',
+            body          BLOB        NOT NULL
+          )
+        `
+      },
+      {
+        // CDC storage mode: one row per offer state, open until a tracked field changes or the offer leaves the book
+        name: 'offer_versions',
+        sql: `
+          CREATE TABLE IF NOT EXISTS offer_versions (
+            stream                    VARCHAR     NOT NULL,
+            offer_id                  BIGINT      NOT NULL,
+            valid_from                TIMESTAMP   NOT NULL,
+            valid_to                  TIMESTAMP,
+            last_seen_at              TIMESTAMP   NOT NULL,
+            exchange                  VARCHAR     NOT NULL,
+            account_id                BIGINT      NOT NULL,
+            user_id                   BIGINT      NOT NULL,
+            token_id                  VARCHAR     NOT NULL,
+            currency_id               VARCHAR     NOT NULL,
+            side                      SMALLINT    NOT NULL,
+            price_type                SMALLINT    NOT NULL,
+            price                     DOUBLE      NOT NULL,
+            premium                   DOUBLE      NOT NULL,
+            last_quantity             DOUBLE      NOT NULL,
+            total_quantity            DOUBLE      NOT NULL,
+            frozen_quantity           DOUBLE      NOT NULL,
+            executed_quantity         DOUBLE      NOT NULL,
+            min_amount                DOUBLE      NOT NULL,
+            max_amount                DOUBLE      NOT NULL,
+            status                    SMALLINT    NOT NULL,
+            is_online                 BOOLEAN     NOT NULL,
+            remark                    VARCHAR,
+            last_logout               TIMESTAMP,
+            version                   INTEGER     NOT NULL,
+            auth_status               SMALLINT    NOT NULL,
+            user_type                 VARCHAR     NOT NULL,
+            payment_period            INTEGER     NOT NULL,
+            user_mask_id              VARCHAR     NOT NULL,
+            payments                  INTEGER[]   NOT NULL,
+            has_preferences           BOOLEAN     NOT NULL DEFAULT false,
+            has_unposted_ad           BOOLEAN,
+            is_kyc                    BOOLEAN,
+            is_email_verified         BOOLEAN,
+            is_mobile_verified        BOOLEAN,
+            register_time_threshold   INTEGER,
+            order_finish_30d          INTEGER,
+            complete_rate_30d         DOUBLE,
+            national_limit            VARCHAR,
+            PRIMARY KEY (stream, offer_id, valid_from)
+          )
+        `
+      },
+      {
+        // CDC storage mode: one row per fetch of a stream, the times its open versions were seen at
+        name: 'offer_heartbeats',
+        sql: `
+          CREATE TABLE IF NOT EXISTS offer_heartbeats (
+            stream        VARCHAR     NOT NULL,
+            fetch_time    TIMESTAMP   NOT NULL,
+            exchange      VARCHAR     NOT NULL,
+            token_id      VARCHAR     NOT NULL,
+            currency_id   VARCHAR     NOT NULL,
+            side          SMALLINT    NOT NULL,
+            offers        INTEGER     NOT NULL,
+            PRIMARY KEY (stream, fetch_time)
+          )
+        `
+      },
+      {
+        // One row per stored snapshot of a stream, empty sweeps included: what readers pick a market's book by
+        name: 'book_snapshots',
+        sql: `
+          CREATE TABLE IF NOT EXISTS book_snapshots (
+            stream        VARCHAR     NOT NULL,
+            fetch_time    TIMESTAMP   NOT NULL,
+            market_id     VARCHAR,
+            exchange      VARCHAR     NOT NULL,
+            token_id      VARCHAR     NOT NULL,
+            currency_id   VARCHAR     NOT NULL,
+            side          SMALLINT    NOT NULL,
+            offers        INTEGER     NOT NULL,
+            PRIMARY KEY (stream, fetch_time)
+          )
+        `
+      },
+      {
+        // Offer lifecycle: changes found by diffing consecutive snapshots of a stream
+        name: 'offer_events',
+        sql: `
+          CREATE TABLE IF NOT EXISTS offer_events (
+            id                           VARCHAR     PRIMARY KEY,
+            stream                       VARCHAR     NOT NULL,
+            exchange                     VARCHAR     NOT NULL,
+            token_id                     VARCHAR     NOT NULL,
+            currency_id                  VARCHAR     NOT NULL,
+            side                         SMALLINT    NOT NULL,
+            offer_id                     BIGINT      NOT NULL,
+            user_id                      BIGINT      NOT NULL,
+            event_time                   TIMESTAMP   NOT NULL,
+            type                         VARCHAR     NOT NULL,
+            price                        DOUBLE      NOT NULL,
+            previous_price               DOUBLE,
+            last_quantity                DOUBLE      NOT NULL,
+            previous_last_quantity       DOUBLE,
+            total_quantity               DOUBLE      NOT NULL,
+            previous_total_quantity      DOUBLE,
+            executed_quantity            DOUBLE      NOT NULL,
+            previous_executed_quantity   DOUBLE,
+            frozen_quantity              DOUBLE      NOT NULL,
+            previous_frozen_quantity     DOUBLE,
+            is_online                    BOOLEAN     NOT NULL,
+            version                      INTEGER     NOT NULL,
+            previous_version             INTEGER
+          )
+        `
+      },
+      {
+        // Independent FX rates the P2P prices are compared against
+        name: 'reference_rates',
+        sql: `
+          CREATE TABLE IF NOT EXISTS reference_rates (
+            source       VARCHAR     NOT NULL,
+            base_id      VARCHAR     NOT NULL,
+            quote_id     VARCHAR     NOT NULL,
+            rate_time    TIMESTAMP   NOT NULL,
+            rate         DOUBLE      NOT NULL,
+            fetched_at   TIMESTAMP   NOT NULL,
+            PRIMARY KEY (source, base_id, quote_id, rate_time)
+          )
+        `
+      },
+      {
+        // Merchants each user trusts or avoids: one list per merchant, keyed by the users.id of its owner
+        name: 'user_merchants',
+        sql: `
+          CREATE TABLE IF NOT EXISTS user_merchants (
+            user_id      VARCHAR     NOT NULL,
+            exchange     VARCHAR     NOT NULL,
+            merchant_id  BIGINT      NOT NULL,
+            list         VARCHAR     NOT NULL,
+            note         VARCHAR,
+            created_at   TIMESTAMP   DEFAULT CURRENT_TIMESTAMP,
+            updated_at   TIMESTAMP   DEFAULT CURRENT_TIMESTAMP,
+            PRIMARY KEY (user_id, exchange, merchant_id)
+          )
+        `
+      },
+      {
+        // Alert rules: a condition on a token pair's book, owned by a user and evaluated after every ingestion run
+        name: 'alert_rules',
+        sql: `
+          CREATE TABLE IF NOT EXISTS alert_rules (
+            id                  VARCHAR     PRIMARY KEY,
+            user_id             VARCHAR     NOT NULL,
+            name                VARCHAR,
+            exchange            VARCHAR     NOT NULL DEFAULT 'bybit',
+            token_id            VARCHAR     NOT NULL,
+            currency_id         VARCHAR     NOT NULL,
+            market_id           VARCHAR,
+            type                VARCHAR     NOT NULL,
+            side                SMALLINT,
+            threshold           DOUBLE,
+            amount              DOUBLE,
+            merchant_id         BIGINT,
+            cooldown_sec        INTEGER     NOT NULL DEFAULT 3600,
+            enabled             BOOLEAN     NOT NULL DEFAULT true,
+            active              BOOLEAN     NOT NULL DEFAULT false,
+            last_evaluated_at   TIMESTAMP,
+            last_triggered_at   TIMESTAMP,
+            created_at          TIMESTAMP   DEFAULT CURRENT_TIMESTAMP,
+            updated_at          TIMESTAMP   DEFAULT CURRENT_TIMESTAMP
+          )
+        `
+      },
+      {
+        // Fired alerts: the value that met a rule's condition and the snapshot it was read from
+        name: 'alert_events',
+        sql: `
+          CREATE TABLE IF NOT EXISTS alert_events (
+            id             VARCHAR     PRIMARY KEY,
+            rule_id        VARCHAR     NOT NULL,
+            user_id        VARCHAR     NOT NULL,
+            type           VARCHAR     NOT NULL,
+            exchange       VARCHAR     NOT NULL,
+            token_id       VARCHAR     NOT NULL,
+            currency_id    VARCHAR     NOT NULL,
+            side           SMALLINT,
+            value          DOUBLE,
+            threshold      DOUBLE,
+            message        VARCHAR     NOT NULL,
+            fetch_time     TIMESTAMP,
+            triggered_at   TIMESTAMP   NOT NULL
+          )
+        `
+      },
+      {
+        // Webhooks: endpoints a user registered to receive signed events, optionally limited to one exchange or pair
+        name: 'webhooks',
+        sql: `
+          CREATE TABLE IF NOT EXISTS webhooks (
+            id                 VARCHAR     PRIMARY KEY,
+            user_id            VARCHAR     NOT NULL,
+            url                VARCHAR     NOT NULL,
+            secret             VARCHAR     NOT NULL,
+            events             VARCHAR[]   NOT NULL,
+            exchange           VARCHAR,
+            token_id           VARCHAR,
+            currency_id        VARCHAR,
+            price_change_pct   DOUBLE      NOT NULL DEFAULT 1,
+            enabled            BOOLEAN     NOT NULL DEFAULT true,
+            created_at         TIMESTAMP   DEFAULT CURRENT_TIMESTAMP,
+            updated_at         TIMESTAMP   DEFAULT CURRENT_TIMESTAMP
+          )
+        `
+      },
+      {
+        // Webhook deliveries: one event sent to one webhook, with the outcome of its latest attempt
+        name: 'webhook_deliveries',
+        sql: `
+          CREATE TABLE IF NOT EXISTS webhook_deliveries (
+            id                VARCHAR     PRIMARY KEY,
+            webhook_id        VARCHAR     NOT NULL,
+            event             VARCHAR     NOT NULL,
+            payload           VARCHAR     NOT NULL,
+            status            VARCHAR     NOT NULL DEFAULT 'pending',
+            attempts          INTEGER     NOT NULL DEFAULT 0,
+            response_status   INTEGER,
+            error             VARCHAR,
+            created_at        TIMESTAMP   NOT NULL,
+            last_attempt_at   TIMESTAMP,
+            next_attempt_at   TIMESTAMP,
+            delivered_at      TIMESTAMP
+          )
+        `
+      },
+      {
+        // Best price a webhook was last notified of per stream; price.changed events are measured against it
+        name: 'webhook_price_refs',
+        sql: `
+          CREATE TABLE IF NOT EXISTS webhook_price_refs (
+            webhook_id   VARCHAR     NOT NULL,
+            stream       VARCHAR     NOT NULL,
+            price        DOUBLE      NOT NULL,
+            updated_at   TIMESTAMP   NOT NULL,
+            PRIMARY KEY (webhook_id, stream)
+          )
+        `
       }
     ];
+  }
 
-    for (const table of p2pTables) {
-      await this.connection.run(table.sql);
+  /**
+   * Create P2P monitoring tables (ADR-001)
+   */
+  private async createP2PTables(): Promise<void> {
+    const connection = this.ensureConnection();
+    for (const table of this.p2pTables()) {
+      await connection.run(table.sql);
       log.debug(`Created P2P table: ${table.name}`);
     }
   }
 
+  /**
+   * Bring tables created by earlier releases up to the current schema
+   */
+  private async migrateP2PTables(): Promise<void> {
+    const connection = this.ensureConnection();
+    const migrations = [
+      // Multi-venue support: every fact and user row is tagged with its exchange
+      `ALTER TABLE p2p_offers ADD COLUMN IF NOT EXISTS exchange VARCHAR DEFAULT 'bybit'`,
+      `ALTER TABLE p2p_users ADD COLUMN IF NOT EXISTS exchange VARCHAR DEFAULT 'bybit'`,
+      `ALTER TABLE offer_payments ADD COLUMN IF NOT EXISTS exchange VARCHAR DEFAULT 'bybit'`,
+      `ALTER TABLE trading_preferences ADD COLUMN IF NOT EXISTS exchange VARCHAR DEFAULT 'bybit'`,
+      // Payment method catalog: names used to be placeholders written by the ETL
+      `ALTER TABLE payment_methods ADD COLUMN IF NOT EXISTS type VARCHAR`,
+      `ALTER TABLE payment_methods ADD COLUMN IF NOT EXISTS country VARCHAR`,
+      `ALTER TABLE payment_methods ADD COLUMN IF NOT EXISTS currency_id VARCHAR`,
+      `ALTER TABLE payment_methods ADD COLUMN IF NOT EXISTS source VARCHAR DEFAULT 'unknown'`,
+      `ALTER TABLE payment_methods ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP`
+    ];
+
+    for (const migrationSql of migrations) {
+      await connection.run(migrationSql);
+    }
+
+    // Offer and user keys used to leave out the exchange, so two venues could collide on the same IDs
+    await this.migratePrimaryKey('p2p_offers', ['fetch_time', 'exchange', 'offer_id']);
+    await this.migratePrimaryKey('p2p_users', ['exchange', 'user_id']);
+    await this.migratePrimaryKey('offer_payments', ['fetch_time', 'exchange', 'offer_id', 'method_id']);
+    await this.migratePrimaryKey('trading_preferences', ['fetch_time', 'exchange', 'offer_id']);
+    await this.backfillBookSnapshots();
+
+    log.debug('P2P table migrations applied');
+  }
+
+  /**
+   * Record the snapshots stored before book_snapshots existed, once, while the table is still empty.
+   * CDC heartbeats carry their stream; a snapshot-mode sweep is keyed by its watched market's current
+   * payment methods, read from its archived responses. Snapshots of neither kind cannot be attributed.
+   */
+  private async backfillBookSnapshots(): Promise<void> {
+    const connection = this.ensureConnection();
+    const [{ count }] = this.formatResults(await connection.runAndReadAll(`SELECT COUNT(*) AS count FROM book_snapshots`));
+    if (Number(count) > 0) return;
+
+    await connection.run(`
+      INSERT OR IGNORE INTO book_snapshots (stream, fetch_time, market_id, exchange, token_id, currency_id, side, offers)
+      SELECT stream, fetch_time, NULL, exchange, token_id, currency_id, side, offers
+      FROM offer_heartbeats
+    `);
+    await connection.run(`
+      INSERT OR IGNORE INTO book_snapshots (stream, fetch_time, market_id, exchange, token_id, currency_id, side, offers)
+      SELECT
+        concat_ws(':', r.exchange, r.token_id, r.currency_id, r.side,
+          array_to_string(list_sort(list_transform(m.payment_methods, method -> method::VARCHAR)), ',')),
+        r.fetch_time, r.market_id, r.exchange, r.token_id, r.currency_id, r.side,
+        (
+          SELECT COUNT(*) FROM p2p_offers o
+          WHERE o.fetch_time = r.fetch_time AND o.exchange = r.exchange AND o.token_id = r.token_id
+            AND o.currency_id = r.currency_id AND o.side = r.side
+        )
+      FROM (SELECT DISTINCT fetch_time, market_id, exchange, token_id, currency_id, side FROM raw_responses) r
+      JOIN watched_markets m ON m.id = r.market_id
+    `);
+  }
+
+  /**
+   * Rebuild a table whose primary key differs from `columns` under its current definition.
+   * DuckDB cannot alter a primary key, so the rows are copied into a freshly created table;
+   * its indexes are dropped first and recreated by `createIndexes`.
+   */
+  private async migratePrimaryKey(table: string, columns: string[]): Promise<void> {
+    const connection = this.ensureConnection();
+    const [current] = this.formatResults(await connection.runAndReadAll(
+      `
+        SELECT constraint_column_names AS columns FROM duckdb_constraints()
+        WHERE table_name = '${table}' AND constraint_type = 'PRIMARY KEY'
+      `
+    ));
+    if (current && (current.columns as string[]).join(',') === columns.join(',')) return;
+
+    const definition = this.p2pTables().find((entry) => entry.name === table);
+    if (!definition) throw new Error(`No definition for table ${table}`);
+
+    const indexes = this.formatResults(await connection.runAndReadAll(
+      `SELECT index_name FROM duckdb_indexes() WHERE table_name = '${table}'`
+    ));
+
+    await connection.run('BEGIN TRANSACTION');
+    try {
+      for (const { index_name } of indexes) {
+        await connection.run(`DROP INDEX IF EXISTS ${index_name}`);
+      }
+      await connection.run(`ALTER TABLE ${table} RENAME TO ${table}_rekey`);
+      await connection.run(definition.sql);
+      await connection.run(`INSERT OR IGNORE INTO ${table} BY NAME SELECT * FROM ${table}_rekey`);
+      await connection.run(`DROP TABLE ${table}_rekey`);
+      await connection.run('COMMIT');
+    } catch (error) {
+      await connection.run('ROLLBACK');
+      throw error;
+    }
+
+    log.info(`Rebuilt ${table} with primary key (${columns.join(', ')})`);
+  }
+
   /**
    * Create database indexes for performance optimization
    */
   private async createIndexes(): Promise<void> {
+    const connection = this.ensureConnection();
     const indexes = [
       // Core table indexes
       'CREATE INDEX IF NOT EXISTS idx_users_email ON users(email)',
@@ -285,30 +774,169 @@ class Database {
       'CREATE INDEX IF NOT EXISTS idx_p2p_offers_price ON p2p_offers(price)',
       'CREATE INDEX IF NOT EXISTS idx_p2p_offers_token_currency ON p2p_offers(token_id, currency_id)',
       'CREATE INDEX IF NOT EXISTS idx_p2p_offers_side ON p2p_offers(side)',
+      'CREATE INDEX IF NOT EXISTS idx_p2p_offers_exchange ON p2p_offers(exchange)',
+      'CREATE INDEX IF NOT EXISTS idx_p2p_offers_user ON p2p_offers(exchange, user_id)',
       'CREATE INDEX IF NOT EXISTS idx_symbol_info_token_currency ON symbol_info(token_id, currency_id)',
-      'CREATE INDEX IF NOT EXISTS idx_offer_payments_fetch_offer ON offer_payments(fetch_time, offer_id)',
-      'CREATE INDEX IF NOT EXISTS idx_trading_preferences_fetch_offer ON trading_preferences(fetch_time, offer_id)'
+      'CREATE INDEX IF NOT EXISTS idx_offer_payments_fetch_offer ON offer_payments(fetch_time, exchange, offer_id)',
+      'CREATE INDEX IF NOT EXISTS idx_trading_preferences_fetch_offer ON trading_preferences(fetch_time, exchange, offer_id)',
+      'CREATE INDEX IF NOT EXISTS idx_watched_markets_pair ON watched_markets(exchange, token_id, currency_id)',
+      'CREATE INDEX IF NOT EXISTS idx_fetch_runs_started ON fetch_runs(started_at)',
+      'CREATE INDEX IF NOT EXISTS idx_fetch_runs_market ON fetch_runs(market_id)',
+      'CREATE INDEX IF NOT EXISTS idx_raw_responses_time ON raw_responses(fetch_time)',
+      'CREATE INDEX IF NOT EXISTS idx_offer_versions_open ON offer_versions(stream, valid_to)',
+      'CREATE INDEX IF NOT EXISTS idx_offer_heartbeats_time ON offer_heartbeats(fetch_time)',
+      'CREATE INDEX IF NOT EXISTS idx_book_snapshots_pair ON book_snapshots(exchange, token_id, currency_id, fetch_time)',
+      'CREATE INDEX IF NOT EXISTS idx_offer_events_offer ON offer_events(offer_id, event_time)',
+      'CREATE INDEX IF NOT EXISTS idx_offer_events_stream ON offer_events(stream, offer_id)',
+      'CREATE INDEX IF NOT EXISTS idx_reference_rates_pair ON reference_rates(base_id, quote_id, rate_time)',
+      'CREATE INDEX IF NOT EXISTS idx_alert_rules_user ON alert_rules(user_id)',
+      'CREATE INDEX IF NOT EXISTS idx_alert_rules_pair ON alert_rules(exchange, token_id, currency_id)',
+      'CREATE INDEX IF NOT EXISTS idx_alert_events_user ON alert_events(user_id, triggered_at)',
+      'CREATE INDEX IF NOT EXISTS idx_webhooks_user ON webhooks(user_id)',
+      'CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook ON webhook_deliveries(webhook_id, created_at)',
+      'CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_status ON webhook_deliveries(status)'
     ];
 
     for (const indexSql of indexes) {
-      await this.connection.run(indexSql);
+      await connection.run(indexSql);
     }
     
     log.debug('Database indexes created');
   }
 
+  /**
+   * Create the views analytics read offers through.
+   * Each unions the rows stored in snapshot mode with the rows CDC mode implies:
+   * a version appears at every heartbeat of its stream inside [valid_from, valid_to).
+   * `offer_book_at(ts)` returns the latest stored book of every market side at or before `ts`.
+   */
+  private async createSnapshotViews(): Promise<void> {
+    const connection = this.ensureConnection();
+    const views = [
+      `
+        CREATE OR REPLACE VIEW offer_version_sightings AS
+        SELECT h.fetch_time, v.*
+        FROM offer_heartbeats h
+        JOIN offer_versions v
+          ON v.stream = h.stream
+          AND v.valid_from <= h.fetch_time
+          AND (v.valid_to IS NULL OR h.fetch_time < v.valid_to)
+          AND h.fetch_time <= v.last_seen_at
+      `,
+      `
+        CREATE OR REPLACE VIEW offer_snapshots AS
+        SELECT fetch_time, ${OFFER_SNAPSHOT_COLUMNS.join(', ')} FROM p2p_offers
+        UNION ALL
+        SELECT fetch_time, ${OFFER_SNAPSHOT_COLUMNS.join(', ')} FROM offer_version_sightings
+      `,
+      `
+        CREATE OR REPLACE VIEW offer_payment_snapshots AS
+        SELECT fetch_time, exchange, offer_id, method_id FROM offer_payments
+        UNION ALL
+        SELECT fetch_time, exchange, offer_id, UNNEST(payments) AS method_id FROM offer_version_sightings
+      `,
+      `
+        CREATE OR REPLACE VIEW trading_preference_snapshots AS
+        SELECT fetch_time, exchange, ${PREFERENCE_SNAPSHOT_COLUMNS.join(', ')} FROM trading_preferences
+        UNION ALL
+        SELECT fetch_time, exchange, ${PREFERENCE_SNAPSHOT_COLUMNS.join(', ')} FROM offer_version_sightings
+        WHERE has_preferences
+      `,
+      `
+        CREATE OR REPLACE MACRO offer_book_at(ts) AS TABLE
+        SELECT o.*
+        FROM offer_snapshots o
+        JOIN (
+          SELECT exchange, token_id, currency_id, side, MAX(fetch_time) AS fetch_time
+          FROM offer_snapshots
+          WHERE fetch_time <= ts
+          GROUP BY exchange, token_id, currency_id, side
+        ) latest
+          ON o.exchange = latest.exchange AND o.token_id = latest.token_id
+          AND o.currency_id = latest.currency_id AND o.side = latest.side
+          AND o.fetch_time = latest.fetch_time
+      `
+    ];
+
+    for (const viewSql of views) {
+      await connection.run(viewSql);
+    }
+
+    log.debug('Snapshot views created');
+  }
+
+  /**
+   * Seed the watchlist with the default market on first start
+   */
+  private async seedWatchedMarkets(): Promise<void> {
+    const connection = this.ensureConnection();
+    const reader = await connection.runAndReadAll('SELECT COUNT(*) AS count FROM watched_markets');
+    const [{ count }] = this.formatResults(reader);
+    if (Number(count) > 0) return;
+
+    await this.run(
+      `
+        INSERT INTO watched_markets (
+          id, exchange, token_id, currency_id, sides, payment_methods,
+          page_depth, poll_interval_sec, enabled
+        ) VALUES (?, ?, ?, ?, ?::SMALLINT[], ?::INTEGER[], ?, ?, ?)
+      `,
+      [
+        this.generateId(),
+        DEFAULT_MARKET.EXCHANGE,
+        DEFAULT_MARKET.TOKEN_ID,
+        DEFAULT_MARKET.CURRENCY_ID,
+        DEFAULT_MARKET.SIDES,
+        DEFAULT_MARKET.PAYMENT_METHODS,
+        DEFAULT_MARKET.PAGE_DEPTH,
+        DEFAULT_MARKET.POLL_INTERVAL_SEC,
+        true
+      ]
+    );
+
+    log.info(`Seeded default watched market ${DEFAULT_MARKET.TOKEN_ID}/${DEFAULT_MARKET.CURRENCY_ID}`);
+  }
+
+  /**
+   * Load the bundled payment method catalog.
+   * Entries only replace placeholders and earlier seeds, never Bybit syncs or admin overrides.
+   */
+  private async seedPaymentMethods(): Promise<void> {
+    const now = new Date();
+    await this.insertMany(
+      'payment_methods',
+      ['method_id', 'name', 'type', 'country', 'currency_id', 'source', 'updated_at'],
+      paymentMethodSeed.map((entry) => ({ ...entry, source: 'seed', updated_at: now })),
+      {
+        onConflict: `
+          ON CONFLICT (method_id) DO UPDATE SET
+            name = excluded.name, type = excluded.type, country = excluded.country,
+            currency_id = excluded.currency_id, source = excluded.source, updated_at = excluded.updated_at
+          WHERE payment_methods.source IN ('unknown', 'seed')
+        `
+      }
+    );
+
+    log.debug(`Seeded ${paymentMethodSeed.length} payment methods`);
+  }
+
   /**
    * Execute a query with parameters and return all results
    */
-  async query(sql: string, params: any[] = []): Promise<QueryResult[]> {
-    this.ensureConnection();
-    
+  async query<T = QueryResult>(sql: string, params: unknown[] = []): Promise<T[]> {
+    return await this.queryOn<T>(this.ensureConnection(), sql, params);
+  }
+
+  /**
+   * Execute a query on the given connection
+   */
+  private async queryOn<T>(connection: DuckDBConnection, sql: string, params: unknown[]): Promise<T[]> {
     try {
       if (params.length === 0) {
-        return await this.executeSimpleQuery(sql);
+        return await this.executeSimpleQuery(connection, sql) as T[];
       }
       
-      return await this.executeParameterizedQuery(sql, params);
+      return await this.executeParameterizedQuery(connection, sql, params) as T[];
     } catch (error) {
       log.error('Query execution failed:', { sql, params, error });
       throw new Error(`Query failed: ${error}`);
@@ -318,16 +946,16 @@ class Database {
   /**
    * Execute a simple query without parameters
    */
-  private async executeSimpleQuery(sql: string): Promise<QueryResult[]> {
-    const reader = await this.connection.runAndReadAll(sql);
+  private async executeSimpleQuery(connection: DuckDBConnection, sql: string): Promise<QueryResult[]> {
+    const reader = await connection.runAndReadAll(sql);
     return this.formatResults(reader);
   }
 
   /**
    * Execute a parameterized query
    */
-  private async executeParameterizedQuery(sql: string, params: any[]): Promise<QueryResult[]> {
-    const prepared = await this.connection.prepare(sql);
+  private async executeParameterizedQuery(connection: DuckDBConnection, sql: string, params: unknown[]): Promise<QueryResult[]> {
+    const prepared = await connection.prepare(sql);
     
     this.bindParameters(prepared, params);
     
@@ -338,7 +966,7 @@ class Database {
   /**
    * Bind parameters to prepared statement
    */
-  private bindParameters(prepared: any, params: any[]): void {
+  private bindParameters(prepared: DuckDBPreparedStatement, params: unknown[]): void {
     params.forEach((param, index) => {
       const position = index + 1;
       
@@ -356,6 +984,11 @@ class Database {
         }
       } else if (typeof param === 'boolean') {
         prepared.bindBoolean(position, param);
+      } else if (param instanceof Uint8Array) {
+        prepared.bindBlob(position, param);
+      } else if (Array.isArray(param)) {
+        // Lists are bound as JSON text; cast in SQL, e.g. `?::INTEGER[]`
+        prepared.bindVarchar(position, JSON.stringify(param));
       } else {
         prepared.bindVarchar(position, String(param));
       }
@@ -365,7 +998,7 @@ class Database {
   /**
    * Safely bind null parameters
    */
-  private bindNullParameter(prepared: any, position: number): void {
+  private bindNullParameter(prepared: DuckDBPreparedStatement, position: number): void {
     try {
       prepared.bindNull(position);
     } catch {
@@ -375,29 +1008,19 @@ class Database {
   }
 
   /**
-   * Format query results into objects
+   * Format query results into objects keyed by column name,
+   * converting DuckDB values (timestamps, lists, decimals) to their JS equivalents
    */
-  private formatResults(reader: any): QueryResult[] {
-    const columns = reader.getColumns();
-    
-    return reader.getRows().map((row: any[]) => {
-      const result: QueryResult = {};
-      
-      row.forEach((value, index) => {
-        const columnName = columns[index]?.name || `column_${index}`;
-        result[columnName] = value;
-      });
-      
-      return result;
-    });
+  private formatResults(reader: DuckDBResultReader): QueryResult[] {
+    return reader.getRowObjectsJS();
   }
 
   /**
    * Execute a query and return the first result
    */
-  async get(sql: string, params: any[] = []): Promise<QueryResult | null> {
+  async get<T = QueryResult>(sql: string, params: unknown[] = []): Promise<T | null> {
     try {
-      const results = await this.query(sql, params);
+      const results = await this.query<T>(sql, params);
       return results[0] || null;
     } catch (error) {
       log.error('Get query failed:', { sql, params, error });
@@ -408,14 +1031,19 @@ class Database {
   /**
    * Execute a query and return execution info
    */
-  async run(sql: string, params: any[] = []): Promise<RunResult> {
-    this.ensureConnection();
-    
+  async run(sql: string, params: unknown[] = []): Promise<RunResult> {
+    return await this.runOn(this.ensureConnection(), sql, params);
+  }
+
+  /**
+   * Execute a statement on the given connection
+   */
+  private async runOn(connection: DuckDBConnection, sql: string, params: unknown[]): Promise<RunResult> {
     try {
       if (params.length === 0) {
-        await this.connection.run(sql);
+        await connection.run(sql);
       } else {
-        const prepared = await this.connection.prepare(sql);
+        const prepared = await connection.prepare(sql);
         this.bindParameters(prepared, params);
         await prepared.run();
       }
@@ -428,26 +1056,96 @@ class Database {
   }
 
   /**
-   * Execute multiple queries in a transaction
+   * Insert many records with batched multi-row `VALUES` statements instead of one
+   * statement per row. `conflict` turns the batches into `INSERT OR REPLACE` /
+   * `INSERT OR IGNORE`, while `onConflict` appends an `ON CONFLICT` clause for upserts
+   * that merge into existing rows; pass a transaction as `executor` to make them part of it.
+   * Multi-row `VALUES` is used rather than an appender so upserts and transactions keep working.
    */
-  async transaction(queries: Array<{ sql: string; params?: any[] }>): Promise<void> {
-    this.ensureConnection();
-    
-    try {
-      await this.connection.run('BEGIN TRANSACTION');
-      
-      for (const query of queries) {
-        await this.run(query.sql, query.params || []);
+  async insertMany<T extends object>(
+    table: string,
+    columns: Array<keyof T & string>,
+    records: T[],
+    options: { conflict?: 'replace' | 'ignore'; onConflict?: string; executor?: Queryable; batchSize?: number } = {}
+  ): Promise<RunResult> {
+    if (records.length === 0) return { changes: 0 };
+
+    const executor = options.executor || this;
+    const batchSize = options.batchSize || BULK_INSERT_BATCH_SIZE;
+    const verb = options.conflict === 'replace'
+      ? 'INSERT OR REPLACE'
+      : options.conflict === 'ignore' ? 'INSERT OR IGNORE' : 'INSERT';
+    const placeholders = `(${columns.map(() => '?').join(', ')})`;
+    const conflictClause = options.onConflict ? ` ${options.onConflict}` : '';
+
+    for (let start = 0; start < records.length; start += batchSize) {
+      const batch = records.slice(start, start + batchSize);
+      const sql = `${verb} INTO ${table} (${columns.join(', ')}) VALUES ${batch.map(() => placeholders).join(', ')}${conflictClause}`;
+      const params = batch.flatMap((record) => columns.map((column) => record[column]));
+      await executor.run(sql, params);
+    }
+
+    return { changes: records.length };
+  }
+
+  /**
+   * Execute work in a transaction.
+   * Either pass a list of statements, or a callback that issues its statements
+   * through the given executor; the transaction commits when the callback resolves
+   * and rolls back when it throws. Transactions are serialized and run on a
+   * dedicated connection, so other queries only ever see committed data.
+   */
+  async transaction<T>(work: (tx: Queryable) => Promise<T>): Promise<T>;
+  async transaction(queries: Array<{ sql: string; params?: unknown[] }>): Promise<void>;
+  async transaction<T>(
+    workOrQueries: ((tx: Queryable) => Promise<T>) | Array<{ sql: string; params?: unknown[] }>
+  ): Promise<T | void> {
+    const connection = this.ensureTransactionConnection();
+
+    const work = Array.isArray(workOrQueries)
+      ? async (tx: Queryable) => {
+        for (const query of workOrQueries) {
+          await tx.run(query.sql, query.params || []);
+        }
       }
-      
-      await this.connection.run('COMMIT');
+      : workOrQueries;
+
+    const release = await this.acquireTransactionLock();
+    const tx: Queryable = {
+      query: <R>(sql: string, params: unknown[] = []) => this.queryOn<R>(connection, sql, params),
+      get: async <R>(sql: string, params: unknown[] = []) => (await this.queryOn<R>(connection, sql, params))[0] || null,
+      run: (sql, params = []) => this.runOn(connection, sql, params),
+    };
+
+    try {
+      await connection.run('BEGIN TRANSACTION');
+      const result = await work(tx);
+      await connection.run('COMMIT');
+      return result;
     } catch (error) {
-      await this.connection.run('ROLLBACK');
+      try {
+        await connection.run('ROLLBACK');
+      } catch {
+        // The transaction may not have started
+      }
       log.error('Transaction failed:', error);
-      throw new Error(`Transaction failed: ${error}`);
+      throw error;
+    } finally {
+      release();
     }
   }
 
+  /**
+   * Wait for earlier transactions to finish; resolves with the release function
+   */
+  private async acquireTransactionLock(): Promise<() => void> {
+    let release!: () => void;
+    const previous = this.transactionQueue;
+    this.transactionQueue = new Promise((resolve) => (release = resolve));
+    await previous;
+    return release;
+  }
+
   /**
    * Check if database connection is active
    */
@@ -457,11 +1155,24 @@ class Database {
 
   /**
    * Ensure database connection is active
+   * @returns The connection used outside transactions
+   */
+  private ensureConnection(): DuckDBConnection {
+    if (!this.isConnected || !this.connection) {
+      throw new Error('Database connection is not active');
+    }
+    return this.connection;
+  }
+
+  /**
+   * Ensure database connection is active
+   * @returns The connection dedicated to transactions
    */
-  private ensureConnection(): void {
-    if (!this.isConnectionActive) {
+  private ensureTransactionConnection(): DuckDBConnection {
+    if (!this.isConnected || !this.transactionConnection) {
       throw new Error('Database connection is not active');
     }
+    return this.transactionConnection;
   }
 
   /**
@@ -471,6 +1182,11 @@ class Database {
     if (!this.isConnected) return;
     
     try {
+      if (this.transactionConnection) {
+        this.transactionConnection.closeSync();
+        this.transactionConnection = null;
+      }
+
       if (this.connection) {
         this.connection.closeSync();
         this.connection = null;
@@ -527,4 +1243,4 @@ const db = new Database(dbPath);
 await db.connect();
 
 export default db;
-export { Database, type QueryResult, type RunResult, type DatabaseConfig };
\ No newline at end of file
+export { Database, type QueryResult, type RunResult, type DatabaseConfig, type Queryable };
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { VolumeProfileChart } from './VolumeProfile.tsx';
+import { DepthChart, type DepthData } from './DepthChart.tsx';
 import './App.css';
 
 // Trade side constants following Bybit API convention
@@ -28,6 +29,7 @@ interface P2POffer {
   currency_id: string;
   side: number;
   fetch_time: string;
+  payment_methods?: string[];
   nick_name?: string;
   user_blocked?: boolean;
   exchange_id?: string;
@@ -40,6 +42,34 @@ interface ApiResponse {
   data: P2POffer[];
 }
 
+interface DepthLevel {
+  price: number;
+  cumulative_quantity: number;
+}
+
+interface OrderBookResponse {
+  success: boolean;
+  data: {
+    token_id: string;
+    currency_id: string;
+    bids: { fetch_time: string | null; levels: DepthLevel[] };
+    asks: { fetch_time: string | null; levels: DepthLevel[] };
+  };
+}
+
+// Map an order book snapshot to the depth chart's cumulative points
+const transformToDepth = (book: OrderBookResponse['data']): DepthData => {
+  const toPoints = (levels: DepthLevel[]) => levels.map(level => ({
+    price: level.price,
+    cumulative: level.cumulative_quantity
+  }));
+
+  return {
+    bids: toPoints(book.bids.levels),
+    asks: toPoints(book.asks.levels)
+  };
+};
+
 // Add utility function to transform P2P offers to volume profile data
 const transformToVolumeProfile = (offers: P2POffer[]): VolumeData[] => {
   if (!offers.length) return [];
@@ -114,6 +144,7 @@ const transformToVolumeProfile = (offers: P2POffer[]): VolumeData[] => {
 
 function App() {
   const [offers, setOffers] = useState<P2POffer[]>([]);
+  const [depth, setDepth] = useState<DepthData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -133,6 +164,7 @@ function App() {
       
       if (data.success) {
         setOffers(data.data);
+        await fetchDepth(data.data[0]);
       } else {
         setError('Failed to fetch offers');
       }
@@ -143,6 +175,22 @@ function App() {
     }
   };
 
+  // Depth of the latest book snapshot for the pair of the newest offer
+  const fetchDepth = async (offer?: P2POffer) => {
+    const tokenId = offer?.token_id ?? 'USDT';
+    const currencyId = offer?.currency_id ?? 'USD';
+
+    try {
+      // The book endpoint validates its query, so bypass the cache instead of adding a timestamp
+      const response = await fetch(`/api/p2p/book/${tokenId}/${currencyId}`, { cache: 'no-store' });
+      const data: OrderBookResponse = await response.json();
+      setDepth(data.success ? transformToDepth(data.data) : null);
+    } catch {
+      // The depth chart is optional: the rest of the dashboard works without a stored snapshot
+      setDepth(null);
+    }
+  };
+
   const fetchFromBybit = async () => {
     try {
       setLoading(true);
@@ -200,13 +248,24 @@ function App() {
       </header>
       
       <main className="app-main">
-        <div className="chart-container">
-          <h3>Volume Profile</h3>
-          <VolumeProfileChart 
-            data={transformToVolumeProfile(offers)}
-            width={800}
-            height={600}
-          />
+        <div className="charts-row">
+          <div className="chart-container">
+            <h3>Volume Profile</h3>
+            <VolumeProfileChart 
+              data={transformToVolumeProfile(offers)}
+              width={800}
+              height={600}
+            />
+          </div>
+
+          <div className="chart-container">
+            <h3>Order Book Depth</h3>
+            <DepthChart
+              data={depth ?? { bids: [], asks: [] }}
+              width={500}
+              height={600}
+            />
+          </div>
         </div>
         
         <div className="offers-summary">
@@ -238,6 +297,7 @@ function App() {
                   <th>Price</th>
                   <th>Quantity</th>
                   <th>Side</th>
+                  <th>Payment</th>
                   <th>Time</th>
                 </tr>
               </thead>
@@ -248,6 +308,7 @@ function App() {
                     <td>{offer.price}</td>
                     <td>{offer.total_quantity}</td>
                     <td>{offer.side === TRADE_SIDE.BUY ? 'Buy' : offer.side === TRADE_SIDE.SELL ? 'Sell' : 'Unknown'}</td>
+                    <td>{offer.payment_methods?.join(', ')}</td>
                     <td>{new Date(offer.fetch_time).toLocaleString()}</td>
                   </tr>
                 ))}
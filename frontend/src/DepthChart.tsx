@@ -0,0 +1,122 @@
+// React import not needed with new JSX transform
+import { scaleLinear } from '@visx/scale';
+import { AxisLeft, AxisBottom } from '@visx/axis';
+import { Group } from '@visx/group';
+import { AreaClosed } from '@visx/shape';
+
+interface DepthPoint {
+  price: number;
+  cumulative: number;
+}
+
+interface DepthData {
+  bids: DepthPoint[]; // best (highest) price first
+  asks: DepthPoint[]; // best (lowest) price first
+}
+
+interface DepthChartProps {
+  data: DepthData;
+  width: number;
+  height: number;
+  margin?: { top: number; right: number; bottom: number; left: number };
+}
+
+// Turn cumulative levels into a staircase: depth only grows once the price reaches the next level
+const toSteps = (levels: DepthPoint[]): DepthPoint[] =>
+  levels.flatMap((level, index) => [
+    { price: level.price, cumulative: index === 0 ? 0 : levels[index - 1].cumulative },
+    level
+  ]);
+
+// SVG renderer for the cumulative depth curve of one book snapshot
+function SvgDepthChart({
+  data,
+  width,
+  height,
+  margin = { top: 20, right: 20, bottom: 30, left: 60 }
+}: DepthChartProps) {
+  const points = [...data.bids, ...data.asks];
+
+  if (!points.length) {
+    return (
+      <div style={{ width, height, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+        <p>No depth data available</p>
+      </div>
+    );
+  }
+
+  const prices = points.map(point => point.price);
+  const maxDepth = Math.max(...points.map(point => point.cumulative));
+
+  const xScale = scaleLinear({
+    domain: [Math.min(...prices), Math.max(...prices)],
+    range: [margin.left, width - margin.right]
+  });
+
+  const yScale = scaleLinear({
+    domain: [0, maxDepth],
+    range: [height - margin.bottom, margin.top],
+    nice: true
+  });
+
+  return (
+    <svg width={width} height={height}>
+      <Group>
+        {/* Bids (green, left of the spread) */}
+        <AreaClosed<DepthPoint>
+          data={toSteps(data.bids)}
+          x={point => xScale(point.price)}
+          y={point => yScale(point.cumulative)}
+          yScale={yScale}
+          fill="rgba(0, 160, 0, 0.3)"
+          stroke="rgba(0, 160, 0, 0.8)"
+          strokeWidth={1.5}
+        />
+        {/* Asks (red, right of the spread) */}
+        <AreaClosed<DepthPoint>
+          data={toSteps(data.asks)}
+          x={point => xScale(point.price)}
+          y={point => yScale(point.cumulative)}
+          yScale={yScale}
+          fill="rgba(220, 38, 127, 0.3)"
+          stroke="rgba(220, 38, 127, 0.8)"
+          strokeWidth={1.5}
+        />
+
+        {/* Axes */}
+        <AxisLeft
+          scale={yScale}
+          left={margin.left}
+          stroke="#333"
+          tickStroke="#333"
+          tickLabelProps={{
+            fill: '#333',
+            fontSize: 11,
+            textAnchor: 'end',
+            dy: '0.33em',
+            dx: -4,
+          }}
+        />
+        <AxisBottom
+          scale={xScale}
+          top={height - margin.bottom}
+          numTicks={6}
+          tickFormat={(value) => `$${Number(value).toFixed(3)}`}
+          stroke="#333"
+          tickStroke="#333"
+          tickLabelProps={{
+            fill: '#333',
+            fontSize: 11,
+            textAnchor: 'middle',
+          }}
+        />
+      </Group>
+    </svg>
+  );
+}
+
+export function DepthChart(props: DepthChartProps) {
+  return <SvgDepthChart {...props} />;
+}
+
+export type { DepthData, DepthPoint };
@@ -0,0 +1,93 @@
+/**
+ * Unit of a bucket spec: minutes, hours, days or weeks
+ */
+export type BucketUnit = 'm' | 'h' | 'd' | 'w';
+
+/**
+ * A parsed time bucket such as `15m` or `4h`
+ */
+export interface BucketSpec {
+  /** Canonical form, e.g. `15m` */
+  spec: string;
+  amount: number;
+  unit: BucketUnit;
+  seconds: number;
+  /** DuckDB interval literal bound to `time_bucket`, e.g. `15 minutes` */
+  interval: string;
+}
+
+class BucketHelper {
+  /**
+   * Amounts allowed per unit: only those that divide the next unit, so buckets line up with the clock
+   */
+  private static readonly UNITS: Record<BucketUnit, { seconds: number; name: string; amounts: number[] }> = {
+    m: { seconds: 60, name: 'minutes', amounts: [1, 2, 3, 5, 10, 15, 20, 30] },
+    h: { seconds: 60 * 60, name: 'hours', amounts: [1, 2, 3, 4, 6, 8, 12] },
+    d: { seconds: 24 * 60 * 60, name: 'days', amounts: [1] },
+    w: { seconds: 7 * 24 * 60 * 60, name: 'weeks', amounts: [1] },
+  };
+
+  /**
+   * Granularity names accepted before bucket specs existed
+   */
+  private static readonly ALIASES: Record<string, string> = {
+    'minute': '1m',
+    'hour': '1h',
+    'day': '1d',
+    'week': '1w',
+    '1 minute': '1m',
+    '1 hour': '1h',
+    '1 day': '1d',
+    '1 week': '1w',
+  };
+
+  /**
+   * Parse a bucket spec (`<amount><m|h|d|w>`, or a legacy name such as `hour`)
+   * @param value
+   * @param maxSpec Largest bucket accepted, e.g. `1d`
+   * @returns BucketSpec | null Returns null for anything unsupported
+   */
+  public static parse(value: string, maxSpec?: string): BucketSpec | null {
+    const normalized = value.trim().toLowerCase();
+    const match = /^(\d{1,3})([mhdw])$/.exec(BucketHelper.ALIASES[normalized] ?? normalized);
+    if (!match) return null;
+
+    const amount = parseInt(match[1]);
+    const unit = match[2] as BucketUnit;
+    const definition = BucketHelper.UNITS[unit];
+    if (!definition.amounts.includes(amount)) return null;
+
+    const bucket: BucketSpec = {
+      spec: `${amount}${unit}`,
+      amount,
+      unit,
+      seconds: amount * definition.seconds,
+      interval: `${amount} ${definition.name}`,
+    };
+
+    const max = maxSpec ? BucketHelper.parse(maxSpec) : null;
+    return max && bucket.seconds > max.seconds ? null : bucket;
+  }
+
+  /**
+   * Whether a value parses as a bucket spec no larger than `maxSpec`
+   * @param value
+   * @param maxSpec
+   * @returns boolean
+   */
+  public static isValid(value: string, maxSpec?: string): boolean {
+    return BucketHelper.parse(value, maxSpec) !== null;
+  }
+
+  /**
+   * SQL expression bucketing `column`; bind the spec's `interval` to its placeholder.
+   * `column` must be a column reference written in code, never user input.
+   * @param column
+   * @returns string
+   */
+  public static sql(column: string): string {
+    return `time_bucket(CAST(? AS INTERVAL), ${column})`;
+  }
+}
+
+export default BucketHelper;
@@ -0,0 +1,24 @@
+class CompressionHelper {
+  /**
+   * Gzip a string
+   * @param text
+   * @returns Promise<Uint8Array> Returns the gzip-compressed UTF-8 bytes
+   */
+  public static async gzip(text: string): Promise<Uint8Array> {
+    const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('gzip'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  }
+
+  /**
+   * Gunzip bytes produced by `gzip`
+   * @param bytes
+   * @returns Promise<string> Returns the decompressed string
+   */
+  public static async gunzip(bytes: Uint8Array): Promise<string> {
+    // Copy into a plain ArrayBuffer-backed view: BLOB columns come back as pooled Node buffers
+    const stream = new Blob([new Uint8Array(bytes)]).stream().pipeThrough(new DecompressionStream('gzip'));
+    return await new Response(stream).text();
+  }
+}
+
+export default CompressionHelper;
@@ -0,0 +1,51 @@
+import type { Response } from 'jsr:@oak/oak';
+import { Status } from 'jsr:@oak/oak';
+
+/**
+ * Utility function to serialize BigInt values to strings for JSON serialization
+ * Dates are emitted as ISO strings
+ */
+export function serializeBigInts(obj: any): any {
+  if (obj === null || obj === undefined) {
+    return obj;
+  }
+
+  if (typeof obj === 'bigint') {
+    return obj.toString();
+  }
+
+  if (obj instanceof Date) {
+    return obj.toISOString();
+  }
+
+  if (Array.isArray(obj)) {
+    return obj.map(serializeBigInts);
+  }
+
+  if (typeof obj === 'object') {
+    const serialized: any = {};
+    for (const [key, value] of Object.entries(obj)) {
+      serialized[key] = serializeBigInts(value);
+    }
+    return serialized;
+  }
+
+  return obj;
+}
+
+/**
+ * Write a `{ success: false }` envelope for an error, honouring the status of
+ * errors raised through `throwError` (NotFound, BadRequest, ...)
+ */
+export function sendError(
+  response: Response,
+  error: unknown,
+  fallbackStatus: number = Status.InternalServerError,
+): void {
+  const { status, message } = error as { status?: number; message?: string };
+  response.status = status || fallbackStatus;
+  response.body = {
+    success: false,
+    message: message || 'Internal server error'
+  };
+}
@@ -0,0 +1,36 @@
+const encoder = new TextEncoder();
+
+class SignatureHelper {
+  /**
+   * HMAC-SHA256 of a message
+   * @param secret
+   * @param message
+   * @returns Promise<string> Returns the lowercase hex digest
+   */
+  public static async hmacSha256(secret: string, message: string): Promise<string> {
+    const key = await crypto.subtle.importKey(
+      'raw',
+      encoder.encode(secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign'],
+    );
+    const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+    return SignatureHelper.toHex(new Uint8Array(signature));
+  }
+
+  /**
+   * Random secret suitable for signing
+   * @param bytes Length of the secret in bytes
+   * @returns string Returns the secret as hex
+   */
+  public static randomSecret(bytes: number = 32): string {
+    return SignatureHelper.toHex(crypto.getRandomValues(new Uint8Array(bytes)));
+  }
+
+  private static toHex(bytes: Uint8Array): string {
+    return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  }
+}
+
+export default SignatureHelper;
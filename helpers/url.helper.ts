@@ -0,0 +1,145 @@
+/**
+ * IPv4 ranges that do not lead to a public host: [first octets, prefix length]
+ */
+const PRIVATE_IPV4_RANGES: Array<[number[], number]> = [
+  [[0], 8], // "this" network
+  [[10], 8], // private
+  [[100, 64], 10], // carrier-grade NAT
+  [[127], 8], // loopback
+  [[169, 254], 16], // link-local, including cloud metadata endpoints
+  [[172, 16], 12], // private
+  [[192, 168], 16], // private
+  [[198, 18], 15], // benchmarking
+  [[224], 4], // multicast
+  [[240], 4], // reserved and broadcast
+];
+
+class UrlHelper {
+  /**
+   * Whether a URL may be called by the server on a user's behalf: http(s) to a public host, or to a host of `allowedHosts`
+   * @param value
+   * @param allowedHosts Hostnames exempt from the public host check, e.g. `localhost` in development
+   * @returns boolean
+   */
+  public static isPublicHttpUrl(value: string, allowedHosts: string[] = []): boolean {
+    let url: URL;
+    try {
+      url = new URL(value);
+    } catch {
+      return false;
+    }
+    if (!['http:', 'https:'].includes(url.protocol)) {
+      return false;
+    }
+    return UrlHelper.isAllowedHost(url.hostname, allowedHosts) || !UrlHelper.isPrivateHost(url.hostname);
+  }
+
+  /**
+   * Whether a hostname is one of `allowedHosts`
+   * @param hostname As given by `URL.hostname`
+   * @param allowedHosts
+   * @returns boolean
+   */
+  public static isAllowedHost(hostname: string, allowedHosts: string[]): boolean {
+    return allowedHosts.includes(UrlHelper.bare(hostname));
+  }
+
+  /**
+   * Whether a hostname or IP address is local: localhost, or a loopback, private, link-local or reserved address.
+   * Hostnames are not resolved; `URL` already normalizes numeric IPv4 forms such as `2130706433`.
+   * @param hostname As given by `URL.hostname`, IPv6 addresses in brackets or not
+   * @returns boolean
+   */
+  public static isPrivateHost(hostname: string): boolean {
+    const host = UrlHelper.bare(hostname);
+    if (host === '' || host === 'localhost' || host.endsWith('.localhost')) {
+      return true;
+    }
+    if (host.includes(':')) {
+      return UrlHelper.isPrivateIPv6(host);
+    }
+    const octets = UrlHelper.ipv4Octets(host);
+    return octets !== null && UrlHelper.isPrivateIPv4(octets);
+  }
+
+  /**
+   * Whether an IP address literal is an IPv4 or IPv6 address rather than a hostname
+   * @param hostname As given by `URL.hostname`
+   * @returns boolean
+   */
+  public static isIpAddress(hostname: string): boolean {
+    const host = UrlHelper.bare(hostname);
+    return host.includes(':') || UrlHelper.ipv4Octets(host) !== null;
+  }
+
+  private static isPrivateIPv4(octets: number[]): boolean {
+    const address = ((octets[0] << 24) | (octets[1] << 16) | (octets[2] << 8) | octets[3]) >>> 0;
+    return PRIVATE_IPV4_RANGES.some(([start, bits]) => {
+      const first = ((start[0] << 24) | ((start[1] ?? 0) << 16)) >>> 0;
+      const mask = (0xffffffff << (32 - bits)) >>> 0;
+      return ((address & mask) >>> 0) === first;
+    });
+  }
+
+  private static isPrivateIPv6(host: string): boolean {
+    const groups = UrlHelper.ipv6Groups(host);
+    if (groups === null) {
+      return true;
+    }
+    // Unspecified and loopback
+    if (groups.slice(0, 7).every((group) => group === 0) && groups[7] <= 1) {
+      return true;
+    }
+    // IPv4-mapped (::ffff:a.b.c.d) and IPv4-compatible addresses carry an IPv4 address in their last 32 bits
+    if (groups.slice(0, 5).every((group) => group === 0) && (groups[5] === 0xffff || groups[5] === 0)) {
+      return UrlHelper.isPrivateIPv4([groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff]);
+    }
+    // Unique local fc00::/7, link-local fe80::/10 and multicast ff00::/8
+    return (groups[0] & 0xfe00) === 0xfc00 || (groups[0] & 0xffc0) === 0xfe80 || (groups[0] & 0xff00) === 0xff00;
+  }
+
+  /**
+   * Octets of a dotted IPv4 address, or null if `host` is not one
+   */
+  private static ipv4Octets(host: string): number[] | null {
+    const parts = host.split('.');
+    if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part) && Number(part) <= 255)) {
+      return null;
+    }
+    return parts.map(Number);
+  }
+
+  /**
+   * The eight 16-bit groups of an IPv6 address, or null if `host` is not one
+   */
+  private static ipv6Groups(host: string): number[] | null {
+    let address = host.split('%')[0];
+    // A trailing dotted IPv4 address stands for the last two groups
+    const ipv4 = address.match(/:(\d+\.\d+\.\d+\.\d+)$/);
+    if (ipv4) {
+      const octets = UrlHelper.ipv4Octets(ipv4[1]);
+      if (octets === null) return null;
+      address = `${address.slice(0, -ipv4[1].length)}${((octets[0] << 8) | octets[1]).toString(16)}:${((octets[2] << 8) | octets[3]).toString(16)}`;
+    }
+
+    const halves = address.split('::');
+    if (halves.length > 2) return null;
+    const head = halves[0] ? halves[0].split(':') : [];
+    const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+    const missing = 8 - head.length - tail.length;
+    if ((halves.length === 1 && missing !== 0) || (halves.length === 2 && missing < 1)) return null;
+
+    const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+    if (!groups.every((group) => /^[0-9a-f]{1,4}$/i.test(group))) return null;
+    return groups.map((group) => parseInt(group, 16));
+  }
+
+  /**
+   * Hostname without IPv6 brackets, a trailing dot or uppercase letters
+   */
+  private static bare(hostname: string): string {
+    return hostname.toLowerCase().replace(/^\[(.*)\]$/, '$1').replace(/\.$/, '');
+  }
+}
+
+export default UrlHelper;
@@ -129,3 +129,21 @@ export const auth =
     ctx.state = user;
     await next();
   };
+
+/**
+ * Authenticate requests that carry an access token, like `auth`, and let the others through anonymously.
+ * Public endpoints use it to personalize their response for signed-in users.
+ * @param requiredRights
+ */
+export const optionalAuth =
+  <Path extends string>(requiredRights: string[]): RouterMiddleware<Path> =>
+  async (
+    ctx: RouterContext<Path>,
+    next: () => Promise<unknown>,
+  ): Promise<Error | void> => {
+    if (!extractJwt(ctx.request.headers.get('Authorization'))) {
+      await next();
+      return;
+    }
+    return await auth<Path>(requiredRights)(ctx, next) as Error | void;
+  };
@@ -0,0 +1,228 @@
+import db from '../db/db.ts';
+
+/**
+ * Condition an alert rule watches for on a token pair's latest book:
+ * - `price_above` / `price_below`: best price of `side` above / below `threshold`
+ * - `spread_above`: spread between best bid and best ask above `threshold` percent of the bid
+ * - `liquidity_below`: fiat amount of `side` able to take an order of `amount` below `threshold`
+ * - `merchant_online`: merchant `merchant_id` listed online on either side
+ */
+export type AlertType = 'price_above' | 'price_below' | 'spread_above' | 'liquidity_below' | 'merchant_online';
+
+export const ALERT_TYPES: AlertType[] = ['price_above', 'price_below', 'spread_above', 'liquidity_below', 'merchant_online'];
+
+/**
+ * Alert rule interface: a condition owned by a user.
+ * `active` tells whether the condition held at the last evaluation; a rule fires when it starts to hold.
+ */
+export interface AlertRule {
+  id: string;
+  user_id: string;
+  name: string | null;
+  exchange: string;
+  token_id: string;
+  currency_id: string;
+  market_id: string | null;
+  type: AlertType;
+  side: number | null;
+  threshold: number | null;
+  amount: number | null;
+  merchant_id: bigint | null;
+  cooldown_sec: number;
+  enabled: boolean;
+  active: boolean;
+  last_evaluated_at: Date | null;
+  last_triggered_at: Date | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+/**
+ * Fields of an alert rule set by its owner
+ */
+export type AlertRuleData = Omit<
+  AlertRule,
+  'id' | 'active' | 'last_evaluated_at' | 'last_triggered_at' | 'created_at' | 'updated_at'
+>;
+
+/**
+ * Alert event interface: one firing of a rule, with the value read from the snapshot at `fetch_time`
+ */
+export interface AlertEvent {
+  id: string;
+  rule_id: string;
+  user_id: string;
+  type: AlertType;
+  exchange: string;
+  token_id: string;
+  currency_id: string;
+  side: number | null;
+  value: number | null;
+  threshold: number | null;
+  message: string;
+  fetch_time: Date | null;
+  triggered_at: Date;
+}
+
+/**
+ * Filters accepted when listing a user's alert events
+ */
+export interface AlertEventFilters {
+  ruleId?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+/**
+ * Columns of the alert_rules table set by its owner, in insert order
+ */
+const ALERT_RULE_COLUMNS: Array<keyof AlertRuleData> = [
+  'user_id', 'name', 'exchange', 'token_id', 'currency_id', 'market_id', 'type',
+  'side', 'threshold', 'amount', 'merchant_id', 'cooldown_sec', 'enabled'
+];
+
+/**
+ * Columns of the alert_events table, in insert order
+ */
+const ALERT_EVENT_COLUMNS: Array<keyof AlertEvent> = [
+  'id', 'rule_id', 'user_id', 'type', 'exchange', 'token_id', 'currency_id',
+  'side', 'value', 'threshold', 'message', 'fetch_time', 'triggered_at'
+];
+
+/**
+ * Alert rule data access layer
+ */
+export class AlertRuleModel {
+  /**
+   * Create a new alert rule
+   */
+  async create(rule: AlertRuleData): Promise<AlertRule> {
+    const id = db.generateId();
+    const now = new Date();
+
+    const sql = `
+      INSERT INTO alert_rules (id, ${ALERT_RULE_COLUMNS.join(', ')}, created_at, updated_at)
+      VALUES (?, ${ALERT_RULE_COLUMNS.map(() => '?').join(', ')}, ?, ?)
+    `;
+    await db.run(sql, [
+      id,
+      ...ALERT_RULE_COLUMNS.map((column) => rule[column]),
+      now,
+      now
+    ]);
+
+    return await this.getById(id) as AlertRule;
+  }
+
+  /**
+   * Get alert rule by ID
+   */
+  async getById(id: string): Promise<AlertRule | null> {
+    const sql = `SELECT * FROM alert_rules WHERE id = ?`;
+    return await db.get(sql, [id]) as AlertRule | null;
+  }
+
+  /**
+   * Get the alert rules of a user, oldest first
+   */
+  async getByUser(userId: string): Promise<AlertRule[]> {
+    const sql = `SELECT * FROM alert_rules WHERE user_id = ? ORDER BY created_at, id`;
+    return await db.query(sql, [userId]) as AlertRule[];
+  }
+
+  /**
+   * Get the enabled alert rules on a token pair of an exchange
+   */
+  async getEnabledByPair(exchange: string, tokenId: string, currencyId: string): Promise<AlertRule[]> {
+    const sql = `
+      SELECT * FROM alert_rules
+      WHERE enabled = true AND exchange = ? AND token_id = ? AND currency_id = ?
+      ORDER BY created_at, id
+    `;
+    return await db.query(sql, [exchange, tokenId, currencyId]) as AlertRule[];
+  }
+
+  /**
+   * Update alert rule by ID.
+   * Any change resets `active`, so a condition that already holds fires again under the new terms.
+   */
+  async update(id: string, updateData: Partial<Omit<AlertRuleData, 'user_id'>>): Promise<AlertRule | null> {
+    const fields = Object.keys(updateData).filter(
+      (key) => updateData[key as keyof typeof updateData] !== undefined
+    ) as Array<keyof typeof updateData>;
+
+    if (fields.length > 0) {
+      const setClause = fields.map((field) => `${field} = ?`).join(', ');
+      const values = fields.map((field) => updateData[field]);
+
+      const sql = `UPDATE alert_rules SET ${setClause}, active = false, updated_at = ? WHERE id = ?`;
+      await db.run(sql, [...values, new Date(), id]);
+    }
+
+    return await this.getById(id);
+  }
+
+  /**
+   * Record the outcome of evaluating a rule, and when it fired if it did
+   */
+  async recordEvaluation(id: string, active: boolean, evaluatedAt: Date, triggeredAt?: Date): Promise<void> {
+    const sql = `
+      UPDATE alert_rules
+      SET active = ?, last_evaluated_at = ?, last_triggered_at = COALESCE(?, last_triggered_at)
+      WHERE id = ?
+    `;
+    await db.run(sql, [active, evaluatedAt, triggeredAt ?? null, id]);
+  }
+
+  /**
+   * Delete alert rule by ID
+   */
+  async delete(id: string): Promise<void> {
+    const sql = `DELETE FROM alert_rules WHERE id = ?`;
+    await db.run(sql, [id]);
+  }
+}
+
+/**
+ * Alert event data access layer
+ */
+export class AlertEventModel {
+  /**
+   * Store a fired alert
+   */
+  async create(event: Omit<AlertEvent, 'id'>): Promise<AlertEvent> {
+    const created = { id: db.generateId(), ...event };
+    await db.insertMany('alert_events', ALERT_EVENT_COLUMNS, [created]);
+    return created;
+  }
+
+  /**
+   * Get the fired alerts of a user, newest first
+   */
+  async getByUser(userId: string, filters: AlertEventFilters = {}): Promise<AlertEvent[]> {
+    const conditions = ['user_id = ?'];
+    const params: unknown[] = [userId];
+
+    if (filters.ruleId) {
+      conditions.push('rule_id = ?');
+      params.push(filters.ruleId);
+    }
+    if (filters.from) {
+      conditions.push('triggered_at >= ?');
+      params.push(filters.from);
+    }
+    if (filters.to) {
+      conditions.push('triggered_at < ?');
+      params.push(filters.to);
+    }
+
+    const sql = `
+      SELECT * FROM alert_events
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY triggered_at DESC, id
+      LIMIT ?
+    `;
+    return await db.query(sql, [...params, filters.limit ?? 100]) as AlertEvent[];
+  }
+}
@@ -1,4 +1,4 @@
-import db from '../db/db.ts';
+import db, { type Queryable } from '../db/db.ts';
 
 /**
  * Asset interface
@@ -16,12 +16,8 @@ export class AssetModel {
   /**
    * Insert or update asset information
    */
-  async upsert(asset: Asset): Promise<void> {
-    const sql = `
-      INSERT OR REPLACE INTO assets (asset_id, scale, sequence) 
-      VALUES (?, ?, ?)
-    `;
-    await db.run(sql, [asset.asset_id, asset.scale, asset.sequence]);
+  async upsert(asset: Asset, executor: Queryable = db): Promise<void> {
+    await this.upsertMany([asset], executor);
   }
 
   /**
@@ -51,12 +47,8 @@ export class AssetModel {
   /**
    * Bulk upsert assets
    */
-  async upsertMany(assets: Asset[]): Promise<void> {
-    if (assets.length === 0) return;
-
-    for (const asset of assets) {
-      await this.upsert(asset);
-    }
+  async upsertMany(assets: Asset[], executor: Queryable = db): Promise<void> {
+    await db.insertMany('assets', ['asset_id', 'scale', 'sequence'], assets, { conflict: 'replace', executor });
   }
 
   /**
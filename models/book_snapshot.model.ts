@@ -0,0 +1,56 @@
+import db, { type Queryable } from '../db/db.ts';
+
+/**
+ * A stored snapshot of a market stream: one sweep of a book side of a pair with one set of payment methods.
+ * Written in the snapshot's transaction in both storage modes, also when the sweep found no offers,
+ * so readers pick a stream's latest or nearest book by its key instead of inferring it from the offers.
+ */
+export interface BookSnapshot {
+  stream: string;
+  fetch_time: Date;
+  market_id?: string | null;
+  exchange: string;
+  token_id: string;
+  currency_id: string;
+  side: number;
+  offers: number;
+}
+
+/**
+ * Key of a market stream, e.g. `bybit:USDT:USD:1:14,165`; payment methods are sorted as text
+ */
+export const streamKey = (
+  exchange: string,
+  tokenId: string,
+  currencyId: string,
+  side: number,
+  payment: Array<string | number>
+): string => [exchange, tokenId, currencyId, side, payment.map(String).sort().join(',')].join(':');
+
+/**
+ * Book snapshot data access layer
+ */
+export class BookSnapshotModel {
+  /**
+   * Record a stored snapshot
+   */
+  async create(snapshot: BookSnapshot, executor: Queryable = db): Promise<void> {
+    await db.insertMany(
+      'book_snapshots',
+      ['stream', 'fetch_time', 'market_id', 'exchange', 'token_id', 'currency_id', 'side', 'offers'],
+      [{ ...snapshot, market_id: snapshot.market_id ?? null }],
+      { executor }
+    );
+  }
+
+  /**
+   * Delete snapshots older than the retention period
+   */
+  async deleteOldRecords(retentionDays: number = 30): Promise<void> {
+    const cutoffDate = new Date();
+    cutoffDate.setDate(cutoffDate.getDate() - retentionDays);
+
+    const sql = `DELETE FROM book_snapshots WHERE fetch_time < ?`;
+    await db.run(sql, [cutoffDate]);
+  }
+}
@@ -0,0 +1,146 @@
+import db from '../db/db.ts';
+
+/**
+ * Outcome of a fetch run
+ */
+export type FetchRunStatus = 'success' | 'error';
+
+/**
+ * Fetch run interface: one row per page request made to a venue
+ */
+export interface FetchRun {
+  id: string;
+  market_id?: string | null;
+  exchange: string;
+  token_id: string;
+  currency_id: string;
+  side: number;
+  page: number;
+  started_at: Date;
+  finished_at: Date;
+  status: FetchRunStatus;
+  http_status?: number | null;
+  ret_code?: number | null;
+  ret_msg?: string | null;
+  items_received: number;
+  rows_inserted: number;
+  error?: string | null;
+}
+
+/**
+ * Filters accepted when listing fetch runs
+ */
+export interface FetchRunFilters {
+  marketId?: string;
+  exchange?: string;
+  tokenId?: string;
+  currencyId?: string;
+  side?: number;
+  status?: FetchRunStatus;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Fetch run ledger data access layer
+ */
+export class FetchRunModel {
+  /**
+   * Record a finished fetch run
+   */
+  async create(run: Omit<FetchRun, 'id'>): Promise<FetchRun> {
+    const id = db.generateId();
+
+    const sql = `
+      INSERT INTO fetch_runs (
+        id, market_id, exchange, token_id, currency_id, side, page,
+        started_at, finished_at, status, http_status, ret_code, ret_msg,
+        items_received, rows_inserted, error
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+
+    await db.run(sql, [
+      id,
+      run.market_id ?? null,
+      run.exchange,
+      run.token_id,
+      run.currency_id,
+      run.side,
+      run.page,
+      run.started_at,
+      run.finished_at,
+      run.status,
+      run.http_status ?? null,
+      run.ret_code ?? null,
+      run.ret_msg ?? null,
+      run.items_received,
+      run.rows_inserted,
+      run.error ?? null
+    ]);
+
+    return { ...run, id };
+  }
+
+  /**
+   * Get fetch run by ID
+   */
+  async getById(id: string): Promise<FetchRun | null> {
+    const sql = `SELECT * FROM fetch_runs WHERE id = ?`;
+    return await db.get(sql, [id]) as FetchRun | null;
+  }
+
+  /**
+   * List fetch runs, newest first
+   */
+  async getRuns(filters: FetchRunFilters = {}): Promise<FetchRun[]> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    const equals: Array<[string, unknown]> = [
+      ['market_id', filters.marketId],
+      ['exchange', filters.exchange],
+      ['token_id', filters.tokenId],
+      ['currency_id', filters.currencyId],
+      ['side', filters.side],
+      ['status', filters.status],
+    ];
+    for (const [column, value] of equals) {
+      if (value !== undefined) {
+        conditions.push(`${column} = ?`);
+        params.push(value);
+      }
+    }
+
+    if (filters.from) {
+      conditions.push('started_at >= ?');
+      params.push(filters.from);
+    }
+    if (filters.to) {
+      conditions.push('started_at <= ?');
+      params.push(filters.to);
+    }
+
+    const sql = `
+      SELECT * FROM fetch_runs
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY started_at DESC
+      LIMIT ? OFFSET ?
+    `;
+    params.push(filters.limit ?? 100, filters.offset ?? 0);
+
+    return await db.query(sql, params) as FetchRun[];
+  }
+
+  /**
+   * Delete old fetch runs (for data retention)
+   */
+  async deleteOldRecords(retentionDays: number = 30): Promise<void> {
+    const cutoffDate = new Date();
+    cutoffDate.setDate(cutoffDate.getDate() - retentionDays);
+
+    const sql = `DELETE FROM fetch_runs WHERE started_at < ?`;
+    await db.run(sql, [cutoffDate]);
+  }
+}
@@ -0,0 +1,516 @@
+import db from '../db/db.ts';
+import { TRADE_SIDE } from '../shared/constants.ts';
+import BucketHelper, { type BucketSpec } from '../helpers/bucket.helper.ts';
+import type { FlowFilters } from './p2p_offer.model.ts';
+
+/**
+ * Filters accepted when reading merchant activity; every read covers offers seen in [from, to]
+ */
+export interface MerchantFilters {
+  from: Date;
+  to: Date;
+  exchange?: string;
+  tokenId?: string;
+  currencyId?: string;
+  userId?: bigint;
+  search?: string;
+  online?: boolean;
+  limit?: number;
+}
+
+/**
+ * A merchant's activity over a window.
+ * `active_ads` counts its offers in the latest book of every market side at the end of the window;
+ * `online_ratio` is the share of its offer sightings flagged online.
+ * Reputation figures are the latest `trading_preferences` seen on any of its offers.
+ */
+export interface MerchantOverview {
+  exchange: string;
+  user_id: bigint;
+  nick_name: string | null;
+  blocked: boolean | null;
+  ads: number;
+  active_ads: number;
+  markets: number;
+  sightings: number;
+  online_ratio: number;
+  is_online: boolean;
+  first_seen: Date;
+  last_seen: Date;
+  last_logout: Date | null;
+  order_finish_30d: number | null;
+  complete_rate_30d: number | null;
+}
+
+/**
+ * Latest 30-day order count and completion rate a merchant's offers carried on one day
+ */
+export interface MerchantReputation {
+  day: Date;
+  order_finish_30d: number | null;
+  complete_rate_30d: number | null;
+  observations: number;
+}
+
+/**
+ * A merchant's presence on one market side over a window.
+ * `price_rank` is the position of its best offer in a snapshot (1 = best price); the median and
+ * best are taken over the snapshots it was listed in.
+ */
+export interface MerchantMarket {
+  exchange: string;
+  token_id: string;
+  currency_id: string;
+  side: number;
+  ads: number;
+  active_ads: number;
+  snapshots: number;
+  avg_price: number;
+  median_price_rank: number;
+  avg_price_rank: number;
+  best_price_rank: number;
+  book_size: number;
+  last_seen: Date;
+}
+
+/**
+ * Share of a merchant's offer sightings flagged online, per UTC hour of day
+ */
+export interface MerchantOnlineHour {
+  hour: number;
+  sightings: number;
+  online_ratio: number;
+}
+
+/**
+ * A merchant's standing on one book side over a window.
+ * A snapshot is held at the best price by every merchant listing an offer at it, until the side's next
+ * snapshot (the last one until the end of the window); `time_at_best` is in seconds and
+ * `time_at_best_share` its fraction of the side's observed time. `quantity_share` is the merchant's
+ * fraction of the quantity listed over all snapshots, `reprices` the price changes between
+ * consecutive sightings of its offers.
+ */
+export interface LeaderboardEntry {
+  side: number;
+  rank: number;
+  user_id: bigint;
+  nick_name: string | null;
+  ads: number;
+  snapshots: number;
+  best_snapshots: number;
+  time_at_best: number;
+  time_at_best_share: number | null;
+  quantity_share: number | null;
+  avg_quantity: number;
+  reprices: number;
+}
+
+/**
+ * Concentration of the quantity listed on one book side in one interval, from merchants' shares in percent:
+ * `hhi` is the Herfindahl-Hirschman index (0 to 10000), `top5_share` the share of the five largest merchants
+ */
+export interface ConcentrationBucket {
+  time_bucket: Date;
+  side: number;
+  merchants: number;
+  quantity: number;
+  hhi: number;
+  top5_share: number;
+}
+
+/**
+ * Merchant analytics data access layer.
+ * Reads go through the snapshot views so they cover both storage modes.
+ */
+export class MerchantModel {
+  /**
+   * Get merchants seen in the window, most active ads first
+   */
+  async getMerchants(filters: MerchantFilters): Promise<MerchantOverview[]> {
+    const seen = this.marketScope('o', filters);
+    const active = this.marketScope('b', filters);
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (filters.search) {
+      conditions.push('u.nick_name ILIKE ?');
+      params.push(`%${filters.search}%`);
+    }
+    if (filters.online !== undefined) {
+      conditions.push('m.is_online = ?');
+      params.push(filters.online);
+    }
+
+    const sql = `
+      WITH seen AS (
+        SELECT
+          o.fetch_time, o.exchange, o.user_id, o.offer_id, o.token_id, o.currency_id, o.is_online, o.last_logout
+        FROM offer_snapshots o
+        WHERE o.fetch_time >= ? AND o.fetch_time <= ?${seen.sql}
+      ),
+      merchants AS (
+        SELECT
+          exchange,
+          user_id,
+          CAST(COUNT(DISTINCT offer_id) AS INTEGER) as ads,
+          CAST(COUNT(DISTINCT token_id || '/' || currency_id) AS INTEGER) as markets,
+          CAST(COUNT(DISTINCT fetch_time) AS INTEGER) as sightings,
+          AVG(CASE WHEN is_online THEN 1 ELSE 0 END) as online_ratio,
+          arg_max(is_online, fetch_time) as is_online,
+          MIN(fetch_time) as first_seen,
+          MAX(fetch_time) as last_seen,
+          MAX(last_logout) as last_logout
+        FROM seen
+        GROUP BY exchange, user_id
+      ),
+      preferences AS (
+        SELECT
+          s.exchange,
+          s.user_id,
+          arg_max(tp.order_finish_30d, tp.fetch_time) as order_finish_30d,
+          arg_max(tp.complete_rate_30d, tp.fetch_time) as complete_rate_30d
+        FROM seen s
+        JOIN trading_preference_snapshots tp ON tp.fetch_time = s.fetch_time AND tp.exchange = s.exchange AND tp.offer_id = s.offer_id
+        GROUP BY s.exchange, s.user_id
+      ),
+      active AS (
+        SELECT b.exchange, b.user_id, CAST(COUNT(DISTINCT b.offer_id) AS INTEGER) as active_ads
+        FROM offer_book_at(CAST(? AS TIMESTAMP)) b
+        WHERE TRUE${active.sql}
+        GROUP BY b.exchange, b.user_id
+      )
+      SELECT
+        m.exchange,
+        m.user_id,
+        u.nick_name,
+        u.blocked,
+        m.ads,
+        COALESCE(a.active_ads, 0) as active_ads,
+        m.markets,
+        m.sightings,
+        m.online_ratio,
+        m.is_online,
+        m.first_seen,
+        m.last_seen,
+        m.last_logout,
+        p.order_finish_30d,
+        p.complete_rate_30d
+      FROM merchants m
+      LEFT JOIN p2p_users u ON u.exchange = m.exchange AND u.user_id = m.user_id
+      LEFT JOIN active a ON a.exchange = m.exchange AND a.user_id = m.user_id
+      LEFT JOIN preferences p ON p.exchange = m.exchange AND p.user_id = m.user_id
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY active_ads DESC, m.ads DESC, m.user_id
+      LIMIT ?
+    `;
+    return await db.query(sql, [
+      filters.from, filters.to, ...seen.params,
+      filters.to, ...active.params,
+      ...params,
+      filters.limit ?? 50
+    ]) as MerchantOverview[];
+  }
+
+  /**
+   * Get a merchant's 30-day order count and completion rate per day, oldest first
+   */
+  async getReputationHistory(userId: bigint, filters: MerchantFilters): Promise<MerchantReputation[]> {
+    const sql = `
+      SELECT
+        date_trunc('day', tp.fetch_time) as day,
+        arg_max(tp.order_finish_30d, tp.fetch_time) as order_finish_30d,
+        arg_max(tp.complete_rate_30d, tp.fetch_time) as complete_rate_30d,
+        CAST(COUNT(*) AS INTEGER) as observations
+      FROM offer_snapshots o
+      JOIN trading_preference_snapshots tp ON tp.fetch_time = o.fetch_time AND tp.exchange = o.exchange AND tp.offer_id = o.offer_id
+      WHERE o.user_id = ? AND o.fetch_time >= ? AND o.fetch_time <= ?${filters.exchange ? ' AND o.exchange = ?' : ''}
+      GROUP BY day
+      ORDER BY day
+    `;
+    const params: unknown[] = [userId.toString(), filters.from, filters.to];
+    if (filters.exchange) params.push(filters.exchange);
+    return await db.query(sql, params) as MerchantReputation[];
+  }
+
+  /**
+   * Get the market sides a merchant listed on, with its typical price rank in each, most snapshots first
+   */
+  async getMarkets(userId: bigint, filters: MerchantFilters): Promise<MerchantMarket[]> {
+    const scope = this.marketScope('o', filters);
+    const sql = `
+      WITH markets AS (
+        SELECT DISTINCT o.exchange, o.token_id, o.currency_id, o.side
+        FROM offer_snapshots o
+        WHERE o.user_id = ? AND o.fetch_time >= ? AND o.fetch_time <= ?${scope.sql}
+      ),
+      book AS (
+        SELECT DISTINCT
+          o.fetch_time, o.exchange, o.token_id, o.currency_id, o.side, o.offer_id, o.user_id, o.price,
+          CASE WHEN o.side = ? THEN -o.price ELSE o.price END as price_order
+        FROM offer_snapshots o
+        SEMI JOIN markets m
+          ON m.exchange = o.exchange AND m.token_id = o.token_id AND m.currency_id = o.currency_id AND m.side = o.side
+        WHERE o.fetch_time >= ? AND o.fetch_time <= ?
+      ),
+      ranked AS (
+        SELECT
+          *,
+          RANK() OVER (PARTITION BY fetch_time, exchange, token_id, currency_id, side ORDER BY price_order) as price_rank,
+          COUNT(*) OVER (PARTITION BY fetch_time, exchange, token_id, currency_id, side) as book_size
+        FROM book
+      ),
+      snapshots AS (
+        SELECT
+          fetch_time, exchange, token_id, currency_id, side,
+          MIN(price_rank) as price_rank,
+          ANY_VALUE(book_size) as book_size
+        FROM ranked
+        WHERE user_id = ?
+        GROUP BY fetch_time, exchange, token_id, currency_id, side
+      ),
+      ranks AS (
+        SELECT
+          exchange, token_id, currency_id, side,
+          CAST(COUNT(*) AS INTEGER) as snapshots,
+          quantile_cont(price_rank, 0.5) as median_price_rank,
+          AVG(price_rank) as avg_price_rank,
+          CAST(MIN(price_rank) AS INTEGER) as best_price_rank,
+          AVG(book_size) as book_size,
+          MAX(fetch_time) as last_seen
+        FROM snapshots
+        GROUP BY exchange, token_id, currency_id, side
+      ),
+      listings AS (
+        SELECT
+          exchange, token_id, currency_id, side,
+          CAST(COUNT(DISTINCT offer_id) AS INTEGER) as ads,
+          AVG(price) as avg_price
+        FROM ranked
+        WHERE user_id = ?
+        GROUP BY exchange, token_id, currency_id, side
+      ),
+      active AS (
+        SELECT b.exchange, b.token_id, b.currency_id, b.side, CAST(COUNT(DISTINCT b.offer_id) AS INTEGER) as active_ads
+        FROM offer_book_at(CAST(? AS TIMESTAMP)) b
+        WHERE b.user_id = ?
+        GROUP BY b.exchange, b.token_id, b.currency_id, b.side
+      )
+      SELECT
+        r.exchange, r.token_id, r.currency_id, r.side,
+        l.ads,
+        COALESCE(a.active_ads, 0) as active_ads,
+        r.snapshots,
+        l.avg_price,
+        r.median_price_rank,
+        r.avg_price_rank,
+        r.best_price_rank,
+        r.book_size,
+        r.last_seen
+      FROM ranks r
+      JOIN listings l USING (exchange, token_id, currency_id, side)
+      LEFT JOIN active a USING (exchange, token_id, currency_id, side)
+      ORDER BY r.snapshots DESC, r.exchange, r.token_id, r.currency_id, r.side
+    `;
+    const user = userId.toString();
+    return await db.query(sql, [
+      user, filters.from, filters.to, ...scope.params,
+      TRADE_SIDE.BUY, filters.from, filters.to,
+      user,
+      user,
+      filters.to, user
+    ]) as MerchantMarket[];
+  }
+
+  /**
+   * Get how often a merchant's offers were online per UTC hour of day, for the hours it was seen in
+   */
+  async getOnlineHours(userId: bigint, filters: MerchantFilters): Promise<MerchantOnlineHour[]> {
+    const sql = `
+      SELECT
+        CAST(hour(fetch_time) AS INTEGER) as hour,
+        CAST(COUNT(DISTINCT fetch_time) AS INTEGER) as sightings,
+        AVG(CASE WHEN is_online THEN 1 ELSE 0 END) as online_ratio
+      FROM offer_snapshots
+      WHERE user_id = ? AND fetch_time >= ? AND fetch_time <= ?${filters.exchange ? ' AND exchange = ?' : ''}
+      GROUP BY hour
+      ORDER BY hour
+    `;
+    const params: unknown[] = [userId.toString(), filters.from, filters.to];
+    if (filters.exchange) params.push(filters.exchange);
+    return await db.query(sql, params) as MerchantOnlineHour[];
+  }
+
+  /**
+   * Rank the merchants of a token pair per book side over [from, to) by time at the best price,
+   * then by listed quantity; the top `limit` of each side, best first
+   */
+  async getLeaderboard(filters: FlowFilters, limit: number = 20): Promise<LeaderboardEntry[]> {
+    const scope = this.bookScope(filters);
+    const sql = `
+      WITH ${scope.sql},
+      snapshots AS (
+        SELECT
+          side,
+          fetch_time,
+          CASE WHEN side = ? THEN MAX(price) ELSE MIN(price) END as best,
+          SUM(last_quantity) as quantity
+        FROM scoped
+        GROUP BY side, fetch_time
+      ),
+      timed AS (
+        SELECT
+          *,
+          (epoch_ms(COALESCE(LEAD(fetch_time) OVER (PARTITION BY side ORDER BY fetch_time), CAST(? AS TIMESTAMP)))
+            - epoch_ms(fetch_time)) / 1000.0 as duration
+        FROM snapshots
+      ),
+      sides AS (
+        SELECT side, SUM(duration) as duration, SUM(quantity) as quantity
+        FROM timed
+        GROUP BY side
+      ),
+      at_best AS (
+        SELECT DISTINCT s.side, s.fetch_time, s.user_id, t.duration
+        FROM scoped s
+        JOIN timed t ON t.side = s.side AND t.fetch_time = s.fetch_time AND t.best = s.price
+      ),
+      best AS (
+        SELECT side, user_id, CAST(COUNT(*) AS INTEGER) as best_snapshots, SUM(duration) as time_at_best
+        FROM at_best
+        GROUP BY side, user_id
+      ),
+      sightings AS (
+        SELECT side, user_id, price, LAG(price) OVER (PARTITION BY offer_id ORDER BY fetch_time) as previous_price
+        FROM scoped
+      ),
+      reprices AS (
+        SELECT side, user_id, CAST(COUNT(*) FILTER (WHERE price <> previous_price) AS INTEGER) as reprices
+        FROM sightings
+        GROUP BY side, user_id
+      ),
+      merchants AS (
+        SELECT
+          side,
+          exchange,
+          user_id,
+          CAST(COUNT(DISTINCT offer_id) AS INTEGER) as ads,
+          CAST(COUNT(DISTINCT fetch_time) AS INTEGER) as snapshots,
+          SUM(last_quantity) as quantity
+        FROM scoped
+        GROUP BY side, exchange, user_id
+      ),
+      ranked AS (
+        SELECT
+          m.side,
+          CAST(ROW_NUMBER() OVER (
+            PARTITION BY m.side ORDER BY COALESCE(b.time_at_best, 0) DESC, m.quantity DESC, m.user_id
+          ) AS INTEGER) as rank,
+          m.user_id,
+          u.nick_name,
+          m.ads,
+          m.snapshots,
+          COALESCE(b.best_snapshots, 0) as best_snapshots,
+          COALESCE(b.time_at_best, 0) as time_at_best,
+          COALESCE(b.time_at_best, 0) / NULLIF(sd.duration, 0) as time_at_best_share,
+          m.quantity / NULLIF(sd.quantity, 0) as quantity_share,
+          m.quantity / m.snapshots as avg_quantity,
+          r.reprices
+        FROM merchants m
+        JOIN sides sd ON sd.side = m.side
+        JOIN reprices r ON r.side = m.side AND r.user_id = m.user_id
+        LEFT JOIN best b ON b.side = m.side AND b.user_id = m.user_id
+        LEFT JOIN p2p_users u ON u.exchange = m.exchange AND u.user_id = m.user_id
+      )
+      SELECT * FROM ranked
+      WHERE rank <= ?
+      ORDER BY side, rank
+    `;
+    return await db.query(sql, [...scope.params, TRADE_SIDE.BUY, filters.to, limit]) as LeaderboardEntry[];
+  }
+
+  /**
+   * Get the concentration of listed quantity among merchants per interval and book side over [from, to)
+   */
+  async getConcentration(filters: FlowFilters, bucket: BucketSpec): Promise<ConcentrationBucket[]> {
+    const scope = this.bookScope(filters);
+    const sql = `
+      WITH ${scope.sql},
+      listed AS (
+        SELECT ${BucketHelper.sql('fetch_time')} as time_bucket, side, user_id, SUM(last_quantity) as quantity
+        FROM scoped
+        GROUP BY time_bucket, side, user_id
+      ),
+      shares AS (
+        SELECT
+          *,
+          quantity / NULLIF(SUM(quantity) OVER (PARTITION BY time_bucket, side), 0) * 100 as share,
+          ROW_NUMBER() OVER (PARTITION BY time_bucket, side ORDER BY quantity DESC, user_id) as position
+        FROM listed
+      )
+      SELECT
+        time_bucket,
+        side,
+        CAST(COUNT(*) AS INTEGER) as merchants,
+        SUM(quantity) as quantity,
+        SUM(share * share) as hhi,
+        SUM(share) FILTER (WHERE position <= 5) as top5_share
+      FROM shares
+      GROUP BY time_bucket, side
+      ORDER BY time_bucket, side
+    `;
+    return await db.query(sql, [...scope.params, bucket.interval]) as ConcentrationBucket[];
+  }
+
+  /**
+   * `scoped` CTE: distinct sightings of a pair's offers in [from, to) that accept any of `paymentMethodIds`
+   */
+  private bookScope(filters: FlowFilters): { sql: string; params: unknown[] } {
+    const params: unknown[] = [filters.exchange, filters.tokenId, filters.currencyId];
+    if (filters.side !== undefined) params.push(filters.side);
+    params.push(filters.from, filters.to, filters.paymentMethodIds);
+
+    return {
+      sql: `
+        scoped AS (
+          SELECT DISTINCT o.fetch_time, o.exchange, o.side, o.offer_id, o.user_id, o.price, o.last_quantity
+          FROM offer_snapshots o
+          WHERE o.exchange = ? AND o.token_id = ? AND o.currency_id = ?${filters.side !== undefined ? ' AND o.side = ?' : ''}
+            AND o.fetch_time >= ? AND o.fetch_time < ?
+            AND EXISTS (
+              SELECT 1 FROM offer_payment_snapshots op
+              WHERE op.fetch_time = o.fetch_time AND op.exchange = o.exchange AND op.offer_id = o.offer_id
+                AND list_contains(?::INTEGER[], op.method_id)
+            )
+        )
+      `,
+      params
+    };
+  }
+
+  /**
+   * Conditions narrowing offers of table `alias` to a venue, token pair and merchant
+   */
+  private marketScope(alias: string, filters: MerchantFilters): { sql: string; params: unknown[] } {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (filters.exchange) {
+      conditions.push(`${alias}.exchange = ?`);
+      params.push(filters.exchange);
+    }
+    if (filters.tokenId) {
+      conditions.push(`${alias}.token_id = ?`);
+      params.push(filters.tokenId);
+    }
+    if (filters.currencyId) {
+      conditions.push(`${alias}.currency_id = ?`);
+      params.push(filters.currencyId);
+    }
+    if (filters.userId !== undefined) {
+      conditions.push(`${alias}.user_id = ?`);
+      params.push(filters.userId.toString());
+    }
+
+    return { sql: conditions.map((condition) => ` AND ${condition}`).join(''), params };
+  }
+}
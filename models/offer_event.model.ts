@@ -0,0 +1,153 @@
+import db, { type Queryable } from '../db/db.ts';
+
+/**
+ * What changed about an offer between two consecutive snapshots of its stream.
+ * `edited` is a version bump that changed neither price nor quantities (limits, remark, ...).
+ */
+export type OfferEventType =
+  | 'created'
+  | 'price_changed'
+  | 'quantity_changed'
+  | 'edited'
+  | 'went_offline'
+  | 'came_online'
+  | 'removed'
+  | 'reappeared';
+
+export const OFFER_EVENT_TYPES: OfferEventType[] = [
+  'created', 'price_changed', 'quantity_changed', 'edited', 'went_offline', 'came_online', 'removed', 'reappeared'
+];
+
+/**
+ * Offer event interface: one lifecycle change of an offer, seen at `event_time`.
+ * Every event carries the offer's state after the change; `previous_*` fields hold the
+ * state before it and are null for `created`.
+ */
+export interface OfferEvent {
+  id: string;
+  stream: string;
+  exchange: string;
+  token_id: string;
+  currency_id: string;
+  side: number;
+  offer_id: bigint;
+  user_id: bigint;
+  event_time: Date;
+  type: OfferEventType;
+  price: number;
+  previous_price: number | null;
+  last_quantity: number;
+  previous_last_quantity: number | null;
+  total_quantity: number;
+  previous_total_quantity: number | null;
+  executed_quantity: number;
+  previous_executed_quantity: number | null;
+  frozen_quantity: number;
+  previous_frozen_quantity: number | null;
+  is_online: boolean;
+  version: number;
+  previous_version: number | null;
+}
+
+/**
+ * Filters accepted when reading the history of an offer
+ */
+export interface OfferEventFilters {
+  exchange?: string;
+  types?: OfferEventType[];
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+/**
+ * Columns of the offer_events table, in insert order
+ */
+const OFFER_EVENT_COLUMNS: Array<keyof OfferEvent> = [
+  'id', 'stream', 'exchange', 'token_id', 'currency_id', 'side', 'offer_id', 'user_id', 'event_time', 'type',
+  'price', 'previous_price', 'last_quantity', 'previous_last_quantity', 'total_quantity', 'previous_total_quantity',
+  'executed_quantity', 'previous_executed_quantity', 'frozen_quantity', 'previous_frozen_quantity',
+  'is_online', 'version', 'previous_version'
+];
+
+/**
+ * Latest event of every offer of a stream; it holds the offer's last known state
+ */
+const LATEST_BY_OFFER = `
+  SELECT * FROM offer_events
+  WHERE stream = ?
+  QUALIFY ROW_NUMBER() OVER (PARTITION BY offer_id ORDER BY event_time DESC) = 1
+`;
+
+/**
+ * Offer lifecycle event data access layer
+ */
+export class OfferEventModel {
+  /**
+   * Insert new events
+   */
+  async createMany(events: Array<Omit<OfferEvent, 'id'>>, executor: Queryable = db): Promise<void> {
+    const records = events.map((event) => ({ ...event, id: db.generateId() }));
+    await db.insertMany('offer_events', OFFER_EVENT_COLUMNS, records, { executor });
+  }
+
+  /**
+   * Get the latest event of every offer of a stream, removed offers included
+   */
+  async getLatestByStream(stream: string, executor: Queryable = db): Promise<OfferEvent[]> {
+    return await executor.query(LATEST_BY_OFFER, [stream]) as OfferEvent[];
+  }
+
+  /**
+   * Get the events of an offer, oldest first
+   */
+  async getByOffer(offerId: bigint, filters: OfferEventFilters = {}): Promise<OfferEvent[]> {
+    const conditions = ['offer_id = ?'];
+    const params: unknown[] = [offerId.toString()];
+
+    if (filters.exchange) {
+      conditions.push('exchange = ?');
+      params.push(filters.exchange);
+    }
+    if (filters.types && filters.types.length > 0) {
+      conditions.push('list_contains(?::VARCHAR[], type)');
+      params.push(filters.types);
+    }
+    if (filters.from) {
+      conditions.push('event_time >= ?');
+      params.push(filters.from);
+    }
+    if (filters.to) {
+      conditions.push('event_time <= ?');
+      params.push(filters.to);
+    }
+
+    const sql = `
+      SELECT * FROM offer_events
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY event_time, stream
+      LIMIT ?
+    `;
+    return await db.query(sql, [...params, filters.limit ?? 1000]) as OfferEvent[];
+  }
+
+  /**
+   * Delete events older than the retention period.
+   * The latest event of an offer still in the book is kept: it is the state the next snapshot is diffed against.
+   */
+  async deleteOldRecords(retentionDays: number = 30): Promise<void> {
+    const cutoffDate = new Date();
+    cutoffDate.setDate(cutoffDate.getDate() - retentionDays);
+
+    const sql = `
+      DELETE FROM offer_events
+      WHERE event_time < ?
+        AND id NOT IN (
+          SELECT id FROM offer_events
+          QUALIFY ROW_NUMBER() OVER (PARTITION BY stream, offer_id ORDER BY event_time DESC) = 1
+            AND type != 'removed'
+        )
+    `;
+    await db.run(sql, [cutoffDate]);
+  }
+}
@@ -0,0 +1,139 @@
+import db, { type Queryable } from '../db/db.ts';
+import type { P2POffer } from './p2p_offer.model.ts';
+import type { TradingPreferences } from './trading_preferences.model.ts';
+
+/**
+ * One state of an offer in CDC storage mode, valid from the fetch it was first seen in
+ * until `valid_to` (exclusive), or still open when `valid_to` is null.
+ * Payments and trading preferences are stored inline, as of `valid_from`.
+ */
+export interface OfferVersion
+  extends Omit<P2POffer, 'fetch_time'>, Omit<TradingPreferences, 'fetch_time' | 'offer_id'> {
+  stream: string;
+  valid_from: Date;
+  valid_to: Date | null;
+  last_seen_at: Date;
+  payments: number[];
+  has_preferences: boolean;
+}
+
+/**
+ * A fetch of a stream in CDC storage mode: every open version of the stream was seen at `fetch_time`
+ */
+export interface OfferHeartbeat {
+  stream: string;
+  fetch_time: Date;
+  exchange: string;
+  token_id: string;
+  currency_id: string;
+  side: number;
+  offers: number;
+}
+
+/**
+ * Offer fields whose change opens a new version. Other fields keep the value
+ * they had when the version opened.
+ */
+export const CDC_TRACKED_FIELDS: Array<keyof OfferVersion> = [
+  'price', 'premium', 'last_quantity', 'total_quantity', 'frozen_quantity', 'executed_quantity',
+  'min_amount', 'max_amount', 'status', 'is_online', 'version', 'payments'
+];
+
+/**
+ * Columns of the offer_versions table, in insert order
+ */
+const OFFER_VERSION_COLUMNS: Array<keyof OfferVersion> = [
+  'stream', 'offer_id', 'valid_from', 'valid_to', 'last_seen_at',
+  'exchange', 'account_id', 'user_id', 'token_id', 'currency_id',
+  'side', 'price_type', 'price', 'premium', 'last_quantity', 'total_quantity',
+  'frozen_quantity', 'executed_quantity', 'min_amount', 'max_amount',
+  'status', 'is_online', 'remark', 'last_logout', 'version', 'auth_status',
+  'user_type', 'payment_period', 'user_mask_id', 'payments', 'has_preferences',
+  'has_unposted_ad', 'is_kyc', 'is_email_verified', 'is_mobile_verified',
+  'register_time_threshold', 'order_finish_30d', 'complete_rate_30d', 'national_limit'
+];
+
+/**
+ * Offer version data access layer (CDC storage mode)
+ */
+export class OfferVersionModel {
+  /**
+   * Insert new versions
+   */
+  async createMany(versions: OfferVersion[], executor: Queryable = db): Promise<void> {
+    await db.insertMany('offer_versions', OFFER_VERSION_COLUMNS, versions, { executor });
+  }
+
+  /**
+   * Get the open versions of a stream
+   */
+  async getOpenByStream(stream: string, executor: Queryable = db): Promise<OfferVersion[]> {
+    const sql = `SELECT * FROM offer_versions WHERE stream = ? AND valid_to IS NULL`;
+    return await executor.query(sql, [stream]) as OfferVersion[];
+  }
+
+  /**
+   * Close the open versions of the given offers at `validTo`
+   */
+  async close(stream: string, offerIds: bigint[], validTo: Date, executor: Queryable = db): Promise<void> {
+    if (offerIds.length === 0) return;
+
+    const sql = `
+      UPDATE offer_versions SET valid_to = ?
+      WHERE stream = ? AND valid_to IS NULL AND list_contains(?::BIGINT[], offer_id)
+    `;
+    await executor.run(sql, [validTo, stream, offerIds.map(String)]);
+  }
+
+  /**
+   * Record that the open versions of the given offers were seen again at `seenAt`
+   */
+  async touch(stream: string, offerIds: bigint[], seenAt: Date, executor: Queryable = db): Promise<void> {
+    if (offerIds.length === 0) return;
+
+    const sql = `
+      UPDATE offer_versions SET last_seen_at = ?
+      WHERE stream = ? AND valid_to IS NULL AND list_contains(?::BIGINT[], offer_id)
+    `;
+    await executor.run(sql, [seenAt, stream, offerIds.map(String)]);
+  }
+
+  /**
+   * Delete versions closed before the retention period
+   */
+  async deleteOldRecords(retentionDays: number = 30): Promise<void> {
+    const cutoffDate = new Date();
+    cutoffDate.setDate(cutoffDate.getDate() - retentionDays);
+
+    const sql = `DELETE FROM offer_versions WHERE valid_to < ?`;
+    await db.run(sql, [cutoffDate]);
+  }
+}
+
+/**
+ * Offer heartbeat data access layer (CDC storage mode)
+ */
+export class OfferHeartbeatModel {
+  /**
+   * Record a fetch of a stream
+   */
+  async create(heartbeat: OfferHeartbeat, executor: Queryable = db): Promise<void> {
+    await db.insertMany(
+      'offer_heartbeats',
+      ['stream', 'fetch_time', 'exchange', 'token_id', 'currency_id', 'side', 'offers'],
+      [heartbeat],
+      { executor }
+    );
+  }
+
+  /**
+   * Delete heartbeats older than the retention period
+   */
+  async deleteOldRecords(retentionDays: number = 30): Promise<void> {
+    const cutoffDate = new Date();
+    cutoffDate.setDate(cutoffDate.getDate() - retentionDays);
+
+    const sql = `DELETE FROM offer_heartbeats WHERE fetch_time < ?`;
+    await db.run(sql, [cutoffDate]);
+  }
+}
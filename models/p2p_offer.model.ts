@@ -1,10 +1,15 @@
-import db from '../db/db.ts';
+import db, { type Queryable } from '../db/db.ts';
+import { TRADE_SIDE } from '../shared/constants.ts';
+import BucketHelper, { type BucketSpec } from '../helpers/bucket.helper.ts';
+import { type MerchantSelection, merchantSelectionSql } from './user_merchant.model.ts';
+import { streamKey } from './book_snapshot.model.ts';
 
 /**
  * P2P Offer interface representing the fact table schema
  */
 export interface P2POffer {
   fetch_time: Date;
+  exchange: string;
   offer_id: bigint;
   account_id: bigint;
   user_id: bigint;
@@ -32,64 +37,179 @@ export interface P2POffer {
 }
 
 /**
- * P2P Offer data access layer
+ * Identifies one stored snapshot of a market side: every row written by a single fetch
+ */
+export interface SnapshotKey {
+  fetch_time: Date;
+  exchange: string;
+  token_id: string;
+  currency_id: string;
+  side: number;
+}
+
+/**
+ * Scope of a trade-flow estimate: one token pair on one venue, offers accepting any of `paymentMethodIds`
+ */
+export interface FlowFilters {
+  exchange: string;
+  tokenId: string;
+  currencyId: string;
+  paymentMethodIds: number[];
+  side?: number;
+  from: Date;
+  to: Date;
+}
+
+/**
+ * Scope of a book read: a token pair and the payment methods of each of its markets in scope,
+ * every set being swept as its own stream, and how many hours a stream's snapshot is looked for
+ */
+export interface BookScope {
+  exchange: string;
+  tokenId: string;
+  currencyId: string;
+  paymentMethodSets: number[][];
+  lookbackHours: number;
+}
+
+/**
+ * An estimated fill: quantity an offer lost between two consecutive sightings, at the price it was listed at
+ */
+export interface EstimatedFill {
+  fetch_time: Date;
+  previous_fetch_time: Date;
+  offer_id: bigint;
+  user_id: bigint;
+  nick_name: string | null;
+  side: number;
+  price: number;
+  size: number;
+  notional: number;
+}
+
+/**
+ * Estimated traded volume of one offer side in one interval
+ */
+export interface FlowBucket {
+  time_bucket: Date;
+  side: number;
+  fills: number;
+  merchants: number;
+  volume: number;
+  notional: number;
+  vwap: number;
+}
+
+/**
+ * Best-price candle of one interval. Bids are the highest BUY offer, asks the lowest SELL offer
+ * of each snapshot; mid and spread are taken from the closes. A side without offers in the interval is null.
+ */
+export interface Candle {
+  time_bucket: Date;
+  bid_open: number | null;
+  bid_high: number | null;
+  bid_low: number | null;
+  bid_close: number | null;
+  ask_open: number | null;
+  ask_high: number | null;
+  ask_low: number | null;
+  ask_close: number | null;
+  mid: number | null;
+  spread: number | null;
+  spread_pct: number | null;
+  snapshots: number;
+}
+
+/**
+ * Offer of a latest snapshot with its merchant's nickname and trading preferences
+ */
+export interface BookOffer extends P2POffer {
+  nick_name: string | null;
+  is_kyc: boolean | null;
+  order_finish_30d: number | null;
+  complete_rate_30d: number | null;
+}
+
+/**
+ * Offer of a book snapshot with the depth accumulated from the best price up to and including it.
+ * `quantity` is the offer's available (last) quantity; `cumulative_amount` is its fiat value.
+ */
+export interface DepthLevel {
+  fetch_time: Date;
+  side: number;
+  offer_id: bigint;
+  user_id: bigint;
+  nick_name: string | null;
+  price: number;
+  quantity: number;
+  min_amount: number;
+  max_amount: number;
+  cumulative_quantity: number;
+  cumulative_amount: number;
+}
+
+/**
+ * Price and liquidity statistics of one book side over a window, from every sighting of its offers.
+ * Liquidity is the side's total available quantity (and its fiat value) in its latest snapshot of the window.
+ */
+export interface SideSummary {
+  side: number;
+  count: number;
+  merchants: number;
+  snapshots: number;
+  avg_price: number;
+  min_price: number;
+  max_price: number;
+  median_price: number;
+  p10_price: number;
+  p25_price: number;
+  p75_price: number;
+  p90_price: number;
+  liquidity: number;
+  liquidity_amount: number;
+  avg_liquidity: number;
+}
+
+/**
+ * Best bid and ask quoted together: each bid snapshot paired with the latest ask snapshot at or before it.
+ * `best_bid`/`best_ask` come from the latest pair of the window, `avg_spread_pct` averages all pairs.
+ */
+export interface TopOfBook {
+  best_bid: number | null;
+  best_ask: number | null;
+  quoted_at: Date | null;
+  avg_spread_pct: number | null;
+  quotes: number;
+}
+
+/**
+ * Columns of the p2p_offers fact table, in insert order
+ */
+const P2P_OFFER_COLUMNS: Array<keyof P2POffer> = [
+  'fetch_time', 'exchange', 'offer_id', 'account_id', 'user_id', 'token_id', 'currency_id',
+  'side', 'price_type', 'price', 'premium', 'last_quantity', 'total_quantity',
+  'frozen_quantity', 'executed_quantity', 'min_amount', 'max_amount',
+  'status', 'is_online', 'remark', 'last_logout', 'version', 'auth_status',
+  'user_type', 'payment_period', 'user_mask_id'
+];
+
+/**
+ * P2P Offer data access layer.
+ * Reads go through the `offer_snapshots` view so they cover both storage modes; writes target `p2p_offers`.
  */
 export class P2POfferModel {
   /**
    * Insert a new P2P offer snapshot
    */
-  async create(offer: P2POffer): Promise<void> {
-    const sql = `
-      INSERT INTO p2p_offers (
-        fetch_time, offer_id, account_id, user_id, token_id, currency_id,
-        side, price_type, price, premium, last_quantity, total_quantity,
-        frozen_quantity, executed_quantity, min_amount, max_amount,
-        status, is_online, remark, last_logout, version, auth_status,
-        user_type, payment_period, user_mask_id
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `;
-
-    const params = [
-      offer.fetch_time,
-      offer.offer_id,
-      offer.account_id,
-      offer.user_id,
-      offer.token_id,
-      offer.currency_id,
-      offer.side,
-      offer.price_type,
-      offer.price,
-      offer.premium,
-      offer.last_quantity,
-      offer.total_quantity,
-      offer.frozen_quantity,
-      offer.executed_quantity,
-      offer.min_amount,
-      offer.max_amount,
-      offer.status,
-      offer.is_online,
-      offer.remark,
-      offer.last_logout,
-      offer.version,
-      offer.auth_status,
-      offer.user_type,
-      offer.payment_period,
-      offer.user_mask_id
-    ];
-
-    await db.run(sql, params);
+  async create(offer: P2POffer, executor: Queryable = db): Promise<void> {
+    await this.createMany([offer], executor);
   }
 
   /**
    * Bulk insert P2P offers
    */
-  async createMany(offers: P2POffer[]): Promise<void> {
-    if (offers.length === 0) return;
-
-    // Use a transaction-like approach with multiple inserts
-    for (const offer of offers) {
-      await this.create(offer);
-    }
+  async createMany(offers: P2POffer[], executor: Queryable = db): Promise<void> {
+    await db.insertMany('p2p_offers', P2P_OFFER_COLUMNS, offers, { executor });
   }
 
   /**
@@ -97,7 +217,7 @@ export class P2POfferModel {
    */
   async getByTimeRange(startTime: Date, endTime: Date): Promise<P2POffer[]> {
     const sql = `
-      SELECT * FROM p2p_offers 
+      SELECT * FROM offer_snapshots 
       WHERE fetch_time >= ? AND fetch_time <= ?
       ORDER BY fetch_time DESC
     `;
@@ -109,7 +229,7 @@ export class P2POfferModel {
    */
   async getLatestByTokenPair(tokenId: string, currencyId: string, limit: number = 100): Promise<P2POffer[]> {
     const sql = `
-      SELECT * FROM p2p_offers 
+      SELECT * FROM offer_snapshots 
       WHERE token_id = ? AND currency_id = ?
       ORDER BY fetch_time DESC
       LIMIT ?
@@ -118,61 +238,441 @@ export class P2POfferModel {
   }
 
   /**
-   * Get price aggregations by time interval
+   * Get price aggregations by time bucket
    */
   async getPriceAggregationsByInterval(
     tokenId: string,
     currencyId: string,
     side: number,
-    interval: string = '1 hour',
+    bucket: BucketSpec,
     startTime: Date,
     endTime: Date
   ): Promise<any[]> {
     const sql = `
       SELECT 
-        DATE_TRUNC('${interval}', fetch_time) as time_bucket,
+        ${BucketHelper.sql('fetch_time')} as time_bucket,
         AVG(price) as avg_price,
         MIN(price) as min_price,
         MAX(price) as max_price,
         COUNT(*) as offer_count,
         AVG(premium) as avg_premium
-      FROM p2p_offers 
+      FROM offer_snapshots 
       WHERE token_id = ? AND currency_id = ? AND side = ?
         AND fetch_time >= ? AND fetch_time <= ?
-      GROUP BY DATE_TRUNC('${interval}', fetch_time)
+      GROUP BY time_bucket
       ORDER BY time_bucket
     `;
-    return await db.query(sql, [tokenId, currencyId, side, startTime, endTime]);
+    return await db.query(sql, [bucket.interval, tokenId, currencyId, side, startTime, endTime]);
   }
 
   /**
-   * Get price aggregations by time interval filtered by payment method
+   * Get price aggregations by time bucket filtered by payment methods
    */
   async getPriceAggregationsByIntervalAndPayment(
+    exchange: string,
     tokenId: string,
     currencyId: string,
     side: number,
-    paymentMethodId: number,
-    interval: string = '1 hour',
+    paymentMethodIds: number[],
+    bucket: BucketSpec,
     startTime: Date,
     endTime: Date
   ): Promise<any[]> {
     const sql = `
       SELECT 
-        DATE_TRUNC('${interval}', o.fetch_time) as time_bucket,
+        ${BucketHelper.sql('o.fetch_time')} as time_bucket,
         AVG(o.price) as avg_price,
         MIN(o.price) as min_price,
         MAX(o.price) as max_price,
         COUNT(*) as offer_count,
         AVG(o.premium) as avg_premium
-      FROM p2p_offers o
-      JOIN offer_payments op ON o.fetch_time = op.fetch_time AND o.offer_id = op.offer_id
-      WHERE o.token_id = ? AND o.currency_id = ? AND o.side = ? AND op.method_id = ?
+      FROM offer_snapshots o
+      WHERE o.exchange = ? AND o.token_id = ? AND o.currency_id = ? AND o.side = ?
         AND o.fetch_time >= ? AND o.fetch_time <= ?
-      GROUP BY DATE_TRUNC('${interval}', o.fetch_time)
+        AND EXISTS (
+          SELECT 1 FROM offer_payment_snapshots op
+          WHERE op.fetch_time = o.fetch_time AND op.exchange = o.exchange AND op.offer_id = o.offer_id
+            AND list_contains(?::INTEGER[], op.method_id)
+        )
+      GROUP BY time_bucket
       ORDER BY time_bucket
     `;
-    return await db.query(sql, [tokenId, currencyId, side, paymentMethodId, startTime, endTime]);
+    return await db.query(sql, [bucket.interval, exchange, tokenId, currencyId, side, startTime, endTime, paymentMethodIds]);
+  }
+
+  /**
+   * Get price and liquidity statistics per book side over [from, to)
+   */
+  async getSideSummaries(filters: Omit<FlowFilters, 'side'>): Promise<SideSummary[]> {
+    const scope = this.summaryScope(filters);
+    const sql = `
+      WITH ${scope.sql},
+      snapshot_liquidity AS (
+        SELECT side, fetch_time, SUM(last_quantity) as quantity, SUM(last_quantity * price) as amount
+        FROM scoped
+        GROUP BY side, fetch_time
+      ),
+      liquidity AS (
+        SELECT
+          side,
+          CAST(COUNT(*) AS INTEGER) as snapshots,
+          arg_max(quantity, fetch_time) as liquidity,
+          arg_max(amount, fetch_time) as liquidity_amount,
+          AVG(quantity) as avg_liquidity
+        FROM snapshot_liquidity
+        GROUP BY side
+      ),
+      prices AS (
+        SELECT
+          side,
+          CAST(COUNT(DISTINCT offer_id) AS INTEGER) as count,
+          CAST(COUNT(DISTINCT user_id) AS INTEGER) as merchants,
+          AVG(price) as avg_price,
+          MIN(price) as min_price,
+          MAX(price) as max_price,
+          quantile_cont(price, 0.5) as median_price,
+          quantile_cont(price, 0.1) as p10_price,
+          quantile_cont(price, 0.25) as p25_price,
+          quantile_cont(price, 0.75) as p75_price,
+          quantile_cont(price, 0.9) as p90_price
+        FROM scoped
+        GROUP BY side
+      )
+      SELECT p.*, l.snapshots, l.liquidity, l.liquidity_amount, l.avg_liquidity
+      FROM prices p
+      JOIN liquidity l ON l.side = p.side
+      ORDER BY p.side
+    `;
+    return await db.query(sql, scope.params) as SideSummary[];
+  }
+
+  /**
+   * Get the best bid and ask quoted together over [from, to), and their average spread
+   */
+  async getTopOfBook(filters: Omit<FlowFilters, 'side'>): Promise<TopOfBook> {
+    const scope = this.summaryScope(filters);
+    const sql = `
+      WITH ${scope.sql},
+      tops AS (
+        SELECT side, fetch_time, CASE WHEN side = ? THEN MAX(price) ELSE MIN(price) END as best
+        FROM scoped
+        GROUP BY side, fetch_time
+      ),
+      quotes AS (
+        SELECT b.fetch_time, b.best as bid, a.best as ask
+        FROM (SELECT * FROM tops WHERE side = ?) b
+        ASOF JOIN (SELECT * FROM tops WHERE side = ?) a ON b.fetch_time >= a.fetch_time
+      )
+      SELECT
+        arg_max(bid, fetch_time) as best_bid,
+        arg_max(ask, fetch_time) as best_ask,
+        MAX(fetch_time) as quoted_at,
+        AVG((ask - bid) / bid * 100) as avg_spread_pct,
+        CAST(COUNT(*) AS INTEGER) as quotes
+      FROM quotes
+    `;
+    const [top] = await db.query<TopOfBook>(sql, [...scope.params, TRADE_SIDE.BUY, TRADE_SIDE.BUY, TRADE_SIDE.SELL]);
+    return top;
+  }
+
+  /**
+   * Get estimated fills, newest first
+   */
+  async getEstimatedFills(filters: FlowFilters, limit: number = 100): Promise<EstimatedFill[]> {
+    const { sql, params } = this.estimatedFills(filters);
+    return await db.query(`
+      WITH fills AS (${sql})
+      SELECT f.*, u.nick_name
+      FROM fills f
+      LEFT JOIN p2p_users u ON u.exchange = ? AND u.user_id = f.user_id
+      ORDER BY f.fetch_time DESC, f.offer_id
+      LIMIT ?
+    `, [...params, filters.exchange, limit]) as EstimatedFill[];
+  }
+
+  /**
+   * Get estimated traded volume, notional and VWAP per time bucket and offer side
+   */
+  async getFlowByInterval(filters: FlowFilters, bucket: BucketSpec): Promise<FlowBucket[]> {
+    const { sql, params } = this.estimatedFills(filters);
+    return await db.query(`
+      WITH fills AS (${sql})
+      SELECT
+        ${BucketHelper.sql('fetch_time')} as time_bucket,
+        side,
+        CAST(COUNT(*) AS INTEGER) as fills,
+        CAST(COUNT(DISTINCT user_id) AS INTEGER) as merchants,
+        SUM(size) as volume,
+        SUM(notional) as notional,
+        SUM(notional) / SUM(size) as vwap
+      FROM fills
+      GROUP BY time_bucket, side
+      ORDER BY time_bucket, side
+    `, [...params, bucket.interval]) as FlowBucket[];
+  }
+
+  /**
+   * Get best bid/ask candles per time bucket, oldest first.
+   * Buckets without snapshots are omitted.
+   */
+  async getBestPriceCandles(filters: Omit<FlowFilters, 'side'>, bucket: BucketSpec): Promise<Candle[]> {
+    const sql = `
+      WITH tops AS (
+        SELECT
+          o.fetch_time,
+          o.side,
+          CASE WHEN o.side = ? THEN MAX(o.price) ELSE MIN(o.price) END as best
+        FROM offer_snapshots o
+        WHERE o.exchange = ? AND o.token_id = ? AND o.currency_id = ?
+          AND o.fetch_time >= ? AND o.fetch_time <= ?
+          AND EXISTS (
+            SELECT 1 FROM offer_payment_snapshots op
+            WHERE op.fetch_time = o.fetch_time AND op.exchange = o.exchange AND op.offer_id = o.offer_id
+              AND list_contains(?::INTEGER[], op.method_id)
+          )
+        GROUP BY o.fetch_time, o.side
+      ),
+      sides AS (
+        SELECT
+          ${BucketHelper.sql('fetch_time')} as time_bucket,
+          side,
+          arg_min(best, fetch_time) as open,
+          MAX(best) as high,
+          MIN(best) as low,
+          arg_max(best, fetch_time) as close,
+          COUNT(*) as snapshots
+        FROM tops
+        GROUP BY time_bucket, side
+      ),
+      candles AS (
+        SELECT
+          time_bucket,
+          MAX(open) FILTER (WHERE side = ?) as bid_open,
+          MAX(high) FILTER (WHERE side = ?) as bid_high,
+          MAX(low) FILTER (WHERE side = ?) as bid_low,
+          MAX(close) FILTER (WHERE side = ?) as bid_close,
+          MAX(open) FILTER (WHERE side = ?) as ask_open,
+          MAX(high) FILTER (WHERE side = ?) as ask_high,
+          MAX(low) FILTER (WHERE side = ?) as ask_low,
+          MAX(close) FILTER (WHERE side = ?) as ask_close,
+          CAST(SUM(snapshots) AS INTEGER) as snapshots
+        FROM sides
+        GROUP BY time_bucket
+      )
+      SELECT
+        *,
+        (bid_close + ask_close) / 2 as mid,
+        ask_close - bid_close as spread,
+        (ask_close - bid_close) / bid_close * 100 as spread_pct
+      FROM candles
+      ORDER BY time_bucket
+    `;
+    const { BUY, SELL } = TRADE_SIDE;
+    return await db.query(sql, [
+      BUY,
+      filters.exchange, filters.tokenId, filters.currencyId, filters.from, filters.to, filters.paymentMethodIds,
+      bucket.interval,
+      BUY, BUY, BUY, BUY, SELL, SELL, SELL, SELL
+    ]) as Candle[];
+  }
+
+  /**
+   * `scoped` CTE: distinct sightings of a pair's offers in [from, to) that accept any of `paymentMethodIds`
+   */
+  private summaryScope(filters: Omit<FlowFilters, 'side'>): { sql: string; params: unknown[] } {
+    return {
+      sql: `
+        scoped AS (
+          SELECT DISTINCT o.fetch_time, o.offer_id, o.user_id, o.side, o.price, o.last_quantity
+          FROM offer_snapshots o
+          WHERE o.exchange = ? AND o.token_id = ? AND o.currency_id = ?
+            AND o.fetch_time >= ? AND o.fetch_time < ?
+            AND EXISTS (
+              SELECT 1 FROM offer_payment_snapshots op
+              WHERE op.fetch_time = o.fetch_time AND op.exchange = o.exchange AND op.offer_id = o.offer_id
+                AND list_contains(?::INTEGER[], op.method_id)
+            )
+        )
+      `,
+      params: [filters.exchange, filters.tokenId, filters.currencyId, filters.from, filters.to, filters.paymentMethodIds]
+    };
+  }
+
+  /**
+   * Estimated fills of the offers in scope.
+   * Each offer's sightings are paired with its previous one; the quantity it lost is the larger of
+   * the executed quantity it gained and the available quantity it lost beyond a cut in its total quantity.
+   * The first sighting of an offer in the window has nothing to compare against and yields no fill.
+   */
+  private estimatedFills(filters: FlowFilters): { sql: string; params: unknown[] } {
+    const sideFilter = filters.side === undefined ? '' : 'AND o.side = ?';
+    const sql = `
+      WITH sightings AS (
+        SELECT DISTINCT
+          o.fetch_time, o.offer_id, o.user_id, o.side, o.price,
+          o.last_quantity, o.total_quantity, o.executed_quantity
+        FROM offer_snapshots o
+        WHERE o.exchange = ? AND o.token_id = ? AND o.currency_id = ? ${sideFilter}
+          AND o.fetch_time >= ? AND o.fetch_time <= ?
+          AND EXISTS (
+            SELECT 1 FROM offer_payment_snapshots op
+            WHERE op.fetch_time = o.fetch_time AND op.exchange = o.exchange AND op.offer_id = o.offer_id
+              AND list_contains(?::INTEGER[], op.method_id)
+          )
+      ),
+      deltas AS (
+        SELECT
+          *,
+          LAG(fetch_time) OVER sighting as previous_fetch_time,
+          LAG(price) OVER sighting as previous_price,
+          LAG(last_quantity) OVER sighting as previous_last_quantity,
+          LAG(total_quantity) OVER sighting as previous_total_quantity,
+          LAG(executed_quantity) OVER sighting as previous_executed_quantity
+        FROM sightings
+        WINDOW sighting AS (PARTITION BY offer_id ORDER BY fetch_time)
+      ),
+      sized AS (
+        SELECT
+          fetch_time, previous_fetch_time, offer_id, user_id, side, previous_price as price,
+          ROUND(GREATEST(
+            executed_quantity - previous_executed_quantity,
+            previous_last_quantity - last_quantity - GREATEST(previous_total_quantity - total_quantity, 0)
+          ), 8) as size
+        FROM deltas
+        WHERE previous_fetch_time IS NOT NULL
+      )
+      SELECT *, size * price as notional FROM sized WHERE size > 0
+    `;
+    const params: unknown[] = [filters.exchange, filters.tokenId, filters.currencyId];
+    if (filters.side !== undefined) params.push(filters.side);
+    params.push(filters.from, filters.to, filters.paymentMethodIds);
+    return { sql, params };
+  }
+
+  /**
+   * Get the offers of the latest snapshot of one book side per market stream in scope, best price first.
+   * Only snapshots of the last `lookbackHours` count, and a stream whose latest sweep was empty adds no offers.
+   * An offer seen by several streams is taken from the latest snapshot that holds it.
+   */
+  async getLatestSnapshotOffers(filters: BookScope & { side: number }): Promise<BookOffer[]> {
+    if (filters.paymentMethodSets.length === 0) return [];
+
+    const to = new Date();
+    const from = new Date(to.getTime() - filters.lookbackHours * 60 * 60 * 1000);
+    const streams = this.streamSnapshots(filters, from, to, filters.side);
+    const sql = `
+      WITH ${streams.sql},
+      latest AS (
+        SELECT DISTINCT side, fetch_time
+        FROM snapshots
+        QUALIFY ROW_NUMBER() OVER (PARTITION BY stream ORDER BY fetch_time DESC) = 1
+      )
+      SELECT
+        o.*,
+        u.nick_name,
+        tp.is_kyc,
+        tp.order_finish_30d,
+        tp.complete_rate_30d
+      FROM offer_snapshots o
+      JOIN latest l ON l.side = o.side AND l.fetch_time = o.fetch_time
+      LEFT JOIN p2p_users u ON u.exchange = o.exchange AND u.user_id = o.user_id
+      LEFT JOIN trading_preference_snapshots tp ON tp.fetch_time = o.fetch_time AND tp.exchange = o.exchange AND tp.offer_id = o.offer_id
+      WHERE o.exchange = ? AND o.token_id = ? AND o.currency_id = ?
+      QUALIFY ROW_NUMBER() OVER (PARTITION BY o.offer_id ORDER BY o.fetch_time DESC) = 1
+      ORDER BY CASE WHEN o.side = ? THEN -o.price ELSE o.price END, o.offer_id
+    `;
+    return await db.query(sql, [
+      ...streams.params,
+      filters.exchange,
+      filters.tokenId,
+      filters.currencyId,
+      TRADE_SIDE.BUY
+    ]) as BookOffer[];
+  }
+
+  /**
+   * Get both sides of the book from the snapshot of each side nearest to `at` (earlier wins a tie) per market stream
+   * in scope, best price first with cumulative depth. Only snapshots within `lookbackHours` of `at` count, and a
+   * stream whose nearest sweep was empty adds no offers. An offer seen by several streams is taken from the latest
+   * of those snapshots that holds it. A merchant selection narrows the levels of those snapshots, so depth only adds
+   * up the selected merchants.
+   */
+  async getDepthAt(filters: BookScope & { at: Date; merchants?: MerchantSelection }): Promise<DepthLevel[]> {
+    if (filters.paymentMethodSets.length === 0) return [];
+
+    const lookbackMs = filters.lookbackHours * 60 * 60 * 1000;
+    const streams = this.streamSnapshots(
+      filters,
+      new Date(filters.at.getTime() - lookbackMs),
+      new Date(filters.at.getTime() + lookbackMs)
+    );
+    const merchants = merchantSelectionSql('s', filters.merchants);
+    const sql = `
+      WITH ${streams.sql},
+      nearest AS (
+        SELECT DISTINCT side, fetch_time
+        FROM snapshots
+        QUALIFY ROW_NUMBER() OVER (
+          PARTITION BY stream
+          ORDER BY ABS(epoch_ms(fetch_time) - epoch_ms(CAST(? AS TIMESTAMP))), fetch_time
+        ) = 1
+      ),
+      scoped AS (
+        SELECT o.*, CASE WHEN o.side = ? THEN -o.price ELSE o.price END AS depth_rank
+        FROM offer_snapshots o
+        JOIN nearest n ON n.side = o.side AND n.fetch_time = o.fetch_time
+        WHERE o.exchange = ? AND o.token_id = ? AND o.currency_id = ?
+        QUALIFY ROW_NUMBER() OVER (PARTITION BY o.side, o.offer_id ORDER BY o.fetch_time DESC) = 1
+      )
+      SELECT
+        s.fetch_time,
+        s.side,
+        s.offer_id,
+        s.user_id,
+        u.nick_name,
+        s.price,
+        s.last_quantity AS quantity,
+        s.min_amount,
+        s.max_amount,
+        SUM(s.last_quantity) OVER depth AS cumulative_quantity,
+        SUM(s.last_quantity * s.price) OVER depth AS cumulative_amount
+      FROM scoped s
+      LEFT JOIN p2p_users u ON u.exchange = s.exchange AND u.user_id = s.user_id
+      WHERE TRUE ${merchants.sql}
+      WINDOW depth AS (PARTITION BY s.side ORDER BY s.depth_rank, s.offer_id ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW)
+      ORDER BY s.side, s.depth_rank, s.offer_id
+    `;
+    return await db.query(sql, [
+      ...streams.params,
+      filters.at,
+      TRADE_SIDE.BUY,
+      filters.exchange,
+      filters.tokenId,
+      filters.currencyId,
+      ...merchants.params
+    ]) as DepthLevel[];
+  }
+
+  /**
+   * `snapshots` CTE: the snapshots stored in [from, to] by each market stream in scope, by the stream key
+   * recorded with them, empty sweeps included
+   */
+  private streamSnapshots(filters: BookScope, from: Date, to: Date, side?: number): { sql: string; params: unknown[] } {
+    const sides = side !== undefined ? [side] : [TRADE_SIDE.SELL, TRADE_SIDE.BUY];
+    const streams = filters.paymentMethodSets.flatMap((methods) =>
+      sides.map((bookSide) => streamKey(filters.exchange, filters.tokenId, filters.currencyId, bookSide, methods))
+    );
+
+    return {
+      sql: `
+        snapshots AS (
+          SELECT stream, side, fetch_time
+          FROM book_snapshots
+          WHERE stream IN (${streams.map(() => '?').join(', ')}) AND fetch_time BETWEEN ? AND ?
+        )
+      `,
+      params: [...streams, from, to]
+    };
   }
 
   /**
@@ -190,7 +690,7 @@ export class P2POfferModel {
         side,
         price,
         total_quantity
-      FROM p2p_offers
+      FROM offer_snapshots
       ORDER BY fetch_time DESC
       LIMIT ?
     `;
@@ -198,29 +698,72 @@ export class P2POfferModel {
   }
 
   /**
-   * Get offers with user and symbol information filtered by payment method
+   * Get offers with user and symbol information for a set of watched markets
+   * (exchange, token pair and accepted payment methods)
    * Groups by user_id and averages the total_quantity to avoid volume summing
    */
-  async getOffersWithDetailsByPayment(paymentMethodId: number, limit: number = 100): Promise<any[]> {
+  async getOffersWithDetailsByMarkets(
+    markets: Array<{ exchange: string; token_id: string; currency_id: string; payment_methods: number[] }>,
+    limit: number = 100,
+    selection?: MerchantSelection
+  ): Promise<any[]> {
+    if (markets.length === 0) return [];
+
+    const marketFilter = markets
+      .map(() => '(o.exchange = ? AND o.token_id = ? AND o.currency_id = ? AND list_contains(?::INTEGER[], op.method_id))')
+      .join(' OR ');
+    const params = markets.flatMap((market) => [
+      market.exchange,
+      market.token_id,
+      market.currency_id,
+      market.payment_methods
+    ]);
+    const merchants = merchantSelectionSql('o', selection);
+
+    // Payment method names are those the offer accepted in its latest snapshot
+    const sql = `
+      SELECT
+        latest.*,
+        COALESCE((
+          SELECT list(pm.name ORDER BY pm.method_id)
+          FROM offer_payment_snapshots lp
+          JOIN payment_methods pm ON pm.method_id = lp.method_id
+          WHERE lp.fetch_time = latest.fetch_time AND lp.exchange = latest.exchange AND lp.offer_id = latest.offer_id
+        ), []) as payment_methods
+      FROM (
+        SELECT 
+          MAX(o.fetch_time) as fetch_time,
+          o.exchange,
+          o.offer_id,
+          o.account_id,
+          o.user_id,
+          o.token_id,
+          o.currency_id,
+          o.side,
+          AVG(o.price) as price,
+          AVG(o.total_quantity) as total_quantity
+        FROM offer_snapshots o
+        JOIN offer_payment_snapshots op ON o.fetch_time = op.fetch_time AND o.exchange = op.exchange AND o.offer_id = op.offer_id
+        WHERE (${marketFilter}) ${merchants.sql}
+        GROUP BY o.exchange, o.user_id, o.token_id, o.currency_id, o.side, o.offer_id, o.account_id
+        ORDER BY MAX(o.fetch_time) DESC
+        LIMIT ?
+      ) latest
+      ORDER BY latest.fetch_time DESC
+    `;
+    return await db.query(sql, [...params, ...merchants.params, limit]);
+  }
+
+  /**
+   * Delete the offers of a snapshot.
+   * Offer payments and trading preferences of the snapshot must be deleted first.
+   */
+  async deleteBySnapshot(snapshot: SnapshotKey, executor: Queryable = db): Promise<void> {
     const sql = `
-      SELECT 
-        MAX(o.fetch_time) as fetch_time,
-        o.offer_id,
-        o.account_id,
-        o.user_id,
-        o.token_id,
-        o.currency_id,
-        o.side,
-        AVG(o.price) as price,
-        AVG(o.total_quantity) as total_quantity
-      FROM p2p_offers o
-      JOIN offer_payments op ON o.fetch_time = op.fetch_time AND o.offer_id = op.offer_id
-      WHERE op.method_id = ?
-      GROUP BY o.user_id, o.token_id, o.currency_id, o.side, o.offer_id, o.account_id
-      ORDER BY MAX(o.fetch_time) DESC
-      LIMIT ?
+      DELETE FROM p2p_offers
+      WHERE fetch_time = ? AND exchange = ? AND token_id = ? AND currency_id = ? AND side = ?
     `;
-    return await db.query(sql, [paymentMethodId, limit]);
+    await executor.run(sql, [snapshot.fetch_time, snapshot.exchange, snapshot.token_id, snapshot.currency_id, snapshot.side]);
   }
 
   /**
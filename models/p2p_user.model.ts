@@ -1,9 +1,11 @@
-import db from '../db/db.ts';
+import db, { type Queryable } from '../db/db.ts';
+import { DEFAULT_PARAMS } from '../shared/constants.ts';
 
 /**
  * P2P User interface representing P2P user data (separate from auth users)
  */
 export interface P2PUser {
+  exchange: string;
   user_id: bigint;
   account_id?: bigint;
   nick_name?: string;
@@ -11,6 +13,24 @@ export interface P2PUser {
   maker_contact?: boolean;
 }
 
+/**
+ * A nickname a P2P user was listed under, from its first to its latest sighting
+ */
+export interface P2PUserNickname {
+  exchange: string;
+  user_id: bigint;
+  nick_name: string;
+  first_seen: Date;
+  last_seen: Date;
+}
+
+/**
+ * Columns of the p2p_users dimension, in insert order
+ */
+const P2P_USER_COLUMNS: Array<keyof P2PUser> = [
+  'user_id', 'exchange', 'account_id', 'nick_name', 'blocked', 'maker_contact'
+];
+
 /**
  * P2P User data access layer
  */
@@ -18,30 +38,16 @@ export class P2PUserModel {
   /**
    * Insert or update P2P user information
    */
-  async upsert(user: P2PUser): Promise<void> {
-    const sql = `
-      INSERT OR REPLACE INTO p2p_users (
-        user_id, account_id, nick_name, blocked, maker_contact
-      ) VALUES (?, ?, ?, ?, ?)
-    `;
-
-    const params = [
-      user.user_id,
-      user.account_id,
-      user.nick_name,
-      user.blocked,
-      user.maker_contact
-    ];
-
-    await db.run(sql, params);
+  async upsert(user: P2PUser, executor: Queryable = db): Promise<void> {
+    await this.upsertMany([user], executor);
   }
 
   /**
-   * Get P2P user by ID
+   * Get P2P user by ID; user IDs are only unique within an exchange
    */
-  async getById(userId: bigint): Promise<P2PUser | null> {
-    const sql = `SELECT * FROM p2p_users WHERE user_id = ?`;
-    return await db.get(sql, [userId]);
+  async getById(userId: bigint, exchange: string = DEFAULT_PARAMS.EXCHANGE): Promise<P2PUser | null> {
+    const sql = `SELECT * FROM p2p_users WHERE exchange = ? AND user_id = ?`;
+    return await db.get(sql, [exchange, userId]);
   }
 
   /**
@@ -56,7 +62,7 @@ export class P2PUserModel {
    * Get all P2P users
    */
   async getAll(): Promise<P2PUser[]> {
-    const sql = `SELECT * FROM p2p_users ORDER BY user_id`;
+    const sql = `SELECT * FROM p2p_users ORDER BY exchange, user_id`;
     return await db.query(sql);
   }
 
@@ -79,28 +85,60 @@ export class P2PUserModel {
   /**
    * Bulk upsert P2P users
    */
-  async upsertMany(users: P2PUser[]): Promise<void> {
-    if (users.length === 0) return;
+  async upsertMany(users: P2PUser[], executor: Queryable = db): Promise<void> {
+    await db.insertMany('p2p_users', P2P_USER_COLUMNS, users, { conflict: 'replace', executor });
+  }
+
+  /**
+   * Record the nicknames users were listed under at `seenAt`, widening the sighting range of known ones
+   */
+  async recordNicknames(users: P2PUser[], seenAt: Date, executor: Queryable = db): Promise<void> {
+    const nicknames: P2PUserNickname[] = users
+      .filter((user) => user.nick_name)
+      .map((user) => ({
+        exchange: user.exchange,
+        user_id: user.user_id,
+        nick_name: user.nick_name as string,
+        first_seen: seenAt,
+        last_seen: seenAt
+      }));
 
-    for (const user of users) {
-      await this.upsert(user);
-    }
+    await db.insertMany('p2p_user_nicknames', ['exchange', 'user_id', 'nick_name', 'first_seen', 'last_seen'], nicknames, {
+      onConflict: `
+        ON CONFLICT (exchange, user_id, nick_name) DO UPDATE SET
+          first_seen = LEAST(p2p_user_nicknames.first_seen, excluded.first_seen),
+          last_seen = GREATEST(p2p_user_nicknames.last_seen, excluded.last_seen)
+      `,
+      executor
+    });
+  }
+
+  /**
+   * Get the nicknames of a user, in the order they were first seen
+   */
+  async getNicknames(userId: bigint, exchange?: string): Promise<P2PUserNickname[]> {
+    const sql = `
+      SELECT * FROM p2p_user_nicknames
+      WHERE user_id = ?${exchange ? ' AND exchange = ?' : ''}
+      ORDER BY first_seen, nick_name
+    `;
+    return await db.query(sql, exchange ? [userId.toString(), exchange] : [userId.toString()]) as P2PUserNickname[];
   }
 
   /**
    * Update user blocked status
    */
-  async updateBlockedStatus(userId: bigint, blocked: boolean): Promise<void> {
-    const sql = `UPDATE p2p_users SET blocked = ? WHERE user_id = ?`;
-    await db.run(sql, [blocked, userId]);
+  async updateBlockedStatus(userId: bigint, blocked: boolean, exchange: string = DEFAULT_PARAMS.EXCHANGE): Promise<void> {
+    const sql = `UPDATE p2p_users SET blocked = ? WHERE exchange = ? AND user_id = ?`;
+    await db.run(sql, [blocked, exchange, userId]);
   }
 
   /**
    * Delete P2P user by ID
    */
-  async delete(userId: bigint): Promise<void> {
-    const sql = `DELETE FROM p2p_users WHERE user_id = ?`;
-    await db.run(sql, [userId]);
+  async delete(userId: bigint, exchange: string = DEFAULT_PARAMS.EXCHANGE): Promise<void> {
+    const sql = `DELETE FROM p2p_users WHERE exchange = ? AND user_id = ?`;
+    await db.run(sql, [exchange, userId]);
   }
 
   /**
@@ -1,18 +1,63 @@
-import db from '../db/db.ts';
+import db, { type Queryable } from '../db/db.ts';
+import type { SnapshotKey } from './p2p_offer.model.ts';
+import { DEFAULT_PARAMS } from '../shared/constants.ts';
 
 /**
- * Payment Method interface
+ * Kind of payment rail a method moves money over
+ */
+export type PaymentMethodType = 'bank' | 'e_wallet' | 'cash' | 'other';
+
+export const PAYMENT_METHOD_TYPES: PaymentMethodType[] = ['bank', 'e_wallet', 'cash', 'other'];
+
+/**
+ * Where a catalog entry came from, lowest precedence first.
+ * A write only replaces entries from the same or a lower-precedence source,
+ * so syncs never undo admin overrides.
+ */
+export type PaymentMethodSource = 'unknown' | 'seed' | 'exchange' | 'admin';
+
+export const PAYMENT_METHOD_SOURCES: PaymentMethodSource[] = ['unknown', 'seed', 'exchange', 'admin'];
+
+/**
+ * Payment Method interface: an entry of the payment method catalog
  */
 export interface PaymentMethod {
   method_id: number;
   name: string;
+  type?: PaymentMethodType | null;
+  country?: string | null;
+  currency_id?: string | null;
+  source?: PaymentMethodSource;
+  updated_at?: Date | null;
 }
 
+/**
+ * Filters accepted when listing the catalog
+ */
+export interface PaymentMethodFilters {
+  type?: PaymentMethodType;
+  country?: string;
+  currencyId?: string;
+  source?: PaymentMethodSource;
+  search?: string;
+}
+
+const PAYMENT_METHOD_COLUMNS: Array<keyof PaymentMethod & string> = [
+  'method_id',
+  'name',
+  'type',
+  'country',
+  'currency_id',
+  'source',
+  'updated_at'
+];
+
 /**
  * Offer Payment interface for the bridge table
  */
 export interface OfferPayment {
   fetch_time: Date;
+  exchange: string;
   offer_id: bigint;
   method_id: number;
 }
@@ -22,14 +67,69 @@ export interface OfferPayment {
  */
 export class PaymentMethodModel {
   /**
-   * Insert or update payment method
+   * Write a catalog entry on behalf of `source`
    */
-  async upsert(method: PaymentMethod): Promise<void> {
-    const sql = `
-      INSERT OR REPLACE INTO payment_methods (method_id, name) 
-      VALUES (?, ?)
-    `;
-    await db.run(sql, [method.method_id, method.name]);
+  async upsert(method: PaymentMethod, source: PaymentMethodSource, executor: Queryable = db): Promise<void> {
+    await this.upsertMany([method], source, executor);
+  }
+
+  /**
+   * Write catalog entries on behalf of `source`.
+   * Entries owned by a higher-precedence source are left alone; missing
+   * type, country and fiat keep the values already known.
+   */
+  async upsertMany(methods: PaymentMethod[], source: PaymentMethodSource, executor: Queryable = db): Promise<void> {
+    const now = new Date();
+    const replaceable = PAYMENT_METHOD_SOURCES.slice(0, PAYMENT_METHOD_SOURCES.indexOf(source) + 1)
+      .map((candidate) => `'${candidate}'`)
+      .join(', ');
+
+    await db.insertMany(
+      'payment_methods',
+      PAYMENT_METHOD_COLUMNS,
+      methods.map((method) => ({
+        method_id: method.method_id,
+        name: method.name,
+        type: method.type ?? null,
+        country: method.country ?? null,
+        currency_id: method.currency_id ?? null,
+        source,
+        updated_at: now
+      })),
+      {
+        onConflict: `
+          ON CONFLICT (method_id) DO UPDATE SET
+            name = excluded.name,
+            type = COALESCE(excluded.type, payment_methods.type),
+            country = COALESCE(excluded.country, payment_methods.country),
+            currency_id = COALESCE(excluded.currency_id, payment_methods.currency_id),
+            source = excluded.source,
+            updated_at = excluded.updated_at
+          WHERE payment_methods.source IN (${replaceable})
+        `,
+        executor
+      }
+    );
+  }
+
+  /**
+   * Add placeholder entries for method IDs the catalog does not know yet
+   */
+  async createMissing(methodIds: number[], executor: Queryable = db): Promise<void> {
+    await db.insertMany(
+      'payment_methods',
+      ['method_id', 'name', 'source'],
+      methodIds.map((methodId) => ({ method_id: methodId, name: `Payment Method ${methodId}`, source: 'unknown' })),
+      { conflict: 'ignore', executor }
+    );
+  }
+
+  /**
+   * Hand an entry back to the syncs: the next seed or exchange sync replaces it
+   */
+  async releaseOverride(methodId: number, executor: Queryable = db): Promise<void> {
+    const sql = `UPDATE payment_methods SET source = 'unknown', updated_at = ? WHERE method_id = ?`;
+    await executor.run(sql, [new Date(), methodId]);
   }
 
   /**
@@ -37,26 +137,50 @@ export class PaymentMethodModel {
    */
   async getById(methodId: number): Promise<PaymentMethod | null> {
     const sql = `SELECT * FROM payment_methods WHERE method_id = ?`;
-    return await db.get(sql, [methodId]);
+    return await db.get(sql, [methodId]) as PaymentMethod | null;
   }
 
   /**
-   * Get all payment methods
+   * Get payment methods by ID, in ID order
    */
-  async getAll(): Promise<PaymentMethod[]> {
-    const sql = `SELECT * FROM payment_methods ORDER BY method_id`;
-    return await db.query(sql);
+  async getByIds(methodIds: number[]): Promise<PaymentMethod[]> {
+    if (methodIds.length === 0) return [];
+
+    const sql = `SELECT * FROM payment_methods WHERE list_contains(?::INTEGER[], method_id) ORDER BY method_id`;
+    return await db.query(sql, [methodIds]) as PaymentMethod[];
   }
 
   /**
-   * Bulk upsert payment methods
+   * Get all payment methods, optionally filtered
    */
-  async upsertMany(methods: PaymentMethod[]): Promise<void> {
-    if (methods.length === 0) return;
+  async getAll(filters: PaymentMethodFilters = {}): Promise<PaymentMethod[]> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    const equals: Array<[string, unknown]> = [
+      ['type', filters.type],
+      ['country', filters.country],
+      ['currency_id', filters.currencyId],
+      ['source', filters.source],
+    ];
+    for (const [column, value] of equals) {
+      if (value !== undefined) {
+        conditions.push(`${column} = ?`);
+        params.push(value);
+      }
+    }
 
-    for (const method of methods) {
-      await this.upsert(method);
+    if (filters.search) {
+      conditions.push('name ILIKE ?');
+      params.push(`%${filters.search}%`);
     }
+
+    const sql = `
+      SELECT * FROM payment_methods
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY method_id
+    `;
+    return await db.query(sql, params) as PaymentMethod[];
   }
 
   /**
@@ -77,47 +201,39 @@ export class PaymentMethodModel {
 }
 
 /**
- * Offer Payment bridge table data access layer
+ * Offer Payment bridge table data access layer.
+ * Reads go through the `offer_payment_snapshots` view so they cover both storage modes.
  */
 export class OfferPaymentModel {
   /**
    * Add payment method to an offer
    */
-  async create(offerPayment: OfferPayment): Promise<void> {
-    const sql = `
-      INSERT OR IGNORE INTO offer_payments (fetch_time, offer_id, method_id) 
-      VALUES (?, ?, ?)
-    `;
-    await db.run(sql, [
-      offerPayment.fetch_time,
-      offerPayment.offer_id,
-      offerPayment.method_id
-    ]);
+  async create(offerPayment: OfferPayment, executor: Queryable = db): Promise<void> {
+    await this.createMany([offerPayment], executor);
   }
 
   /**
    * Add multiple payment methods to an offer
    */
-  async createMany(offerPayments: OfferPayment[]): Promise<void> {
-    if (offerPayments.length === 0) return;
-
-    for (const offerPayment of offerPayments) {
-      await this.create(offerPayment);
-    }
+  async createMany(offerPayments: OfferPayment[], executor: Queryable = db): Promise<void> {
+    await db.insertMany('offer_payments', ['fetch_time', 'exchange', 'offer_id', 'method_id'], offerPayments, {
+      conflict: 'ignore',
+      executor
+    });
   }
 
   /**
    * Get payment methods for a specific offer
    */
-  async getByOffer(fetchTime: Date, offerId: bigint): Promise<PaymentMethod[]> {
+  async getByOffer(fetchTime: Date, offerId: bigint, exchange: string = DEFAULT_PARAMS.EXCHANGE): Promise<PaymentMethod[]> {
     const sql = `
       SELECT pm.* 
       FROM payment_methods pm
-      JOIN offer_payments op ON pm.method_id = op.method_id
-      WHERE op.fetch_time = ? AND op.offer_id = ?
+      JOIN offer_payment_snapshots op ON pm.method_id = op.method_id
+      WHERE op.fetch_time = ? AND op.exchange = ? AND op.offer_id = ?
       ORDER BY pm.method_id
     `;
-    return await db.query(sql, [fetchTime, offerId]);
+    return await db.query(sql, [fetchTime, exchange, offerId]);
   }
 
   /**
@@ -126,8 +242,8 @@ export class OfferPaymentModel {
   async getOffersByPaymentMethod(methodId: number, limit: number = 100): Promise<any[]> {
     const sql = `
       SELECT o.*, pm.name as payment_method_name
-      FROM p2p_offers o
-      JOIN offer_payments op ON o.fetch_time = op.fetch_time AND o.offer_id = op.offer_id
+      FROM offer_snapshots o
+      JOIN offer_payment_snapshots op ON o.fetch_time = op.fetch_time AND o.exchange = op.exchange AND o.offer_id = op.offer_id
       JOIN payment_methods pm ON op.method_id = pm.method_id
       WHERE op.method_id = ?
       ORDER BY o.fetch_time DESC
@@ -136,6 +252,31 @@ export class OfferPaymentModel {
     return await db.query(sql, [methodId, limit]);
   }
 
+  /**
+   * Get offers for a token pair that support any of the given payment methods
+   */
+  async getOffersByPaymentMethods(
+    exchange: string,
+    tokenId: string,
+    currencyId: string,
+    methodIds: number[],
+    limit: number = 100
+  ): Promise<any[]> {
+    const sql = `
+      SELECT o.*
+      FROM offer_snapshots o
+      WHERE o.exchange = ? AND o.token_id = ? AND o.currency_id = ?
+        AND EXISTS (
+          SELECT 1 FROM offer_payment_snapshots op
+          WHERE op.fetch_time = o.fetch_time AND op.exchange = o.exchange AND op.offer_id = o.offer_id
+            AND list_contains(?::INTEGER[], op.method_id)
+        )
+      ORDER BY o.fetch_time DESC
+      LIMIT ?
+    `;
+    return await db.query(sql, [exchange, tokenId, currencyId, methodIds, limit]);
+  }
+
   /**
    * Get payment method statistics
    */
@@ -144,11 +285,13 @@ export class OfferPaymentModel {
       SELECT 
         pm.method_id,
         pm.name,
+        pm.type,
+        pm.country,
         COUNT(DISTINCT op.offer_id) as offer_count,
         COUNT(*) as total_snapshots
       FROM payment_methods pm
-      LEFT JOIN offer_payments op ON pm.method_id = op.method_id
-      GROUP BY pm.method_id, pm.name
+      LEFT JOIN offer_payment_snapshots op ON pm.method_id = op.method_id
+      GROUP BY pm.method_id, pm.name, pm.type, pm.country
       ORDER BY offer_count DESC
     `;
     return await db.query(sql);
@@ -157,9 +300,31 @@ export class OfferPaymentModel {
   /**
    * Delete payment methods for a specific offer
    */
-  async deleteByOffer(fetchTime: Date, offerId: bigint): Promise<void> {
-    const sql = `DELETE FROM offer_payments WHERE fetch_time = ? AND offer_id = ?`;
-    await db.run(sql, [fetchTime, offerId]);
+  async deleteByOffer(fetchTime: Date, offerId: bigint, exchange: string = DEFAULT_PARAMS.EXCHANGE): Promise<void> {
+    const sql = `DELETE FROM offer_payments WHERE fetch_time = ? AND exchange = ? AND offer_id = ?`;
+    await db.run(sql, [fetchTime, exchange, offerId]);
+  }
+
+  /**
+   * Delete the offer payments of a snapshot's offers
+   */
+  async deleteBySnapshot(snapshot: SnapshotKey, executor: Queryable = db): Promise<void> {
+    const sql = `
+      DELETE FROM offer_payments
+      WHERE fetch_time = ? AND exchange = ? AND offer_id IN (
+        SELECT offer_id FROM p2p_offers
+        WHERE fetch_time = ? AND exchange = ? AND token_id = ? AND currency_id = ? AND side = ?
+      )
+    `;
+    await executor.run(sql, [
+      snapshot.fetch_time,
+      snapshot.exchange,
+      snapshot.fetch_time,
+      snapshot.exchange,
+      snapshot.token_id,
+      snapshot.currency_id,
+      snapshot.side
+    ]);
   }
 
   /**
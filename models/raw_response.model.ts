@@ -0,0 +1,110 @@
+import db, { type Queryable } from '../db/db.ts';
+import type { SnapshotKey } from './p2p_offer.model.ts';
+
+/**
+ * Archived raw venue response: one compressed body per fetched page
+ */
+export interface RawResponse {
+  id: string;
+  fetch_time: Date;
+  market_id?: string | null;
+  exchange: string;
+  token_id: string;
+  currency_id: string;
+  side: number;
+  page: number;
+  http_status?: number | null;
+  encoding: string;
+  body: Uint8Array;
+}
+
+/**
+ * Filters selecting archived snapshots to replay
+ */
+export interface RawResponseFilters {
+  from: Date;
+  to: Date;
+  marketId?: string;
+  exchange?: string;
+  tokenId?: string;
+  currencyId?: string;
+}
+
+/**
+ * Columns of the raw_responses table, in insert order
+ */
+const RAW_RESPONSE_COLUMNS: Array<keyof RawResponse> = [
+  'id', 'fetch_time', 'market_id', 'exchange', 'token_id', 'currency_id',
+  'side', 'page', 'http_status', 'encoding', 'body'
+];
+
+/**
+ * Raw response archive data access layer
+ */
+export class RawResponseModel {
+  /**
+   * Bulk insert archived responses
+   */
+  async createMany(responses: Array<Omit<RawResponse, 'id'>>, executor: Queryable = db): Promise<void> {
+    const records = responses.map((response) => ({ ...response, id: db.generateId() }));
+    await db.insertMany('raw_responses', RAW_RESPONSE_COLUMNS, records, { executor });
+  }
+
+  /**
+   * List the archived snapshots in a time range, oldest first
+   */
+  async getSnapshots(filters: RawResponseFilters): Promise<SnapshotKey[]> {
+    const conditions: string[] = ['fetch_time >= ?', 'fetch_time <= ?'];
+    const params: unknown[] = [filters.from, filters.to];
+
+    const equals: Array<[string, unknown]> = [
+      ['market_id', filters.marketId],
+      ['exchange', filters.exchange],
+      ['token_id', filters.tokenId],
+      ['currency_id', filters.currencyId],
+    ];
+    for (const [column, value] of equals) {
+      if (value !== undefined) {
+        conditions.push(`${column} = ?`);
+        params.push(value);
+      }
+    }
+
+    const sql = `
+      SELECT DISTINCT fetch_time, exchange, token_id, currency_id, side
+      FROM raw_responses
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY fetch_time, exchange, token_id, currency_id, side
+    `;
+    return await db.query(sql, params) as SnapshotKey[];
+  }
+
+  /**
+   * Get the archived pages of a snapshot, in page order
+   */
+  async getBySnapshot(snapshot: SnapshotKey): Promise<RawResponse[]> {
+    const sql = `
+      SELECT * FROM raw_responses
+      WHERE fetch_time = ? AND exchange = ? AND token_id = ? AND currency_id = ? AND side = ?
+      ORDER BY page
+    `;
+    return await db.query(sql, [
+      snapshot.fetch_time,
+      snapshot.exchange,
+      snapshot.token_id,
+      snapshot.currency_id,
+      snapshot.side
+    ]) as RawResponse[];
+  }
+
+  /**
+   * Delete old archived responses (for data retention)
+   */
+  async deleteOldRecords(retentionDays: number = 30): Promise<void> {
+    const cutoffDate = new Date();
+    cutoffDate.setDate(cutoffDate.getDate() - retentionDays);
+
+    const sql = `DELETE FROM raw_responses WHERE fetch_time < ?`;
+    await db.run(sql, [cutoffDate]);
+  }
+}
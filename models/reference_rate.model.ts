@@ -0,0 +1,123 @@
+import db, { type Queryable } from '../db/db.ts';
+
+/**
+ * Reference FX rate: price of one `base_id` in `quote_id` at `rate_time`, as published by `source`
+ */
+export interface ReferenceRate {
+  source: string;
+  base_id: string;
+  quote_id: string;
+  rate_time: Date;
+  rate: number;
+  fetched_at: Date;
+}
+
+/**
+ * Filters accepted when listing reference rates
+ */
+export interface ReferenceRateFilters {
+  source?: string;
+  baseId?: string;
+  quoteId?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+const REFERENCE_RATE_COLUMNS: Array<keyof ReferenceRate & string> = [
+  'source',
+  'base_id',
+  'quote_id',
+  'rate_time',
+  'rate',
+  'fetched_at'
+];
+
+/**
+ * Reference Rate data access layer
+ */
+export class ReferenceRateModel {
+  /**
+   * Store rates; a rate already stored for the same source, pair and time is replaced
+   */
+  async upsertMany(rates: ReferenceRate[], executor: Queryable = db): Promise<void> {
+    await db.insertMany('reference_rates', REFERENCE_RATE_COLUMNS, rates, {
+      onConflict: `
+        ON CONFLICT (source, base_id, quote_id, rate_time) DO UPDATE SET
+          rate = excluded.rate,
+          fetched_at = excluded.fetched_at
+      `,
+      executor
+    });
+  }
+
+  /**
+   * List rates, newest first
+   */
+  async getRates(filters: ReferenceRateFilters = {}): Promise<ReferenceRate[]> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    const equals: Array<[string, unknown]> = [
+      ['source', filters.source],
+      ['base_id', filters.baseId],
+      ['quote_id', filters.quoteId]
+    ];
+    for (const [column, value] of equals) {
+      if (value !== undefined) {
+        conditions.push(`${column} = ?`);
+        params.push(value);
+      }
+    }
+
+    if (filters.from) {
+      conditions.push('rate_time >= ?');
+      params.push(filters.from);
+    }
+    if (filters.to) {
+      conditions.push('rate_time <= ?');
+      params.push(filters.to);
+    }
+
+    const sql = `
+      SELECT * FROM reference_rates
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY rate_time DESC, source
+      LIMIT ?
+    `;
+    params.push(filters.limit ?? 1000);
+
+    return await db.query(sql, params) as ReferenceRate[];
+  }
+
+  /**
+   * Get the rates of a pair in effect during [from, to], oldest first:
+   * every rate inside the range plus the latest one before it.
+   * With several sources, the one listed first per `rate_time` is kept.
+   */
+  async getRatesInEffect(
+    filters: Required<Pick<ReferenceRateFilters, 'baseId' | 'quoteId' | 'from' | 'to'>> & { source?: string }
+  ): Promise<ReferenceRate[]> {
+    const scope = `base_id = ? AND quote_id = ? AND (? IS NULL OR source = ?)`;
+    const scopeParams = [filters.baseId, filters.quoteId, filters.source ?? null, filters.source ?? null];
+
+    const sql = `
+      SELECT * FROM reference_rates
+      WHERE ${scope}
+        AND rate_time <= ?
+        AND rate_time >= COALESCE(
+          (SELECT MAX(rate_time) FROM reference_rates WHERE ${scope} AND rate_time <= ?),
+          ?
+        )
+      QUALIFY ROW_NUMBER() OVER (PARTITION BY rate_time ORDER BY source) = 1
+      ORDER BY rate_time
+    `;
+    return await db.query(sql, [
+      ...scopeParams,
+      filters.to,
+      ...scopeParams,
+      filters.from,
+      filters.from
+    ]) as ReferenceRate[];
+  }
+}
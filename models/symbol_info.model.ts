@@ -1,4 +1,4 @@
-import db from '../db/db.ts';
+import db, { type Queryable } from '../db/db.ts';
 
 /**
  * Symbol Info interface representing symbol metadata
@@ -25,6 +25,17 @@ export interface SymbolInfo {
   order_finish_minute?: number;
 }
 
+/**
+ * Columns of the symbol_info dimension, in insert order
+ */
+const SYMBOL_INFO_COLUMNS: Array<keyof SymbolInfo> = [
+  'symbol_id', 'exchange_id', 'org_id', 'token_id', 'currency_id', 'status',
+  'lower_limit_alarm', 'upper_limit_alarm', 'item_down_range', 'item_up_range',
+  'currency_min_quote', 'currency_max_quote', 'token_min_quote', 'token_max_quote',
+  'currency_lower_max', 'buy_fee_rate', 'sell_fee_rate', 'order_auto_cancel',
+  'order_finish_minute'
+];
+
 /**
  * Symbol Info data access layer
  */
@@ -32,40 +43,8 @@ export class SymbolInfoModel {
   /**
    * Insert or update symbol information
    */
-  async upsert(symbolInfo: SymbolInfo): Promise<void> {
-    const sql = `
-      INSERT OR REPLACE INTO symbol_info (
-        symbol_id, exchange_id, org_id, token_id, currency_id, status,
-        lower_limit_alarm, upper_limit_alarm, item_down_range, item_up_range,
-        currency_min_quote, currency_max_quote, token_min_quote, token_max_quote,
-        currency_lower_max, buy_fee_rate, sell_fee_rate, order_auto_cancel,
-        order_finish_minute
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `;
-
-    const params = [
-      symbolInfo.symbol_id,
-      symbolInfo.exchange_id,
-      symbolInfo.org_id,
-      symbolInfo.token_id,
-      symbolInfo.currency_id,
-      symbolInfo.status,
-      symbolInfo.lower_limit_alarm,
-      symbolInfo.upper_limit_alarm,
-      symbolInfo.item_down_range,
-      symbolInfo.item_up_range,
-      symbolInfo.currency_min_quote,
-      symbolInfo.currency_max_quote,
-      symbolInfo.token_min_quote,
-      symbolInfo.token_max_quote,
-      symbolInfo.currency_lower_max,
-      symbolInfo.buy_fee_rate,
-      symbolInfo.sell_fee_rate,
-      symbolInfo.order_auto_cancel,
-      symbolInfo.order_finish_minute
-    ].map(val => val === undefined ? null : val);
-
-    await db.run(sql, params);
+  async upsert(symbolInfo: SymbolInfo, executor: Queryable = db): Promise<void> {
+    await this.upsertMany([symbolInfo], executor);
   }
 
   /**
@@ -103,12 +82,8 @@ export class SymbolInfoModel {
   /**
    * Bulk upsert symbol information
    */
-  async upsertMany(symbols: SymbolInfo[]): Promise<void> {
-    if (symbols.length === 0) return;
-
-    for (const symbol of symbols) {
-      await this.upsert(symbol);
-    }
+  async upsertMany(symbols: SymbolInfo[], executor: Queryable = db): Promise<void> {
+    await db.insertMany('symbol_info', SYMBOL_INFO_COLUMNS, symbols, { conflict: 'replace', executor });
   }
 
   /**
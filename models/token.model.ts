@@ -49,7 +49,7 @@ export class Token {
    */
   static async findByToken(token: string): Promise<TokenSchema | null> {
     const sql = `SELECT * FROM tokens WHERE token = ? LIMIT 1`;
-    const result = await db.get(sql, [token]);
+    const result = await db.get<Required<TokenSchema>>(sql, [token]);
     if (result) {
       result.expires = new Date(result.expires);
       result.createdAt = new Date(result.createdAt);
@@ -63,7 +63,7 @@ export class Token {
    */
   static async findByUserId(userId: string): Promise<TokenSchema[]> {
     const sql = `SELECT * FROM tokens WHERE user = ? ORDER BY createdAt DESC`;
-    const results = await db.query(sql, [userId]);
+    const results = await db.query<Required<TokenSchema>>(sql, [userId]);
     return results.map(token => ({
       ...token,
       expires: new Date(token.expires),
@@ -110,7 +110,7 @@ export class Token {
       SELECT COUNT(*) as count FROM tokens 
       WHERE token = ? AND blacklisted = ? AND expires > ?
     `;
-    const result = await db.get(sql, [token, false, now]);
-    return result?.count > 0;
+    const result = await db.get<{ count: bigint }>(sql, [token, false, now]);
+    return (result?.count ?? 0) > 0;
   }
 }
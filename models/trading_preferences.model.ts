@@ -1,10 +1,13 @@
-import db from '../db/db.ts';
+import db, { type Queryable } from '../db/db.ts';
+import type { SnapshotKey } from './p2p_offer.model.ts';
+import { DEFAULT_PARAMS } from '../shared/constants.ts';
 
 /**
  * Trading Preferences interface
  */
 export interface TradingPreferences {
   fetch_time: Date;
+  exchange: string;
   offer_id: bigint;
   has_unposted_ad?: boolean;
   is_kyc?: boolean;
@@ -17,70 +20,62 @@ export interface TradingPreferences {
 }
 
 /**
- * Trading Preferences data access layer
+ * Columns of the trading_preferences table, in insert order
+ */
+const TRADING_PREFERENCES_COLUMNS: Array<keyof TradingPreferences> = [
+  'fetch_time', 'exchange', 'offer_id', 'has_unposted_ad', 'is_kyc', 'is_email_verified',
+  'is_mobile_verified', 'register_time_threshold', 'order_finish_30d',
+  'complete_rate_30d', 'national_limit'
+];
+
+/**
+ * Trading Preferences data access layer.
+ * Reads go through the `trading_preference_snapshots` view so they cover both storage modes.
  */
 export class TradingPreferencesModel {
   /**
    * Insert trading preferences for an offer
    */
-  async create(preferences: TradingPreferences): Promise<void> {
-    const sql = `
-      INSERT OR REPLACE INTO trading_preferences (
-        fetch_time, offer_id, has_unposted_ad, is_kyc, is_email_verified,
-        is_mobile_verified, register_time_threshold, order_finish_30d,
-        complete_rate_30d, national_limit
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `;
-
-    const params = [
-      preferences.fetch_time,
-      preferences.offer_id,
-      preferences.has_unposted_ad,
-      preferences.is_kyc,
-      preferences.is_email_verified,
-      preferences.is_mobile_verified,
-      preferences.register_time_threshold,
-      preferences.order_finish_30d,
-      preferences.complete_rate_30d,
-      preferences.national_limit
-    ];
-
-    await db.run(sql, params);
+  async create(preferences: TradingPreferences, executor: Queryable = db): Promise<void> {
+    await this.createMany([preferences], executor);
   }
 
   /**
    * Get trading preferences for a specific offer
    */
-  async getByOffer(fetchTime: Date, offerId: bigint): Promise<TradingPreferences | null> {
+  async getByOffer(
+    fetchTime: Date,
+    offerId: bigint,
+    exchange: string = DEFAULT_PARAMS.EXCHANGE
+  ): Promise<TradingPreferences | null> {
     const sql = `
-      SELECT * FROM trading_preferences 
-      WHERE fetch_time = ? AND offer_id = ?
+      SELECT * FROM trading_preference_snapshots 
+      WHERE fetch_time = ? AND exchange = ? AND offer_id = ?
     `;
-    return await db.get(sql, [fetchTime, offerId]);
+    return await db.get(sql, [fetchTime, exchange, offerId]);
   }
 
   /**
    * Get latest trading preferences for an offer ID
    */
-  async getLatestByOfferId(offerId: bigint): Promise<TradingPreferences | null> {
+  async getLatestByOfferId(offerId: bigint, exchange: string = DEFAULT_PARAMS.EXCHANGE): Promise<TradingPreferences | null> {
     const sql = `
-      SELECT * FROM trading_preferences 
-      WHERE offer_id = ?
+      SELECT * FROM trading_preference_snapshots 
+      WHERE exchange = ? AND offer_id = ?
       ORDER BY fetch_time DESC
       LIMIT 1
     `;
-    return await db.get(sql, [offerId]);
+    return await db.get(sql, [exchange, offerId]);
   }
 
   /**
    * Bulk insert trading preferences
    */
-  async createMany(preferences: TradingPreferences[]): Promise<void> {
-    if (preferences.length === 0) return;
-
-    for (const pref of preferences) {
-      await this.create(pref);
-    }
+  async createMany(preferences: TradingPreferences[], executor: Queryable = db): Promise<void> {
+    await db.insertMany('trading_preferences', TRADING_PREFERENCES_COLUMNS, preferences, {
+      conflict: 'replace',
+      executor
+    });
   }
 
   /**
@@ -88,7 +83,7 @@ export class TradingPreferencesModel {
    */
   async getByTimeRange(startTime: Date, endTime: Date): Promise<TradingPreferences[]> {
     const sql = `
-      SELECT * FROM trading_preferences 
+      SELECT * FROM trading_preference_snapshots 
       WHERE fetch_time >= ? AND fetch_time <= ?
       ORDER BY fetch_time DESC, offer_id
     `;
@@ -100,7 +95,7 @@ export class TradingPreferencesModel {
    */
   async getKYCVerifiedOffers(limit: number = 100): Promise<TradingPreferences[]> {
     const sql = `
-      SELECT * FROM trading_preferences 
+      SELECT * FROM trading_preference_snapshots 
       WHERE is_kyc = true
       ORDER BY fetch_time DESC
       LIMIT ?
@@ -113,7 +108,7 @@ export class TradingPreferencesModel {
    */
   async getFullyVerifiedOffers(limit: number = 100): Promise<TradingPreferences[]> {
     const sql = `
-      SELECT * FROM trading_preferences 
+      SELECT * FROM trading_preference_snapshots 
       WHERE is_kyc = true AND is_email_verified = true AND is_mobile_verified = true
       ORDER BY fetch_time DESC
       LIMIT ?
@@ -134,9 +129,9 @@ export class TradingPreferencesModel {
         o.side,
         o.user_id,
         u.nick_name
-      FROM trading_preferences tp
-      JOIN p2p_offers o ON tp.fetch_time = o.fetch_time AND tp.offer_id = o.offer_id
-      LEFT JOIN p2p_users u ON o.user_id = u.user_id
+      FROM trading_preference_snapshots tp
+      JOIN offer_snapshots o ON tp.fetch_time = o.fetch_time AND tp.exchange = o.exchange AND tp.offer_id = o.offer_id
+      LEFT JOIN p2p_users u ON o.exchange = u.exchange AND o.user_id = u.user_id
       ORDER BY tp.fetch_time DESC
       LIMIT ?
     `;
@@ -158,7 +153,7 @@ export class TradingPreferencesModel {
         END as completion_rate_range,
         COUNT(*) as offer_count,
         AVG(complete_rate_30d) as avg_completion_rate
-      FROM trading_preferences 
+      FROM trading_preference_snapshots 
       WHERE complete_rate_30d IS NOT NULL
       GROUP BY completion_rate_range
       ORDER BY avg_completion_rate DESC
@@ -171,7 +166,7 @@ export class TradingPreferencesModel {
    */
   async getByNationalLimit(nationalLimit: string, limit: number = 100): Promise<TradingPreferences[]> {
     const sql = `
-      SELECT * FROM trading_preferences 
+      SELECT * FROM trading_preference_snapshots 
       WHERE national_limit = ?
       ORDER BY fetch_time DESC
       LIMIT ?
@@ -182,9 +177,31 @@ export class TradingPreferencesModel {
   /**
    * Delete trading preferences for a specific offer
    */
-  async deleteByOffer(fetchTime: Date, offerId: bigint): Promise<void> {
-    const sql = `DELETE FROM trading_preferences WHERE fetch_time = ? AND offer_id = ?`;
-    await db.run(sql, [fetchTime, offerId]);
+  async deleteByOffer(fetchTime: Date, offerId: bigint, exchange: string = DEFAULT_PARAMS.EXCHANGE): Promise<void> {
+    const sql = `DELETE FROM trading_preferences WHERE fetch_time = ? AND exchange = ? AND offer_id = ?`;
+    await db.run(sql, [fetchTime, exchange, offerId]);
+  }
+
+  /**
+   * Delete the trading preferences of a snapshot's offers
+   */
+  async deleteBySnapshot(snapshot: SnapshotKey, executor: Queryable = db): Promise<void> {
+    const sql = `
+      DELETE FROM trading_preferences
+      WHERE fetch_time = ? AND exchange = ? AND offer_id IN (
+        SELECT offer_id FROM p2p_offers
+        WHERE fetch_time = ? AND exchange = ? AND token_id = ? AND currency_id = ? AND side = ?
+      )
+    `;
+    await executor.run(sql, [
+      snapshot.fetch_time,
+      snapshot.exchange,
+      snapshot.fetch_time,
+      snapshot.exchange,
+      snapshot.token_id,
+      snapshot.currency_id,
+      snapshot.side
+    ]);
   }
 
   /**
@@ -45,7 +45,7 @@ export class User {
    */
   static async findByEmail(email: string): Promise<UserSchema | null> {
     const sql = `SELECT * FROM users WHERE email = ? LIMIT 1`;
-    const result = await db.get(sql, [email]);
+    const result = await db.get<UserSchema>(sql, [email]);
     return result || null;
   }
 
@@ -54,7 +54,7 @@ export class User {
    */
   static async findById(id: string): Promise<UserSchema | null> {
     const sql = `SELECT * FROM users WHERE id = ? LIMIT 1`;
-    const result = await db.get(sql, [id]);
+    const result = await db.get<UserSchema>(sql, [id]);
     return result || null;
   }
 
@@ -63,7 +63,7 @@ export class User {
    */
   static async findAll(): Promise<UserSchema[]> {
     const sql = `SELECT * FROM users ORDER BY createdAt DESC`;
-    return await db.query(sql);
+    return await db.query<UserSchema>(sql);
   }
 
   /**
@@ -98,7 +98,7 @@ export class User {
    */
   static async emailExists(email: string): Promise<boolean> {
     const sql = `SELECT COUNT(*) as count FROM users WHERE email = ?`;
-    const result = await db.get(sql, [email]);
-    return result?.count > 0;
+    const result = await db.get<{ count: bigint }>(sql, [email]);
+    return (result?.count ?? 0) > 0;
   }
 }
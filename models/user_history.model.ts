@@ -52,7 +52,7 @@ export class UserHistory {
    */
   static async findByUserId(userId: string): Promise<UserHistorySchema[]> {
     const sql = `SELECT * FROM users_history WHERE user = ? ORDER BY createdAt DESC`;
-    const results = await db.query(sql, [userId]);
+    const results = await db.query<Required<UserHistorySchema>>(sql, [userId]);
     return results.map(history => ({
       ...history,
       createdAt: new Date(history.createdAt),
@@ -65,7 +65,7 @@ export class UserHistory {
    */
   static async findById(id: string): Promise<UserHistorySchema | null> {
     const sql = `SELECT * FROM users_history WHERE id = ? LIMIT 1`;
-    const result = await db.get(sql, [id]);
+    const result = await db.get<Required<UserHistorySchema>>(sql, [id]);
     if (result) {
       result.createdAt = new Date(result.createdAt);
       result.updatedAt = new Date(result.updatedAt);
@@ -78,7 +78,7 @@ export class UserHistory {
    */
   static async findAll(): Promise<UserHistorySchema[]> {
     const sql = `SELECT * FROM users_history ORDER BY createdAt DESC`;
-    const results = await db.query(sql);
+    const results = await db.query<Required<UserHistorySchema>>(sql);
     return results.map(history => ({
       ...history,
       createdAt: new Date(history.createdAt),
@@ -109,7 +109,7 @@ export class UserHistory {
    */
   static async getLatestVersion(userId: string): Promise<number> {
     const sql = `SELECT MAX(docVersion) as maxVersion FROM users_history WHERE user = ?`;
-    const result = await db.get(sql, [userId]);
+    const result = await db.get<{ maxVersion: number | null }>(sql, [userId]);
     return result?.maxVersion || 0;
   }
 }
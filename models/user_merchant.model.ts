@@ -0,0 +1,139 @@
+import db from '../db/db.ts';
+
+/**
+ * Which list a user keeps a merchant on
+ */
+export type MerchantListName = 'trusted' | 'avoided';
+
+export const MERCHANT_LISTS: MerchantListName[] = ['trusted', 'avoided'];
+
+/**
+ * A merchant on one of a user's lists. `merchant_id` is the exchange's P2P user ID.
+ */
+export interface UserMerchant {
+  user_id: string;
+  exchange: string;
+  merchant_id: bigint;
+  list: MerchantListName;
+  note: string | null;
+  created_at: Date;
+  updated_at: Date;
+  /** Latest nickname of the merchant, if it was ever listed; read-only */
+  nick_name?: string | null;
+}
+
+/**
+ * Merchants a read is narrowed to: only those in `only` when given, never those in `exclude`.
+ * Both hold merchant keys, see `merchantKey`.
+ */
+export interface MerchantSelection {
+  only?: string[];
+  exclude?: string[];
+}
+
+/**
+ * Key of a merchant across exchanges, as matched by `MerchantSelection`
+ */
+export const merchantKey = (exchange: string, merchantId: bigint): string => `${exchange}:${merchantId}`;
+
+/**
+ * SQL condition applying a merchant selection to the offers aliased `alias`, to be appended to a WHERE clause
+ */
+export const merchantSelectionSql = (
+  alias: string,
+  selection?: MerchantSelection
+): { sql: string; params: unknown[] } => {
+  const key = `${alias}.exchange || ':' || CAST(${alias}.user_id AS VARCHAR)`;
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+
+  if (selection?.only) {
+    conditions.push(`AND list_contains(?::VARCHAR[], ${key})`);
+    params.push(selection.only);
+  }
+  if (selection?.exclude && selection.exclude.length > 0) {
+    conditions.push(`AND NOT list_contains(?::VARCHAR[], ${key})`);
+    params.push(selection.exclude);
+  }
+
+  return { sql: conditions.join(' '), params };
+};
+
+/**
+ * Merchant list entries together with the merchant's latest nickname
+ */
+const SELECT_ENTRIES = `
+  SELECT um.*, u.nick_name
+  FROM user_merchants um
+  LEFT JOIN p2p_users u ON u.exchange = um.exchange AND u.user_id = um.merchant_id
+`;
+
+/**
+ * User merchant list data access layer
+ */
+export class UserMerchantModel {
+  /**
+   * Get the merchants on a user's lists, optionally only those of one list, most recently changed first
+   */
+  async getByUser(userId: string, list?: MerchantListName): Promise<UserMerchant[]> {
+    const sql = `
+      ${SELECT_ENTRIES}
+      WHERE um.user_id = ? ${list ? 'AND um.list = ?' : ''}
+      ORDER BY um.updated_at DESC, um.merchant_id
+    `;
+    return await db.query(sql, list ? [userId, list] : [userId]) as UserMerchant[];
+  }
+
+  /**
+   * Get the list entry of one merchant
+   */
+  async get(userId: string, exchange: string, merchantId: bigint): Promise<UserMerchant | null> {
+    const sql = `${SELECT_ENTRIES} WHERE um.user_id = ? AND um.exchange = ? AND um.merchant_id = ?`;
+    return await db.get(sql, [userId, exchange, merchantId.toString()]) as UserMerchant | null;
+  }
+
+  /**
+   * Put a merchant on a list, moving it there if it is on the other one
+   */
+  async upsert(entry: Pick<UserMerchant, 'user_id' | 'exchange' | 'merchant_id' | 'list' | 'note'>): Promise<UserMerchant> {
+    const now = new Date();
+    const sql = `
+      INSERT INTO user_merchants (user_id, exchange, merchant_id, list, note, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (user_id, exchange, merchant_id) DO UPDATE SET
+        list = excluded.list, note = excluded.note, updated_at = excluded.updated_at
+    `;
+    await db.run(sql, [
+      entry.user_id,
+      entry.exchange,
+      entry.merchant_id.toString(),
+      entry.list,
+      entry.note,
+      now,
+      now
+    ]);
+    return await this.get(entry.user_id, entry.exchange, entry.merchant_id) as UserMerchant;
+  }
+
+  /**
+   * Take a merchant off a user's lists
+   */
+  async delete(userId: string, exchange: string, merchantId: bigint): Promise<void> {
+    const sql = `DELETE FROM user_merchants WHERE user_id = ? AND exchange = ? AND merchant_id = ?`;
+    await db.run(sql, [userId, exchange, merchantId.toString()]);
+  }
+
+  /**
+   * Get the keys of the merchants on one of a user's lists
+   */
+  async getKeys(userId: string, list: MerchantListName): Promise<string[]> {
+    const sql = `
+      SELECT exchange || ':' || CAST(merchant_id AS VARCHAR) AS merchant_key
+      FROM user_merchants
+      WHERE user_id = ? AND list = ?
+      ORDER BY merchant_key
+    `;
+    const rows = await db.query(sql, [userId, list]) as Array<{ merchant_key: string }>;
+    return rows.map((row) => row.merchant_key);
+  }
+}
@@ -0,0 +1,139 @@
+import db from '../db/db.ts';
+
+/**
+ * Watched market interface: a token/fiat pair polled on a given exchange
+ */
+export interface WatchedMarket {
+  id: string;
+  exchange: string;
+  token_id: string;
+  currency_id: string;
+  sides: number[];
+  payment_methods: number[];
+  page_depth: number;
+  poll_interval_sec: number;
+  enabled: boolean;
+  created_at?: Date;
+  updated_at?: Date;
+  /** Catalog names of `payment_methods`, in the same order; read-only */
+  payment_method_names?: string[];
+}
+
+/**
+ * Market columns together with the catalog names of their payment methods
+ */
+const SELECT_MARKETS = `
+  SELECT m.*, COALESCE((
+    SELECT list(pm.name ORDER BY list_position(m.payment_methods, pm.method_id))
+    FROM payment_methods pm
+    WHERE list_contains(m.payment_methods, pm.method_id)
+  ), []) AS payment_method_names
+  FROM watched_markets m
+`;
+
+/**
+ * Watched market data access layer
+ */
+export class WatchedMarketModel {
+  /**
+   * Create a new watched market
+   */
+  async create(market: Omit<WatchedMarket, 'id' | 'created_at' | 'updated_at' | 'payment_method_names'>): Promise<WatchedMarket> {
+    const id = db.generateId();
+    const now = new Date();
+
+    const sql = `
+      INSERT INTO watched_markets (
+        id, exchange, token_id, currency_id, sides, payment_methods,
+        page_depth, poll_interval_sec, enabled, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?::SMALLINT[], ?::INTEGER[], ?, ?, ?, ?, ?)
+    `;
+
+    await db.run(sql, [
+      id,
+      market.exchange,
+      market.token_id,
+      market.currency_id,
+      market.sides,
+      market.payment_methods,
+      market.page_depth,
+      market.poll_interval_sec,
+      market.enabled,
+      now,
+      now
+    ]);
+
+    return await this.getById(id) as WatchedMarket;
+  }
+
+  /**
+   * Get watched market by ID
+   */
+  async getById(id: string): Promise<WatchedMarket | null> {
+    const sql = `${SELECT_MARKETS} WHERE m.id = ?`;
+    return await db.get(sql, [id]) as WatchedMarket | null;
+  }
+
+  /**
+   * Get all watched markets
+   */
+  async getAll(): Promise<WatchedMarket[]> {
+    const sql = `${SELECT_MARKETS} ORDER BY m.exchange, m.token_id, m.currency_id, m.created_at`;
+    return await db.query(sql) as WatchedMarket[];
+  }
+
+  /**
+   * Get enabled watched markets
+   */
+  async getEnabled(): Promise<WatchedMarket[]> {
+    const sql = `
+      ${SELECT_MARKETS}
+      WHERE m.enabled = true
+      ORDER BY m.exchange, m.token_id, m.currency_id, m.created_at
+    `;
+    return await db.query(sql) as WatchedMarket[];
+  }
+
+  /**
+   * Get enabled watched markets for a token pair on an exchange
+   */
+  async getEnabledByPair(exchange: string, tokenId: string, currencyId: string): Promise<WatchedMarket[]> {
+    const sql = `
+      ${SELECT_MARKETS}
+      WHERE m.enabled = true AND m.exchange = ? AND m.token_id = ? AND m.currency_id = ?
+      ORDER BY m.created_at
+    `;
+    return await db.query(sql, [exchange, tokenId, currencyId]) as WatchedMarket[];
+  }
+
+  /**
+   * Update watched market by ID
+   */
+  async update(
+    id: string,
+    updateData: Partial<Omit<WatchedMarket, 'id' | 'created_at' | 'updated_at' | 'payment_method_names'>>
+  ): Promise<WatchedMarket | null> {
+    const listCasts: Record<string, string> = { sides: '?::SMALLINT[]', payment_methods: '?::INTEGER[]' };
+    const fields = Object.keys(updateData).filter(
+      (key) => updateData[key as keyof typeof updateData] !== undefined
+    );
+
+    if (fields.length > 0) {
+      const setClause = fields.map((field) => `${field} = ${listCasts[field] || '?'}`).join(', ');
+      const values = fields.map((field) => updateData[field as keyof typeof updateData]);
+
+      const sql = `UPDATE watched_markets SET ${setClause}, updated_at = ? WHERE id = ?`;
+      await db.run(sql, [...values, new Date(), id]);
+    }
+
+    return await this.getById(id);
+  }
+
+  /**
+   * Delete watched market by ID
+   */
+  async delete(id: string): Promise<void> {
+    const sql = `DELETE FROM watched_markets WHERE id = ?`;
+    await db.run(sql, [id]);
+  }
+}
@@ -0,0 +1,275 @@
+import db from '../db/db.ts';
+
+/**
+ * Event a webhook can subscribe to:
+ * - `snapshot.stored`: a snapshot of a market side was written
+ * - `price.changed`: the best price of a market side moved more than the webhook's `price_change_pct`
+ *   away from the last price it was notified of
+ * - `ingestion.failed`: fetching or storing a market side failed
+ */
+export type WebhookEvent = 'snapshot.stored' | 'price.changed' | 'ingestion.failed';
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = ['snapshot.stored', 'price.changed', 'ingestion.failed'];
+
+/**
+ * Webhook interface: an endpoint owned by a user.
+ * `exchange`, `token_id` and `currency_id` limit the events it receives when set.
+ */
+export interface Webhook {
+  id: string;
+  user_id: string;
+  url: string;
+  secret: string;
+  events: WebhookEvent[];
+  exchange: string | null;
+  token_id: string | null;
+  currency_id: string | null;
+  price_change_pct: number;
+  enabled: boolean;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+/**
+ * Fields of a webhook set by its owner
+ */
+export type WebhookData = Omit<Webhook, 'id' | 'created_at' | 'updated_at'>;
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+/**
+ * Webhook delivery interface: one event sent to one webhook.
+ * `payload` is the exact JSON body that is signed and posted on every attempt.
+ */
+export interface WebhookDelivery {
+  id: string;
+  webhook_id: string;
+  event: string;
+  payload: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  response_status: number | null;
+  error: string | null;
+  created_at: Date;
+  last_attempt_at: Date | null;
+  next_attempt_at: Date | null;
+  delivered_at: Date | null;
+}
+
+/**
+ * Filters accepted when listing the deliveries of a webhook
+ */
+export interface WebhookDeliveryFilters {
+  status?: WebhookDeliveryStatus;
+  limit?: number;
+}
+
+/**
+ * Columns of the webhooks table set by its owner, in insert order
+ */
+const WEBHOOK_COLUMNS: Array<keyof WebhookData> = [
+  'user_id', 'url', 'secret', 'events', 'exchange', 'token_id', 'currency_id', 'price_change_pct', 'enabled'
+];
+
+/**
+ * Columns of the webhook_deliveries table, in insert order
+ */
+const WEBHOOK_DELIVERY_COLUMNS: Array<keyof WebhookDelivery> = [
+  'id', 'webhook_id', 'event', 'payload', 'status', 'attempts', 'response_status', 'error',
+  'created_at', 'last_attempt_at', 'next_attempt_at', 'delivered_at'
+];
+
+/**
+ * Webhook data access layer
+ */
+export class WebhookModel {
+  /**
+   * Create a new webhook
+   */
+  async create(webhook: WebhookData): Promise<Webhook> {
+    const id = db.generateId();
+    const now = new Date();
+
+    const sql = `
+      INSERT INTO webhooks (id, ${WEBHOOK_COLUMNS.join(', ')}, created_at, updated_at)
+      VALUES (?, ${WEBHOOK_COLUMNS.map((column) => column === 'events' ? '?::VARCHAR[]' : '?').join(', ')}, ?, ?)
+    `;
+    await db.run(sql, [
+      id,
+      ...WEBHOOK_COLUMNS.map((column) => webhook[column]),
+      now,
+      now
+    ]);
+
+    return await this.getById(id) as Webhook;
+  }
+
+  /**
+   * Get webhook by ID
+   */
+  async getById(id: string): Promise<Webhook | null> {
+    const sql = `SELECT * FROM webhooks WHERE id = ?`;
+    return await db.get(sql, [id]) as Webhook | null;
+  }
+
+  /**
+   * Get the webhooks of a user, oldest first
+   */
+  async getByUser(userId: string): Promise<Webhook[]> {
+    const sql = `SELECT * FROM webhooks WHERE user_id = ? ORDER BY created_at, id`;
+    return await db.query(sql, [userId]) as Webhook[];
+  }
+
+  /**
+   * Get the enabled webhooks subscribed to an event on a token pair of an exchange
+   */
+  async getSubscribed(event: WebhookEvent, exchange: string, tokenId: string, currencyId: string): Promise<Webhook[]> {
+    const sql = `
+      SELECT * FROM webhooks
+      WHERE enabled = true
+        AND list_contains(events, ?)
+        AND (exchange IS NULL OR exchange = ?)
+        AND (token_id IS NULL OR token_id = ?)
+        AND (currency_id IS NULL OR currency_id = ?)
+      ORDER BY created_at, id
+    `;
+    return await db.query(sql, [event, exchange, tokenId, currencyId]) as Webhook[];
+  }
+
+  /**
+   * Update webhook by ID
+   */
+  async update(id: string, updateData: Partial<Omit<WebhookData, 'user_id'>>): Promise<Webhook | null> {
+    const fields = Object.keys(updateData).filter(
+      (key) => updateData[key as keyof typeof updateData] !== undefined
+    ) as Array<keyof typeof updateData>;
+
+    if (fields.length > 0) {
+      const setClause = fields.map((field) => `${field} = ${field === 'events' ? '?::VARCHAR[]' : '?'}`).join(', ');
+      const values = fields.map((field) => updateData[field]);
+
+      const sql = `UPDATE webhooks SET ${setClause}, updated_at = ? WHERE id = ?`;
+      await db.run(sql, [...values, new Date(), id]);
+    }
+
+    return await this.getById(id);
+  }
+
+  /**
+   * Delete webhook by ID, with its deliveries and price references
+   */
+  async delete(id: string): Promise<void> {
+    await db.transaction([
+      { sql: `DELETE FROM webhook_price_refs WHERE webhook_id = ?`, params: [id] },
+      { sql: `DELETE FROM webhook_deliveries WHERE webhook_id = ?`, params: [id] },
+      { sql: `DELETE FROM webhooks WHERE id = ?`, params: [id] }
+    ]);
+  }
+
+  /**
+   * Get the best price a webhook was last notified of on a stream
+   */
+  async getPriceRef(webhookId: string, stream: string): Promise<number | null> {
+    const sql = `SELECT price FROM webhook_price_refs WHERE webhook_id = ? AND stream = ?`;
+    const row = await db.get(sql, [webhookId, stream]) as { price: number } | null;
+    return row?.price ?? null;
+  }
+
+  /**
+   * Set the best price a webhook was last notified of on a stream
+   */
+  async setPriceRef(webhookId: string, stream: string, price: number): Promise<void> {
+    const sql = `
+      INSERT INTO webhook_price_refs (webhook_id, stream, price, updated_at)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT (webhook_id, stream) DO UPDATE SET price = excluded.price, updated_at = excluded.updated_at
+    `;
+    await db.run(sql, [webhookId, stream, price, new Date()]);
+  }
+}
+
+/**
+ * Webhook delivery data access layer
+ */
+export class WebhookDeliveryModel {
+  /**
+   * Queue a delivery
+   */
+  async create(delivery: Pick<WebhookDelivery, 'webhook_id' | 'event' | 'payload'>): Promise<WebhookDelivery> {
+    const created: WebhookDelivery = {
+      id: db.generateId(),
+      ...delivery,
+      status: 'pending',
+      attempts: 0,
+      response_status: null,
+      error: null,
+      created_at: new Date(),
+      last_attempt_at: null,
+      next_attempt_at: null,
+      delivered_at: null
+    };
+    await db.insertMany('webhook_deliveries', WEBHOOK_DELIVERY_COLUMNS, [created]);
+    return created;
+  }
+
+  /**
+   * Get delivery by ID
+   */
+  async getById(id: string): Promise<WebhookDelivery | null> {
+    const sql = `SELECT * FROM webhook_deliveries WHERE id = ?`;
+    return await db.get(sql, [id]) as WebhookDelivery | null;
+  }
+
+  /**
+   * Get the deliveries of a webhook, newest first
+   */
+  async getByWebhook(webhookId: string, filters: WebhookDeliveryFilters = {}): Promise<WebhookDelivery[]> {
+    const conditions = ['webhook_id = ?'];
+    const params: unknown[] = [webhookId];
+
+    if (filters.status) {
+      conditions.push('status = ?');
+      params.push(filters.status);
+    }
+
+    const sql = `
+      SELECT * FROM webhook_deliveries
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY created_at DESC, id
+      LIMIT ?
+    `;
+    return await db.query(sql, [...params, filters.limit ?? 100]) as WebhookDelivery[];
+  }
+
+  /**
+   * Get the deliveries still waiting for an attempt, oldest first
+   */
+  async getPending(): Promise<WebhookDelivery[]> {
+    const sql = `SELECT * FROM webhook_deliveries WHERE status = 'pending' ORDER BY created_at, id`;
+    return await db.query(sql) as WebhookDelivery[];
+  }
+
+  /**
+   * Record the outcome of a delivery attempt
+   */
+  async recordAttempt(
+    id: string,
+    outcome: Pick<WebhookDelivery, 'status' | 'attempts' | 'response_status' | 'error' | 'last_attempt_at' | 'next_attempt_at' | 'delivered_at'>
+  ): Promise<void> {
+    const sql = `
+      UPDATE webhook_deliveries
+      SET status = ?, attempts = ?, response_status = ?, error = ?, last_attempt_at = ?, next_attempt_at = ?, delivered_at = ?
+      WHERE id = ?
+    `;
+    await db.run(sql, [
+      outcome.status,
+      outcome.attempts,
+      outcome.response_status,
+      outcome.error,
+      outcome.last_attempt_at,
+      outcome.next_attempt_at,
+      outcome.delivered_at,
+      id
+    ]);
+  }
+}
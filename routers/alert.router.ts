@@ -0,0 +1,61 @@
+import { Router } from 'jsr:@oak/oak';
+import { AlertController } from '../controllers/alert.controller.ts';
+import { auth } from '../middlewares/auth.middleware.ts';
+import { validate } from '../middlewares/validate.middleware.ts';
+import {
+  createAlertValidation,
+  deleteAlertValidation,
+  getAlertEventsValidation,
+  getAlertsValidation,
+  getAlertValidation,
+  updateAlertValidation,
+} from '../validations/alert.validation.ts';
+import { PermissionList } from '../config/roles.ts';
+
+const router = new Router();
+
+// Alert rules of the signed-in user, evaluated after every ingestion run of their pair
+router.get(
+  '/api/alerts',
+  auth([PermissionList.GET_ME]),
+  validate(getAlertsValidation),
+  AlertController.fetch,
+);
+
+// Alerts fired for the signed-in user, newest first
+router.get(
+  '/api/alerts/events',
+  auth([PermissionList.GET_ME]),
+  validate(getAlertEventsValidation),
+  AlertController.events,
+);
+
+router.get(
+  '/api/alerts/:id',
+  auth([PermissionList.GET_ME]),
+  validate(getAlertValidation),
+  AlertController.get,
+);
+
+router.post(
+  '/api/alerts',
+  auth([PermissionList.UPDATE_ME]),
+  validate(createAlertValidation),
+  AlertController.create,
+);
+
+router.put(
+  '/api/alerts/:id',
+  auth([PermissionList.UPDATE_ME]),
+  validate(updateAlertValidation),
+  AlertController.update,
+);
+
+router.delete(
+  '/api/alerts/:id',
+  auth([PermissionList.UPDATE_ME]),
+  validate(deleteAlertValidation),
+  AlertController.remove,
+);
+
+export default router;
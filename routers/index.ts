@@ -3,16 +3,22 @@ import defaultRouter from './default.router.ts';
 import userRouter from './user.router.ts';
 import authRouter from './auth.router.ts';
 import p2pRouter from './p2p.router.ts';
+import alertRouter from './alert.router.ts';
+import webhookRouter from './webhook.router.ts';
 
 const init = (app: Application) => {
   app.use(authRouter.routes());
   app.use(userRouter.routes());
   app.use(p2pRouter.routes());
+  app.use(alertRouter.routes());
+  app.use(webhookRouter.routes());
   app.use(defaultRouter.routes());
 
   app.use(authRouter.allowedMethods());
   app.use(userRouter.allowedMethods());
   app.use(p2pRouter.allowedMethods());
+  app.use(alertRouter.allowedMethods());
+  app.use(webhookRouter.allowedMethods());
   app.use(defaultRouter.allowedMethods());
 };
 
@@ -1,30 +1,111 @@
 import { Router } from 'jsr:@oak/oak';
 import { P2PController } from '../controllers/p2p.controller.ts';
-import { auth } from '../middlewares/auth.middleware.ts';
+import { auth, optionalAuth } from '../middlewares/auth.middleware.ts';
 import { localOnly } from '../middlewares/localOnly.middleware.ts';
 import { PermissionList } from '../config/roles.ts';
+import { MarketController } from '../controllers/market.controller.ts';
+import { validate } from '../middlewares/validate.middleware.ts';
+import {
+  createMarketValidation,
+  deleteMarketValidation,
+  getMarketsValidation,
+  getMarketValidation,
+  updateMarketValidation,
+} from '../validations/market.validation.ts';
+import {
+  fetchP2PDataValidation,
+  getCandlesValidation,
+  getFetchRunsValidation,
+  getMarketSummaryValidation,
+  getOfferHistoryValidation,
+  getOrderBookValidation,
+  getPremiumValidation,
+  getPriceAggregationsValidation,
+  getQuoteValidation,
+  getTradeFlowValidation,
+  reprocessValidation,
+} from '../validations/p2p.validation.ts';
+import { PaymentMethodController } from '../controllers/payment_method.controller.ts';
+import {
+  getPaymentMethodsValidation,
+  getPaymentMethodValidation,
+  overridePaymentMethodValidation,
+  releasePaymentMethodOverrideValidation,
+  syncPaymentMethodsValidation,
+} from '../validations/payment_method.validation.ts';
+import { ReferenceRateController } from '../controllers/reference_rate.controller.ts';
+import { getReferenceRatesValidation, syncReferenceRatesValidation } from '../validations/reference_rate.validation.ts';
+import { MerchantController } from '../controllers/merchant.controller.ts';
+import { getLeaderboardValidation, getMerchantsValidation, getMerchantValidation } from '../validations/merchant.validation.ts';
 
 const router = new Router();
 
 // P2P Health check (public)
 router.get('/api/p2p/health', P2PController.healthCheck);
 
-// Get latest offers (public) - now serves only TBC bank data
-router.get('/api/p2p/offers', P2PController.getLatestOffers);
+// Get latest offers (public) - serves the enabled watched markets; signed-in users can filter by their merchant lists
+router.get('/api/p2p/offers', optionalAuth([PermissionList.GET_ME]), P2PController.getLatestOffers);
 
-// Get price aggregations for a token pair (requires authentication) - now serves only TBC bank data
-router.get('/api/p2p/aggregations/:tokenId/:currencyId', auth([PermissionList.GET_ME]), P2PController.getPriceAggregations);
+// Order book of a token pair at a point in time (public) - serves the dashboard's depth chart; signed-in users can filter by their merchant lists
+router.get('/api/p2p/book/:tokenId/:currencyId', optionalAuth([PermissionList.GET_ME]), validate(getOrderBookValidation), P2PController.getOrderBook);
 
-// Get market summary for a token pair (requires authentication) - now serves only TBC bank data
-router.get('/api/p2p/summary/:tokenId/:currencyId', auth([PermissionList.GET_ME]), P2PController.getMarketSummary);
+// Lifecycle events of one offer (requires authentication)
+router.get('/api/p2p/offers/:offerId/history', auth([PermissionList.GET_ME]), validate(getOfferHistoryValidation), P2PController.getOfferHistory);
 
-// Local-only endpoints (for cron and internal services)
+// Get price aggregations for a token pair (requires authentication) - scoped to its watched markets
+router.get('/api/p2p/aggregations/:tokenId/:currencyId', auth([PermissionList.GET_ME]), validate(getPriceAggregationsValidation), P2PController.getPriceAggregations);
 
-// Fetch and store P2P data (public for testing) - now fetches only TBC bank data
-router.post('/api/p2p/fetch', P2PController.fetchP2PData);
-router.get('/api/p2p/fetch', P2PController.fetchP2PData);
+// Get market summary for a token pair over a window, against the window before it (requires authentication) - scoped to its watched markets
+router.get('/api/p2p/summary/:tokenId/:currencyId', auth([PermissionList.GET_ME]), validate(getMarketSummaryValidation), P2PController.getMarketSummary);
 
-// Monitor multiple token pairs (local only) - now monitors only TBC bank data
+// Get estimated trade flow (fills, volume and VWAP) for a token pair (requires authentication) - scoped to its watched markets
+router.get('/api/p2p/flow/:tokenId/:currencyId', auth([PermissionList.GET_ME]), validate(getTradeFlowValidation), P2PController.getTradeFlow);
+
+// Get best bid/ask OHLC candles for a token pair (requires authentication) - scoped to its watched markets
+router.get('/api/p2p/candles/:tokenId/:currencyId', auth([PermissionList.GET_ME]), validate(getCandlesValidation), P2PController.getCandles);
+
+// Quote an amount against the latest snapshot (requires authentication) - scoped to the pair's watched markets
+router.get('/api/p2p/quote', auth([PermissionList.GET_ME]), validate(getQuoteValidation), P2PController.getQuote);
+
+// Premium of the best bid/ask over the pair's reference FX rate (requires authentication) - scoped to its watched markets
+router.get('/api/p2p/premium/:tokenId/:currencyId', auth([PermissionList.GET_ME]), validate(getPremiumValidation), P2PController.getPremium);
+
+// Watched markets (read requires authentication, changes are admin only)
+router.get('/api/p2p/markets', auth([PermissionList.GET_ME]), validate(getMarketsValidation), MarketController.fetch);
+router.get('/api/p2p/markets/:id', auth([PermissionList.GET_ME]), validate(getMarketValidation), MarketController.show);
+router.post('/api/p2p/markets', auth([PermissionList.MANAGE_USERS]), validate(createMarketValidation), MarketController.create);
+router.put('/api/p2p/markets/:id', auth([PermissionList.MANAGE_USERS]), validate(updateMarketValidation), MarketController.update);
+router.delete('/api/p2p/markets/:id', auth([PermissionList.MANAGE_USERS]), validate(deleteMarketValidation), MarketController.remove);
+
+// Payment method catalog (read requires authentication, overrides and syncs are admin only)
+router.get('/api/p2p/payment-methods', auth([PermissionList.GET_ME]), validate(getPaymentMethodsValidation), PaymentMethodController.fetch);
+router.post('/api/p2p/payment-methods/sync', auth([PermissionList.MANAGE_USERS]), validate(syncPaymentMethodsValidation), PaymentMethodController.sync);
+router.get('/api/p2p/payment-methods/:methodId', auth([PermissionList.GET_ME]), validate(getPaymentMethodValidation), PaymentMethodController.show);
+router.put('/api/p2p/payment-methods/:methodId', auth([PermissionList.MANAGE_USERS]), validate(overridePaymentMethodValidation), PaymentMethodController.override);
+router.delete('/api/p2p/payment-methods/:methodId/override', auth([PermissionList.MANAGE_USERS]), validate(releasePaymentMethodOverrideValidation), PaymentMethodController.releaseOverride);
+
+// Reference FX rates (read requires authentication, syncs are admin only)
+router.get('/api/p2p/reference-rates', auth([PermissionList.GET_ME]), validate(getReferenceRatesValidation), ReferenceRateController.fetch);
+router.post('/api/p2p/reference-rates/sync', auth([PermissionList.MANAGE_USERS]), validate(syncReferenceRatesValidation), ReferenceRateController.sync);
+
+// Merchant profiles, reputation history and leaderboard (requires authentication)
+router.get('/api/p2p/merchants', auth([PermissionList.GET_ME]), validate(getMerchantsValidation), MerchantController.fetch);
+router.get('/api/p2p/merchants/:userId', auth([PermissionList.GET_ME]), validate(getMerchantValidation), MerchantController.get);
+router.get('/api/p2p/merchants/leaderboard/:tokenId/:currencyId', auth([PermissionList.GET_ME]), validate(getLeaderboardValidation), MerchantController.leaderboard);
+
+// Fetch run ledger (requires authentication)
+router.get('/api/p2p/runs', auth([PermissionList.GET_ME]), validate(getFetchRunsValidation), P2PController.getFetchRuns);
+
+// Ingestion scheduler status (requires authentication)
+router.get('/api/p2p/scheduler', auth([PermissionList.GET_ME]), P2PController.getSchedulerStatus);
+
+// Local-only endpoints (for internal services)
+
+// Fetch and store P2P data (public for testing) - fetches the enabled watched markets
+router.post('/api/p2p/fetch', validate(fetchP2PDataValidation), P2PController.fetchP2PData);
+router.get('/api/p2p/fetch', validate(fetchP2PDataValidation), P2PController.fetchP2PData);
+
+// Monitor multiple token pairs (local only) - fetches each pair's watched markets
 router.post('/api/p2p/monitor', localOnly(), P2PController.monitorTokenPairs);
 
 // Admin only endpoints (require admin rights)
@@ -32,4 +113,7 @@ router.post('/api/p2p/monitor', localOnly(), P2PController.monitorTokenPairs);
 // Cleanup old data (admin only)
 router.delete('/api/p2p/cleanup', auth([PermissionList.MANAGE_USERS]), P2PController.cleanupOldData);
 
+// Rebuild snapshots from the raw response archive (admin only)
+router.post('/api/p2p/reprocess', auth([PermissionList.MANAGE_USERS]), validate(reprocessValidation), P2PController.reprocess);
+
 export default router; 
\ No newline at end of file
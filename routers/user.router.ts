@@ -10,6 +10,13 @@ import {
   updateUserValidation,
 } from '../validations/user.validation.ts';
 import { PermissionList } from '../config/roles.ts';
+import { UserMerchantController } from '../controllers/user_merchant.controller.ts';
+import {
+  addMerchantValidation,
+  getMerchantListsValidation,
+  removeMerchantValidation,
+  searchMerchantsValidation,
+} from '../validations/user_merchant.validation.ts';
 
 const router = new Router();
 
@@ -34,6 +41,35 @@ router.get(
   UserController.me,
 );
 
+// Merchants the signed-in user trusts or avoids; quotes, the book and offers can be filtered by them
+router.get(
+  '/api/me/merchants',
+  auth([PermissionList.GET_ME]),
+  validate(getMerchantListsValidation),
+  UserMerchantController.fetch,
+);
+
+router.get(
+  '/api/me/merchants/search',
+  auth([PermissionList.GET_ME]),
+  validate(searchMerchantsValidation),
+  UserMerchantController.search,
+);
+
+router.post(
+  '/api/me/merchants',
+  auth([PermissionList.UPDATE_ME]),
+  validate(addMerchantValidation),
+  UserMerchantController.add,
+);
+
+router.delete(
+  '/api/me/merchants/:merchantId',
+  auth([PermissionList.UPDATE_ME]),
+  validate(removeMerchantValidation),
+  UserMerchantController.remove,
+);
+
 router.get(
   '/api/users/:id',
   auth([PermissionList.MANAGE_USERS]),
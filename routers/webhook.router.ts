@@ -0,0 +1,69 @@
+import { Router } from 'jsr:@oak/oak';
+import { WebhookController } from '../controllers/webhook.controller.ts';
+import { auth } from '../middlewares/auth.middleware.ts';
+import { validate } from '../middlewares/validate.middleware.ts';
+import {
+  createWebhookValidation,
+  deleteWebhookValidation,
+  getWebhookDeliveriesValidation,
+  getWebhooksValidation,
+  getWebhookValidation,
+  pingWebhookValidation,
+  updateWebhookValidation,
+} from '../validations/webhook.validation.ts';
+import { PermissionList } from '../config/roles.ts';
+
+const router = new Router();
+
+// Webhook endpoints of the signed-in user, receiving signed ingestion events
+router.get(
+  '/api/webhooks',
+  auth([PermissionList.GET_ME]),
+  validate(getWebhooksValidation),
+  WebhookController.fetch,
+);
+
+router.get(
+  '/api/webhooks/:id',
+  auth([PermissionList.GET_ME]),
+  validate(getWebhookValidation),
+  WebhookController.get,
+);
+
+// Delivery log of a webhook, newest first
+router.get(
+  '/api/webhooks/:id/deliveries',
+  auth([PermissionList.GET_ME]),
+  validate(getWebhookDeliveriesValidation),
+  WebhookController.deliveries,
+);
+
+router.post(
+  '/api/webhooks',
+  auth([PermissionList.UPDATE_ME]),
+  validate(createWebhookValidation),
+  WebhookController.create,
+);
+
+router.post(
+  '/api/webhooks/:id/ping',
+  auth([PermissionList.UPDATE_ME]),
+  validate(pingWebhookValidation),
+  WebhookController.ping,
+);
+
+router.put(
+  '/api/webhooks/:id',
+  auth([PermissionList.UPDATE_ME]),
+  validate(updateWebhookValidation),
+  WebhookController.update,
+);
+
+router.delete(
+  '/api/webhooks/:id',
+  auth([PermissionList.UPDATE_ME]),
+  validate(deleteWebhookValidation),
+  WebhookController.remove,
+);
+
+export default router;
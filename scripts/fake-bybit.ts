@@ -0,0 +1,55 @@
+import { evolvingBook, FakeBybitServer } from '../tests/utils/fake-bybit.server.ts';
+import type { BybitP2PResponse } from '../services/exchanges/bybit.adapter.ts';
+import { DEFAULT_MARKET, TRADE_SIDE } from '../shared/constants.ts';
+import paymentMethodSeed from '../db/seeds/payment_methods.json' with { type: 'json' };
+
+/**
+ * Local fake Bybit P2P API for offline development.
+ * Serves a recorded response, or evolving books for the default market whose prices drift every tick,
+ * and lists the bundled payment method seed as its payment configuration:
+ *
+ *   deno task fake-bybit [--port=8090] [--tickMs=5000] [--recording=tests/fixtures/bybit/online-items.usdt-usd.json]
+ *
+ * Then start the API with BYBIT_BASE_URL=http://localhost:8090
+ */
+const OPTIONS = ['port', 'tickMs', 'recording'];
+
+const args: Record<string, string> = {};
+for (const arg of Deno.args) {
+  const match = arg.match(/^--(\w+)=(.*)$/);
+  if (!match || !OPTIONS.includes(match[1])) {
+    console.error(`Unknown argument: ${arg}`);
+    Deno.exit(1);
+  }
+  args[match[1]] = match[2];
+}
+
+const server = new FakeBybitServer().start(Number(args.port || 8090));
+
+server.setPaymentMethods(paymentMethodSeed.map((method) => ({
+  paymentType: method.method_id,
+  paymentName: method.name,
+  currencies: method.currency_id ? [method.currency_id] : [],
+})));
+
+if (args.recording) {
+  server.loadRecording(JSON.parse(await Deno.readTextFile(args.recording)) as BybitP2PResponse);
+} else {
+  const payments = DEFAULT_MARKET.PAYMENT_METHODS.map((methodId) => methodId.toString());
+  const market = { tokenId: DEFAULT_MARKET.TOKEN_ID, currencyId: DEFAULT_MARKET.CURRENCY_ID, count: 25, payments };
+  server
+    .setBook(market.tokenId, market.currencyId, TRADE_SIDE.BUY, evolvingBook({ ...market, side: TRADE_SIDE.BUY, price: 1.0, step: -0.002, drift: 0.0005 }))
+    .setBook(market.tokenId, market.currencyId, TRADE_SIDE.SELL, evolvingBook({ ...market, side: TRADE_SIDE.SELL, price: 1.01, step: 0.002, drift: 0.0005 }));
+
+  const tickMs = Number(args.tickMs || 5000);
+  setInterval(() => server.advance(), tickMs);
+}
+
+console.log(`Fake Bybit P2P API listening at ${server.url} (BYBIT_BASE_URL=${server.url})`);
+
+const shutdown = async () => {
+  await server.stop();
+  Deno.exit(0);
+};
+Deno.addSignalListener('SIGINT', shutdown);
+Deno.addSignalListener('SIGTERM', shutdown);
@@ -0,0 +1,46 @@
+import db from '../db/db.ts';
+import { P2PService } from '../services/p2p.service.ts';
+import { serializeBigInts } from '../helpers/response.helper.ts';
+
+/**
+ * Rebuild stored snapshots from the raw response archive.
+ * Opens the database directly, so run it while the API is stopped
+ * (or use POST /api/p2p/reprocess on a running instance):
+ *
+ *   deno task reprocess --from=2025-01-01T00:00:00Z --to=2025-01-31T23:59:59Z [--marketId=...] [--exchange=bybit] [--tokenId=USDT] [--currencyId=GEL]
+ */
+const OPTIONS = ['from', 'to', 'marketId', 'exchange', 'tokenId', 'currencyId'];
+
+const args: Record<string, string> = {};
+for (const arg of Deno.args) {
+  const match = arg.match(/^--(\w+)=(.*)$/);
+  if (!match || !OPTIONS.includes(match[1])) {
+    console.error(`Unknown argument: ${arg}`);
+    Deno.exit(1);
+  }
+  args[match[1]] = match[2];
+}
+
+const from = new Date(args.from);
+const to = new Date(args.to);
+if (isNaN(from.getTime()) || isNaN(to.getTime()) || from > to) {
+  console.error('--from and --to are required dates, with --from not after --to');
+  Deno.exit(1);
+}
+
+try {
+  const result = await new P2PService().reprocessArchive({
+    from,
+    to,
+    marketId: args.marketId,
+    exchange: args.exchange,
+    tokenId: args.tokenId,
+    currencyId: args.currencyId
+  });
+  console.log(JSON.stringify(serializeBigInts(result), null, 2));
+  if (result.failed.length > 0) {
+    Deno.exitCode = 1;
+  }
+} finally {
+  await db.close();
+}
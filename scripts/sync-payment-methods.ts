@@ -0,0 +1,35 @@
+import db from '../db/db.ts';
+import { PaymentMethodService } from '../services/payment_method.service.ts';
+
+/**
+ * Refresh the payment method catalog from the exchange's payment configuration.
+ * With --write-seed the refreshed catalog also replaces the bundled seed file, to be committed:
+ *
+ *   deno task sync-payment-methods [--exchange=bybit] [--write-seed=true]
+ */
+const OPTIONS = ['exchange', 'write-seed'];
+const SEED_FILE = new URL('../db/seeds/payment_methods.json', import.meta.url);
+
+const args: Record<string, string> = {};
+for (const arg of Deno.args) {
+  const match = arg.match(/^--([\w-]+)=(.*)$/);
+  if (!match || !OPTIONS.includes(match[1])) {
+    console.error(`Unknown argument: ${arg}`);
+    Deno.exit(1);
+  }
+  args[match[1]] = match[2];
+}
+
+try {
+  const paymentMethodService = new PaymentMethodService();
+  const result = await paymentMethodService.syncFromExchange(args.exchange);
+  console.log(JSON.stringify(result, null, 2));
+
+  if (args['write-seed'] === 'true') {
+    const seed = await paymentMethodService.exportSeed();
+    await Deno.writeTextFile(SEED_FILE, `${JSON.stringify(seed, null, 2)}\n`);
+    console.log(`Wrote ${seed.length} payment methods to ${SEED_FILE.pathname}`);
+  }
+} finally {
+  await db.close();
+}
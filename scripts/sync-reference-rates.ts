@@ -0,0 +1,27 @@
+import db from '../db/db.ts';
+import { ReferenceRateService } from '../services/reference_rate.service.ts';
+
+/**
+ * Fetch reference FX rates from a registered source and store them.
+ * Defaults to `P2P_REFERENCE_RATE_SOURCE`; schedule it (e.g. with cron) to keep rates current:
+ *
+ *   deno task sync-reference-rates [--source=file|http]
+ */
+const OPTIONS = ['source'];
+
+const args: Record<string, string> = {};
+for (const arg of Deno.args) {
+  const match = arg.match(/^--([\w-]+)=(.*)$/);
+  if (!match || !OPTIONS.includes(match[1])) {
+    console.error(`Unknown argument: ${arg}`);
+    Deno.exit(1);
+  }
+  args[match[1]] = match[2];
+}
+
+try {
+  const result = await new ReferenceRateService().sync(args.source);
+  console.log(JSON.stringify(result, null, 2));
+} finally {
+  await db.close();
+}
@@ -0,0 +1,315 @@
+import { Status } from 'jsr:@oak/oak';
+import { throwError } from '../middlewares/errorHandler.middleware.ts';
+import log from '../middlewares/logger.middleware.ts';
+import configs from '../config/config.ts';
+import {
+  AlertEvent,
+  AlertEventFilters,
+  AlertEventModel,
+  AlertRule,
+  AlertRuleData,
+  AlertRuleModel,
+  AlertType,
+} from '../models/alert.model.ts';
+import { BookOffer, P2POfferModel } from '../models/p2p_offer.model.ts';
+import { DEFAULT_PARAMS, TRADE_SIDE } from '../shared/constants.ts';
+import { MarketService } from './market.service.ts';
+
+/**
+ * Alert rule input accepted by the API (camelCase, as sent by clients)
+ */
+export interface AlertRuleInput {
+  name?: string;
+  exchange?: string;
+  tokenId?: string;
+  currencyId?: string;
+  marketId?: string | null;
+  type?: AlertType;
+  side?: number | null;
+  threshold?: number | null;
+  amount?: number | null;
+  merchantId?: bigint | null;
+  cooldownSec?: number;
+  enabled?: boolean;
+}
+
+/**
+ * What a rule's condition measured in the latest book
+ */
+interface AlertReading {
+  met: boolean;
+  value: number | null;
+  fetch_time: Date | null;
+  message: string;
+}
+
+/**
+ * Rule fields each condition needs
+ */
+const REQUIRED_FIELDS: Record<AlertType, Array<'side' | 'threshold' | 'amount' | 'merchant_id'>> = {
+  price_above: ['side', 'threshold'],
+  price_below: ['side', 'threshold'],
+  spread_above: ['threshold'],
+  liquidity_below: ['side', 'threshold', 'amount'],
+  merchant_online: ['merchant_id'],
+};
+
+/**
+ * Alert Service: user-defined conditions on the order book, evaluated after every ingestion run.
+ * A rule fires when its condition starts to hold, at most once per cooldown; while the condition keeps
+ * holding it stays `active` and does not fire again.
+ */
+export class AlertService {
+  private alertRuleModel: AlertRuleModel;
+  private alertEventModel: AlertEventModel;
+  private p2pOfferModel: P2POfferModel;
+  private marketService: MarketService;
+
+  constructor() {
+    this.alertRuleModel = new AlertRuleModel();
+    this.alertEventModel = new AlertEventModel();
+    this.p2pOfferModel = new P2POfferModel();
+    this.marketService = new MarketService();
+  }
+
+  /**
+   * List the alert rules of a user
+   */
+  async getRules(userId: string): Promise<AlertRule[]> {
+    return await this.alertRuleModel.getByUser(userId);
+  }
+
+  /**
+   * Get one of a user's alert rules, throwing NotFound if it does not exist or belongs to someone else
+   */
+  async getRule(userId: string, id: string): Promise<AlertRule> {
+    const rule = await this.alertRuleModel.getById(id);
+    if (!rule || rule.user_id !== userId) {
+      return throwError({
+        status: Status.NotFound,
+        name: 'NotFound',
+        path: 'alert',
+        param: 'id',
+        message: `Alert rule not found`,
+        type: 'NotFound',
+      }) as never;
+    }
+    return rule;
+  }
+
+  /**
+   * Create an alert rule on a watched token pair
+   */
+  async createRule(userId: string, input: AlertRuleInput): Promise<AlertRule> {
+    const rule: AlertRuleData = {
+      user_id: userId,
+      name: input.name ?? null,
+      exchange: input.exchange || DEFAULT_PARAMS.EXCHANGE,
+      token_id: input.tokenId as string,
+      currency_id: input.currencyId as string,
+      market_id: input.marketId ?? null,
+      type: input.type as AlertType,
+      side: input.side ?? null,
+      threshold: input.threshold ?? null,
+      amount: input.amount ?? null,
+      merchant_id: input.merchantId ?? null,
+      cooldown_sec: input.cooldownSec ?? 3600,
+      enabled: input.enabled ?? true,
+    };
+    await this.assertValidRule(rule);
+
+    return await this.alertRuleModel.create(rule);
+  }
+
+  /**
+   * Update one of a user's alert rules; the merged rule must still be complete for its condition
+   */
+  async updateRule(userId: string, id: string, input: AlertRuleInput): Promise<AlertRule> {
+    const current = await this.getRule(userId, id);
+    const changes: Partial<Omit<AlertRuleData, 'user_id'>> = {
+      name: input.name,
+      exchange: input.exchange,
+      token_id: input.tokenId,
+      currency_id: input.currencyId,
+      market_id: input.marketId,
+      type: input.type,
+      side: input.side,
+      threshold: input.threshold,
+      amount: input.amount,
+      merchant_id: input.merchantId,
+      cooldown_sec: input.cooldownSec,
+      enabled: input.enabled,
+    };
+    const defined = Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined));
+    await this.assertValidRule({ ...current, ...defined });
+
+    return await this.alertRuleModel.update(id, changes) as AlertRule;
+  }
+
+  /**
+   * Delete one of a user's alert rules; its fired alerts are kept
+   */
+  async removeRule(userId: string, id: string): Promise<void> {
+    await this.getRule(userId, id);
+    await this.alertRuleModel.delete(id);
+  }
+
+  /**
+   * List the alerts fired for a user, newest first
+   */
+  async getEvents(userId: string, filters: AlertEventFilters = {}): Promise<AlertEvent[]> {
+    return await this.alertEventModel.getByUser(userId, filters);
+  }
+
+  /**
+   * Evaluate the enabled rules on a token pair against its latest book and store the alerts that fire.
+   * A rule that cannot be evaluated, e.g. because its market was removed, is logged and skipped.
+   */
+  async evaluatePair(exchange: string, tokenId: string, currencyId: string): Promise<AlertEvent[]> {
+    const rules = await this.alertRuleModel.getEnabledByPair(exchange, tokenId, currencyId);
+    const books = new Map<string, Promise<BookOffer[]>>();
+    const fired: AlertEvent[] = [];
+
+    // Rules scoped the same way read the same book side once
+    const book = (rule: AlertRule, side: number): Promise<BookOffer[]> => {
+      const key = `${rule.market_id ?? ''}:${side}`;
+      if (!books.has(key)) {
+        books.set(key, this.latestBook(rule, side));
+      }
+      return books.get(key) as Promise<BookOffer[]>;
+    };
+
+    for (const rule of rules) {
+      try {
+        const event = await this.evaluateRule(rule, (side) => book(rule, side));
+        if (event) fired.push(event);
+      } catch (error) {
+        log.error(`Alert rule ${rule.id} could not be evaluated: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    return fired;
+  }
+
+  /**
+   * Evaluate one rule, storing and returning the alert if it fires
+   */
+  private async evaluateRule(rule: AlertRule, book: (side: number) => Promise<BookOffer[]>): Promise<AlertEvent | null> {
+    const now = new Date();
+    const reading = await this.read(rule, book);
+    const cooledDown = !rule.last_triggered_at || now.getTime() - rule.last_triggered_at.getTime() >= rule.cooldown_sec * 1000;
+    const fires = reading.met && !rule.active && cooledDown;
+
+    // A rule held back by its cooldown stays inactive, so it fires once the cooldown ends if the condition still holds
+    await this.alertRuleModel.recordEvaluation(rule.id, reading.met && (rule.active || fires), now, fires ? now : undefined);
+    if (!fires) return null;
+
+    return await this.alertEventModel.create({
+      rule_id: rule.id,
+      user_id: rule.user_id,
+      type: rule.type,
+      exchange: rule.exchange,
+      token_id: rule.token_id,
+      currency_id: rule.currency_id,
+      side: rule.side,
+      value: reading.value,
+      threshold: rule.threshold,
+      message: reading.message,
+      fetch_time: reading.fetch_time,
+      triggered_at: now,
+    });
+  }
+
+  /**
+   * Measure a rule's condition on the latest book
+   */
+  private async read(rule: AlertRule, book: (side: number) => Promise<BookOffer[]>): Promise<AlertReading> {
+    const pair = `${rule.token_id}/${rule.currency_id}`;
+    const sideName = rule.side === TRADE_SIDE.BUY ? 'bid' : 'ask';
+    const threshold = rule.threshold as number;
+
+    switch (rule.type) {
+      case 'price_above':
+      case 'price_below': {
+        const [best] = await book(rule.side as number);
+        if (!best) return { met: false, value: null, fetch_time: null, message: `No ${sideName}s for ${pair}` };
+        const met = rule.type === 'price_above' ? best.price > threshold : best.price < threshold;
+        const direction = rule.type === 'price_above' ? 'above' : 'below';
+        return { met, value: best.price, fetch_time: best.fetch_time, message: `Best ${pair} ${sideName} ${best.price} is ${direction} ${threshold}` };
+      }
+      case 'spread_above': {
+        const [bid] = await book(TRADE_SIDE.BUY);
+        const [ask] = await book(TRADE_SIDE.SELL);
+        if (!bid || !ask) return { met: false, value: null, fetch_time: null, message: `No two-sided book for ${pair}` };
+        const spread = (ask.price - bid.price) / bid.price * 100;
+        const fetchTime = bid.fetch_time > ask.fetch_time ? bid.fetch_time : ask.fetch_time;
+        return { met: spread > threshold, value: spread, fetch_time: fetchTime, message: `${pair} spread ${spread.toFixed(2)}% is above ${threshold}%` };
+      }
+      case 'liquidity_below': {
+        const amount = rule.amount as number;
+        const offers = await book(rule.side as number);
+        const liquidity = offers
+          .filter((offer) => amount >= offer.min_amount && amount <= offer.max_amount && amount <= offer.last_quantity * offer.price)
+          .reduce((sum, offer) => sum + offer.last_quantity * offer.price, 0);
+        return {
+          met: liquidity < threshold,
+          value: liquidity,
+          fetch_time: offers[0]?.fetch_time ?? null,
+          message: `${pair} ${sideName} liquidity for ${amount} ${rule.currency_id} is ${liquidity.toFixed(2)}, below ${threshold}`
+        };
+      }
+      case 'merchant_online': {
+        const offers = [...await book(TRADE_SIDE.BUY), ...await book(TRADE_SIDE.SELL)]
+          .filter((offer) => offer.user_id === rule.merchant_id && offer.is_online);
+        const name = offers[0]?.nick_name ?? String(rule.merchant_id);
+        return {
+          met: offers.length > 0,
+          value: offers.length,
+          fetch_time: offers[0]?.fetch_time ?? null,
+          message: `Merchant ${name} is online with ${offers.length} ${pair} offer(s)`
+        };
+      }
+    }
+  }
+
+  /**
+   * Offers of the latest snapshot of a book side, scoped like the rule
+   */
+  private async latestBook(rule: AlertRule, side: number): Promise<BookOffer[]> {
+    const scope = await this.marketService.resolveScope(rule.token_id, rule.currency_id, {
+      marketId: rule.market_id ?? undefined,
+      exchange: rule.exchange,
+    });
+    return await this.p2pOfferModel.getLatestSnapshotOffers({
+      exchange: scope.exchange,
+      tokenId: rule.token_id,
+      currencyId: rule.currency_id,
+      side,
+      paymentMethodSets: scope.markets.map((market) => market.payment_methods),
+      lookbackHours: configs.bookLookbackHours,
+    });
+  }
+
+  /**
+   * Reject rules missing a field their condition needs, or on a pair that is not watched
+   */
+  private async assertValidRule(rule: AlertRuleData): Promise<void> {
+    const missing = REQUIRED_FIELDS[rule.type].find((field) => rule[field] === null || rule[field] === undefined);
+    if (missing) {
+      const param = missing === 'merchant_id' ? 'merchantId' : missing;
+      throwError({
+        status: Status.BadRequest,
+        name: 'ValidationError',
+        path: param,
+        param,
+        message: `${param} is required for ${rule.type} alerts`,
+        type: 'BadRequest',
+      });
+    }
+
+    await this.marketService.resolveScope(rule.token_id, rule.currency_id, {
+      marketId: rule.market_id ?? undefined,
+      exchange: rule.exchange,
+    });
+  }
+}
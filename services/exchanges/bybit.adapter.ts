@@ -0,0 +1,409 @@
+import {
+  ExchangeAdapter,
+  ExchangeError,
+  ExchangePage,
+  ExchangePageRequest,
+  ExchangeResponse,
+  NormalizedOffer,
+  NormalizedPaymentMethod,
+} from './exchange.adapter.ts';
+import { ExchangeHttpClient, exchangeHttpClient } from './http.client.ts';
+import configs from '../../config/config.ts';
+
+/**
+ * Bybit P2P API response interfaces
+ */
+export interface BybitP2PResponse {
+  ret_code: number;
+  ret_msg: string;
+  result: {
+    count: number;
+    items: BybitP2POffer[];
+  };
+  ext_code: string;
+  ext_info: Record<string, any>;
+  time_now: string;
+}
+
+export interface BybitP2POffer {
+  id: string;
+  accountId: string;
+  userId: string;
+  nickName: string;
+  tokenId: string;
+  tokenName: string;
+  currencyId: string;
+  side: number;
+  priceType: number;
+  price: string;
+  premium: string;
+  lastQuantity: string;
+  quantity: string;
+  frozenQuantity: string;
+  executedQuantity: string;
+  minAmount: string;
+  maxAmount: string;
+  remark?: string;
+  status: number;
+  createDate: string;
+  payments: string[];
+  orderNum: number;
+  finishNum: number;
+  recentOrderNum: number;
+  recentExecuteRate: number;
+  fee: string;
+  isOnline: boolean;
+  lastLogoutTime: string;
+  blocked: string;
+  makerContact: boolean;
+  symbolInfo: {
+    id: string;
+    exchangeId: string;
+    orgId: string;
+    tokenId: string;
+    currencyId: string;
+    status: number;
+    lowerLimitAlarm: number;
+    upperLimitAlarm: number;
+    itemDownRange: string;
+    itemUpRange: string;
+    currencyMinQuote: string;
+    currencyMaxQuote: string;
+    currencyLowerMaxQuote: string;
+    tokenMinQuote: string;
+    tokenMaxQuote: string;
+    kycCurrencyLimit: string;
+    itemSideLimit: number;
+    buyFeeRate: string;
+    sellFeeRate: string;
+    orderAutoCancelMinute: number;
+    orderFinishMinute: number;
+    tradeSide: number;
+    currency: {
+      id: string;
+      exchangeId: string;
+      orgId: string;
+      currencyId: string;
+      scale: number;
+    };
+    token: {
+      id: string;
+      exchangeId: string;
+      orgId: string;
+      tokenId: string;
+      scale: number;
+      sequence: number;
+    };
+    buyAd: any;
+    sellAd: any;
+  };
+  tradingPreferenceSet: {
+    hasUnPostAd: number;
+    isKyc: number;
+    isEmail: number;
+    isMobile: number;
+    hasRegisterTime: number;
+    registerTimeThreshold: number;
+    orderFinishNumberDay30: number;
+    completeRateDay30: string;
+    nationalLimit: string;
+    hasOrderFinishNumberDay30: number;
+    hasCompleteRateDay30: number;
+    hasNationalLimit: number;
+  };
+  version: number;
+  authStatus: number;
+  recommend: boolean;
+  recommendTag: string;
+  authTag: string[];
+  userType: string;
+  itemType: string;
+  paymentPeriod: number;
+  userMaskId: string;
+  verificationOrderSwitch: boolean;
+  verificationOrderLabels: any[];
+  verificationOrderAmount: string;
+  ban: boolean;
+  baned: boolean;
+}
+
+/**
+ * Bybit P2P payment configuration response: every payment method and the fiats it is offered in
+ */
+export interface BybitPaymentConfigResponse {
+  ret_code: number;
+  ret_msg: string;
+  result: {
+    paymentConfigVo: Array<{
+      paymentType: number | string;
+      paymentName: string;
+    }>;
+    currencyPaymentIdMap?: Record<string, Array<number | string>>;
+  };
+  ext_code?: string;
+  ext_info?: Record<string, unknown>;
+  time_now?: string;
+}
+
+/**
+ * Path of the public P2P online items endpoint, relative to the API base URL
+ */
+export const BYBIT_ONLINE_ITEMS_PATH = '/fiat/otc/item/online';
+
+/**
+ * Path of the public P2P payment configuration endpoint, relative to the API base URL
+ */
+export const BYBIT_PAYMENT_CONFIG_PATH = '/fiat/otc/configuration/queryAllPaymentList';
+
+/**
+ * Bybit `ret_code`s worth retrying: server timeout, system busy and rate limits
+ */
+const RETRYABLE_RET_CODES = new Set([10000, 10006, 10016, 10018]);
+
+/**
+ * Bybit P2P adapter: fetches pages from the public OTC endpoint and normalizes them.
+ * The base URL defaults to `BYBIT_BASE_URL`, so the ETL can run against a local fake venue.
+ */
+export class BybitAdapter implements ExchangeAdapter<BybitP2PResponse> {
+  readonly name = 'bybit';
+  private readonly url: string;
+  private readonly paymentConfigUrl: string;
+
+  constructor(
+    private readonly client: ExchangeHttpClient = exchangeHttpClient,
+    baseUrl: string = configs.bybitBaseUrl,
+  ) {
+    const base = baseUrl.replace(/\/+$/, '');
+    this.url = `${base}${BYBIT_ONLINE_ITEMS_PATH}`;
+    this.paymentConfigUrl = `${base}${BYBIT_PAYMENT_CONFIG_PATH}`;
+  }
+
+  /**
+   * Fetch a page of P2P data from Bybit API using POST method with JSON payload
+   */
+  async fetchPage(request: ExchangePageRequest): Promise<ExchangeResponse<BybitP2PResponse>> {
+    const payload = {
+      userId: '',
+      tokenId: request.tokenId,
+      currencyId: request.currencyId,
+      payment: request.payment,
+      side: request.side.toString(),
+      size: request.size.toString(),
+      page: request.page.toString(),
+      amount: request.amount || '',
+      vaMaker: false,
+      bulkMaker: false,
+      canTrade: false,
+      verificationFilter: 0,
+      sortType: 'TRADE_PRICE',
+      paymentPeriod: [],
+      itemRegion: 1
+    };
+
+    return await this.client.request<BybitP2PResponse>(
+      this.url,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
+        },
+        body: JSON.stringify(payload)
+      },
+      {
+        // The circuit breaker pauses a market (venue + token pair) as a whole
+        key: `${this.name}:${request.tokenId}/${request.currencyId}`,
+        validate: (body) => this.checkResult(body)
+      }
+    );
+  }
+
+  /**
+   * Fetch Bybit's payment method list for the catalog.
+   * A method offered in a single fiat is tagged with it; Bybit does not report countries,
+   * and the type is only inferred from names that say so.
+   */
+  async fetchPaymentMethods(): Promise<NormalizedPaymentMethod[]> {
+    const { body } = await this.client.request<BybitPaymentConfigResponse>(
+      this.paymentConfigUrl,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: '{}'
+      },
+      {
+        key: `${this.name}:payment-config`,
+        validate: (raw) => this.checkResult(raw)
+      }
+    );
+
+    if (!Array.isArray(body.result?.paymentConfigVo)) {
+      throw new ExchangeError('Bybit API error: payment configuration missing', { code: body.ret_code });
+    }
+
+    const currencies = new Map<number, string[]>();
+    for (const [currencyId, methodIds] of Object.entries(body.result.currencyPaymentIdMap ?? {})) {
+      for (const methodId of methodIds) {
+        currencies.set(Number(methodId), [...(currencies.get(Number(methodId)) ?? []), currencyId]);
+      }
+    }
+
+    return body.result.paymentConfigVo
+      .filter((config) => Number.isInteger(Number(config.paymentType)) && config.paymentName)
+      .map((config) => {
+        const methodId = Number(config.paymentType);
+        const fiats = currencies.get(methodId) ?? [];
+        return {
+          method_id: methodId,
+          name: config.paymentName.trim(),
+          type: /\bcash\b/i.test(config.paymentName) ? 'cash' : /\bbank/i.test(config.paymentName) ? 'bank' : undefined,
+          currency_id: fiats.length === 1 ? fiats[0] : undefined
+        };
+      });
+  }
+
+  /**
+   * Raise an ExchangeError for Bybit error payloads, flagging transient codes as retryable
+   */
+  private checkResult(raw: { ret_code: number; ret_msg: string }): void {
+    if (raw.ret_code !== 0) {
+      throw new ExchangeError(`Bybit API error: ${raw.ret_msg}`, {
+        code: raw.ret_code,
+        venueMessage: raw.ret_msg,
+        retryable: RETRYABLE_RET_CODES.has(raw.ret_code)
+      });
+    }
+  }
+
+  /**
+   * Map a Bybit response onto exchange-neutral offer records
+   */
+  normalize(raw: BybitP2PResponse): ExchangePage {
+    if (raw.ret_code !== 0 || !raw.result?.items) {
+      throw new ExchangeError(`Bybit API error: ${raw.ret_msg}`, { code: raw.ret_code, venueMessage: raw.ret_msg });
+    }
+
+    return {
+      total: raw.result.count || 0,
+      offers: raw.result.items.map((item) => this.normalizeOffer(item)),
+      code: raw.ret_code,
+      message: raw.ret_msg
+    };
+  }
+
+  /**
+   * Normalize a single Bybit offer
+   */
+  private normalizeOffer(item: BybitP2POffer): NormalizedOffer {
+    const normalized: NormalizedOffer = {
+      offer: {
+        exchange: this.name,
+        offer_id: BigInt(item.id),
+        account_id: BigInt(item.accountId),
+        user_id: BigInt(item.userId),
+        token_id: item.tokenId,
+        currency_id: item.currencyId,
+        // Bybit API: side=0 is SELL, side=1 is BUY (stored as-is)
+        side: item.side !== undefined ? item.side : 0,
+        price_type: item.priceType || 0,
+        price: parseFloat(item.price),
+        premium: parseFloat(item.premium || '0'),
+        last_quantity: parseFloat(item.lastQuantity || '0'),
+        total_quantity: parseFloat(item.quantity || '0'),
+        frozen_quantity: parseFloat(item.frozenQuantity || '0'),
+        executed_quantity: parseFloat(item.executedQuantity || '0'),
+        min_amount: parseFloat(item.minAmount || '0'),
+        max_amount: parseFloat(item.maxAmount || '0'),
+        status: item.status || 0,
+        is_online: item.isOnline || false,
+        remark: item.remark,
+        last_logout: item.lastLogoutTime ? this.parseValidDate(item.lastLogoutTime) : undefined,
+        version: item.version || 0,
+        auth_status: item.authStatus || 0,
+        user_type: item.userType || '',
+        payment_period: item.paymentPeriod || 0,
+        user_mask_id: item.userMaskId || ''
+      },
+      user: {
+        exchange: this.name,
+        user_id: BigInt(item.userId),
+        account_id: BigInt(item.accountId),
+        nick_name: item.nickName,
+        blocked: item.blocked === 'Y',
+        maker_contact: item.makerContact
+      },
+      payments: (item.payments || []).map((paymentId) => parseInt(paymentId)),
+      assets: [item.tokenId, item.currencyId]
+    };
+
+    if (item.symbolInfo) {
+      normalized.symbol = {
+        symbol_id: BigInt(item.symbolInfo.id),
+        exchange_id: BigInt(item.symbolInfo.exchangeId),
+        org_id: BigInt(item.symbolInfo.orgId),
+        token_id: item.symbolInfo.tokenId,
+        currency_id: item.symbolInfo.currencyId,
+        status: item.symbolInfo.status || 0,
+        lower_limit_alarm: item.symbolInfo.lowerLimitAlarm || 0,
+        upper_limit_alarm: item.symbolInfo.upperLimitAlarm || 0,
+        item_down_range: item.symbolInfo.itemDownRange ? parseFloat(item.symbolInfo.itemDownRange) : 0,
+        item_up_range: item.symbolInfo.itemUpRange ? parseFloat(item.symbolInfo.itemUpRange) : 0,
+        currency_min_quote: item.symbolInfo.currencyMinQuote ? parseFloat(item.symbolInfo.currencyMinQuote) : 0,
+        currency_max_quote: item.symbolInfo.currencyMaxQuote ? parseFloat(item.symbolInfo.currencyMaxQuote) : 0,
+        token_min_quote: item.symbolInfo.tokenMinQuote ? parseFloat(item.symbolInfo.tokenMinQuote) : 0,
+        token_max_quote: item.symbolInfo.tokenMaxQuote ? parseFloat(item.symbolInfo.tokenMaxQuote) : 0,
+        currency_lower_max: item.symbolInfo.currencyLowerMaxQuote ? parseFloat(item.symbolInfo.currencyLowerMaxQuote) : 0,
+        buy_fee_rate: item.symbolInfo.buyFeeRate ? parseFloat(item.symbolInfo.buyFeeRate) : undefined,
+        sell_fee_rate: item.symbolInfo.sellFeeRate ? parseFloat(item.symbolInfo.sellFeeRate) : undefined,
+        order_auto_cancel: item.symbolInfo.orderAutoCancelMinute || 0,
+        order_finish_minute: item.symbolInfo.orderFinishMinute || 0
+      };
+    }
+
+    if (item.tradingPreferenceSet) {
+      normalized.preferences = {
+        has_unposted_ad: item.tradingPreferenceSet.hasUnPostAd === 1,
+        is_kyc: item.tradingPreferenceSet.isKyc === 1,
+        is_email_verified: item.tradingPreferenceSet.isEmail === 1,
+        is_mobile_verified: item.tradingPreferenceSet.isMobile === 1,
+        register_time_threshold: item.tradingPreferenceSet.registerTimeThreshold,
+        order_finish_30d: item.tradingPreferenceSet.orderFinishNumberDay30,
+        complete_rate_30d: item.tradingPreferenceSet.completeRateDay30 ? parseFloat(item.tradingPreferenceSet.completeRateDay30) : 0,
+        national_limit: item.tradingPreferenceSet.nationalLimit
+      };
+    }
+
+    return normalized;
+  }
+
+  /**
+   * Parse and validate date string, return undefined if invalid
+   * Handles both ISO date strings and Unix timestamps (in seconds)
+   */
+  private parseValidDate(dateString: string): Date | undefined {
+    try {
+      // Check if it's a Unix timestamp (numeric string)
+      const numericValue = Number(dateString);
+      if (!isNaN(numericValue) && dateString.match(/^\d+$/)) {
+        // Convert Unix timestamp from seconds to milliseconds
+        const date = new Date(numericValue * 1000);
+        if (isNaN(date.getTime())) {
+          console.warn(`Invalid Unix timestamp: ${dateString}`);
+          return undefined;
+        }
+        return date;
+      }
+
+      // Try parsing as ISO date string
+      const date = new Date(dateString);
+      if (isNaN(date.getTime())) {
+        console.warn(`Invalid date string: ${dateString}`);
+        return undefined;
+      }
+      return date;
+    } catch (error) {
+      console.warn(`Error parsing date string: ${dateString}`, error);
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import type { P2POffer } from '../../models/p2p_offer.model.ts';
+import type { P2PUser } from '../../models/p2p_user.model.ts';
+import type { PaymentMethod } from '../../models/payment_method.model.ts';
+import type { SymbolInfo } from '../../models/symbol_info.model.ts';
+import type { TradingPreferences } from '../../models/trading_preferences.model.ts';
+
+/**
+ * Parameters for fetching a single page of a venue's P2P order book
+ */
+export interface ExchangePageRequest {
+  tokenId: string;
+  currencyId: string;
+  side: number;
+  payment: string[];
+  size: number;
+  page: number;
+  amount?: string;
+}
+
+/**
+ * Exchange-neutral offer record produced by an adapter.
+ * Snapshot-bound rows omit `fetch_time`, which is assigned by the ETL.
+ */
+export interface NormalizedOffer {
+  offer: Omit<P2POffer, 'fetch_time'>;
+  user: P2PUser;
+  symbol?: SymbolInfo;
+  payments: number[];
+  preferences?: Omit<TradingPreferences, 'fetch_time' | 'exchange' | 'offer_id'>;
+  assets: string[];
+}
+
+/**
+ * Payment method as listed by a venue's payment configuration.
+ * Fields the venue does not report are left out, so known values are kept.
+ */
+export type NormalizedPaymentMethod = Omit<PaymentMethod, 'source' | 'updated_at'>;
+
+/**
+ * Raw venue payload together with the HTTP status it was served with
+ */
+export interface ExchangeResponse<TRaw = unknown> {
+  status: number;
+  body: TRaw;
+}
+
+/**
+ * A normalized page of offers together with the venue's total item count.
+ * `code`/`message` carry the venue's own result code (Bybit `ret_code`/`ret_msg`);
+ * `raw` is the payload the page was normalized from, kept for the response archive.
+ */
+export interface ExchangePage {
+  total: number;
+  offers: NormalizedOffer[];
+  code?: number;
+  message?: string;
+  status?: number;
+  raw?: unknown;
+}
+
+/**
+ * Error raised by adapters when a venue request fails or returns an error payload
+ */
+export class ExchangeError extends Error {
+  status?: number;
+  code?: number;
+  venueMessage?: string;
+  /** Whether the request may succeed when sent again (rate limits, timeouts, 5xx) */
+  retryable: boolean;
+  /** Delay requested by the venue before the next attempt */
+  retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    options: { status?: number; code?: number; venueMessage?: string; retryable?: boolean; retryAfterMs?: number } = {},
+  ) {
+    super(message);
+    this.name = 'ExchangeError';
+    this.status = options.status;
+    this.code = options.code;
+    this.venueMessage = options.venueMessage;
+    this.retryable = options.retryable ?? false;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/**
+ * Contract every P2P venue integration implements.
+ * `fetchPage` returns the venue's raw payload and `normalize` maps it onto the star schema.
+ * Venues that publish their payment methods implement `fetchPaymentMethods` to feed the catalog.
+ */
+export interface ExchangeAdapter<TRaw = unknown> {
+  readonly name: string;
+  fetchPage(request: ExchangePageRequest): Promise<ExchangeResponse<TRaw>>;
+  normalize(raw: TRaw): ExchangePage;
+  fetchPaymentMethods?(): Promise<NormalizedPaymentMethod[]>;
+}
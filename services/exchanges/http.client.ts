@@ -0,0 +1,296 @@
+import configs from '../../config/config.ts';
+import { ExchangeError, ExchangeResponse } from './exchange.adapter.ts';
+
+/**
+ * Tuning of the shared exchange HTTP client
+ */
+export interface ExchangeHttpClientOptions {
+  /** Retries after the first attempt of a request */
+  maxRetries: number;
+  /** First backoff delay; doubled on every retry */
+  baseDelayMs: number;
+  /** Upper bound of a single backoff or Retry-After delay */
+  maxDelayMs: number;
+  /** Sustained request budget shared by all venues */
+  ratePerSec: number;
+  /** Requests that may be sent back to back before the budget applies */
+  burst: number;
+  /** Consecutive failed requests that open a market's circuit */
+  breakerThreshold: number;
+  /** How long an open circuit rejects requests before a trial request is let through */
+  breakerCooldownMs: number;
+}
+
+/**
+ * Per-request options: the circuit key (one per market) and a payload check
+ * that turns venue error bodies into `ExchangeError`s
+ */
+export interface ExchangeRequestOptions<T> {
+  key: string;
+  validate?: (body: T) => void;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Circuit breaker state of a single market
+ */
+export interface CircuitStatus {
+  key: string;
+  state: CircuitState;
+  consecutive_failures: number;
+  opened_at: Date | null;
+  retry_at: Date | null;
+  last_error: string | null;
+}
+
+/**
+ * Client state exposed by the health endpoint
+ */
+export interface ExchangeHttpClientState {
+  rate_limit: {
+    rate_per_sec: number;
+    burst: number;
+    available_tokens: number;
+  };
+  circuits: CircuitStatus[];
+}
+
+/**
+ * Global request budget: `burst` tokens refilled at `ratePerSec`
+ */
+class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+
+  constructor(private readonly ratePerSec: number, private readonly burst: number) {
+    this.tokens = burst;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Wait until a token is available and take it
+   */
+  async take(): Promise<void> {
+    while (true) {
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      const waitMs = Math.ceil(((1 - this.tokens) / this.ratePerSec) * 1000);
+      await sleep(waitMs);
+    }
+  }
+
+  get available(): number {
+    this.refill();
+    return Math.floor(this.tokens);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.burst, this.tokens + ((now - this.lastRefill) / 1000) * this.ratePerSec);
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * Shared HTTP client for exchange calls.
+ * Retries transient failures (network errors, HTTP 429/5xx and retryable venue codes)
+ * with exponential backoff and jitter, honours `Retry-After`, spends one token of a
+ * global budget per attempt and opens a per-market circuit after repeated failures.
+ */
+export class ExchangeHttpClient {
+  private readonly options: ExchangeHttpClientOptions;
+  private readonly bucket: TokenBucket;
+  private circuits = new Map<string, CircuitStatus>();
+
+  constructor(options: Partial<ExchangeHttpClientOptions> = {}) {
+    this.options = {
+      maxRetries: configs.exchangeMaxRetries,
+      baseDelayMs: configs.exchangeRetryBaseMs,
+      maxDelayMs: configs.exchangeRetryMaxMs,
+      ratePerSec: configs.exchangeRatePerSec,
+      burst: configs.exchangeRateBurst,
+      breakerThreshold: configs.exchangeBreakerThreshold,
+      breakerCooldownMs: configs.exchangeBreakerCooldownMs,
+      ...options,
+    };
+    this.bucket = new TokenBucket(this.options.ratePerSec, this.options.burst);
+  }
+
+  /**
+   * Send a request and parse its JSON body, retrying transient failures
+   */
+  async request<T>(url: string, init: RequestInit, options: ExchangeRequestOptions<T>): Promise<ExchangeResponse<T>> {
+    this.assertCircuitClosed(options.key);
+
+    for (let attempt = 0; ; attempt++) {
+      await this.bucket.take();
+
+      try {
+        const response = await this.send<T>(url, init, options);
+        this.recordSuccess(options.key);
+        return response;
+      } catch (error) {
+        const exchangeError = toExchangeError(error);
+        if (!exchangeError.retryable || attempt >= this.options.maxRetries) {
+          this.recordFailure(options.key, exchangeError);
+          throw exchangeError;
+        }
+        await sleep(this.retryDelay(attempt, exchangeError));
+      }
+    }
+  }
+
+  /**
+   * Rate limit budget and circuit state of every market seen so far
+   */
+  getState(): ExchangeHttpClientState {
+    return {
+      rate_limit: {
+        rate_per_sec: this.options.ratePerSec,
+        burst: this.options.burst,
+        available_tokens: this.bucket.available,
+      },
+      circuits: Array.from(this.circuits.values()).map((circuit) => ({ ...circuit })),
+    };
+  }
+
+  /**
+   * Perform a single attempt
+   */
+  private async send<T>(url: string, init: RequestInit, options: ExchangeRequestOptions<T>): Promise<ExchangeResponse<T>> {
+    let response: Response;
+    try {
+      response = await fetch(url, init);
+    } catch (error) {
+      throw new ExchangeError(`Request failed: ${error instanceof Error ? error.message : String(error)}`, {
+        retryable: true,
+      });
+    }
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new ExchangeError(`HTTP error! status: ${response.status}`, {
+        status: response.status,
+        retryable: response.status === 429 || response.status >= 500,
+        retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+      });
+    }
+
+    const body = await response.json() as T;
+    try {
+      options.validate?.(body);
+    } catch (error) {
+      if (error instanceof ExchangeError && error.status === undefined) {
+        error.status = response.status;
+      }
+      throw error;
+    }
+
+    return { status: response.status, body };
+  }
+
+  /**
+   * Backoff delay before the next attempt: `Retry-After` when the venue sent one,
+   * otherwise exponential backoff with full jitter
+   */
+  private retryDelay(attempt: number, error: ExchangeError): number {
+    if (error.retryAfterMs !== undefined) {
+      return Math.min(error.retryAfterMs, this.options.maxDelayMs);
+    }
+    const backoff = Math.min(this.options.baseDelayMs * 2 ** attempt, this.options.maxDelayMs);
+    return Math.floor(Math.random() * backoff);
+  }
+
+  /**
+   * Reject requests for a market whose circuit is open; let one trial through once the cooldown has passed
+   */
+  private assertCircuitClosed(key: string): void {
+    const circuit = this.circuits.get(key);
+    if (!circuit || circuit.state === 'closed') {
+      return;
+    }
+
+    if (circuit.state === 'open' && circuit.retry_at && circuit.retry_at.getTime() <= Date.now()) {
+      circuit.state = 'half_open';
+      return;
+    }
+
+    throw new ExchangeError(`Circuit open for ${key} until ${circuit.retry_at?.toISOString()}`, {
+      retryable: false,
+    });
+  }
+
+  private recordSuccess(key: string): void {
+    const circuit = this.circuits.get(key);
+    if (!circuit) {
+      this.circuits.set(key, this.closedCircuit(key));
+      return;
+    }
+    Object.assign(circuit, this.closedCircuit(key));
+  }
+
+  private recordFailure(key: string, error: ExchangeError): void {
+    const circuit = this.circuits.get(key) || this.closedCircuit(key);
+    this.circuits.set(key, circuit);
+
+    circuit.consecutive_failures++;
+    circuit.last_error = error.message;
+
+    // A failed trial request reopens the circuit straight away
+    if (circuit.state === 'half_open' || circuit.consecutive_failures >= this.options.breakerThreshold) {
+      const now = Date.now();
+      circuit.state = 'open';
+      circuit.opened_at = new Date(now);
+      circuit.retry_at = new Date(now + this.options.breakerCooldownMs);
+    }
+  }
+
+  private closedCircuit(key: string): CircuitStatus {
+    return {
+      key,
+      state: 'closed',
+      consecutive_failures: 0,
+      opened_at: null,
+      retry_at: null,
+      last_error: null,
+    };
+  }
+}
+
+/**
+ * Wrap unexpected errors so the retry loop only deals with `ExchangeError`
+ */
+function toExchangeError(error: unknown): ExchangeError {
+  if (error instanceof ExchangeError) {
+    return error;
+  }
+  return new ExchangeError(error instanceof Error ? error.message : String(error));
+}
+
+/**
+ * Parse a `Retry-After` header given either in seconds or as an HTTP date
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(seconds, 0) * 1000;
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Client shared by all exchange adapters, so the request budget is global
+ */
+export const exchangeHttpClient = new ExchangeHttpClient();
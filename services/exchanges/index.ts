@@ -0,0 +1,37 @@
+import { ExchangeAdapter } from './exchange.adapter.ts';
+import { BybitAdapter } from './bybit.adapter.ts';
+
+/**
+ * Registered P2P venue adapters, keyed by the value stored in the `exchange` column
+ */
+const adapters = new Map<string, ExchangeAdapter>();
+
+/**
+ * Register an adapter so the ETL can fetch from its venue
+ */
+export function registerExchangeAdapter(adapter: ExchangeAdapter): void {
+  adapters.set(adapter.name, adapter);
+}
+
+/**
+ * Resolve the adapter for a venue, throwing if it is not registered
+ */
+export function getExchangeAdapter(name: string): ExchangeAdapter {
+  const adapter = adapters.get(name);
+  if (!adapter) {
+    throw new Error(`Unsupported exchange: ${name}`);
+  }
+  return adapter;
+}
+
+/**
+ * List the names of all registered venues
+ */
+export function getExchangeNames(): string[] {
+  return Array.from(adapters.keys());
+}
+
+registerExchangeAdapter(new BybitAdapter());
+
+export * from './exchange.adapter.ts';
+export { ExchangeHttpClient, exchangeHttpClient } from './http.client.ts';
@@ -0,0 +1,207 @@
+import { Status } from 'jsr:@oak/oak';
+import { throwError } from '../middlewares/errorHandler.middleware.ts';
+import { WatchedMarket, WatchedMarketModel } from '../models/watched_market.model.ts';
+import { DEFAULT_PARAMS } from '../shared/constants.ts';
+import { getExchangeNames } from './exchanges/index.ts';
+
+/**
+ * Watched market input accepted by the API (camelCase, as sent by clients)
+ */
+export interface MarketInput {
+  exchange?: string;
+  tokenId?: string;
+  currencyId?: string;
+  sides?: number[];
+  paymentMethods?: number[];
+  pageDepth?: number;
+  pollIntervalSec?: number;
+  enabled?: boolean;
+}
+
+/**
+ * Markets and payment methods an analytics query is scoped to
+ */
+export interface MarketScope {
+  exchange: string;
+  markets: WatchedMarket[];
+  paymentMethods: number[];
+}
+
+/**
+ * Market Service for managing the watchlist of polled markets
+ */
+export class MarketService {
+  private watchedMarketModel: WatchedMarketModel;
+
+  constructor() {
+    this.watchedMarketModel = new WatchedMarketModel();
+  }
+
+  /**
+   * List all watched markets
+   */
+  async getMarkets(): Promise<WatchedMarket[]> {
+    return await this.watchedMarketModel.getAll();
+  }
+
+  /**
+   * List enabled watched markets
+   */
+  async getEnabledMarkets(): Promise<WatchedMarket[]> {
+    return await this.watchedMarketModel.getEnabled();
+  }
+
+  /**
+   * Get a single watched market, throwing NotFound if it does not exist
+   */
+  async getMarket(id: string): Promise<WatchedMarket> {
+    const market = await this.watchedMarketModel.getById(id);
+    if (!market) {
+      return throwError({
+        status: Status.NotFound,
+        name: 'NotFound',
+        path: 'market',
+        param: 'id',
+        message: `Market not found`,
+        type: 'NotFound',
+      }) as never;
+    }
+    return market;
+  }
+
+  /**
+   * Create a watched market
+   */
+  async createMarket(input: MarketInput): Promise<WatchedMarket> {
+    const exchange = input.exchange || DEFAULT_PARAMS.EXCHANGE;
+    this.assertSupportedExchange(exchange);
+
+    return await this.watchedMarketModel.create({
+      exchange,
+      token_id: input.tokenId as string,
+      currency_id: input.currencyId as string,
+      sides: input.sides as number[],
+      payment_methods: input.paymentMethods as number[],
+      page_depth: input.pageDepth ?? 1,
+      poll_interval_sec: input.pollIntervalSec ?? 5,
+      enabled: input.enabled ?? true,
+    });
+  }
+
+  /**
+   * Update a watched market
+   */
+  async updateMarket(id: string, input: MarketInput): Promise<WatchedMarket> {
+    await this.getMarket(id);
+    if (input.exchange) {
+      this.assertSupportedExchange(input.exchange);
+    }
+
+    await this.watchedMarketModel.update(id, {
+      exchange: input.exchange,
+      token_id: input.tokenId,
+      currency_id: input.currencyId,
+      sides: input.sides,
+      payment_methods: input.paymentMethods,
+      page_depth: input.pageDepth,
+      poll_interval_sec: input.pollIntervalSec,
+      enabled: input.enabled,
+    });
+
+    return await this.getMarket(id);
+  }
+
+  /**
+   * Delete a watched market
+   */
+  async removeMarket(id: string): Promise<void> {
+    await this.getMarket(id);
+    await this.watchedMarketModel.delete(id);
+  }
+
+  /**
+   * Resolve the enabled markets a fetch should cover.
+   * A market ID selects one market, a token pair selects its markets, otherwise all enabled markets.
+   */
+  async resolveMarkets(
+    options: { marketId?: string; exchange?: string; tokenId?: string; currencyId?: string } = {},
+  ): Promise<WatchedMarket[]> {
+    if (options.marketId) {
+      return [await this.getMarket(options.marketId)];
+    }
+
+    if (options.tokenId && options.currencyId) {
+      const markets = await this.watchedMarketModel.getEnabledByPair(
+        options.exchange || DEFAULT_PARAMS.EXCHANGE,
+        options.tokenId,
+        options.currencyId,
+      );
+      if (markets.length === 0) {
+        return this.throwNotWatched(options.tokenId, options.currencyId);
+      }
+      return markets;
+    }
+
+    return await this.watchedMarketModel.getEnabled();
+  }
+
+  /**
+   * Resolve the payment methods analytics for a token pair are scoped to.
+   * Uses a single market when `marketId` is given, otherwise the union of the pair's enabled markets.
+   */
+  async resolveScope(
+    tokenId: string,
+    currencyId: string,
+    options: { marketId?: string; exchange?: string } = {},
+  ): Promise<MarketScope> {
+    const exchange = options.exchange || DEFAULT_PARAMS.EXCHANGE;
+    let markets: WatchedMarket[];
+
+    if (options.marketId) {
+      const market = await this.getMarket(options.marketId);
+      if (market.token_id !== tokenId || market.currency_id !== currencyId) {
+        return this.throwNotWatched(tokenId, currencyId);
+      }
+      markets = [market];
+    } else {
+      markets = await this.watchedMarketModel.getEnabledByPair(exchange, tokenId, currencyId);
+    }
+
+    if (markets.length === 0) {
+      return this.throwNotWatched(tokenId, currencyId);
+    }
+
+    const paymentMethods = Array.from(new Set(markets.flatMap((market) => market.payment_methods)));
+    return { exchange: markets[0].exchange, markets, paymentMethods };
+  }
+
+  /**
+   * Reject exchanges without a registered adapter
+   */
+  private assertSupportedExchange(exchange: string): void {
+    if (!getExchangeNames().includes(exchange)) {
+      throwError({
+        status: Status.BadRequest,
+        name: 'ValidationError',
+        path: 'exchange',
+        param: 'exchange',
+        message: `Unsupported exchange: ${exchange}`,
+        type: 'BadRequest',
+      });
+    }
+  }
+
+  /**
+   * Throw NotFound for a pair that has no enabled watched market
+   */
+  private throwNotWatched(tokenId: string, currencyId: string): never {
+    return throwError({
+      status: Status.NotFound,
+      name: 'NotFound',
+      path: 'market',
+      param: 'market',
+      message: `No enabled watched market for ${tokenId}/${currencyId}`,
+      type: 'NotFound',
+    }) as never;
+  }
+}
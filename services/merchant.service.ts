@@ -0,0 +1,184 @@
+import { Status } from 'jsr:@oak/oak';
+import { throwError } from '../middlewares/errorHandler.middleware.ts';
+import {
+  ConcentrationBucket,
+  LeaderboardEntry,
+  MerchantMarket,
+  MerchantModel,
+  MerchantOnlineHour,
+  MerchantOverview,
+  MerchantReputation,
+} from '../models/merchant.model.ts';
+import { P2PUserModel, P2PUserNickname } from '../models/p2p_user.model.ts';
+import { MAX_BUCKET } from '../shared/constants.ts';
+import BucketHelper from '../helpers/bucket.helper.ts';
+import { MarketService } from './market.service.ts';
+
+/**
+ * Profile of one merchant: who it is, how it was listed over the window and its reputation over time
+ */
+export interface MerchantProfile {
+  exchange: string;
+  user_id: bigint;
+  nick_name: string | null;
+  blocked: boolean | null;
+  maker_contact: boolean | null;
+  from: Date;
+  to: Date;
+  activity: MerchantOverview | null;
+  nicknames: P2PUserNickname[];
+  reputation: MerchantReputation[];
+  markets: MerchantMarket[];
+  online_hours: MerchantOnlineHour[];
+}
+
+/**
+ * Which merchants dominate a token pair's book over a window, and how concentrated its listed quantity is
+ */
+export interface MerchantLeaderboard {
+  exchange: string;
+  token_id: string;
+  currency_id: string;
+  side: number | null;
+  interval: string;
+  from: Date;
+  to: Date;
+  leaderboard: LeaderboardEntry[];
+  concentration: ConcentrationBucket[];
+}
+
+/**
+ * Merchant Service: profiles of the P2P users behind offers, built from their offer history
+ */
+export class MerchantService {
+  private merchantModel: MerchantModel;
+  private p2pUserModel: P2PUserModel;
+  private marketService: MarketService;
+
+  constructor() {
+    this.merchantModel = new MerchantModel();
+    this.p2pUserModel = new P2PUserModel();
+    this.marketService = new MarketService();
+  }
+
+  /**
+   * List merchants listed in the last `hours` (default: 24), most active ads first
+   */
+  async getMerchants(options: {
+    hours?: number;
+    exchange?: string;
+    tokenId?: string;
+    currencyId?: string;
+    search?: string;
+    online?: boolean;
+    limit?: number;
+  } = {}): Promise<MerchantOverview[]> {
+    const { hours, ...filters } = options;
+    const to = new Date();
+    const from = new Date(to.getTime() - (hours ?? 24) * 60 * 60 * 1000);
+    return await this.merchantModel.getMerchants({ ...filters, from, to });
+  }
+
+  /**
+   * Get the profile of a merchant over the last `days` (default: 30), throwing NotFound if it was never seen
+   */
+  async getMerchant(userId: bigint, options: { days?: number; exchange?: string } = {}): Promise<MerchantProfile> {
+    const user = await this.p2pUserModel.getById(userId, options.exchange);
+    if (!user) {
+      return throwError({
+        status: Status.NotFound,
+        name: 'NotFound',
+        path: 'merchant',
+        param: 'userId',
+        message: `Merchant not found`,
+        type: 'NotFound',
+      }) as never;
+    }
+
+    const to = new Date();
+    const from = new Date(to.getTime() - (options.days ?? 30) * 24 * 60 * 60 * 1000);
+    const filters = { from, to, exchange: user.exchange };
+    const [activity] = await this.merchantModel.getMerchants({ ...filters, userId, limit: 1 });
+
+    return {
+      exchange: user.exchange,
+      user_id: user.user_id,
+      nick_name: user.nick_name ?? null,
+      blocked: user.blocked ?? null,
+      maker_contact: user.maker_contact ?? null,
+      from,
+      to,
+      activity: activity ?? null,
+      nicknames: await this.p2pUserModel.getNicknames(userId, user.exchange),
+      reputation: await this.merchantModel.getReputationHistory(userId, filters),
+      markets: await this.merchantModel.getMarkets(userId, filters),
+      online_hours: await this.merchantModel.getOnlineHours(userId, filters)
+    };
+  }
+
+  /**
+   * Rank the merchants of a token pair per book side over [from, to) (default: the last 24 hours), scoped to
+   * its watched markets' payment methods, with the concentration of listed quantity per interval
+   */
+  async getLeaderboard(
+    tokenId: string,
+    currencyId: string,
+    options: {
+      side?: number;
+      from?: Date;
+      to?: Date;
+      interval?: string;
+      limit?: number;
+      marketId?: string;
+      exchange?: string;
+    } = {}
+  ): Promise<MerchantLeaderboard> {
+    const to = options.to ?? new Date();
+    const from = options.from ?? new Date(to.getTime() - 24 * 60 * 60 * 1000);
+    if (from >= to) {
+      return throwError({
+        status: Status.BadRequest,
+        name: 'ValidationError',
+        path: 'from',
+        param: 'from',
+        message: 'from must be before to',
+        type: 'BadRequest',
+      }) as never;
+    }
+
+    const bucket = BucketHelper.parse(options.interval ?? '1h', MAX_BUCKET.CONCENTRATION);
+    if (!bucket) {
+      return throwError({
+        status: Status.BadRequest,
+        name: 'ValidationError',
+        path: 'interval',
+        param: 'interval',
+        message: `interval must be a bucket such as 5m, 15m, 4h or 1d, at most ${MAX_BUCKET.CONCENTRATION}`,
+        type: 'BadRequest',
+      }) as never;
+    }
+
+    const scope = await this.marketService.resolveScope(tokenId, currencyId, options);
+    const filters = {
+      exchange: scope.exchange,
+      tokenId,
+      currencyId,
+      paymentMethodIds: scope.paymentMethods,
+      side: options.side,
+      from,
+      to
+    };
+
+    return {
+      exchange: scope.exchange,
+      token_id: tokenId,
+      currency_id: currencyId,
+      side: options.side ?? null,
+      interval: bucket.spec,
+      from,
+      to,
+      leaderboard: await this.merchantModel.getLeaderboard(filters, options.limit),
+      concentration: await this.merchantModel.getConcentration(filters, bucket)
+    };
+  }
+}
@@ -0,0 +1,144 @@
+import { Status } from 'jsr:@oak/oak';
+import { throwError } from '../middlewares/errorHandler.middleware.ts';
+import { OfferEvent, OfferEventFilters, OfferEventModel, OfferEventType } from '../models/offer_event.model.ts';
+import type { Queryable } from '../db/db.ts';
+import type { NormalizedOffer } from './exchanges/index.ts';
+
+/**
+ * The book a snapshot was taken from: venue, token pair, side and payment filter
+ */
+export type OfferEventStream = Pick<OfferEvent, 'stream' | 'exchange' | 'token_id' | 'currency_id' | 'side'>;
+
+/**
+ * Offer fields an event records both before and after the change (as `previous_<field>` and `<field>`)
+ */
+const STATE_FIELDS = ['price', 'last_quantity', 'total_quantity', 'executed_quantity', 'frozen_quantity', 'version'] as const;
+
+const QUANTITY_FIELDS = ['last_quantity', 'total_quantity', 'executed_quantity', 'frozen_quantity'] as const;
+
+type OfferState = Pick<OfferEvent, typeof STATE_FIELDS[number] | 'is_online' | 'user_id'>;
+
+/**
+ * Offer Event Service: turns consecutive snapshots of a stream into offer lifecycle events
+ * (created, repriced, quantity changed, edited, offline/online, removed, reappeared)
+ */
+export class OfferEventService {
+  private offerEventModel: OfferEventModel;
+
+  constructor() {
+    this.offerEventModel = new OfferEventModel();
+  }
+
+  /**
+   * Diff a snapshot against the last known state of its stream and store the resulting events.
+   * Runs inside the snapshot's transaction. Returns the number of events stored.
+   */
+  async recordSnapshot(
+    offers: NormalizedOffer[],
+    stream: OfferEventStream,
+    fetchTime: Date,
+    tx: Queryable
+  ): Promise<number> {
+    const known = new Map<bigint, OfferEvent>();
+    for (const event of await this.offerEventModel.getLatestByStream(stream.stream, tx)) {
+      known.set(BigInt(event.offer_id), event);
+    }
+
+    const events: Array<Omit<OfferEvent, 'id'>> = [];
+    const emit = (type: OfferEventType, offerId: bigint, state: OfferState, previous?: OfferEvent) => {
+      events.push({
+        ...stream,
+        ...state,
+        offer_id: offerId,
+        event_time: fetchTime,
+        type,
+        previous_price: previous?.price ?? null,
+        previous_last_quantity: previous?.last_quantity ?? null,
+        previous_total_quantity: previous?.total_quantity ?? null,
+        previous_executed_quantity: previous?.executed_quantity ?? null,
+        previous_frozen_quantity: previous?.frozen_quantity ?? null,
+        previous_version: previous?.version ?? null
+      });
+    };
+
+    for (const { offer } of offers) {
+      const state = this.toState(offer);
+      const previous = known.get(offer.offer_id);
+      known.delete(offer.offer_id);
+
+      if (!previous) {
+        emit('created', offer.offer_id, state);
+        continue;
+      }
+      if (previous.type === 'removed') {
+        emit('reappeared', offer.offer_id, state, previous);
+        continue;
+      }
+
+      const repriced = previous.price !== state.price;
+      const requantified = QUANTITY_FIELDS.some((field) => previous[field] !== state[field]);
+      if (repriced) emit('price_changed', offer.offer_id, state, previous);
+      if (requantified) emit('quantity_changed', offer.offer_id, state, previous);
+      if (previous.is_online !== state.is_online) {
+        emit(state.is_online ? 'came_online' : 'went_offline', offer.offer_id, state, previous);
+      }
+      if (!repriced && !requantified && previous.version !== state.version) {
+        emit('edited', offer.offer_id, state, previous);
+      }
+    }
+
+    // Offers left in `known` were in the book before and are missing from this snapshot
+    for (const [offerId, previous] of known) {
+      if (previous.type !== 'removed') {
+        emit('removed', offerId, this.toState(previous), previous);
+      }
+    }
+
+    await this.offerEventModel.createMany(events, tx);
+    return events.length;
+  }
+
+  /**
+   * Get the lifecycle of an offer, oldest event first, throwing NotFound if it was never seen
+   */
+  async getOfferHistory(offerId: bigint, filters: OfferEventFilters = {}): Promise<OfferEvent[]> {
+    const events = await this.offerEventModel.getByOffer(offerId, filters);
+    if (events.length === 0) {
+      const seen = await this.offerEventModel.getByOffer(offerId, { exchange: filters.exchange, limit: 1 });
+      if (seen.length === 0) {
+        return throwError({
+          status: Status.NotFound,
+          name: 'NotFound',
+          path: 'offer',
+          param: 'offerId',
+          message: `Offer not found`,
+          type: 'NotFound',
+        }) as never;
+      }
+    }
+    return events;
+  }
+
+  /**
+   * Delete events older than the retention period
+   */
+  async deleteOldRecords(retentionDays: number = 30): Promise<void> {
+    await this.offerEventModel.deleteOldRecords(retentionDays);
+  }
+
+  /**
+   * The state an event records for an offer, picked from a normalized offer or an earlier event
+   */
+  private toState(offer: OfferState): OfferState {
+    return {
+      user_id: offer.user_id,
+      price: offer.price,
+      last_quantity: offer.last_quantity,
+      total_quantity: offer.total_quantity,
+      executed_quantity: offer.executed_quantity,
+      frozen_quantity: offer.frozen_quantity,
+      is_online: offer.is_online,
+      version: offer.version
+    };
+  }
+}
@@ -1,130 +1,199 @@
-import { P2POfferModel, P2POffer } from '../models/p2p_offer.model.ts';
+import { Status } from 'jsr:@oak/oak';
+import {
+  Candle, DepthLevel, EstimatedFill, FlowBucket, P2POfferModel, P2POffer, SideSummary, SnapshotKey
+} from '../models/p2p_offer.model.ts';
 import { SymbolInfoModel, SymbolInfo } from '../models/symbol_info.model.ts';
 import { P2PUserModel, P2PUser } from '../models/p2p_user.model.ts';
-import { PaymentMethodModel, OfferPaymentModel, PaymentMethod, OfferPayment } from '../models/payment_method.model.ts';
+import { PaymentMethodModel, OfferPaymentModel, OfferPayment, PaymentMethod } from '../models/payment_method.model.ts';
 import { TradingPreferencesModel, TradingPreferences } from '../models/trading_preferences.model.ts';
 import { AssetModel, Asset } from '../models/asset.model.ts';
-import { TRADE_SIDE, PAYMENT_METHODS, DEFAULT_PARAMS } from '../shared/constants.ts';
+import { TRADE_SIDE, PAYMENT_METHODS, DEFAULT_PARAMS, MAX_BUCKET } from '../shared/constants.ts';
+import { ExchangeError, ExchangePage, ExchangePageRequest, NormalizedOffer, getExchangeAdapter } from './exchanges/index.ts';
+import configs from '../config/config.ts';
+import db, { type Queryable } from '../db/db.ts';
+import { MarketService } from './market.service.ts';
+import { WatchedMarket } from '../models/watched_market.model.ts';
+import type { MerchantSelection } from '../models/user_merchant.model.ts';
+import { FetchRun, FetchRunFilters, FetchRunModel } from '../models/fetch_run.model.ts';
+import { RawResponse, RawResponseFilters, RawResponseModel } from '../models/raw_response.model.ts';
+import CompressionHelper from '../helpers/compression.helper.ts';
+import { CDC_TRACKED_FIELDS, OfferHeartbeatModel, OfferVersion, OfferVersionModel } from '../models/offer_version.model.ts';
+import { BookSnapshotModel, streamKey } from '../models/book_snapshot.model.ts';
+import { throwError } from '../middlewares/errorHandler.middleware.ts';
+import { OfferEventService } from './offer_event.service.ts';
+import { AlertService } from './alert.service.ts';
+import { WebhookService } from './webhook.service.ts';
+import BucketHelper, { type BucketSpec } from '../helpers/bucket.helper.ts';
 
 /**
- * Bybit P2P API response interfaces
+ * Outcome of a full-depth order book sweep
  */
-interface BybitP2PResponse {
-  ret_code: number;
-  ret_msg: string;
-  result: {
-    count: number;
-    items: BybitP2POffer[];
-  };
-  ext_code: string;
-  ext_info: Record<string, any>;
-  time_now: string;
+export interface SweepResult {
+  fetch_time: Date;
+  pages: number;
+  offers: number;
+  total: number;
 }
 
-interface BybitP2POffer {
-  id: string;
-  accountId: string;
-  userId: string;
-  nickName: string;
-  tokenId: string;
-  tokenName: string;
-  currencyId: string;
-  side: number;
-  priceType: number;
-  price: string;
-  premium: string;
-  lastQuantity: string;
-  quantity: string;
-  frozenQuantity: string;
-  executedQuantity: string;
-  minAmount: string;
-  maxAmount: string;
-  remark?: string;
-  status: number;
-  createDate: string;
-  payments: string[];
-  orderNum: number;
-  finishNum: number;
-  recentOrderNum: number;
-  recentExecuteRate: number;
-  fee: string;
-  isOnline: boolean;
-  lastLogoutTime: string;
-  blocked: string;
-  makerContact: boolean;
-  symbolInfo: {
-    id: string;
-    exchangeId: string;
-    orgId: string;
-    tokenId: string;
-    currencyId: string;
-    status: number;
-    lowerLimitAlarm: number;
-    upperLimitAlarm: number;
-    itemDownRange: string;
-    itemUpRange: string;
-    currencyMinQuote: string;
-    currencyMaxQuote: string;
-    currencyLowerMaxQuote: string;
-    tokenMinQuote: string;
-    tokenMaxQuote: string;
-    kycCurrencyLimit: string;
-    itemSideLimit: number;
-    buyFeeRate: string;
-    sellFeeRate: string;
-    orderAutoCancelMinute: number;
-    orderFinishMinute: number;
-    tradeSide: number;
-    currency: {
-      id: string;
-      exchangeId: string;
-      orgId: string;
-      currencyId: string;
-      scale: number;
-    };
-    token: {
-      id: string;
-      exchangeId: string;
-      orgId: string;
-      tokenId: string;
-      scale: number;
-      sequence: number;
-    };
-    buyAd: any;
-    sellAd: any;
-  };
-  tradingPreferenceSet: {
-    hasUnPostAd: number;
-    isKyc: number;
-    isEmail: number;
-    isMobile: number;
-    hasRegisterTime: number;
-    registerTimeThreshold: number;
-    orderFinishNumberDay30: number;
-    completeRateDay30: string;
-    nationalLimit: string;
-    hasOrderFinishNumberDay30: number;
-    hasCompleteRateDay30: number;
-    hasNationalLimit: number;
-  };
-  version: number;
-  authStatus: number;
-  recommend: boolean;
-  recommendTag: string;
-  authTag: string[];
-  userType: string;
-  itemType: string;
-  paymentPeriod: number;
-  userMaskId: string;
-  verificationOrderSwitch: boolean;
-  verificationOrderLabels: any[];
-  verificationOrderAmount: string;
-  ban: boolean;
-  baned: boolean;
+/**
+ * Outcome of fetching a watched market, keyed by side
+ */
+export interface MarketFetchResult {
+  market_id: string;
+  sides: Record<number, SweepResult>;
+}
+
+/**
+ * Outcome of replaying archived responses
+ */
+export interface ReprocessResult {
+  snapshots: number;
+  pages: number;
+  offers: number;
+  failed: Array<SnapshotKey & { error: string }>;
+}
+
+/**
+ * Estimated trade flow of a token pair: volume and VWAP per interval and side, and the latest fills
+ */
+export interface TradeFlow {
+  exchange: string;
+  token_id: string;
+  currency_id: string;
+  interval: string;
+  from: Date;
+  to: Date;
+  buckets: FlowBucket[];
+  fills: EstimatedFill[];
+}
+
+/**
+ * Best bid/ask candles of a token pair; `gap_filled` candles repeat the previous close
+ */
+export interface CandleSeries {
+  exchange: string;
+  token_id: string;
+  currency_id: string;
+  interval: string;
+  from: Date;
+  to: Date;
+  candles: Array<Candle & { gap_filled: boolean }>;
+}
+
+/**
+ * Depth of one book side in the snapshots nearest to the requested time, one per market stream, best price first.
+ * `fetch_time` is the latest of those snapshots.
+ */
+export interface DepthSide {
+  fetch_time: Date | null;
+  total_quantity: number;
+  total_amount: number;
+  levels: DepthLevel[];
+}
+
+/**
+ * Order book of a token pair at a point in time: bids are BUY offers, asks SELL offers
+ */
+export interface OrderBook {
+  exchange: string;
+  token_id: string;
+  currency_id: string;
+  at: Date;
+  best_bid: number | null;
+  best_ask: number | null;
+  spread: number | null;
+  bids: DepthSide;
+  asks: DepthSide;
+}
+
+/**
+ * Statistics of one book side over a summary window; `best_price` is the highest bid or lowest ask seen.
+ * Prices are null when the side had no offers in the window.
+ */
+export interface SideStats {
+  count: number;
+  merchants: number;
+  snapshots: number;
+  best_price: number | null;
+  avg_price: number | null;
+  min_price: number | null;
+  max_price: number | null;
+  median_price: number | null;
+  p10_price: number | null;
+  p25_price: number | null;
+  p75_price: number | null;
+  p90_price: number | null;
+  liquidity: number;
+  liquidity_amount: number;
+  avg_liquidity: number;
+}
+
+/**
+ * Both book sides of a token pair over [from, to), with the spread between the latest best bid and the
+ * best ask quoted with it (in percent of the bid, and absolute) and the average spread over the window
+ */
+export interface SummaryWindow {
+  from: Date;
+  to: Date;
+  buy_offers: SideStats;
+  sell_offers: SideStats;
+  best_bid: number | null;
+  best_ask: number | null;
+  quoted_at: Date | null;
+  spread: number | null;
+  spread_abs: number | null;
+  avg_spread_pct: number | null;
+}
+
+/**
+ * Differences between a summary window and the window of the same length before it
+ */
+export interface SummaryChange {
+  buy_offers: Record<'best_price' | 'median_price' | 'count' | 'merchants' | 'liquidity', number | null>;
+  sell_offers: Record<'best_price' | 'median_price' | 'count' | 'merchants' | 'liquidity', number | null>;
+  spread: number | null;
+}
+
+/**
+ * Market summary of a token pair, scoped to its watched markets' payment methods
+ */
+export interface MarketSummary extends SummaryWindow {
+  exchange: string;
+  token_id: string;
+  currency_id: string;
+  payment_methods: Array<Pick<PaymentMethod, 'method_id' | 'name' | 'type'>>;
+  previous: SummaryWindow;
+  change: SummaryChange;
 }
 
 /**
- * P2P Service for handling Bybit P2P data operations
+ * Fetch run fields known once a page request has been sent
+ */
+type PendingFetchRun = Pick<FetchRun, 'market_id' | 'exchange' | 'token_id' | 'currency_id' | 'side' | 'page' | 'started_at'>;
+
+/**
+ * A fetched page waiting to be written as part of a snapshot.
+ * `stream` identifies the book it was requested from: venue, token pair, side and payment filter.
+ */
+interface FetchedPage {
+  run: PendingFetchRun;
+  stream: string;
+  page: ExchangePage;
+  offers: NormalizedOffer[];
+}
+
+/**
+ * Raised when a snapshot transaction fails; its page runs are already recorded
+ */
+class SnapshotWriteError extends Error {
+  constructor(cause: unknown) {
+    super(`Failed to store snapshot: ${cause instanceof Error ? cause.message : String(cause)}`, { cause });
+    this.name = 'SnapshotWriteError';
+  }
+}
+
+/**
+ * P2P Service for handling P2P data operations across exchange adapters
  */
 export class P2PService {
   private p2pOfferModel: P2POfferModel;
@@ -134,6 +203,15 @@ export class P2PService {
   private offerPaymentModel: OfferPaymentModel;
   private tradingPreferencesModel: TradingPreferencesModel;
   private assetModel: AssetModel;
+  private marketService: MarketService;
+  private fetchRunModel: FetchRunModel;
+  private rawResponseModel: RawResponseModel;
+  private offerVersionModel: OfferVersionModel;
+  private offerHeartbeatModel: OfferHeartbeatModel;
+  private bookSnapshotModel: BookSnapshotModel;
+  private offerEventService: OfferEventService;
+  private alertService: AlertService;
+  private webhookService: WebhookService;
 
   constructor() {
     this.p2pOfferModel = new P2POfferModel();
@@ -143,383 +221,972 @@ export class P2PService {
     this.offerPaymentModel = new OfferPaymentModel();
     this.tradingPreferencesModel = new TradingPreferencesModel();
     this.assetModel = new AssetModel();
+    this.marketService = new MarketService();
+    this.fetchRunModel = new FetchRunModel();
+    this.rawResponseModel = new RawResponseModel();
+    this.offerVersionModel = new OfferVersionModel();
+    this.offerHeartbeatModel = new OfferHeartbeatModel();
+    this.bookSnapshotModel = new BookSnapshotModel();
+    this.offerEventService = new OfferEventService();
+    this.alertService = new AlertService();
+    this.webhookService = new WebhookService();
   }
 
   /**
-   * Parse and validate date string, return undefined if invalid
-   * Handles both ISO date strings and Unix timestamps (in seconds)
+   * Fetch and normalize a single page of offers from a P2P venue
    */
-  private parseValidDate(dateString: string): Date | undefined {
+  async fetchOffers(
+    request: ExchangePageRequest,
+    exchange: string = DEFAULT_PARAMS.EXCHANGE
+  ): Promise<ExchangePage> {
+    const adapter = getExchangeAdapter(exchange);
+
     try {
-      // Check if it's a Unix timestamp (numeric string)
-      const numericValue = Number(dateString);
-      if (!isNaN(numericValue) && dateString.match(/^\d+$/)) {
-        // Convert Unix timestamp from seconds to milliseconds
-        const date = new Date(numericValue * 1000);
-        if (isNaN(date.getTime())) {
-          console.warn(`Invalid Unix timestamp: ${dateString}`);
-          return undefined;
+      const response = await adapter.fetchPage(request);
+      try {
+        return { ...adapter.normalize(response.body), status: response.status, raw: response.body };
+      } catch (error) {
+        // Error payloads are served with a successful HTTP status; keep it for the run ledger
+        if (error instanceof ExchangeError && error.status === undefined) {
+          error.status = response.status;
         }
-        return date;
-      }
-
-      // Try parsing as ISO date string
-      const date = new Date(dateString);
-      if (isNaN(date.getTime())) {
-        console.warn(`Invalid date string: ${dateString}`);
-        return undefined;
+        throw error;
       }
-      return date;
     } catch (error) {
-      console.warn(`Error parsing date string: ${dateString}`, error);
-      return undefined;
+      console.error(`Error fetching ${exchange} P2P data:`, error);
+      throw error;
     }
   }
 
   /**
-   * Fetch P2P data from Bybit API using POST method with JSON payload
+   * Process and store P2P data (ETL process)
    */
-  async fetchBybitP2PData(
+  async processAndStoreP2PData(
     tokenId: string = DEFAULT_PARAMS.TOKEN_ID,
     currencyId: string = DEFAULT_PARAMS.CURRENCY_ID,
     side: number = TRADE_SIDE.BUY,
     payment: string[] = [PAYMENT_METHODS.TBC_BANK.toString()],
     size: number = DEFAULT_PARAMS.PAGE_SIZE,
     page: number = DEFAULT_PARAMS.PAGE,
-    amount: string = '',
-    sortType: string = 'TRADE_PRICE'
-  ): Promise<BybitP2PResponse> {
-    const url = 'https://api2.bybit.com/fiat/otc/item/online';
-    
-    const payload = {
-      userId: '',
-      tokenId,
-      currencyId,
-      payment,
-      side: side.toString(),
-      size: size.toString(),
-      page: page.toString(),
-      amount,
-      vaMaker: false,
-      bulkMaker: false,
-      canTrade: false,
-      verificationFilter: 0,
-      sortType,
-      paymentPeriod: [],
-      itemRegion: 1
-    };
-
+    exchange: string = DEFAULT_PARAMS.EXCHANGE,
+    marketId?: string
+  ): Promise<void> {
     try {
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
-        },
-        body: JSON.stringify(payload)
-      });
+      const fetchTime = new Date();
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      return await response.json();
+      const fetched = await this.fetchPageForSnapshot({ tokenId, currencyId, side, payment, size, page }, exchange, marketId);
+
+      await this.storeSnapshot([fetched], fetchTime);
     } catch (error) {
-      console.error('Error fetching Bybit P2P data:', error);
+      console.error('Error processing P2P data:', error);
       throw error;
     }
   }
 
   /**
-   * Process and store Bybit P2P data (ETL process)
+   * Sweep the order book page by page until the venue's item count is exhausted
+   * or `maxPages` is reached. Every stored row shares one fetch_time and all pages
+   * are written in a single transaction, so the sweep reads back as one full-depth
+   * snapshot or not at all. A failed sweep is published to the `ingestion.failed` webhooks.
    */
-  async processAndStoreP2PData(
+  async sweepAndStoreP2PData(
     tokenId: string = DEFAULT_PARAMS.TOKEN_ID,
     currencyId: string = DEFAULT_PARAMS.CURRENCY_ID,
     side: number = TRADE_SIDE.BUY,
     payment: string[] = [PAYMENT_METHODS.TBC_BANK.toString()],
     size: number = DEFAULT_PARAMS.PAGE_SIZE,
-    page: number = DEFAULT_PARAMS.PAGE
-  ): Promise<void> {
+    maxPages: number = configs.sweepMaxPages,
+    exchange: string = DEFAULT_PARAMS.EXCHANGE,
+    marketId?: string
+  ): Promise<SweepResult> {
+    const fetched: FetchedPage[] = [];
+
     try {
       const fetchTime = new Date();
-      
-      const data = await this.fetchBybitP2PData(tokenId, currencyId, side, payment, size, page);
+      const seenOfferIds = new Set<bigint>();
+      const result: SweepResult = { fetch_time: fetchTime, pages: 0, offers: 0, total: 0 };
 
-      if (data.ret_code !== 0 || !data.result?.items) {
-        throw new Error(`Bybit API error: ${data.ret_msg}`);
+      for (let page = DEFAULT_PARAMS.PAGE; page < DEFAULT_PARAMS.PAGE + maxPages; page++) {
+        const pageResult = await this.fetchPageForSnapshot(
+          { tokenId, currencyId, side, payment, size, page },
+          exchange,
+          marketId,
+          seenOfferIds
+        );
+        fetched.push(pageResult);
+        result.pages++;
+        result.total = pageResult.page.total;
+        result.offers += pageResult.offers.length;
+
+        if (pageResult.page.offers.length < size || page * size >= pageResult.page.total) {
+          break;
+        }
       }
-      
-      for (const item of data.result.items) {
-        // Use Bybit's side values directly (no conversion needed)
-        // Bybit API: side=0 is SELL, side=1 is BUY
-        const normalizedItem = {
-          ...item,
-          side: item.side  // Use Bybit's side values directly
-        };
-        
-        // 1. Upsert dimension data first
-        await this.upsertDimensionData(normalizedItem, fetchTime);
-
-        // 2. Insert fact data
-        await this.insertFactData(normalizedItem, fetchTime);
+
+      await this.storeSnapshot(fetched, fetchTime);
+
+      return result;
+    } catch (error) {
+      // Pages fetched before a failing page are discarded with the rest of the sweep
+      if (!(error instanceof SnapshotWriteError)) {
+        await this.recordPageRuns(fetched, error);
       }
+      await this.webhookService.publishFailure({
+        market_id: marketId ?? null,
+        exchange,
+        token_id: tokenId,
+        currency_id: currencyId,
+        side
+      }, error);
+      console.error('Error sweeping P2P data:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch one page and pick the offers that belong in the snapshot.
+   * When `seenOfferIds` is given, offers already taken earlier in the same sweep are skipped.
+   * A failed fetch is recorded in the fetch run ledger straight away.
+   */
+  private async fetchPageForSnapshot(
+    request: ExchangePageRequest,
+    exchange: string,
+    marketId?: string,
+    seenOfferIds?: Set<bigint>
+  ): Promise<FetchedPage> {
+    const run: PendingFetchRun = {
+      market_id: marketId ?? null,
+      exchange,
+      token_id: request.tokenId,
+      currency_id: request.currencyId,
+      side: request.side,
+      page: request.page,
+      started_at: new Date()
+    };
+
+    try {
+      const page = await this.fetchOffers(request, exchange);
+
+      // The book can shift between page requests; keep the first sighting of each offer
+      const offers = seenOfferIds
+        ? page.offers.filter((item) => !seenOfferIds.has(item.offer.offer_id))
+        : page.offers;
+      offers.forEach((item) => seenOfferIds?.add(item.offer.offer_id));
+
+      const stream = streamKey(exchange, request.tokenId, request.currencyId, request.side, request.payment);
+      return { run, stream, page, offers };
     } catch (error) {
-      console.error('Error processing P2P data:', error);
+      const exchangeError = error instanceof ExchangeError ? error : undefined;
+      await this.recordFetchRun({
+        ...run,
+        finished_at: new Date(),
+        status: 'error',
+        http_status: exchangeError?.status,
+        ret_code: exchangeError?.code,
+        ret_msg: exchangeError?.venueMessage,
+        items_received: 0,
+        rows_inserted: 0,
+        error: error instanceof Error ? error.message : String(error)
+      });
       throw error;
     }
   }
 
   /**
-   * Fetch data for TBC Bank (Georgian) USD/USDT trades
+   * Write the fetched pages as one snapshot in a single transaction, together with
+   * their archived raw responses, and record their runs.
+   * In CDC storage mode the snapshot updates the offer versions of its stream instead.
+   * Offer lifecycle events are diffed against the stream's previous snapshot in the same transaction,
+   * which also records the snapshot under its stream, so an empty sweep replaces the stream's book too.
+   * Once committed, the snapshot is published to the webhooks.
    */
-  async fetchTbcBankOffers(side: number = TRADE_SIDE.BUY, size: number = DEFAULT_PARAMS.PAGE_SIZE): Promise<BybitP2PResponse> {
-    return await this.fetchBybitP2PData(
-      DEFAULT_PARAMS.TOKEN_ID, 
-      DEFAULT_PARAMS.CURRENCY_ID, 
-      side, 
-      [PAYMENT_METHODS.TBC_BANK.toString()], 
-      size, 
-      DEFAULT_PARAMS.PAGE, 
-      '', 
-      'TRADE_PRICE'
-    );
+  private async storeSnapshot(fetched: FetchedPage[], fetchTime: Date): Promise<void> {
+    try {
+      const archived = await this.archiveResponses(fetched, fetchTime);
+      const offers = fetched.flatMap(({ offers }) => offers);
+      const [{ run, stream }] = fetched;
+      await db.transaction(async (tx) => {
+        if (configs.storageMode === 'cdc') {
+          await this.storeOfferVersions(offers, fetched[0], fetchTime, tx);
+        } else {
+          await this.storeOffers(offers, fetchTime, tx);
+        }
+        await this.offerEventService.recordSnapshot(offers, {
+          stream,
+          exchange: run.exchange,
+          token_id: run.token_id,
+          currency_id: run.currency_id,
+          side: run.side
+        }, fetchTime, tx);
+        await this.bookSnapshotModel.create({
+          stream,
+          fetch_time: fetchTime,
+          market_id: run.market_id,
+          exchange: run.exchange,
+          token_id: run.token_id,
+          currency_id: run.currency_id,
+          side: run.side,
+          offers: offers.length
+        }, tx);
+        await this.rawResponseModel.createMany(archived, tx);
+      });
+    } catch (error) {
+      await this.recordPageRuns(fetched, error);
+      throw new SnapshotWriteError(error);
+    }
+
+    await this.recordPageRuns(fetched);
+
+    const [{ run, stream }] = fetched;
+    await this.webhookService.publishSnapshot({
+      stream,
+      market_id: run.market_id ?? null,
+      exchange: run.exchange,
+      token_id: run.token_id,
+      currency_id: run.currency_id,
+      side: run.side,
+      fetch_time: fetchTime,
+      pages: fetched.length,
+      prices: fetched.flatMap(({ offers }) => offers.map((item) => item.offer.price))
+    });
   }
 
   /**
-   * Upsert dimension data
-   */
-  private async upsertDimensionData(item: BybitP2POffer, fetchTime: Date): Promise<void> {
-    // Upsert symbol info if available
-    if (item.symbolInfo) {
-      
-      const symbolInfo: SymbolInfo = {
-        symbol_id: BigInt(item.symbolInfo.id),
-        exchange_id: BigInt(item.symbolInfo.exchangeId),
-        org_id: BigInt(item.symbolInfo.orgId),
-        token_id: item.symbolInfo.tokenId,
-        currency_id: item.symbolInfo.currencyId,
-        status: item.symbolInfo.status || 0,
-        lower_limit_alarm: item.symbolInfo.lowerLimitAlarm || 0,
-        upper_limit_alarm: item.symbolInfo.upperLimitAlarm || 0,
-        item_down_range: item.symbolInfo.itemDownRange ? parseFloat(item.symbolInfo.itemDownRange) : 0,
-        item_up_range: item.symbolInfo.itemUpRange ? parseFloat(item.symbolInfo.itemUpRange) : 0,
-        currency_min_quote: item.symbolInfo.currencyMinQuote ? parseFloat(item.symbolInfo.currencyMinQuote) : 0,
-        currency_max_quote: item.symbolInfo.currencyMaxQuote ? parseFloat(item.symbolInfo.currencyMaxQuote) : 0,
-        token_min_quote: item.symbolInfo.tokenMinQuote ? parseFloat(item.symbolInfo.tokenMinQuote) : 0,
-        token_max_quote: item.symbolInfo.tokenMaxQuote ? parseFloat(item.symbolInfo.tokenMaxQuote) : 0,
-        currency_lower_max: item.symbolInfo.currencyLowerMaxQuote ? parseFloat(item.symbolInfo.currencyLowerMaxQuote) : 0,
-        buy_fee_rate: item.symbolInfo.buyFeeRate ? parseFloat(item.symbolInfo.buyFeeRate) : undefined,
-        sell_fee_rate: item.symbolInfo.sellFeeRate ? parseFloat(item.symbolInfo.sellFeeRate) : undefined,
-        order_auto_cancel: item.symbolInfo.orderAutoCancelMinute || 0,
-        order_finish_minute: item.symbolInfo.orderFinishMinute || 0
-      };
-      
-      await this.symbolInfoModel.upsert(symbolInfo);
+   * Compress the raw responses of fetched pages for the archive
+   */
+  private async archiveResponses(fetched: FetchedPage[], fetchTime: Date): Promise<Array<Omit<RawResponse, 'id'>>> {
+    const archived: Array<Omit<RawResponse, 'id'>> = [];
+    for (const { run, page } of fetched) {
+      if (page.raw === undefined) continue;
+
+      archived.push({
+        fetch_time: fetchTime,
+        market_id: run.market_id ?? null,
+        exchange: run.exchange,
+        token_id: run.token_id,
+        currency_id: run.currency_id,
+        side: run.side,
+        page: run.page,
+        http_status: page.status,
+        encoding: 'gzip',
+        body: await CompressionHelper.gzip(JSON.stringify(page.raw))
+      });
     }
+    return archived;
+  }
 
-    // Upsert P2P user
-    const p2pUser: P2PUser = {
-      user_id: BigInt(item.userId),
-      account_id: BigInt(item.accountId),
-      nick_name: item.nickName,
-      blocked: item.blocked === 'Y',
-      maker_contact: item.makerContact
-    };
-    await this.p2pUserModel.upsert(p2pUser);
-
-    // Upsert payment methods
-    if (item.payments && item.payments.length > 0) {
-      for (const paymentId of item.payments) {
-        const paymentMethod: PaymentMethod = {
-          method_id: parseInt(paymentId),
-          name: `Payment Method ${paymentId}` // We'll need to map these properly later
-        };
-        await this.paymentMethodModel.upsert(paymentMethod);
+  /**
+   * Rebuild the fact and dimension rows of archived snapshots from their raw responses.
+   * Each snapshot is replaced in its own transaction with the current adapter mapping;
+   * a snapshot that fails to replay is left untouched and reported.
+   */
+  async reprocessArchive(filters: RawResponseFilters): Promise<ReprocessResult> {
+    if (configs.storageMode === 'cdc') {
+      return throwError({
+        status: Status.BadRequest,
+        name: 'ValidationError',
+        path: 'storageMode',
+        param: 'storageMode',
+        message: `Reprocessing rebuilds snapshot rows and is not available in CDC storage mode`,
+        type: 'BadRequest',
+      }) as never;
+    }
+
+    const snapshots = await this.rawResponseModel.getSnapshots(filters);
+    const result: ReprocessResult = { snapshots: 0, pages: 0, offers: 0, failed: [] };
+
+    for (const snapshot of snapshots) {
+      try {
+        const { pages, offers } = await this.replaySnapshot(snapshot);
+        result.snapshots++;
+        result.pages += pages;
+        result.offers += offers;
+      } catch (error) {
+        console.error('Error reprocessing snapshot:', error);
+        result.failed.push({ ...snapshot, error: error instanceof Error ? error.message : String(error) });
       }
     }
 
-    // Upsert assets
-    const tokenAsset: Asset = { asset_id: item.tokenId };
-    const currencyAsset: Asset = { asset_id: item.currencyId };
-    await this.assetModel.upsert(tokenAsset);
-    await this.assetModel.upsert(currencyAsset);
+    return result;
   }
 
   /**
-   * Insert fact data
+   * Re-normalize the archived pages of one snapshot and replace its stored rows
+   */
+  private async replaySnapshot(snapshot: SnapshotKey): Promise<{ pages: number; offers: number }> {
+    const adapter = getExchangeAdapter(snapshot.exchange);
+    const archived = await this.rawResponseModel.getBySnapshot(snapshot);
+
+    // Same first-sighting rule as the sweep that produced the snapshot
+    const seenOfferIds = new Set<bigint>();
+    const offers: NormalizedOffer[] = [];
+    for (const response of archived) {
+      const page = adapter.normalize(JSON.parse(await CompressionHelper.gunzip(response.body)));
+      for (const item of page.offers) {
+        if (!seenOfferIds.has(item.offer.offer_id)) {
+          seenOfferIds.add(item.offer.offer_id);
+          offers.push(item);
+        }
+      }
+    }
+
+    await db.transaction(async (tx) => {
+      await this.offerPaymentModel.deleteBySnapshot(snapshot, tx);
+      await this.tradingPreferencesModel.deleteBySnapshot(snapshot, tx);
+      await this.p2pOfferModel.deleteBySnapshot(snapshot, tx);
+      await this.storeOffers(offers, snapshot.fetch_time, tx);
+    });
+
+    return { pages: archived.length, offers: offers.length };
+  }
+
+  /**
+   * Record the runs of fetched pages; with an error, none of their rows were kept
+   */
+  private async recordPageRuns(fetched: FetchedPage[], error?: unknown): Promise<void> {
+    for (const { run, page, offers } of fetched) {
+      await this.recordFetchRun({
+        ...run,
+        finished_at: new Date(),
+        status: error ? 'error' : 'success',
+        http_status: page.status,
+        ret_code: page.code,
+        ret_msg: page.message,
+        items_received: page.offers.length,
+        rows_inserted: error ? 0 : offers.length,
+        error: error ? (error instanceof Error ? error.message : String(error)) : null
+      });
+    }
+  }
+
+  /**
+   * Write a fetch run without letting a ledger failure mask the fetch outcome
+   */
+  private async recordFetchRun(run: Omit<FetchRun, 'id'>): Promise<void> {
+    try {
+      await this.fetchRunModel.create(run);
+    } catch (error) {
+      console.error('Error recording fetch run:', error);
+    }
+  }
+
+  /**
+   * List recorded fetch runs, newest first
+   */
+  async getFetchRuns(filters: FetchRunFilters = {}): Promise<FetchRun[]> {
+    return await this.fetchRunModel.getRuns(filters);
+  }
+
+  /**
+   * Store normalized offers as part of the snapshot taken at `fetchTime`.
+   * Rows are collected per table and written with bulk inserts.
+   */
+  private async storeOffers(offers: NormalizedOffer[], fetchTime: Date, tx: Queryable): Promise<void> {
+    if (offers.length === 0) return;
+
+    // 1. Upsert dimension data first
+    await this.upsertDimensionData(offers, fetchTime, tx);
+
+    // 2. Insert fact data
+    await this.insertFactData(offers, fetchTime, tx);
+  }
+
+  /**
+   * Apply a snapshot to the offer versions of its stream (CDC storage mode).
+   * Offers whose tracked fields are unchanged only get a heartbeat; changed offers
+   * close their open version and open a new one, and open versions missing from
+   * the snapshot are closed.
    */
-  private async insertFactData(item: BybitP2POffer, fetchTime: Date): Promise<void> {
-    // Insert P2P offer fact data
-    const p2pOffer: P2POffer = {
+  private async storeOfferVersions(
+    offers: NormalizedOffer[],
+    { run, stream }: FetchedPage,
+    fetchTime: Date,
+    tx: Queryable
+  ): Promise<void> {
+    if (offers.length > 0) {
+      await this.upsertDimensionData(offers, fetchTime, tx);
+    }
+
+    const open = new Map<bigint, OfferVersion>();
+    for (const version of await this.offerVersionModel.getOpenByStream(stream, tx)) {
+      open.set(BigInt(version.offer_id), version);
+    }
+
+    const unchanged: bigint[] = [];
+    const opened: OfferVersion[] = [];
+    for (const item of offers) {
+      const next = this.toOfferVersion(item, stream, fetchTime);
+      const current = open.get(item.offer.offer_id);
+      open.delete(item.offer.offer_id);
+
+      if (current && !this.hasTrackedChange(current, next)) {
+        unchanged.push(item.offer.offer_id);
+      } else {
+        opened.push(next);
+      }
+    }
+
+    // Versions left in `open` belong to offers that are no longer in the book
+    await this.offerVersionModel.close(stream, [...open.keys(), ...opened.map((version) => version.offer_id)], fetchTime, tx);
+    await this.offerVersionModel.touch(stream, unchanged, fetchTime, tx);
+    await this.offerVersionModel.createMany(opened, tx);
+    await this.offerHeartbeatModel.create({
+      stream,
       fetch_time: fetchTime,
-      offer_id: BigInt(item.id),
-      account_id: BigInt(item.accountId),
-      user_id: BigInt(item.userId),
-      token_id: item.tokenId,
-      currency_id: item.currencyId,
-      side: item.side !== undefined ? item.side : 0,
-      price_type: item.priceType || 0,
-      price: parseFloat(item.price),
-      premium: parseFloat(item.premium || '0'),
-      last_quantity: parseFloat(item.lastQuantity || '0'),
-      total_quantity: parseFloat(item.quantity || '0'),
-      frozen_quantity: parseFloat(item.frozenQuantity || '0'),
-      executed_quantity: parseFloat(item.executedQuantity || '0'),
-      min_amount: parseFloat(item.minAmount || '0'),
-      max_amount: parseFloat(item.maxAmount || '0'),
-      status: item.status || 0,
-      is_online: item.isOnline || false,
-      remark: item.remark,
-      last_logout: item.lastLogoutTime ? this.parseValidDate(item.lastLogoutTime) : undefined,
-      version: item.version || 0,
-      auth_status: item.authStatus || 0,
-      user_type: 'regular',
-      payment_period: 0,
-      user_mask_id: item.userId || ''
+      exchange: run.exchange,
+      token_id: run.token_id,
+      currency_id: run.currency_id,
+      side: run.side,
+      offers: offers.length
+    }, tx);
+  }
+
+  /**
+   * Build the version an offer would open at `fetchTime`
+   */
+  private toOfferVersion(item: NormalizedOffer, stream: string, fetchTime: Date): OfferVersion {
+    return {
+      ...item.offer,
+      ...item.preferences,
+      stream,
+      valid_from: fetchTime,
+      valid_to: null,
+      last_seen_at: fetchTime,
+      payments: [...item.payments].sort((a, b) => a - b),
+      has_preferences: item.preferences !== undefined
     };
-    
-         await this.p2pOfferModel.create(p2pOffer);
-
-     // Insert payment methods
-     if (item.payments && item.payments.length > 0) {
-       for (const paymentId of item.payments) {
-         const offerPayment: OfferPayment = {
-           fetch_time: fetchTime,
-           offer_id: BigInt(item.id),
-           method_id: parseInt(paymentId)
-         };
-         
-         await this.offerPaymentModel.create(offerPayment);
-       }
-     }
-
-    // Insert trading preferences
-    if (item.tradingPreferenceSet) {
-      const tradingPreferences: TradingPreferences = {
+  }
+
+  /**
+   * Whether any tracked field differs between a stored version and a new sighting
+   */
+  private hasTrackedChange(current: OfferVersion, next: OfferVersion): boolean {
+    return CDC_TRACKED_FIELDS.some((field) => {
+      const before = current[field];
+      const after = next[field];
+      return Array.isArray(before) && Array.isArray(after)
+        ? before.length !== after.length || before.some((value, i) => value !== after[i])
+        : before !== after;
+    });
+  }
+
+  /**
+   * Upsert dimension data, one row per distinct key, and record the merchant nicknames seen at `fetchTime`
+   */
+  private async upsertDimensionData(items: NormalizedOffer[], fetchTime: Date, tx: Queryable): Promise<void> {
+    const symbols = new Map<bigint, SymbolInfo>();
+    const users = new Map<bigint, P2PUser>();
+    const paymentMethods = new Set<number>();
+    const assets = new Map<string, Asset>();
+
+    for (const item of items) {
+      // Symbol info if available
+      if (item.symbol) {
+        symbols.set(item.symbol.symbol_id, item.symbol);
+      }
+
+      // P2P user
+      users.set(item.user.user_id, item.user);
+
+      // Payment methods; names come from the catalog
+      for (const methodId of item.payments) {
+        paymentMethods.add(methodId);
+      }
+
+      // Assets
+      for (const assetId of item.assets) {
+        assets.set(assetId, { asset_id: assetId });
+      }
+    }
+
+    await this.symbolInfoModel.upsertMany(Array.from(symbols.values()), tx);
+    await this.p2pUserModel.upsertMany(Array.from(users.values()), tx);
+    await this.p2pUserModel.recordNicknames(Array.from(users.values()), fetchTime, tx);
+    await this.paymentMethodModel.createMissing(Array.from(paymentMethods), tx);
+    await this.assetModel.upsertMany(Array.from(assets.values()), tx);
+  }
+
+  /**
+   * Insert fact data
+   */
+  private async insertFactData(items: NormalizedOffer[], fetchTime: Date, tx: Queryable): Promise<void> {
+    // P2P offer fact data
+    const p2pOffers: P2POffer[] = items.map((item) => ({ ...item.offer, fetch_time: fetchTime }));
+
+    // Payment methods
+    const offerPayments: OfferPayment[] = items.flatMap((item) =>
+      item.payments.map((methodId) => ({
         fetch_time: fetchTime,
-        offer_id: BigInt(item.id),
-        has_unposted_ad: item.tradingPreferenceSet.hasUnPostAd === 1,
-        is_kyc: item.tradingPreferenceSet.isKyc === 1,
-        is_email_verified: item.tradingPreferenceSet.isEmail === 1,
-        is_mobile_verified: item.tradingPreferenceSet.isMobile === 1,
-        register_time_threshold: item.tradingPreferenceSet.registerTimeThreshold,
-        order_finish_30d: item.tradingPreferenceSet.orderFinishNumberDay30,
-        complete_rate_30d: item.tradingPreferenceSet.completeRateDay30 ? parseFloat(item.tradingPreferenceSet.completeRateDay30) : 0,
-        national_limit: item.tradingPreferenceSet.nationalLimit
-      };
-      await this.tradingPreferencesModel.create(tradingPreferences);
+        exchange: item.offer.exchange,
+        offer_id: item.offer.offer_id,
+        method_id: methodId
+      }))
+    );
+
+    // Trading preferences
+    const tradingPreferences: TradingPreferences[] = items
+      .filter((item) => item.preferences)
+      .map((item) => ({
+        ...item.preferences,
+        fetch_time: fetchTime,
+        exchange: item.offer.exchange,
+        offer_id: item.offer.offer_id
+      }));
+
+    await this.p2pOfferModel.createMany(p2pOffers, tx);
+    await this.offerPaymentModel.createMany(offerPayments, tx);
+    await this.tradingPreferencesModel.createMany(tradingPreferences, tx);
+  }
+
+  /**
+   * Estimate the trade flow of a token pair from quantity deltas between snapshots,
+   * scoped to its watched markets' payment methods.
+   * Offers are only a proxy for the market: fills are inferred, not reported by the venue.
+   */
+  async getTradeFlow(
+    tokenId: string,
+    currencyId: string,
+    options: { side?: number; interval?: string; hours?: number; limit?: number; marketId?: string; exchange?: string } = {}
+  ): Promise<TradeFlow> {
+    const to = new Date();
+    const from = new Date(to.getTime() - (options.hours ?? 24) * 60 * 60 * 1000);
+    const bucket = this.parseBucket(options.interval ?? '1h', MAX_BUCKET.FLOW);
+    const scope = await this.marketService.resolveScope(tokenId, currencyId, options);
+    const filters = {
+      exchange: scope.exchange,
+      tokenId,
+      currencyId,
+      paymentMethodIds: scope.paymentMethods,
+      side: options.side,
+      from,
+      to
+    };
+
+    return {
+      exchange: scope.exchange,
+      token_id: tokenId,
+      currency_id: currencyId,
+      interval: bucket.spec,
+      from,
+      to,
+      buckets: await this.p2pOfferModel.getFlowByInterval(filters, bucket),
+      fills: await this.p2pOfferModel.getEstimatedFills(filters, options.limit)
+    };
+  }
+
+  /**
+   * Get OHLC candles of the best bid and ask of a token pair, with mid price and spread,
+   * scoped to its watched markets' payment methods.
+   * With `fill`, intervals without snapshots repeat the previous candle's close.
+   */
+  async getCandles(
+    tokenId: string,
+    currencyId: string,
+    options: { interval?: string; hours?: number; fill?: boolean; marketId?: string; exchange?: string } = {}
+  ): Promise<CandleSeries> {
+    const bucket = this.parseBucket(options.interval ?? '1h', MAX_BUCKET.CANDLES);
+    const to = new Date();
+    const from = new Date(to.getTime() - (options.hours ?? 24) * 60 * 60 * 1000);
+    const scope = await this.marketService.resolveScope(tokenId, currencyId, options);
+    const candles = await this.p2pOfferModel.getBestPriceCandles({
+      exchange: scope.exchange,
+      tokenId,
+      currencyId,
+      paymentMethodIds: scope.paymentMethods,
+      from,
+      to
+    }, bucket);
+
+    return {
+      exchange: scope.exchange,
+      token_id: tokenId,
+      currency_id: currencyId,
+      interval: bucket.spec,
+      from,
+      to,
+      candles: options.fill
+        ? this.fillCandleGaps(candles, bucket.seconds * 1000, to)
+        : candles.map((candle) => ({ ...candle, gap_filled: false }))
+    };
+  }
+
+  /**
+   * Get the order book of a token pair from the snapshot of each side nearest to `at` (default: now),
+   * scoped to its watched markets' payment methods, with cumulative quantity and amount per offer.
+   * `merchants` narrows the book to a selection of merchants, e.g. from a user's lists.
+   */
+  async getOrderBook(
+    tokenId: string,
+    currencyId: string,
+    options: { at?: Date; marketId?: string; exchange?: string; merchants?: MerchantSelection } = {}
+  ): Promise<OrderBook> {
+    const at = options.at ?? new Date();
+    const scope = await this.marketService.resolveScope(tokenId, currencyId, options);
+    const levels = await this.p2pOfferModel.getDepthAt({
+      exchange: scope.exchange,
+      tokenId,
+      currencyId,
+      paymentMethodSets: scope.markets.map((market) => market.payment_methods),
+      lookbackHours: configs.bookLookbackHours,
+      at,
+      merchants: options.merchants
+    });
+
+    if (levels.length === 0) {
+      return throwError({
+        status: Status.NotFound,
+        name: 'NotFound',
+        path: 'book',
+        param: 'tokenId',
+        message: options.merchants
+          ? `No stored offers for ${tokenId}/${currencyId} from the selected merchants`
+          : `No stored snapshots for ${tokenId}/${currencyId}`,
+        type: 'NotFound',
+      }) as never;
     }
+
+    const bids = this.depthSide(levels.filter((level) => level.side === TRADE_SIDE.BUY));
+    const asks = this.depthSide(levels.filter((level) => level.side === TRADE_SIDE.SELL));
+    const bestBid = bids.levels.length > 0 ? bids.levels[0].price : null;
+    const bestAsk = asks.levels.length > 0 ? asks.levels[0].price : null;
+
+    return {
+      exchange: scope.exchange,
+      token_id: tokenId,
+      currency_id: currencyId,
+      at,
+      best_bid: bestBid,
+      best_ask: bestAsk,
+      spread: bestBid !== null && bestAsk !== null ? bestAsk - bestBid : null,
+      bids,
+      asks
+    };
   }
 
   /**
-   * Get price aggregations for a token pair (TBC Bank only)
+   * Totals of one book side; its last level carries the running sums
+   */
+  private depthSide(levels: DepthLevel[]): DepthSide {
+    const last = levels[levels.length - 1];
+    const fetchTimes = levels.map((level) => level.fetch_time.getTime());
+    return {
+      fetch_time: fetchTimes.length > 0 ? new Date(Math.max(...fetchTimes)) : null,
+      total_quantity: last?.cumulative_quantity ?? 0,
+      total_amount: last?.cumulative_amount ?? 0,
+      levels
+    };
+  }
+
+  /**
+   * Parse a bucket spec such as `15m` or `4h`, throwing BadRequest if it is unsupported or larger than `maxSpec`
+   */
+  private parseBucket(interval: string, maxSpec: string): BucketSpec {
+    const bucket = BucketHelper.parse(interval, maxSpec);
+    if (!bucket) {
+      return throwError({
+        status: Status.BadRequest,
+        name: 'ValidationError',
+        path: 'interval',
+        param: 'interval',
+        message: `interval must be a bucket such as 5m, 15m, 4h or 1d, at most ${maxSpec}`,
+        type: 'BadRequest',
+      }) as never;
+    }
+    return bucket;
+  }
+
+  /**
+   * Add a flat candle at the previous close for every empty interval after the first candle, up to `to`
+   */
+  private fillCandleGaps(candles: Candle[], stepMs: number, to: Date): Array<Candle & { gap_filled: boolean }> {
+    const filled: Array<Candle & { gap_filled: boolean }> = [];
+    const carry = (previous: Candle, time: number) => filled.push({
+      time_bucket: new Date(time),
+      bid_open: previous.bid_close,
+      bid_high: previous.bid_close,
+      bid_low: previous.bid_close,
+      bid_close: previous.bid_close,
+      ask_open: previous.ask_close,
+      ask_high: previous.ask_close,
+      ask_low: previous.ask_close,
+      ask_close: previous.ask_close,
+      mid: previous.mid,
+      spread: previous.spread,
+      spread_pct: previous.spread_pct,
+      snapshots: 0,
+      gap_filled: true
+    });
+
+    for (const candle of candles) {
+      const previous = filled[filled.length - 1];
+      if (previous) {
+        for (let time = previous.time_bucket.getTime() + stepMs; time < candle.time_bucket.getTime(); time += stepMs) {
+          carry(previous, time);
+        }
+      }
+      filled.push({ ...candle, gap_filled: false });
+    }
+
+    const last = filled[filled.length - 1];
+    if (last) {
+      const lastBucket = Math.floor(to.getTime() / stepMs) * stepMs;
+      for (let time = last.time_bucket.getTime() + stepMs; time <= lastBucket; time += stepMs) {
+        carry(last, time);
+      }
+    }
+
+    return filled;
+  }
+
+  /**
+   * Get price aggregations for a token pair, scoped to its watched markets' payment methods
    */
   async getPriceAggregations(
     tokenId: string,
     currencyId: string,
     side: number,
-    interval: string = '1 hour',
-    hours: number = 24
+    interval: string = '1h',
+    hours: number = 24,
+    options: { marketId?: string; exchange?: string } = {}
   ): Promise<any[]> {
+    const bucket = this.parseBucket(interval, MAX_BUCKET.AGGREGATIONS);
     const endTime = new Date();
     const startTime = new Date(endTime.getTime() - hours * 60 * 60 * 1000);
+    const scope = await this.marketService.resolveScope(tokenId, currencyId, options);
 
     return await this.p2pOfferModel.getPriceAggregationsByIntervalAndPayment(
+      scope.exchange,
       tokenId,
       currencyId,
       side,
-      165, // TBC Bank payment method
-      interval,
+      scope.paymentMethods,
+      bucket,
       startTime,
       endTime
     );
   }
 
   /**
-   * Get latest offers with all related information (TBC Bank only)
+   * Get latest offers with all related information for the enabled watched markets,
+   * optionally narrowed to a selection of merchants
    */
-  async getLatestOffersWithDetails(limit: number = 50): Promise<any[]> {
-    return await this.p2pOfferModel.getOffersWithDetailsByPayment(165, limit);
+  async getLatestOffersWithDetails(limit: number = 50, marketId?: string, merchants?: MerchantSelection): Promise<any[]> {
+    const markets = marketId
+      ? [await this.marketService.getMarket(marketId)]
+      : await this.marketService.getEnabledMarkets();
+
+    return await this.p2pOfferModel.getOffersWithDetailsByMarkets(markets, limit, merchants);
   }
 
   /**
-   * Get market summary for a token pair (TBC Bank only)
+   * Get market summary for a token pair over [from, to) (default: the last 24 hours), scoped to its watched
+   * markets' payment methods, compared with the window of the same length just before it
    */
-  async getMarketSummary(tokenId: string, currencyId: string): Promise<any> {
-    const endTime = new Date();
-    const startTime = new Date(endTime.getTime() - 24 * 60 * 60 * 1000); // Last 24 hours
-
-    // Get TBC bank offers only (payment method 165)
-    const tbcOffers = await this.offerPaymentModel.getOffersByPaymentMethod(165, 1000);
-    
-    const buyOffersFiltered = tbcOffers.filter(o => 
-      o.token_id === tokenId && 
-      o.currency_id === currencyId && 
-      o.side === TRADE_SIDE.BUY &&
-      new Date(o.fetch_time) >= startTime && 
-      new Date(o.fetch_time) <= endTime
-    );
-    
-    const sellOffersFiltered = tbcOffers.filter(o => 
-      o.token_id === tokenId && 
-      o.currency_id === currencyId && 
-      o.side === TRADE_SIDE.SELL &&
-      new Date(o.fetch_time) >= startTime && 
-      new Date(o.fetch_time) <= endTime
-    );
+  async getMarketSummary(
+    tokenId: string,
+    currencyId: string,
+    options: { from?: Date; to?: Date; marketId?: string; exchange?: string } = {}
+  ): Promise<MarketSummary> {
+    const to = options.to ?? new Date();
+    const from = options.from ?? new Date(to.getTime() - 24 * 60 * 60 * 1000);
+    if (from >= to) {
+      return throwError({
+        status: Status.BadRequest,
+        name: 'ValidationError',
+        path: 'from',
+        param: 'from',
+        message: 'from must be before to',
+        type: 'BadRequest',
+      }) as never;
+    }
+
+    const scope = await this.marketService.resolveScope(tokenId, currencyId, options);
+    const filters = { exchange: scope.exchange, tokenId, currencyId, paymentMethodIds: scope.paymentMethods };
+    const current = await this.summarizeWindow({ ...filters, from, to });
+    const previous = await this.summarizeWindow({
+      ...filters,
+      from: new Date(from.getTime() - (to.getTime() - from.getTime())),
+      to: from
+    });
+    const paymentMethods = await this.paymentMethodModel.getByIds(scope.paymentMethods);
 
-    const summary = {
+    return {
+      exchange: scope.exchange,
       token_id: tokenId,
       currency_id: currencyId,
-      buy_offers: {
-        count: buyOffersFiltered.length,
-        avg_price: buyOffersFiltered.length > 0 ? buyOffersFiltered.reduce((sum, o) => sum + o.price, 0) / buyOffersFiltered.length : 0,
-        min_price: buyOffersFiltered.length > 0 ? Math.min(...buyOffersFiltered.map(o => o.price)) : 0,
-        max_price: buyOffersFiltered.length > 0 ? Math.max(...buyOffersFiltered.map(o => o.price)) : 0
-      },
-      sell_offers: {
-        count: sellOffersFiltered.length,
-        avg_price: sellOffersFiltered.length > 0 ? sellOffersFiltered.reduce((sum, o) => sum + o.price, 0) / sellOffersFiltered.length : 0,
-        min_price: sellOffersFiltered.length > 0 ? Math.min(...sellOffersFiltered.map(o => o.price)) : 0,
-        max_price: sellOffersFiltered.length > 0 ? Math.max(...sellOffersFiltered.map(o => o.price)) : 0
-      },
-      spread: 0
+      payment_methods: paymentMethods.map(({ method_id, name, type }) => ({ method_id, name, type })),
+      ...current,
+      previous,
+      change: {
+        buy_offers: this.sideChange(current.buy_offers, previous.buy_offers),
+        sell_offers: this.sideChange(current.sell_offers, previous.sell_offers),
+        spread: this.difference(current.spread, previous.spread)
+      }
+    };
+  }
+
+  /**
+   * Summarize both book sides and their spread over one window
+   */
+  private async summarizeWindow(filters: {
+    exchange: string;
+    tokenId: string;
+    currencyId: string;
+    paymentMethodIds: number[];
+    from: Date;
+    to: Date;
+  }): Promise<SummaryWindow> {
+    const sides = await this.p2pOfferModel.getSideSummaries(filters);
+    const top = await this.p2pOfferModel.getTopOfBook(filters);
+    const side = (value: number) => this.sideStats(sides.find((summary) => summary.side === value), value);
+    const hasQuote = top.best_bid !== null && top.best_ask !== null;
+
+    return {
+      from: filters.from,
+      to: filters.to,
+      buy_offers: side(TRADE_SIDE.BUY),
+      sell_offers: side(TRADE_SIDE.SELL),
+      best_bid: top.best_bid,
+      best_ask: top.best_ask,
+      quoted_at: top.quoted_at,
+      spread: hasQuote ? ((top.best_ask as number) - (top.best_bid as number)) / (top.best_bid as number) * 100 : null,
+      spread_abs: hasQuote ? (top.best_ask as number) - (top.best_bid as number) : null,
+      avg_spread_pct: top.avg_spread_pct
     };
+  }
 
-    if (summary.sell_offers.min_price > 0 && summary.buy_offers.max_price > 0) {
-      summary.spread = ((summary.sell_offers.min_price - summary.buy_offers.max_price) / summary.buy_offers.max_price) * 100;
+  /**
+   * Statistics of one side, or an empty side when it had no offers in the window
+   */
+  private sideStats(summary: SideSummary | undefined, side: number): SideStats {
+    if (!summary) {
+      return {
+        count: 0,
+        merchants: 0,
+        snapshots: 0,
+        best_price: null,
+        avg_price: null,
+        min_price: null,
+        max_price: null,
+        median_price: null,
+        p10_price: null,
+        p25_price: null,
+        p75_price: null,
+        p90_price: null,
+        liquidity: 0,
+        liquidity_amount: 0,
+        avg_liquidity: 0
+      };
     }
 
-    return summary;
+    const { side: _side, ...stats } = summary;
+    return {
+      ...stats,
+      best_price: side === TRADE_SIDE.BUY ? summary.max_price : summary.min_price
+    };
+  }
+
+  /**
+   * Change of a side's headline figures against the previous window
+   */
+  private sideChange(current: SideStats, previous: SideStats): SummaryChange['buy_offers'] {
+    return {
+      best_price: this.difference(current.best_price, previous.best_price),
+      median_price: this.difference(current.median_price, previous.median_price),
+      count: current.count - previous.count,
+      merchants: current.merchants - previous.merchants,
+      liquidity: current.liquidity - previous.liquidity
+    };
   }
 
   /**
-   * Monitor P2P data for multiple token pairs (TBC Bank only)
+   * Difference of two figures, or null if either is missing
    */
-  async monitorTokenPairs(tokenPairs: Array<{ tokenId: string; currencyId: string }>): Promise<void> {
+  private difference(current: number | null, previous: number | null): number | null {
+    return current === null || previous === null ? null : current - previous;
+  }
+
+  /**
+   * Fetch and store every configured side of a watched market, then evaluate the alert rules on its pair.
+   * Each side is swept up to the market's page depth unless `maxPages` overrides it.
+   * A side that fails does not stop the others; alerts are still evaluated once any side was stored,
+   * and the first failure is rethrown afterwards.
+   */
+  async fetchMarket(
+    market: WatchedMarket,
+    options: { maxPages?: number; size?: number } = {}
+  ): Promise<MarketFetchResult> {
+    const payment = market.payment_methods.map((methodId) => methodId.toString());
+    const result: MarketFetchResult = { market_id: market.id, sides: {} };
+    const failures: unknown[] = [];
+
+    try {
+      for (const side of market.sides) {
+        try {
+          result.sides[side] = await this.sweepAndStoreP2PData(
+            market.token_id,
+            market.currency_id,
+            side,
+            payment,
+            options.size || DEFAULT_PARAMS.PAGE_SIZE,
+            options.maxPages || market.page_depth,
+            market.exchange,
+            market.id
+          );
+        } catch (error) {
+          failures.push(error);
+        }
+      }
+    } finally {
+      if (Object.keys(result.sides).length > 0) {
+        // The stored snapshots stand whether or not their alerts can be evaluated
+        try {
+          await this.alertService.evaluatePair(market.exchange, market.token_id, market.currency_id);
+        } catch (error) {
+          console.error(`Error evaluating alerts for ${market.exchange} ${market.token_id}/${market.currency_id}:`, error);
+        }
+      }
+    }
+
+    if (failures.length > 0) {
+      throw failures[0];
+    }
+    return result;
+  }
+
+  /**
+   * Monitor P2P data for the watched markets of multiple token pairs
+   */
+  async monitorTokenPairs(tokenPairs: Array<{ tokenId: string; currencyId: string; exchange?: string }>): Promise<void> {
     for (const pair of tokenPairs) {
+      const exchange = pair.exchange || DEFAULT_PARAMS.EXCHANGE;
       try {
-        // Fetch both buy and sell offers for TBC Bank only
-        await this.processAndStoreP2PData(pair.tokenId, pair.currencyId, TRADE_SIDE.SELL, [PAYMENT_METHODS.TBC_BANK.toString()]);
-        await this.processAndStoreP2PData(pair.tokenId, pair.currencyId, TRADE_SIDE.BUY, [PAYMENT_METHODS.TBC_BANK.toString()]);
-        
-        // Small delay between requests to avoid rate limiting
-        await new Promise(resolve => setTimeout(resolve, 1000));
+        const markets = await this.marketService.resolveMarkets({ exchange, tokenId: pair.tokenId, currencyId: pair.currencyId });
+        // Request pacing is handled by the shared exchange HTTP client
+        for (const market of markets) {
+          await this.fetchMarket(market);
+        }
       } catch (error) {
-        console.error(`Error monitoring ${pair.tokenId}/${pair.currencyId}:`, error);
+        console.error(`Error monitoring ${exchange} ${pair.tokenId}/${pair.currencyId}:`, error);
       }
     }
   }
 
   /**
-   * Clean up old P2P data (retention policy)
+   * Clean up old P2P data (retention policy).
+   * Raw responses are kept at least `rawArchiveRetentionDays` so history can be reprocessed.
    */
   async cleanupOldData(retentionDays: number = 30): Promise<void> {
     await Promise.all([
       this.p2pOfferModel.deleteOldOffers(retentionDays),
       this.offerPaymentModel.deleteOldRecords(retentionDays),
-      this.tradingPreferencesModel.deleteOldRecords(retentionDays)
+      this.tradingPreferencesModel.deleteOldRecords(retentionDays),
+      this.fetchRunModel.deleteOldRecords(retentionDays),
+      this.rawResponseModel.deleteOldRecords(Math.max(retentionDays, configs.rawArchiveRetentionDays)),
+      this.offerVersionModel.deleteOldRecords(retentionDays),
+      this.offerHeartbeatModel.deleteOldRecords(retentionDays),
+      this.bookSnapshotModel.deleteOldRecords(retentionDays),
+      this.offerEventService.deleteOldRecords(retentionDays)
     ]);
   }
 } 
\ No newline at end of file
@@ -0,0 +1,169 @@
+import { Status } from 'jsr:@oak/oak';
+import { throwError } from '../middlewares/errorHandler.middleware.ts';
+import {
+  PaymentMethod,
+  PaymentMethodFilters,
+  PaymentMethodModel,
+  PaymentMethodSource,
+  PaymentMethodType,
+} from '../models/payment_method.model.ts';
+import { DEFAULT_PARAMS } from '../shared/constants.ts';
+import { getExchangeAdapter, NormalizedPaymentMethod } from './exchanges/index.ts';
+import paymentMethodSeed from '../db/seeds/payment_methods.json' with { type: 'json' };
+
+/**
+ * Catalog override accepted by the API (camelCase, as sent by clients)
+ */
+export interface PaymentMethodInput {
+  name?: string;
+  type?: PaymentMethodType;
+  country?: string;
+  currencyId?: string;
+}
+
+/**
+ * Outcome of a catalog sync
+ */
+export interface PaymentMethodSyncResult {
+  source: PaymentMethodSource;
+  exchange?: string;
+  received: number;
+}
+
+/**
+ * Payment Method Service: the catalog that turns Bybit payment IDs into names, types and fiats.
+ * Entries come from the bundled seed, the venue's payment configuration and admin overrides.
+ */
+export class PaymentMethodService {
+  private paymentMethodModel: PaymentMethodModel;
+
+  constructor() {
+    this.paymentMethodModel = new PaymentMethodModel();
+  }
+
+  /**
+   * List catalog entries
+   */
+  async getPaymentMethods(filters: PaymentMethodFilters = {}): Promise<PaymentMethod[]> {
+    return await this.paymentMethodModel.getAll(filters);
+  }
+
+  /**
+   * Get a single catalog entry, throwing NotFound if it does not exist
+   */
+  async getPaymentMethod(methodId: number): Promise<PaymentMethod> {
+    const method = await this.paymentMethodModel.getById(methodId);
+    if (!method) {
+      return throwError({
+        status: Status.NotFound,
+        name: 'NotFound',
+        path: 'paymentMethod',
+        param: 'methodId',
+        message: `Payment method not found`,
+        type: 'NotFound',
+      }) as never;
+    }
+    return method;
+  }
+
+  /**
+   * Override a catalog entry; later syncs leave it alone until the override is released.
+   * Methods the catalog does not know yet can be added, given a name.
+   */
+  async overridePaymentMethod(methodId: number, input: PaymentMethodInput): Promise<PaymentMethod> {
+    const existing = await this.paymentMethodModel.getById(methodId);
+    const name = input.name ?? existing?.name;
+    if (!name) {
+      return throwError({
+        status: Status.BadRequest,
+        name: 'ValidationError',
+        path: 'name',
+        param: 'name',
+        message: `name is required for payment methods not in the catalog`,
+        type: 'BadRequest',
+      }) as never;
+    }
+
+    await this.paymentMethodModel.upsert({
+      method_id: methodId,
+      name,
+      type: input.type,
+      country: input.country,
+      currency_id: input.currencyId,
+    }, 'admin');
+
+    return await this.getPaymentMethod(methodId);
+  }
+
+  /**
+   * Drop an admin override and restore the bundled entry, if there is one.
+   * The next exchange sync refreshes the rest.
+   */
+  async releaseOverride(methodId: number): Promise<PaymentMethod> {
+    const method = await this.getPaymentMethod(methodId);
+    if (method.source !== 'admin') {
+      return method;
+    }
+
+    await this.paymentMethodModel.releaseOverride(methodId);
+    const seeded = this.getSeed().find((entry) => entry.method_id === methodId);
+    if (seeded) {
+      await this.paymentMethodModel.upsert(seeded, 'seed');
+    }
+
+    return await this.getPaymentMethod(methodId);
+  }
+
+  /**
+   * Re-apply the bundled seed file
+   */
+  async syncFromSeed(): Promise<PaymentMethodSyncResult> {
+    const seed = this.getSeed();
+    await this.paymentMethodModel.upsertMany(seed, 'seed');
+    return { source: 'seed', received: seed.length };
+  }
+
+  /**
+   * Refresh the catalog from a venue's payment configuration
+   */
+  async syncFromExchange(exchange: string = DEFAULT_PARAMS.EXCHANGE): Promise<PaymentMethodSyncResult> {
+    const adapter = getExchangeAdapter(exchange);
+    if (!adapter.fetchPaymentMethods) {
+      return throwError({
+        status: Status.BadRequest,
+        name: 'ValidationError',
+        path: 'exchange',
+        param: 'exchange',
+        message: `${exchange} does not publish its payment methods`,
+        type: 'BadRequest',
+      }) as never;
+    }
+
+    const methods = await adapter.fetchPaymentMethods();
+    await this.paymentMethodModel.upsertMany(methods, 'exchange');
+    return { source: 'exchange', exchange, received: methods.length };
+  }
+
+  /**
+   * Catalog entries in seed file format: synced and seeded entries, without placeholders or local overrides
+   */
+  async exportSeed(): Promise<NormalizedPaymentMethod[]> {
+    const methods = await this.paymentMethodModel.getAll();
+    return methods
+      .filter((method) => method.source === 'seed' || method.source === 'exchange')
+      .map((method) => ({
+        method_id: method.method_id,
+        name: method.name,
+        type: method.type ?? null,
+        country: method.country ?? null,
+        currency_id: method.currency_id ?? null,
+      }));
+  }
+
+  /**
+   * Entries of the bundled seed file
+   */
+  private getSeed(): NormalizedPaymentMethod[] {
+    return paymentMethodSeed as NormalizedPaymentMethod[];
+  }
+}
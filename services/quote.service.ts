@@ -0,0 +1,170 @@
+import { Status } from 'jsr:@oak/oak';
+import { throwError } from '../middlewares/errorHandler.middleware.ts';
+import configs from '../config/config.ts';
+import { BookOffer, P2POfferModel } from '../models/p2p_offer.model.ts';
+import { TRADE_SIDE } from '../shared/constants.ts';
+import { type MerchantSelection, merchantKey } from '../models/user_merchant.model.ts';
+import { MarketService } from './market.service.ts';
+
+/**
+ * What the caller wants to trade: `amount` of fiat against offers of `side`,
+ * and the merchants they are willing to trade with
+ */
+export interface QuoteRequest {
+  tokenId: string;
+  currencyId: string;
+  side: number;
+  amount: number;
+  limit?: number;
+  minCompletionRate?: number;
+  minOrders?: number;
+  requireKyc?: boolean;
+  /** Merchants the caller is willing to trade with, e.g. from their lists */
+  merchants?: MerchantSelection;
+  marketId?: string;
+  exchange?: string;
+}
+
+/**
+ * An offer that can fill the requested amount
+ */
+export interface QuoteMerchant {
+  offer_id: bigint;
+  user_id: bigint;
+  nick_name: string | null;
+  price: number;
+  min_amount: number;
+  max_amount: number;
+  available_amount: number;
+  complete_rate_30d: number | null;
+  order_finish_30d: number | null;
+  is_kyc: boolean | null;
+}
+
+/**
+ * Best executable price for an amount in the latest snapshot.
+ * Slippage is the cost versus the best headline price: positive when the executable price is worse.
+ */
+export interface Quote {
+  exchange: string;
+  token_id: string;
+  currency_id: string;
+  side: number;
+  amount: number;
+  fetch_time: Date;
+  best_price: number;
+  executable_price: number | null;
+  quantity: number | null;
+  slippage: number | null;
+  slippage_pct: number | null;
+  offers: number;
+  eligible: number;
+  excluded: Record<QuoteExclusion, number>;
+  merchants: QuoteMerchant[];
+}
+
+/**
+ * Why an offer cannot fill the requested amount, in the order the checks run
+ */
+type QuoteExclusion = 'merchant' | 'limits' | 'liquidity' | 'completion_rate' | 'orders' | 'kyc';
+
+/**
+ * Quote Service: sizes a trade against the latest order book snapshot
+ */
+export class QuoteService {
+  private p2pOfferModel: P2POfferModel;
+  private marketService: MarketService;
+
+  constructor() {
+    this.p2pOfferModel = new P2POfferModel();
+    this.marketService = new MarketService();
+  }
+
+  /**
+   * Quote an amount against the latest snapshot of a book side of each of the pair's watched markets.
+   * Offers are eligible when the amount is within their order limits and available quantity,
+   * and their merchant is selected and meets the requested completion rate, order count and KYC preferences.
+   */
+  async getQuote(request: QuoteRequest): Promise<Quote> {
+    const scope = await this.marketService.resolveScope(request.tokenId, request.currencyId, request);
+    const offers = await this.p2pOfferModel.getLatestSnapshotOffers({
+      exchange: scope.exchange,
+      tokenId: request.tokenId,
+      currencyId: request.currencyId,
+      side: request.side,
+      paymentMethodSets: scope.markets.map((market) => market.payment_methods),
+      lookbackHours: configs.bookLookbackHours
+    });
+
+    if (offers.length === 0) {
+      return throwError({
+        status: Status.NotFound,
+        name: 'NotFound',
+        path: 'quote',
+        param: 'side',
+        message: `No stored offers for ${request.tokenId}/${request.currencyId} on this side`,
+        type: 'NotFound',
+      }) as never;
+    }
+
+    const excluded: Record<QuoteExclusion, number> = { merchant: 0, limits: 0, liquidity: 0, completion_rate: 0, orders: 0, kyc: 0 };
+    const eligible = offers.filter((offer) => {
+      const reason = this.exclusion(offer, request);
+      if (reason) excluded[reason]++;
+      return !reason;
+    });
+
+    // Offers come best price first
+    const bestPrice = offers[0].price;
+    const executablePrice = eligible.length > 0 ? eligible[0].price : null;
+    const slippage = executablePrice === null
+      ? null
+      : request.side === TRADE_SIDE.BUY ? bestPrice - executablePrice : executablePrice - bestPrice;
+
+    return {
+      exchange: scope.exchange,
+      token_id: request.tokenId,
+      currency_id: request.currencyId,
+      side: request.side,
+      amount: request.amount,
+      fetch_time: offers[0].fetch_time,
+      best_price: bestPrice,
+      executable_price: executablePrice,
+      quantity: executablePrice === null ? null : request.amount / executablePrice,
+      slippage,
+      slippage_pct: slippage === null ? null : slippage / bestPrice * 100,
+      offers: offers.length,
+      eligible: eligible.length,
+      excluded,
+      merchants: eligible.slice(0, request.limit ?? 5).map((offer) => ({
+        offer_id: offer.offer_id,
+        user_id: offer.user_id,
+        nick_name: offer.nick_name,
+        price: offer.price,
+        min_amount: offer.min_amount,
+        max_amount: offer.max_amount,
+        available_amount: offer.last_quantity * offer.price,
+        complete_rate_30d: offer.complete_rate_30d,
+        order_finish_30d: offer.order_finish_30d,
+        is_kyc: offer.is_kyc
+      }))
+    };
+  }
+
+  /**
+   * First reason an offer cannot take the requested trade, or null if it can
+   */
+  private exclusion(offer: BookOffer, request: QuoteRequest): QuoteExclusion | null {
+    const key = merchantKey(offer.exchange, offer.user_id);
+    if (request.merchants?.only && !request.merchants.only.includes(key)) return 'merchant';
+    if (request.merchants?.exclude?.includes(key)) return 'merchant';
+    if (request.amount < offer.min_amount || request.amount > offer.max_amount) return 'limits';
+    if (request.amount > offer.last_quantity * offer.price) return 'liquidity';
+    if (request.minCompletionRate !== undefined && (offer.complete_rate_30d ?? 0) < request.minCompletionRate) {
+      return 'completion_rate';
+    }
+    if (request.minOrders !== undefined && (offer.order_finish_30d ?? 0) < request.minOrders) return 'orders';
+    if (request.requireKyc && !offer.is_kyc) return 'kyc';
+    return null;
+  }
+}
@@ -0,0 +1,198 @@
+import { Status } from 'jsr:@oak/oak';
+import { throwError } from '../middlewares/errorHandler.middleware.ts';
+import { ReferenceRate, ReferenceRateFilters, ReferenceRateModel } from '../models/reference_rate.model.ts';
+import { REFERENCE_BASES } from '../shared/constants.ts';
+import configs from '../config/config.ts';
+import BucketHelper, { type BucketSpec } from '../helpers/bucket.helper.ts';
+import { ExchangeError } from './exchanges/index.ts';
+import {
+  findReferenceRateProvider,
+  getReferenceRateProviderNames,
+  NormalizedReferenceRate,
+  ReferenceRateError,
+} from './reference_rates/index.ts';
+import { P2PService } from './p2p.service.ts';
+
+/**
+ * Outcome of a reference rate sync
+ */
+export interface ReferenceRateSyncResult {
+  source: string;
+  received: number;
+  pairs: string[];
+}
+
+/**
+ * Premium of the P2P best bid, best ask and mid over the reference rate in effect at the close of one interval.
+ * Premiums are in percent: positive when P2P is rich against the reference, negative at a discount.
+ */
+export interface PremiumPoint {
+  time_bucket: Date;
+  reference_rate: number | null;
+  reference_time: Date | null;
+  bid: number | null;
+  ask: number | null;
+  mid: number | null;
+  bid_premium_pct: number | null;
+  ask_premium_pct: number | null;
+  mid_premium_pct: number | null;
+}
+
+/**
+ * P2P premium time series of a token pair against its reference pair
+ */
+export interface PremiumSeries {
+  exchange: string;
+  token_id: string;
+  currency_id: string;
+  reference_base_id: string;
+  reference_quote_id: string;
+  source: string | null;
+  interval: string;
+  from: Date;
+  to: Date;
+  points: PremiumPoint[];
+}
+
+/**
+ * Reference Rate Service: independent FX rates from pluggable sources,
+ * and the premium or discount of P2P prices against them
+ */
+export class ReferenceRateService {
+  private referenceRateModel: ReferenceRateModel;
+  private p2pService: P2PService;
+
+  constructor() {
+    this.referenceRateModel = new ReferenceRateModel();
+    this.p2pService = new P2PService();
+  }
+
+  /**
+   * List stored reference rates, newest first
+   */
+  async getReferenceRates(filters: ReferenceRateFilters = {}): Promise<ReferenceRate[]> {
+    return await this.referenceRateModel.getRates(filters);
+  }
+
+  /**
+   * Fetch every rate a source publishes and store it; rates already stored are replaced
+   */
+  async sync(source: string = configs.referenceRateSource): Promise<ReferenceRateSyncResult> {
+    const provider = findReferenceRateProvider(source);
+    if (!provider) {
+      return throwError({
+        status: Status.BadRequest,
+        name: 'ValidationError',
+        path: 'source',
+        param: 'source',
+        message: `Unknown reference rate source: ${source} (available: ${getReferenceRateProviderNames().join(', ')})`,
+        type: 'BadRequest',
+      }) as never;
+    }
+
+    let rates: NormalizedReferenceRate[];
+    try {
+      rates = await provider.fetchRates();
+    } catch (error) {
+      if (!(error instanceof ReferenceRateError || error instanceof ExchangeError)) throw error;
+      return throwError({
+        status: Status.BadGateway,
+        name: 'ReferenceRateError',
+        path: 'source',
+        param: 'source',
+        message: error.message,
+        type: 'BadGateway',
+      }) as never;
+    }
+
+    const fetchedAt = new Date();
+    await this.referenceRateModel.upsertMany(rates.map((rate) => ({ ...rate, source, fetched_at: fetchedAt })));
+
+    return {
+      source,
+      received: rates.length,
+      pairs: Array.from(new Set(rates.map((rate) => `${rate.base_id}/${rate.quote_id}`))).sort()
+    };
+  }
+
+  /**
+   * Premium of the best bid and ask of a token pair over its reference rate, per interval.
+   * Stablecoins are compared with the fiat they track (USDT/GEL with USD/GEL); each interval uses
+   * its best-price candle closes and the latest reference rate published before the interval ends.
+   */
+  async getPremiumSeries(
+    tokenId: string,
+    currencyId: string,
+    options: { interval?: string; hours?: number; source?: string; marketId?: string; exchange?: string } = {}
+  ): Promise<PremiumSeries> {
+    const series = await this.p2pService.getCandles(tokenId, currencyId, {
+      interval: options.interval,
+      hours: options.hours,
+      marketId: options.marketId,
+      exchange: options.exchange
+    });
+    const baseId = REFERENCE_BASES[tokenId] ?? tokenId;
+    const stepMs = (BucketHelper.parse(series.interval) as BucketSpec).seconds * 1000;
+
+    // A stablecoin quoted in the fiat it tracks is judged against parity
+    const rates = baseId === currencyId
+      ? [{ rate_time: new Date(0), rate: 1 }]
+      : await this.referenceRateModel.getRatesInEffect({
+        baseId,
+        quoteId: currencyId,
+        source: options.source,
+        from: series.from,
+        to: series.to
+      });
+
+    if (rates.length === 0) {
+      return throwError({
+        status: Status.NotFound,
+        name: 'NotFound',
+        path: 'premium',
+        param: 'currencyId',
+        message: `No reference rates for ${baseId}/${currencyId}${options.source ? ` from ${options.source}` : ''}`,
+        type: 'NotFound',
+      }) as never;
+    }
+
+    let next = 0;
+    const points = series.candles.map((candle) => {
+      const end = candle.time_bucket.getTime() + stepMs;
+      while (next < rates.length && rates[next].rate_time.getTime() < end) next++;
+      const reference = next > 0 ? rates[next - 1] : null;
+
+      return {
+        time_bucket: candle.time_bucket,
+        reference_rate: reference?.rate ?? null,
+        reference_time: baseId === currencyId ? null : reference?.rate_time ?? null,
+        bid: candle.bid_close,
+        ask: candle.ask_close,
+        mid: candle.mid,
+        bid_premium_pct: this.premium(candle.bid_close, reference?.rate),
+        ask_premium_pct: this.premium(candle.ask_close, reference?.rate),
+        mid_premium_pct: this.premium(candle.mid, reference?.rate)
+      };
+    });
+
+    return {
+      exchange: series.exchange,
+      token_id: tokenId,
+      currency_id: currencyId,
+      reference_base_id: baseId,
+      reference_quote_id: currencyId,
+      source: baseId === currencyId ? null : options.source ?? null,
+      interval: series.interval,
+      from: series.from,
+      to: series.to,
+      points
+    };
+  }
+
+  /**
+   * Premium of a price over a reference rate, in percent
+   */
+  private premium(price: number | null, reference: number | undefined): number | null {
+    return price === null || reference === undefined ? null : (price / reference - 1) * 100;
+  }
+}
@@ -0,0 +1,62 @@
+import {
+  NormalizedReferenceRate,
+  parseReferenceRatePayload,
+  ReferenceRateError,
+  ReferenceRateProvider,
+  toReferenceRate,
+} from './reference_rate.provider.ts';
+
+/**
+ * Reads reference rates from a local file, re-read on every sync.
+ * `.json` files hold an array of `{ time, base, quote, rate }` records (or `{ "rates": [...] }`);
+ * anything else is read as CSV with a `time,base,quote,rate` header in any column order.
+ * Empty lines and lines starting with `#` are skipped.
+ */
+export class FileReferenceRateProvider implements ReferenceRateProvider {
+  constructor(private readonly path: string, readonly name: string = 'file') {}
+
+  async fetchRates(): Promise<NormalizedReferenceRate[]> {
+    let text: string;
+    try {
+      text = await Deno.readTextFile(this.path);
+    } catch (error) {
+      throw new ReferenceRateError(
+        `Cannot read reference rates from ${this.path}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    if (this.path.toLowerCase().endsWith('.json')) {
+      try {
+        return parseReferenceRatePayload(JSON.parse(text), this.path);
+      } catch (error) {
+        if (error instanceof ReferenceRateError) throw error;
+        throw new ReferenceRateError(`${this.path}: invalid JSON`);
+      }
+    }
+
+    return this.parseCsv(text);
+  }
+
+  /**
+   * Parse CSV rows into records keyed by the header's column names
+   */
+  private parseCsv(text: string): NormalizedReferenceRate[] {
+    const lines = text.split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => line && !line.startsWith('#'));
+    if (lines.length === 0) return [];
+
+    const header = lines[0].split(',').map((column) => column.trim().toLowerCase());
+    for (const column of ['time', 'base', 'quote', 'rate']) {
+      if (!header.includes(column)) {
+        throw new ReferenceRateError(`${this.path}: missing column ${column}`);
+      }
+    }
+
+    return lines.slice(1).map((line, index) => {
+      const values = line.split(',').map((value) => value.trim());
+      const record = Object.fromEntries(header.map((column, position) => [column, values[position]]));
+      return toReferenceRate(record, `${this.path} line ${index + 2}`);
+    });
+  }
+}
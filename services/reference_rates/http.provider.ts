@@ -0,0 +1,25 @@
+import { ExchangeHttpClient, exchangeHttpClient } from '../exchanges/http.client.ts';
+import { NormalizedReferenceRate, parseReferenceRatePayload, ReferenceRateProvider } from './reference_rate.provider.ts';
+
+/**
+ * Fetches reference rates from an HTTP endpoint serving the same JSON as the file provider:
+ * an array of `{ time, base, quote, rate }` records or `{ "rates": [...] }`.
+ * Requests go through the shared exchange HTTP client, so they are retried, rate limited
+ * and behind their own circuit breaker. Point it at a local stand-in to run offline.
+ */
+export class HttpReferenceRateProvider implements ReferenceRateProvider {
+  constructor(
+    private readonly url: string,
+    readonly name: string = 'http',
+    private readonly client: ExchangeHttpClient = exchangeHttpClient,
+  ) {}
+
+  async fetchRates(): Promise<NormalizedReferenceRate[]> {
+    const { body } = await this.client.request<unknown>(
+      this.url,
+      { method: 'GET', headers: { 'Accept': 'application/json' } },
+      { key: `reference:${this.name}` },
+    );
+    return parseReferenceRatePayload(body, this.url);
+  }
+}
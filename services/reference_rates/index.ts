@@ -0,0 +1,39 @@
+import configs from '../../config/config.ts';
+import { ReferenceRateProvider } from './reference_rate.provider.ts';
+import { FileReferenceRateProvider } from './file.provider.ts';
+import { HttpReferenceRateProvider } from './http.provider.ts';
+
+/**
+ * Registered reference rate sources, keyed by the value stored in the `source` column
+ */
+const providers = new Map<string, ReferenceRateProvider>();
+
+/**
+ * Register a provider so reference rates can be synced from it
+ */
+export function registerReferenceRateProvider(provider: ReferenceRateProvider): void {
+  providers.set(provider.name, provider);
+}
+
+/**
+ * Resolve a provider by name, or undefined if it is not registered
+ */
+export function findReferenceRateProvider(name: string): ReferenceRateProvider | undefined {
+  return providers.get(name);
+}
+
+/**
+ * List the names of all registered sources
+ */
+export function getReferenceRateProviderNames(): string[] {
+  return Array.from(providers.keys());
+}
+
+registerReferenceRateProvider(new FileReferenceRateProvider(configs.referenceRateFile));
+if (configs.referenceRateUrl) {
+  registerReferenceRateProvider(new HttpReferenceRateProvider(configs.referenceRateUrl));
+}
+
+export * from './reference_rate.provider.ts';
+export { FileReferenceRateProvider } from './file.provider.ts';
+export { HttpReferenceRateProvider } from './http.provider.ts';
@@ -0,0 +1,59 @@
+import type { ReferenceRate } from '../../models/reference_rate.model.ts';
+
+/**
+ * Reference rate as published by a source; the service tags it with the source name and fetch time
+ */
+export type NormalizedReferenceRate = Omit<ReferenceRate, 'source' | 'fetched_at'>;
+
+/**
+ * Error raised by providers when a source cannot be read or publishes malformed rates
+ */
+export class ReferenceRateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReferenceRateError';
+  }
+}
+
+/**
+ * Contract every reference rate source implements.
+ * `fetchRates` returns every rate the source currently publishes; storing them is idempotent.
+ */
+export interface ReferenceRateProvider {
+  readonly name: string;
+  fetchRates(): Promise<NormalizedReferenceRate[]>;
+}
+
+/**
+ * Map a published record onto a reference rate.
+ * Records carry `time` (ISO 8601), `base`, `quote` and `rate`: the price of one `base` in `quote`.
+ */
+export function toReferenceRate(record: Record<string, unknown>, origin: string): NormalizedReferenceRate {
+  const base = String(record.base ?? '').trim().toUpperCase();
+  const quote = String(record.quote ?? '').trim().toUpperCase();
+  const rate = Number(record.rate);
+  const time = new Date(String(record.time ?? ''));
+
+  if (!base || !quote) {
+    throw new ReferenceRateError(`${origin}: rate without base or quote currency`);
+  }
+  if (!Number.isFinite(rate) || rate <= 0) {
+    throw new ReferenceRateError(`${origin}: invalid rate for ${base}/${quote}: ${record.rate}`);
+  }
+  if (isNaN(time.getTime())) {
+    throw new ReferenceRateError(`${origin}: invalid time for ${base}/${quote}: ${record.time}`);
+  }
+
+  return { base_id: base, quote_id: quote, rate_time: time, rate };
+}
+
+/**
+ * Map a JSON payload, either an array of records or `{ "rates": [...] }`, onto reference rates
+ */
+export function parseReferenceRatePayload(payload: unknown, origin: string): NormalizedReferenceRate[] {
+  const records = Array.isArray(payload) ? payload : (payload as { rates?: unknown } | null)?.rates;
+  if (!Array.isArray(records)) {
+    throw new ReferenceRateError(`${origin}: expected an array of rates or { "rates": [...] }`);
+  }
+  return records.map((record) => toReferenceRate(record as Record<string, unknown>, origin));
+}
@@ -0,0 +1,274 @@
+import log from '../middlewares/logger.middleware.ts';
+import configs from '../config/config.ts';
+import { WatchedMarket } from '../models/watched_market.model.ts';
+import { MarketService } from './market.service.ts';
+import { P2PService } from './p2p.service.ts';
+
+/**
+ * Scheduling state of a single watched market
+ */
+export interface MarketScheduleState {
+  market_id: string;
+  exchange: string;
+  token_id: string;
+  currency_id: string;
+  poll_interval_sec: number;
+  running: boolean;
+  runs: number;
+  failures: number;
+  last_run_at: Date | null;
+  last_finished_at: Date | null;
+  last_duration_ms: number | null;
+  last_error: string | null;
+  last_error_at: Date | null;
+  next_run_at: Date | null;
+}
+
+/**
+ * Scheduler status returned by the API
+ */
+export interface SchedulerStatus {
+  running: boolean;
+  started_at: Date | null;
+  jitter_ms: number;
+  markets: MarketScheduleState[];
+}
+
+/**
+ * Scheduler entry: the market being polled, its state and pending timer
+ */
+interface ScheduledMarket {
+  market: WatchedMarket;
+  state: MarketScheduleState;
+  timer: ReturnType<typeof setTimeout> | null;
+  inFlight: Promise<void> | null;
+}
+
+/**
+ * In-process ingestion scheduler.
+ * Polls every enabled watched market on its own `poll_interval_sec` plus random jitter.
+ * The next run of a market is only planned once its current run has finished, so runs never overlap.
+ */
+export class SchedulerService {
+  private p2pService: P2PService;
+  private marketService: MarketService;
+  private entries = new Map<string, ScheduledMarket>();
+  // Runs by market ID, kept after a refresh removes the market so it is never run twice at once
+  private inFlight = new Map<string, Promise<void>>();
+  private running: boolean = false;
+  private startedAt: Date | null = null;
+  private readonly jitterMs: number;
+
+  constructor(jitterMs: number = configs.schedulerJitterMs) {
+    this.p2pService = new P2PService();
+    this.marketService = new MarketService();
+    this.jitterMs = jitterMs;
+  }
+
+  /**
+   * Start polling the enabled watched markets
+   */
+  async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    this.startedAt = new Date();
+    await this.refresh();
+    log.info(`Ingestion scheduler started for ${this.entries.size} market(s)`);
+  }
+
+  /**
+   * Stop planning new runs and wait for in-flight runs to finish,
+   * including those of markets a refresh removed while they were running
+   */
+  async stop(): Promise<void> {
+    if (!this.running) {
+      return;
+    }
+
+    this.running = false;
+    for (const entry of this.entries.values()) {
+      this.clearTimer(entry);
+    }
+
+    await Promise.allSettled(this.inFlight.values());
+    this.entries.clear();
+    log.info('Ingestion scheduler stopped');
+  }
+
+  /**
+   * Reconcile the schedule with the enabled watched markets.
+   * Called on start and whenever a market is created, updated or removed.
+   */
+  async refresh(): Promise<void> {
+    if (!this.running) {
+      return;
+    }
+
+    const markets = await this.marketService.getEnabledMarkets();
+    // Stopped while the watchlist was loading
+    if (!this.running) {
+      return;
+    }
+
+    const enabledIds = new Set(markets.map((market) => market.id));
+
+    for (const [id, entry] of this.entries) {
+      if (!enabledIds.has(id)) {
+        this.clearTimer(entry);
+        this.entries.delete(id);
+      }
+    }
+
+    for (const market of markets) {
+      const entry = this.entries.get(market.id);
+      if (!entry) {
+        const created: ScheduledMarket = {
+          market,
+          state: this.initialState(market),
+          timer: null,
+          inFlight: null,
+        };
+        this.entries.set(market.id, created);
+        const firstDelay = this.randomJitter(Math.min(this.jitterMs, market.poll_interval_sec * 1000));
+        const previousRun = this.inFlight.get(market.id);
+        if (previousRun) {
+          // Re-enabled before the run it had when removed finished: start after that run
+          previousRun.finally(() => {
+            if (this.running && this.entries.get(market.id) === created) {
+              this.schedule(created, firstDelay);
+            }
+          });
+        } else {
+          this.schedule(created, firstDelay);
+        }
+        continue;
+      }
+
+      const intervalChanged = entry.market.poll_interval_sec !== market.poll_interval_sec;
+      entry.market = market;
+      entry.state.exchange = market.exchange;
+      entry.state.token_id = market.token_id;
+      entry.state.currency_id = market.currency_id;
+      entry.state.poll_interval_sec = market.poll_interval_sec;
+
+      // A running market picks up the new interval when its run finishes
+      if (intervalChanged && !entry.inFlight) {
+        this.schedule(entry, this.nextDelay(market));
+      }
+    }
+  }
+
+  /**
+   * Current scheduling state of every polled market
+   */
+  getStatus(): SchedulerStatus {
+    return {
+      running: this.running,
+      started_at: this.startedAt,
+      jitter_ms: this.jitterMs,
+      markets: Array.from(this.entries.values()).map((entry) => ({ ...entry.state })),
+    };
+  }
+
+  /**
+   * Plan the next run of a market after `delayMs`
+   */
+  private schedule(entry: ScheduledMarket, delayMs: number): void {
+    this.clearTimer(entry);
+    entry.state.next_run_at = new Date(Date.now() + delayMs);
+    entry.timer = setTimeout(() => {
+      entry.timer = null;
+      if (!this.running) {
+        return;
+      }
+
+      const marketId = entry.state.market_id;
+      const run: Promise<void> = this.runMarket(entry).finally(() => {
+        entry.inFlight = null;
+        if (this.inFlight.get(marketId) === run) {
+          this.inFlight.delete(marketId);
+        }
+      });
+      entry.inFlight = run;
+      this.inFlight.set(marketId, run);
+    }, delayMs);
+  }
+
+  /**
+   * Fetch a market once, record the outcome and plan its next run
+   */
+  private async runMarket(entry: ScheduledMarket): Promise<void> {
+    const { state } = entry;
+    const startedAt = new Date();
+    state.running = true;
+    state.next_run_at = null;
+    state.last_run_at = startedAt;
+
+    try {
+      await this.p2pService.fetchMarket(entry.market);
+      state.last_error = null;
+    } catch (error) {
+      state.failures++;
+      state.last_error = error instanceof Error ? error.message : String(error);
+      state.last_error_at = new Date();
+      log.error(
+        `Scheduled fetch failed for ${entry.market.exchange} ${entry.market.token_id}/${entry.market.currency_id}: ${state.last_error}`,
+      );
+    } finally {
+      state.runs++;
+      state.running = false;
+      state.last_finished_at = new Date();
+      state.last_duration_ms = state.last_finished_at.getTime() - startedAt.getTime();
+    }
+
+    // Skip rescheduling when the scheduler stopped or the market was removed mid-run
+    if (this.running && this.entries.get(state.market_id) === entry) {
+      this.schedule(entry, this.nextDelay(entry.market));
+    }
+  }
+
+  /**
+   * Poll interval of a market plus random jitter, in milliseconds
+   */
+  private nextDelay(market: WatchedMarket): number {
+    return market.poll_interval_sec * 1000 + this.randomJitter(this.jitterMs);
+  }
+
+  private randomJitter(maxMs: number): number {
+    return Math.floor(Math.random() * Math.max(maxMs, 0));
+  }
+
+  private clearTimer(entry: ScheduledMarket): void {
+    if (entry.timer !== null) {
+      clearTimeout(entry.timer);
+      entry.timer = null;
+    }
+    entry.state.next_run_at = null;
+  }
+
+  private initialState(market: WatchedMarket): MarketScheduleState {
+    return {
+      market_id: market.id,
+      exchange: market.exchange,
+      token_id: market.token_id,
+      currency_id: market.currency_id,
+      poll_interval_sec: market.poll_interval_sec,
+      running: false,
+      runs: 0,
+      failures: 0,
+      last_run_at: null,
+      last_finished_at: null,
+      last_duration_ms: null,
+      last_error: null,
+      last_error_at: null,
+      next_run_at: null,
+    };
+  }
+}
+
+const scheduler = new SchedulerService();
+
+export default scheduler;
@@ -100,9 +100,7 @@ class UserService {
    * @returns Promise<UserSchema | Error> Returns user document
    */
   public static async getUser(id: string): Promise<UserStructure | Error> {
-    const user: UserSchema | undefined = await User.findOne(
-      { _id: new ObjectId(id) },
-    );
+    const user: UserSchema | null = await User.findById(id);
     if (!user) {
       log.error('User not found');
       return throwError({
@@ -130,9 +128,7 @@ class UserService {
     state: Record<string, string>,
     options: UpdateUserStructure,
   ): Promise<UpdatedStructure | Error> {
-    const user: UserSchema | undefined = await User.findOne(
-      { _id: new ObjectId(id) },
-    );
+    const user: UserSchema | null = await User.findById(id);
     if (!user) {
       log.error('User not found');
       return throwError({
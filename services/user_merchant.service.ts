@@ -0,0 +1,170 @@
+import { Status } from 'jsr:@oak/oak';
+import { throwError } from '../middlewares/errorHandler.middleware.ts';
+import { P2PUser, P2PUserModel } from '../models/p2p_user.model.ts';
+import {
+  MerchantListName,
+  MerchantSelection,
+  merchantKey,
+  UserMerchant,
+  UserMerchantModel,
+} from '../models/user_merchant.model.ts';
+
+/**
+ * A user's merchant lists, with the merchants the exchange reports as blocked
+ */
+export interface MerchantLists {
+  trusted: UserMerchant[];
+  avoided: UserMerchant[];
+  blocked: P2PUser[];
+}
+
+/**
+ * A merchant matching a nickname search, with the list the user keeps it on
+ */
+export interface MerchantSearchResult extends P2PUser {
+  list: MerchantListName | null;
+}
+
+/**
+ * User Merchant Service: the merchants each user trusts or avoids, and the selections they narrow reads to
+ */
+export class UserMerchantService {
+  private userMerchantModel: UserMerchantModel;
+  private p2pUserModel: P2PUserModel;
+
+  constructor() {
+    this.userMerchantModel = new UserMerchantModel();
+    this.p2pUserModel = new P2PUserModel();
+  }
+
+  /**
+   * Get a user's trusted and avoided merchants
+   */
+  async getLists(userId: string): Promise<MerchantLists> {
+    const entries = await this.userMerchantModel.getByUser(userId);
+    return {
+      trusted: entries.filter((entry) => entry.list === 'trusted'),
+      avoided: entries.filter((entry) => entry.list === 'avoided'),
+      blocked: await this.p2pUserModel.getBlockedUsers()
+    };
+  }
+
+  /**
+   * Find merchants by nickname, telling which list the user keeps each one on
+   */
+  async search(userId: string, nickname: string, exchange?: string): Promise<MerchantSearchResult[]> {
+    const users = (await this.p2pUserModel.searchByNickname(nickname))
+      .filter((user) => !exchange || user.exchange === exchange);
+    const lists = new Map(
+      (await this.userMerchantModel.getByUser(userId))
+        .map((entry) => [merchantKey(entry.exchange, entry.merchant_id), entry.list])
+    );
+
+    return users.map((user) => ({ ...user, list: lists.get(merchantKey(user.exchange, user.user_id)) ?? null }));
+  }
+
+  /**
+   * Put a merchant, given by ID or nickname, on one of a user's lists; it leaves the other list if it was there
+   */
+  async addMerchant(
+    userId: string,
+    entry: { merchantId?: bigint; nickname?: string; list: MerchantListName; exchange?: string; note?: string }
+  ): Promise<UserMerchant> {
+    const merchant = entry.merchantId !== undefined
+      ? await this.p2pUserModel.getById(entry.merchantId, entry.exchange)
+      : await this.findByNickname(entry.nickname as string, entry.exchange);
+
+    if (!merchant) {
+      return throwError({
+        status: Status.NotFound,
+        name: 'NotFound',
+        path: 'merchant',
+        param: entry.merchantId !== undefined ? 'merchantId' : 'nickname',
+        message: `Merchant not found`,
+        type: 'NotFound',
+      }) as never;
+    }
+
+    return await this.userMerchantModel.upsert({
+      user_id: userId,
+      exchange: merchant.exchange,
+      merchant_id: merchant.user_id,
+      list: entry.list,
+      note: entry.note ?? null
+    });
+  }
+
+  /**
+   * Take a merchant off a user's lists, throwing NotFound if it is on none
+   */
+  async removeMerchant(userId: string, merchantId: bigint, exchange?: string): Promise<void> {
+    const entries = (await this.userMerchantModel.getByUser(userId))
+      .filter((entry) => entry.merchant_id === merchantId && (!exchange || entry.exchange === exchange));
+
+    if (entries.length === 0) {
+      return throwError({
+        status: Status.NotFound,
+        name: 'NotFound',
+        path: 'merchant',
+        param: 'merchantId',
+        message: `Merchant is not on your lists`,
+        type: 'NotFound',
+      }) as never;
+    }
+
+    for (const entry of entries) {
+      await this.userMerchantModel.delete(userId, entry.exchange, entry.merchant_id);
+    }
+  }
+
+  /**
+   * Selection of merchants a read is narrowed to by a user's lists, or undefined when no narrowing is asked.
+   * Throws Unauthorized when narrowing is asked without a signed-in user.
+   */
+  async getSelection(
+    userId: string | undefined,
+    options: { trustedOnly?: boolean; excludeAvoided?: boolean }
+  ): Promise<MerchantSelection | undefined> {
+    if (!options.trustedOnly && !options.excludeAvoided) return undefined;
+
+    if (!userId) {
+      return throwError({
+        status: Status.Unauthorized,
+        name: 'Unauthorized',
+        path: 'access_token',
+        param: 'access_token',
+        message: `access_token is required to filter by your merchant lists`,
+        type: 'Unauthorized',
+      }) as never;
+    }
+
+    return {
+      only: options.trustedOnly ? await this.userMerchantModel.getKeys(userId, 'trusted') : undefined,
+      exclude: options.excludeAvoided ? await this.userMerchantModel.getKeys(userId, 'avoided') : undefined
+    };
+  }
+
+  /**
+   * Resolve a nickname to one merchant: an exact match (ignoring case) wins, otherwise the only partial match.
+   * Throws BadRequest when the nickname matches several merchants.
+   */
+  private async findByNickname(nickname: string, exchange?: string): Promise<P2PUser | null> {
+    const matches = (await this.p2pUserModel.searchByNickname(nickname))
+      .filter((user) => !exchange || user.exchange === exchange);
+    const exact = matches.filter((user) => user.nick_name?.toLowerCase() === nickname.toLowerCase());
+    const candidates = exact.length > 0 ? exact : matches;
+
+    if (candidates.length > 1) {
+      return throwError({
+        status: Status.BadRequest,
+        name: 'BadRequest',
+        path: 'merchant',
+        param: 'nickname',
+        message: `nickname matches ${candidates.length} merchants, use merchantId instead`,
+        type: 'BadRequest',
+      }) as never;
+    }
+
+    return candidates[0] ?? null;
+  }
+}
@@ -0,0 +1,256 @@
+import { Status } from 'jsr:@oak/oak';
+import { throwError } from '../middlewares/errorHandler.middleware.ts';
+import log from '../middlewares/logger.middleware.ts';
+import {
+  Webhook,
+  WebhookData,
+  WebhookDelivery,
+  WebhookDeliveryFilters,
+  WebhookDeliveryModel,
+  WebhookEvent,
+  WebhookModel,
+} from '../models/webhook.model.ts';
+import { serializeBigInts } from '../helpers/response.helper.ts';
+import SignatureHelper from '../helpers/signature.helper.ts';
+import { TRADE_SIDE } from '../shared/constants.ts';
+import webhookDispatcher from './webhook_dispatcher.service.ts';
+
+/**
+ * Webhook input accepted by the API (camelCase, as sent by clients)
+ */
+export interface WebhookInput {
+  url?: string;
+  secret?: string;
+  events?: WebhookEvent[];
+  exchange?: string | null;
+  tokenId?: string | null;
+  currencyId?: string | null;
+  priceChangePct?: number;
+  enabled?: boolean;
+}
+
+/**
+ * A webhook as returned after creation; its secret is never shown again
+ */
+export type PublicWebhook = Omit<Webhook, 'secret'>;
+
+/**
+ * A delivery as returned by the API, with its payload parsed
+ */
+export type WebhookDeliveryView = Omit<WebhookDelivery, 'payload'> & { payload: unknown };
+
+/**
+ * The market side a stored snapshot or a failed ingestion belongs to
+ */
+export interface WebhookMarketSide {
+  stream?: string;
+  market_id: string | null;
+  exchange: string;
+  token_id: string;
+  currency_id: string;
+  side: number;
+}
+
+/**
+ * Webhook Service: user-registered endpoints receiving signed JSON events about ingestion.
+ * Publishing queues one delivery per subscribed webhook and hands it to the dispatcher,
+ * which posts and retries it in the background; ingestion never waits for an endpoint.
+ */
+export class WebhookService {
+  private webhookModel: WebhookModel;
+  private webhookDeliveryModel: WebhookDeliveryModel;
+
+  constructor() {
+    this.webhookModel = new WebhookModel();
+    this.webhookDeliveryModel = new WebhookDeliveryModel();
+  }
+
+  /**
+   * List the webhooks of a user
+   */
+  async getWebhooks(userId: string): Promise<PublicWebhook[]> {
+    return (await this.webhookModel.getByUser(userId)).map((webhook) => this.redact(webhook));
+  }
+
+  /**
+   * Get one of a user's webhooks, throwing NotFound if it does not exist or belongs to someone else
+   */
+  async getWebhook(userId: string, id: string): Promise<PublicWebhook> {
+    return this.redact(await this.getOwned(userId, id));
+  }
+
+  /**
+   * Register a webhook; a signing secret is generated unless one is given.
+   * This is the only response carrying the secret.
+   */
+  async createWebhook(userId: string, input: WebhookInput): Promise<Webhook> {
+    const webhook: WebhookData = {
+      user_id: userId,
+      url: input.url as string,
+      secret: input.secret || SignatureHelper.randomSecret(),
+      events: [...new Set(input.events as WebhookEvent[])],
+      exchange: input.exchange ?? null,
+      token_id: input.tokenId ?? null,
+      currency_id: input.currencyId ?? null,
+      price_change_pct: input.priceChangePct ?? 1,
+      enabled: input.enabled ?? true,
+    };
+
+    return await this.webhookModel.create(webhook);
+  }
+
+  /**
+   * Update one of a user's webhooks; giving a `secret` rotates it
+   */
+  async updateWebhook(userId: string, id: string, input: WebhookInput): Promise<PublicWebhook> {
+    await this.getOwned(userId, id);
+    const updated = await this.webhookModel.update(id, {
+      url: input.url,
+      secret: input.secret,
+      events: input.events ? [...new Set(input.events)] : undefined,
+      exchange: input.exchange,
+      token_id: input.tokenId,
+      currency_id: input.currencyId,
+      price_change_pct: input.priceChangePct,
+      enabled: input.enabled,
+    });
+
+    return this.redact(updated as Webhook);
+  }
+
+  /**
+   * Delete one of a user's webhooks with its delivery log
+   */
+  async removeWebhook(userId: string, id: string): Promise<void> {
+    await this.getOwned(userId, id);
+    await this.webhookModel.delete(id);
+  }
+
+  /**
+   * List the deliveries of one of a user's webhooks, newest first
+   */
+  async getDeliveries(userId: string, id: string, filters: WebhookDeliveryFilters = {}): Promise<WebhookDeliveryView[]> {
+    await this.getOwned(userId, id);
+    const deliveries = await this.webhookDeliveryModel.getByWebhook(id, filters);
+    return deliveries.map((delivery) => ({ ...delivery, payload: JSON.parse(delivery.payload) }));
+  }
+
+  /**
+   * Send a `ping` event to one of a user's webhooks, whatever it subscribes to
+   */
+  async ping(userId: string, id: string): Promise<WebhookDeliveryView> {
+    const webhook = await this.getOwned(userId, id);
+    const delivery = await this.enqueue(webhook, 'ping', { webhook_id: webhook.id });
+    return { ...delivery, payload: JSON.parse(delivery.payload) };
+  }
+
+  /**
+   * Publish a stored snapshot of a market side: `snapshot.stored` to every subscriber, and `price.changed`
+   * to subscribers whose last notified best price moved more than their `price_change_pct`.
+   * The first snapshot a webhook sees on a stream only sets its reference price, as does one following a zero reference.
+   */
+  async publishSnapshot(
+    snapshot: WebhookMarketSide & { stream: string; fetch_time: Date; pages: number; prices: number[] }
+  ): Promise<void> {
+    const { prices, ...market } = snapshot;
+    const bestPrice = prices.length === 0
+      ? null
+      : snapshot.side === TRADE_SIDE.SELL ? Math.min(...prices) : Math.max(...prices);
+
+    await this.publish('snapshot.stored', market, { ...market, offers: prices.length, best_price: bestPrice });
+
+    if (bestPrice === null) {
+      return;
+    }
+    await this.publish('price.changed', market, async (webhook) => {
+      const reference = await this.webhookModel.getPriceRef(webhook.id, snapshot.stream);
+      // A change relative to a zero price is undefined
+      const changePct = reference ? (bestPrice - reference) / reference * 100 : null;
+      if (changePct !== null && Math.abs(changePct) <= webhook.price_change_pct) {
+        return null;
+      }
+
+      await this.webhookModel.setPriceRef(webhook.id, snapshot.stream, bestPrice);
+      if (changePct === null) {
+        return null;
+      }
+      return {
+        ...market,
+        previous_price: reference,
+        price: bestPrice,
+        change_pct: changePct,
+        threshold_pct: webhook.price_change_pct
+      };
+    });
+  }
+
+  /**
+   * Publish `ingestion.failed` for a market side whose fetch or write failed
+   */
+  async publishFailure(failure: WebhookMarketSide, error: unknown): Promise<void> {
+    await this.publish('ingestion.failed', failure, {
+      ...failure,
+      failed_at: new Date(),
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+
+  /**
+   * Queue an event for the webhooks subscribed to it on the market's pair.
+   * `data` may depend on the webhook; returning null skips it. Failures are logged, never thrown,
+   * so a broken webhook cannot fail ingestion.
+   */
+  private async publish(
+    event: WebhookEvent,
+    market: WebhookMarketSide,
+    data: Record<string, unknown> | ((webhook: Webhook) => Promise<Record<string, unknown> | null>)
+  ): Promise<void> {
+    try {
+      const webhooks = await this.webhookModel.getSubscribed(event, market.exchange, market.token_id, market.currency_id);
+      for (const webhook of webhooks) {
+        const payload = typeof data === 'function' ? await data(webhook) : data;
+        if (payload) {
+          await this.enqueue(webhook, event, payload);
+        }
+      }
+    } catch (error) {
+      log.error(`Failed to publish ${event} webhooks: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Store a delivery of an event to a webhook and start dispatching it
+   */
+  private async enqueue(webhook: Webhook, event: string, data: Record<string, unknown>): Promise<WebhookDelivery> {
+    const payload = JSON.stringify(serializeBigInts({ event, created_at: new Date(), webhook_id: webhook.id, data }));
+    const delivery = await this.webhookDeliveryModel.create({ webhook_id: webhook.id, event, payload });
+    webhookDispatcher.dispatch(delivery);
+    return delivery;
+  }
+
+  /**
+   * Get a webhook of a user, throwing NotFound if it does not exist or belongs to someone else
+   */
+  private async getOwned(userId: string, id: string): Promise<Webhook> {
+    const webhook = await this.webhookModel.getById(id);
+    if (!webhook || webhook.user_id !== userId) {
+      return throwError({
+        status: Status.NotFound,
+        name: 'NotFound',
+        path: 'webhook',
+        param: 'id',
+        message: `Webhook not found`,
+        type: 'NotFound',
+      }) as never;
+    }
+    return webhook;
+  }
+
+  /**
+   * A webhook without its secret
+   */
+  private redact(webhook: Webhook): PublicWebhook {
+    const { secret: _secret, ...rest } = webhook;
+    return rest;
+  }
+}
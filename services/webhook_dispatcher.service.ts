@@ -0,0 +1,262 @@
+import log from '../middlewares/logger.middleware.ts';
+import configs from '../config/config.ts';
+import SignatureHelper from '../helpers/signature.helper.ts';
+import UrlHelper from '../helpers/url.helper.ts';
+import { Webhook, WebhookDelivery, WebhookDeliveryModel, WebhookModel } from '../models/webhook.model.ts';
+
+/**
+ * Retry and timeout settings of the dispatcher
+ */
+export interface WebhookDispatchOptions {
+  maxAttempts: number;
+  retryBaseMs: number;
+  retryMaxMs: number;
+  timeoutMs: number;
+}
+
+/**
+ * Outcome of posting a delivery once
+ */
+interface AttemptResult {
+  ok: boolean;
+  responseStatus: number | null;
+  error: string | null;
+  /** The delivery cannot succeed by being sent again */
+  final?: boolean;
+}
+
+/**
+ * In-process webhook dispatcher.
+ * Posts every queued delivery to its webhook, signed with the webhook's secret, and retries deliveries
+ * that fail (non-2xx response, network error or timeout) with exponential backoff up to `maxAttempts`.
+ * The outcome of every attempt is written to the delivery, so the log survives restarts and
+ * `resume()` picks up deliveries that were still pending.
+ */
+export class WebhookDispatcher {
+  private webhookModel: WebhookModel;
+  private webhookDeliveryModel: WebhookDeliveryModel;
+  private readonly options: WebhookDispatchOptions;
+  private pending = new Map<string, Promise<void>>();
+  private timers = new Map<string, { timer: ReturnType<typeof setTimeout>; resolve: (proceed: boolean) => void }>();
+  private stopped: boolean = false;
+
+  constructor(options: Partial<WebhookDispatchOptions> = {}) {
+    this.webhookModel = new WebhookModel();
+    this.webhookDeliveryModel = new WebhookDeliveryModel();
+    this.options = {
+      maxAttempts: configs.webhookMaxAttempts,
+      retryBaseMs: configs.webhookRetryBaseMs,
+      retryMaxMs: configs.webhookRetryMaxMs,
+      timeoutMs: configs.webhookTimeoutMs,
+      ...options
+    };
+  }
+
+  /**
+   * Start delivering a queued delivery in the background
+   */
+  dispatch(delivery: WebhookDelivery): void {
+    if (this.stopped) {
+      return;
+    }
+    this.deliver(delivery.id, 0);
+  }
+
+  /**
+   * Restart the deliveries left pending, e.g. by a previous process, at their planned attempt time
+   */
+  async resume(): Promise<void> {
+    this.stopped = false;
+    const deliveries = await this.webhookDeliveryModel.getPending();
+    const now = Date.now();
+
+    for (const delivery of deliveries) {
+      if (!this.pending.has(delivery.id)) {
+        this.deliver(delivery.id, Math.max(0, (delivery.next_attempt_at?.getTime() ?? now) - now));
+      }
+    }
+    if (deliveries.length > 0) {
+      log.info(`Resumed ${deliveries.length} pending webhook deliveries`);
+    }
+  }
+
+  /**
+   * Wait until no delivery is in flight or waiting for a retry
+   */
+  async idle(): Promise<void> {
+    while (this.pending.size > 0) {
+      await Promise.all(this.pending.values());
+    }
+  }
+
+  /**
+   * Cancel the planned retries and wait for in-flight attempts; cancelled deliveries stay pending
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    for (const { timer, resolve } of this.timers.values()) {
+      clearTimeout(timer);
+      resolve(false);
+    }
+    this.timers.clear();
+    await this.idle();
+  }
+
+  /**
+   * Attempt a delivery after `delayMs`, tracking it until it settles
+   */
+  private deliver(id: string, delayMs: number): void {
+    const task: Promise<void> = this.wait(id, delayMs)
+      .then((proceed) => proceed ? this.attempt(id) : undefined)
+      .catch((error) => {
+        log.error(`Webhook delivery ${id} could not be attempted: ${error instanceof Error ? error.message : error}`);
+      })
+      .finally(() => {
+        // A retry planned by the attempt replaces this task
+        if (this.pending.get(id) === task) {
+          this.pending.delete(id);
+        }
+      });
+    this.pending.set(id, task);
+  }
+
+  /**
+   * Resolve with true after `delayMs`, or with false if the dispatcher stops first
+   */
+  private wait(id: string, delayMs: number): Promise<boolean> {
+    if (delayMs <= 0) {
+      return Promise.resolve(true);
+    }
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.timers.delete(id);
+        resolve(true);
+      }, delayMs);
+      this.timers.set(id, { timer, resolve });
+    });
+  }
+
+  /**
+   * Post a delivery once and record the outcome, planning a retry if it failed and attempts are left
+   */
+  private async attempt(id: string): Promise<void> {
+    const delivery = await this.webhookDeliveryModel.getById(id);
+    if (!delivery || delivery.status !== 'pending') {
+      return;
+    }
+    // Deliveries are removed with their webhook
+    const webhook = await this.webhookModel.getById(delivery.webhook_id);
+    if (!webhook) {
+      return;
+    }
+
+    const attemptedAt = new Date();
+    const attempts = delivery.attempts + 1;
+    const result: AttemptResult = webhook.enabled
+      ? await this.post(webhook, delivery, attemptedAt)
+      : { ok: false, responseStatus: null, error: 'Webhook is disabled' };
+    const retry = !result.ok && !result.final && webhook.enabled && attempts < this.options.maxAttempts;
+    const delayMs = this.backoff(attempts);
+
+    await this.webhookDeliveryModel.recordAttempt(id, {
+      status: result.ok ? 'succeeded' : retry ? 'pending' : 'failed',
+      attempts,
+      response_status: result.responseStatus,
+      error: result.error,
+      last_attempt_at: attemptedAt,
+      next_attempt_at: retry ? new Date(attemptedAt.getTime() + delayMs) : null,
+      delivered_at: result.ok ? attemptedAt : null
+    });
+
+    if (!result.ok) {
+      log.warn(`Webhook delivery ${id} attempt ${attempts} failed: ${result.error}`);
+    }
+    if (retry && !this.stopped) {
+      this.deliver(id, delayMs);
+    }
+  }
+
+  /**
+   * Post the delivery's payload to the webhook.
+   * The signature is the hex HMAC-SHA256 of `<timestamp>.<body>` keyed with the webhook's secret.
+   * Redirects are not followed, so an endpoint cannot bounce the request to a host that was refused.
+   */
+  private async post(webhook: Webhook, delivery: WebhookDelivery, attemptedAt: Date): Promise<AttemptResult> {
+    const refusal = await this.refuseHost(webhook.url);
+    if (refusal) {
+      return { ok: false, responseStatus: null, error: refusal, final: true };
+    }
+
+    const timestamp = Math.floor(attemptedAt.getTime() / 1000).toString();
+    const signature = await SignatureHelper.hmacSha256(webhook.secret, `${timestamp}.${delivery.payload}`);
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.options.timeoutMs);
+
+    try {
+      const response = await fetch(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'bybit-p2p-monitor-webhooks',
+          'X-Webhook-Id': webhook.id,
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Delivery': delivery.id,
+          'X-Webhook-Timestamp': timestamp,
+          'X-Webhook-Signature': `sha256=${signature}`,
+        },
+        body: delivery.payload,
+        redirect: 'manual',
+        signal: controller.signal,
+      });
+      await response.body?.cancel();
+
+      return {
+        ok: response.ok,
+        responseStatus: response.status,
+        error: response.ok ? null : `Endpoint responded with HTTP ${response.status}`
+      };
+    } catch (error) {
+      const message = controller.signal.aborted
+        ? `Timed out after ${this.options.timeoutMs}ms`
+        : error instanceof Error ? error.message : String(error);
+      return { ok: false, responseStatus: null, error: message };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Why the endpoint's host must not be called, or null if it may.
+   * Validation only sees the URL, so the host's addresses are checked again here in case its name resolves locally.
+   */
+  private async refuseHost(endpoint: string): Promise<string | null> {
+    const { hostname } = new URL(endpoint);
+    if (UrlHelper.isAllowedHost(hostname, configs.webhookAllowedHosts)) {
+      return null;
+    }
+    if (UrlHelper.isPrivateHost(hostname)) {
+      return `Endpoint host ${hostname} is not public`;
+    }
+    if (UrlHelper.isIpAddress(hostname)) {
+      return null;
+    }
+
+    // A name that does not resolve fails the request itself
+    const addresses = await Promise.all(
+      (['A', 'AAAA'] as const).map((type) => Deno.resolveDns(hostname, type).catch((): string[] => []))
+    );
+    const local = addresses.flat().find((address) => UrlHelper.isPrivateHost(address));
+    return local ? `Endpoint host ${hostname} resolves to local address ${local}` : null;
+  }
+
+  /**
+   * Delay before the retry that follows attempt number `attempts`
+   */
+  private backoff(attempts: number): number {
+    return Math.min(this.options.retryBaseMs * 2 ** (attempts - 1), this.options.retryMaxMs);
+  }
+}
+
+const webhookDispatcher = new WebhookDispatcher();
+
+export default webhookDispatcher;
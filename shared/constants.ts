@@ -18,8 +18,41 @@ export const PAYMENT_METHODS = {
  * Default API parameters
  */
 export const DEFAULT_PARAMS = {
+  EXCHANGE: 'bybit',
   TOKEN_ID: 'USDT',
   CURRENCY_ID: 'USD',
   PAGE_SIZE: 10,
   PAGE: 1
-}; 
\ No newline at end of file
+};
+
+/**
+ * Market seeded into `watched_markets` on first start.
+ * Further markets are managed through /api/p2p/markets.
+ */
+export const DEFAULT_MARKET = {
+  EXCHANGE: 'bybit',
+  TOKEN_ID: 'USDT',
+  CURRENCY_ID: 'USD',
+  SIDES: [TRADE_SIDE.SELL, TRADE_SIDE.BUY],
+  PAYMENT_METHODS: [PAYMENT_METHODS.TBC_BANK],
+  PAGE_DEPTH: 1,
+  POLL_INTERVAL_SEC: 5
+};
+
+/**
+ * Largest time bucket each bucketed endpoint accepts (bucket specs are parsed by BucketHelper)
+ */
+export const MAX_BUCKET = {
+  AGGREGATIONS: '1w',
+  FLOW: '1w',
+  CANDLES: '1d',
+  CONCENTRATION: '1d'
+};
+
+/**
+ * Fiat each stablecoin tracks: a P2P USDT/GEL price is compared with the USD/GEL reference rate
+ */
+export const REFERENCE_BASES: Record<string, string> = {
+  USDT: 'USD',
+  USDC: 'USD'
+};
@@ -0,0 +1,95 @@
+import { Database } from '../../db/db.ts';
+import { P2POffer, P2POfferModel } from '../../models/p2p_offer.model.ts';
+import { OfferPayment, OfferPaymentModel } from '../../models/payment_method.model.ts';
+
+/**
+ * Row-by-row vs bulk writes of one full-depth snapshot (500 offers, 2 payment methods each).
+ * Runs against its own in-memory database: `deno task bench`
+ */
+const OFFERS_PER_SNAPSHOT = 500;
+
+const bench = new Database(':memory:');
+await bench.connect();
+
+const p2pOfferModel = new P2POfferModel();
+const offerPaymentModel = new OfferPaymentModel();
+
+let snapshot = 0;
+
+/**
+ * Build a snapshot with a fresh fetch_time so every iteration inserts new rows
+ */
+function buildSnapshot(): { offers: P2POffer[]; payments: OfferPayment[] } {
+  const fetchTime = new Date(Date.UTC(2024, 0, 1) + snapshot++ * 1000);
+  const offers: P2POffer[] = [];
+  const payments: OfferPayment[] = [];
+
+  for (let i = 0; i < OFFERS_PER_SNAPSHOT; i++) {
+    const offerId = BigInt(1_000_000 + i);
+    offers.push({
+      fetch_time: fetchTime,
+      exchange: 'bybit',
+      offer_id: offerId,
+      account_id: BigInt(2_000_000 + i),
+      user_id: BigInt(3_000_000 + i),
+      token_id: 'USDT',
+      currency_id: 'USD',
+      side: i % 2,
+      price_type: 0,
+      price: 1 + i / 1000,
+      premium: 0,
+      last_quantity: 100,
+      total_quantity: 100,
+      frozen_quantity: 0,
+      executed_quantity: 0,
+      min_amount: 10,
+      max_amount: 1000,
+      status: 10,
+      is_online: true,
+      version: 1,
+      auth_status: 2,
+      user_type: 'PERSONAL',
+      payment_period: 15,
+      user_mask_id: `mask-${i}`,
+    });
+    payments.push(
+      { fetch_time: fetchTime, exchange: 'bybit', offer_id: offerId, method_id: 165 },
+      { fetch_time: fetchTime, exchange: 'bybit', offer_id: offerId, method_id: 14 },
+    );
+  }
+
+  return { offers, payments };
+}
+
+Deno.bench({
+  name: 'row-by-row inserts',
+  group: 'snapshot write',
+  baseline: true,
+  async fn(b) {
+    const { offers, payments } = buildSnapshot();
+    b.start();
+    await bench.transaction(async (tx) => {
+      for (const offer of offers) {
+        await p2pOfferModel.create(offer, tx);
+      }
+      for (const payment of payments) {
+        await offerPaymentModel.create(payment, tx);
+      }
+    });
+    b.end();
+  },
+});
+
+Deno.bench({
+  name: 'bulk inserts (multi-row VALUES)',
+  group: 'snapshot write',
+  async fn(b) {
+    const { offers, payments } = buildSnapshot();
+    b.start();
+    await bench.transaction(async (tx) => {
+      await p2pOfferModel.createMany(offers, tx);
+      await offerPaymentModel.createMany(payments, tx);
+    });
+    b.end();
+  },
+});
@@ -0,0 +1,190 @@
+import { afterAll, beforeAll, beforeEach, describe, it } from 'jsr:@std/testing/bdd';
+import { expect } from '@std/expect';
+import db from '../../../db/db.ts';
+import { AlertService } from '../../../services/alert.service.ts';
+import { ExchangeHttpClient, registerExchangeAdapter } from '../../../services/exchanges/index.ts';
+import { TRADE_SIDE } from '../../../shared/constants.ts';
+import { api, clearCollection, clearP2PData, createUser, generateAccessToken, withTestServer } from '../../utils/utils.ts';
+import { user, user2 } from '../../fixtures/users.fixtures.ts';
+import { buildBybitOffer, FakeBybitServer, fakeBybitReplies } from '../../utils/fake-bybit.server.ts';
+
+const fake = new FakeBybitServer();
+
+let userToken: string;
+let otherToken: string;
+
+const MERCHANT = '4000001';
+
+describe('Alert rules', () => {
+  // The best ask jumps above 1.02 at tick 1, stays there, falls back at tick 3 and jumps again at tick 4;
+  // the merchant comes online at tick 1
+  const askPrices = ['1.0000', '1.0500', '1.0600', '1.0000', '1.0700'];
+  const asks = (tick: number) => [
+    { ...buildBybitOffer({ side: TRADE_SIDE.SELL, price: askPrices[tick] }), lastQuantity: '500' },
+    { ...buildBybitOffer({ side: TRADE_SIDE.SELL, price: '1.1000' }), userId: MERCHANT, nickName: 'watched', isOnline: tick >= 1 },
+  ];
+  const bids = () => [buildBybitOffer({ side: TRADE_SIDE.BUY, price: '0.9900' })];
+
+  const rule = (body: Record<string, unknown>) => ({ tokenId: 'USDT', currencyId: 'USD', ...body });
+
+  beforeAll(async () => {
+    fake.start();
+    await clearCollection('users');
+    userToken = await generateAccessToken(await createUser(user));
+    otherToken = await generateAccessToken(await createUser(user2));
+  });
+
+  afterAll(async () => {
+    await fake.stop();
+    await clearCollection('users');
+    await clearCollection('alert_rules');
+    await clearCollection('alert_events');
+  });
+
+  beforeEach(async () => {
+    await clearP2PData();
+    await clearCollection('alert_rules');
+    await clearCollection('alert_events');
+    fake.reset()
+      .setBook('USDT', 'USD', TRADE_SIDE.SELL, asks)
+      .setBook('USDT', 'USD', TRADE_SIDE.BUY, bids);
+    registerExchangeAdapter(fake.adapter(new ExchangeHttpClient({ baseDelayMs: 5, maxDelayMs: 50, ratePerSec: 1000, burst: 100 })));
+  });
+
+  it('should manage the rules of the signed-in user only', async () => {
+    await withTestServer(async (port) => {
+      const created = await api(port, '/api/alerts', {
+        method: 'POST',
+        token: userToken,
+        body: rule({ name: 'ask spike', type: 'price_above', side: TRADE_SIDE.SELL, threshold: 1.02 }),
+      });
+      expect(created.status).toBe(201);
+      expect(created.body.data).toMatchObject({
+        name: 'ask spike', exchange: 'bybit', type: 'price_above', threshold: 1.02, cooldown_sec: 3600, enabled: true, active: false,
+      });
+      const { id } = created.body.data;
+
+      const updated = await api(port, `/api/alerts/${id}`, { method: 'PUT', token: userToken, body: { threshold: 1.03, cooldownSec: 60 } });
+      expect(updated.body.data).toMatchObject({ threshold: 1.03, cooldown_sec: 60 });
+
+      const listed = await api(port, '/api/alerts', { token: userToken });
+      expect(listed.body.data.length).toBe(1);
+
+      // Someone else's rule does not exist for them
+      const foreign = await api(port, `/api/alerts/${id}`, { token: otherToken });
+      expect(foreign.status).toBe(404);
+      const theirs = await api(port, '/api/alerts', { token: otherToken });
+      expect(theirs.body.data.length).toBe(0);
+
+      const removed = await api(port, `/api/alerts/${id}`, { method: 'DELETE', token: userToken });
+      expect(removed.status).toBe(204);
+      const gone = await api(port, `/api/alerts/${id}`, { token: userToken });
+      expect(gone.status).toBe(404);
+    });
+  });
+
+  it('should reject incomplete rules, unwatched pairs and anonymous requests', async () => {
+    await withTestServer(async (port) => {
+      const noThreshold = await api(port, '/api/alerts', {
+        method: 'POST', token: userToken, body: rule({ type: 'price_below', side: TRADE_SIDE.BUY }),
+      });
+      expect(noThreshold.status).toBe(400);
+
+      const noMerchant = await api(port, '/api/alerts', { method: 'POST', token: userToken, body: rule({ type: 'merchant_online' }) });
+      expect(noMerchant.status).toBe(400);
+
+      const unknownType = await api(port, '/api/alerts', { method: 'POST', token: userToken, body: rule({ type: 'volume_above', threshold: 1 }) });
+      expect(unknownType.status).toBe(400);
+
+      const unwatched = await api(port, '/api/alerts', {
+        method: 'POST', token: userToken, body: { tokenId: 'BTC', currencyId: 'XYZ', type: 'spread_above', threshold: 1 },
+      });
+      expect(unwatched.status).toBe(404);
+
+      const anonymous = await api(port, '/api/alerts');
+      expect(anonymous.status).toBe(401);
+    });
+  });
+
+  it('should fire rules after ingestion runs when their condition starts to hold, within cooldowns', async () => {
+    await withTestServer(async (port) => {
+      const create = async (body: Record<string, unknown>) =>
+        (await api(port, '/api/alerts', { method: 'POST', token: userToken, body: rule(body) })).body.data.id;
+
+      const price = await create({ type: 'price_above', side: TRADE_SIDE.SELL, threshold: 1.02, cooldownSec: 0 });
+      const spread = await create({ type: 'spread_above', threshold: 5 });
+      const online = await create({ type: 'merchant_online', merchantId: MERCHANT });
+      const liquidity = await create({ type: 'liquidity_below', side: TRADE_SIDE.SELL, amount: 100, threshold: 2000 });
+      const disabled = await create({ type: 'price_below', side: TRADE_SIDE.SELL, threshold: 2, enabled: false });
+
+      for (let tick = 0; tick < askPrices.length; tick++) {
+        await api(port, '/api/p2p/fetch', { method: 'POST', body: {} });
+        fake.advance();
+      }
+
+      const events = async (ruleId: string) =>
+        (await api(port, `/api/alerts/events?ruleId=${ruleId}`, { token: userToken })).body.data;
+
+      // Fires at ticks 1 and 4; stays active without firing at tick 2
+      const priceEvents = await events(price);
+      expect(priceEvents.map((event: { value: number }) => event.value)).toEqual([1.07, 1.05]);
+      expect(priceEvents[0]).toMatchObject({ type: 'price_above', side: TRADE_SIDE.SELL, threshold: 1.02 });
+
+      // Crosses again at tick 4, inside its one hour cooldown
+      const spreadEvents = await events(spread);
+      expect(spreadEvents.length).toBe(1);
+      expect(spreadEvents[0].value).toBeCloseTo((1.05 - 0.99) / 0.99 * 100);
+
+      const onlineEvents = await events(online);
+      expect(onlineEvents.length).toBe(1);
+      expect(onlineEvents[0].message).toContain('watched');
+
+      // Both asks can take an order of 100 USD, together holding less than 2000 USD
+      const liquidityEvents = await events(liquidity);
+      expect(liquidityEvents.length).toBe(1);
+      expect(liquidityEvents[0].value).toBeCloseTo(500 + 500 * 1.1);
+
+      expect((await events(disabled)).length).toBe(0);
+
+      const rules = await api(port, '/api/alerts', { token: userToken });
+      const priceRule = rules.body.data.find((entry: { id: string }) => entry.id === price);
+      expect(priceRule.active).toBe(true);
+      expect(priceRule.last_triggered_at).toBe(priceEvents[0].triggered_at);
+
+      const theirs = await api(port, '/api/alerts/events', { token: otherToken });
+      expect(theirs.body.data.length).toBe(0);
+    });
+  });
+
+  it('should store and evaluate the sides that were fetched when another side fails', async () => {
+    await withTestServer(async (port) => {
+      const bid = (await api(port, '/api/alerts', {
+        method: 'POST', token: userToken, body: rule({ type: 'price_below', side: TRADE_SIDE.BUY, threshold: 1 }),
+      })).body.data.id;
+
+      // Asks are fetched first and rejected by the venue
+      fake.enqueue(fakeBybitReplies.retCode(912100027, 'Invalid params'));
+      const fetched = await api(port, '/api/p2p/fetch', { method: 'POST', body: {} });
+      expect(fetched.body).toMatchObject({ success: false, message: 'Bybit API error: Invalid params' });
+
+      const stored = await db.query(`SELECT DISTINCT side FROM p2p_offers`);
+      expect(stored.map((row) => row.side)).toEqual([TRADE_SIDE.BUY]);
+      const events = await api(port, `/api/alerts/events?ruleId=${bid}`, { token: userToken });
+      expect(events.body.data.map((event: { value: number }) => event.value)).toEqual([0.99]);
+    });
+  });
+
+  it('should keep a stored ingestion run when its alerts cannot be evaluated', async () => {
+    const evaluatePair = AlertService.prototype.evaluatePair;
+    AlertService.prototype.evaluatePair = () => Promise.reject(new Error('Alert rules are unavailable'));
+    try {
+      await withTestServer(async (port) => {
+        const fetched = await api(port, '/api/p2p/fetch', { method: 'POST', body: {} });
+        expect(fetched.body.success).toBe(true);
+        expect(Number((await db.get(`SELECT COUNT(DISTINCT side) AS sides FROM p2p_offers`))?.sides)).toBe(2);
+      });
+    } finally {
+      AlertService.prototype.evaluatePair = evaluatePair;
+    }
+  });
+});
@@ -0,0 +1,151 @@
+import { afterAll, beforeAll, beforeEach, describe, it } from 'jsr:@std/testing/bdd';
+import { expect } from '@std/expect';
+import { P2POffer, P2POfferModel } from '../../../models/p2p_offer.model.ts';
+import { OfferPaymentModel } from '../../../models/payment_method.model.ts';
+import { PAYMENT_METHODS, TRADE_SIDE } from '../../../shared/constants.ts';
+import { clearCollection, clearP2PData, createUser, generateAccessToken, withTestServer } from '../../utils/utils.ts';
+import { user } from '../../fixtures/users.fixtures.ts';
+
+const p2pOfferModel = new P2POfferModel();
+const offerPaymentModel = new OfferPaymentModel();
+
+const HOUR = 60 * 60 * 1000;
+const MINUTE = 60 * 1000;
+
+let userToken: string;
+let nextOfferId = 1n;
+
+/**
+ * Store one snapshot of both book sides at `fetchTime`, every offer accepting TBC Bank
+ */
+const storeSnapshot = async (fetchTime: Date, book: { asks: number[]; bids: number[] }) => {
+  const offer = (side: number, price: number): P2POffer => ({
+    fetch_time: fetchTime,
+    exchange: 'bybit',
+    offer_id: nextOfferId++,
+    account_id: 1n,
+    user_id: 1n,
+    token_id: 'USDT',
+    currency_id: 'USD',
+    side,
+    price_type: 0,
+    price,
+    premium: 0,
+    last_quantity: 100,
+    total_quantity: 100,
+    frozen_quantity: 0,
+    executed_quantity: 0,
+    min_amount: 10,
+    max_amount: 1000,
+    status: 10,
+    is_online: true,
+    version: 1,
+    auth_status: 2,
+    user_type: 'PERSONAL',
+    payment_period: 15,
+    user_mask_id: 'mask',
+  });
+  const offers = [
+    ...book.asks.map((price) => offer(TRADE_SIDE.SELL, price)),
+    ...book.bids.map((price) => offer(TRADE_SIDE.BUY, price)),
+  ];
+
+  await p2pOfferModel.createMany(offers);
+  await offerPaymentModel.createMany(offers.map((item) => ({
+    fetch_time: fetchTime,
+    exchange: item.exchange,
+    offer_id: item.offer_id,
+    method_id: PAYMENT_METHODS.TBC_BANK,
+  })));
+};
+
+const candles = async (port: number, query: string = '') => {
+  const response = await fetch(`http://localhost:${port}/api/p2p/candles/USDT/USD${query}`, {
+    headers: { 'Authorization': `Bearer ${userToken}` },
+  });
+  return { status: response.status, body: await response.json() };
+};
+
+describe('Best price candles', () => {
+  // Three hours ago, on the hour: candles fall at base, base + 2h, with an empty hour in between
+  const base = Math.floor(Date.now() / HOUR) * HOUR - 3 * HOUR;
+
+  beforeAll(async () => {
+    await clearCollection('users');
+    userToken = await generateAccessToken(await createUser(user));
+  });
+
+  afterAll(async () => {
+    await clearCollection('users');
+  });
+
+  beforeEach(async () => {
+    await clearP2PData();
+    await storeSnapshot(new Date(base + 5 * MINUTE), { asks: [1.02, 1.03], bids: [0.99, 0.98] });
+    await storeSnapshot(new Date(base + 30 * MINUTE), { asks: [1.01], bids: [1.0] });
+    await storeSnapshot(new Date(base + 50 * MINUTE), { asks: [1.04], bids: [0.97] });
+    await storeSnapshot(new Date(base + 2 * HOUR + 10 * MINUTE), { asks: [1.05], bids: [0.995] });
+  });
+
+  it('should build OHLC candles of the best bid and ask', async () => {
+    await withTestServer(async (port) => {
+      const hourly = await candles(port);
+      expect(hourly.status).toBe(200);
+      expect(hourly.body.data.interval).toBe('1h');
+      expect(hourly.body.data.candles.length).toBe(2);
+
+      const [first, second] = hourly.body.data.candles;
+      expect(new Date(first.time_bucket).getTime()).toBe(base);
+      expect(first).toMatchObject({
+        bid_open: 0.99,
+        bid_high: 1.0,
+        bid_low: 0.97,
+        bid_close: 0.97,
+        ask_open: 1.02,
+        ask_high: 1.04,
+        ask_low: 1.01,
+        ask_close: 1.04,
+        snapshots: 6,
+        gap_filled: false,
+      });
+      expect(first.mid).toBeCloseTo(1.005);
+      expect(first.spread).toBeCloseTo(0.07);
+      expect(first.spread_pct).toBeCloseTo(0.07 / 0.97 * 100);
+      expect(second).toMatchObject({ bid_open: 0.995, bid_close: 0.995, ask_open: 1.05, ask_close: 1.05, snapshots: 2 });
+
+      const fiveMinutes = await candles(port, '?interval=5m');
+      expect(fiveMinutes.body.data.candles.length).toBe(4);
+    });
+  });
+
+  it('should carry the previous close through empty intervals with fill', async () => {
+    await withTestServer(async (port) => {
+      const filled = await candles(port, '?interval=1h&fill=true');
+      const series = filled.body.data.candles;
+
+      expect(series.map((candle: { time_bucket: string }) => new Date(candle.time_bucket).getTime()))
+        .toEqual([base, base + HOUR, base + 2 * HOUR, base + 3 * HOUR]);
+      expect(series.map((candle: { gap_filled: boolean }) => candle.gap_filled)).toEqual([false, true, false, true]);
+      expect(series[1]).toMatchObject({
+        bid_open: 0.97,
+        bid_high: 0.97,
+        bid_low: 0.97,
+        bid_close: 0.97,
+        ask_open: 1.04,
+        ask_close: 1.04,
+        snapshots: 0,
+      });
+      expect(series[3]).toMatchObject({ bid_close: 0.995, ask_close: 1.05 });
+    });
+  });
+
+  it('should reject unsupported intervals', async () => {
+    await withTestServer(async (port) => {
+      const unsupported = await candles(port, '?interval=7m');
+      expect(unsupported.status).toBe(400);
+
+      const injected = await candles(port, `?interval=${encodeURIComponent("1h') --")}`);
+      expect(injected.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, it } from 'jsr:@std/testing/bdd';
+import { expect } from '@std/expect';
+import db from '../../../db/db.ts';
+import configs from '../../../config/config.ts';
+import { P2PService } from '../../../services/p2p.service.ts';
+import { ExchangeHttpClient, registerExchangeAdapter } from '../../../services/exchanges/index.ts';
+import { TRADE_SIDE } from '../../../shared/constants.ts';
+import { clearP2PData } from '../../utils/utils.ts';
+import { buildBybitOffer, FakeBybitServer } from '../../utils/fake-bybit.server.ts';
+import type { BybitP2POffer } from '../../../services/exchanges/bybit.adapter.ts';
+
+const fake = new FakeBybitServer();
+const p2pService = new P2PService();
+
+const sweep = () => p2pService.sweepAndStoreP2PData('USDT', 'USD', TRADE_SIDE.SELL, ['165'], 10, 5, 'bybit');
+
+/**
+ * Round floats so averages compare equal whatever order the rows were summed in
+ */
+const rounded = (value: unknown) =>
+  JSON.parse(JSON.stringify(value, (_key, v) => typeof v === 'number' ? Number(v.toFixed(10)) : typeof v === 'bigint' ? Number(v) : v));
+
+const count = async (table: string) => Number((await db.get(`SELECT COUNT(*) AS count FROM ${table}`))?.count);
+
+/**
+ * Book whose offers change over ticks: B reprices at tick 2, C leaves at tick 3 and returns at tick 4
+ */
+const changingBook = () => {
+  const [a, b, c] = [1.01, 1.02, 1.03].map((price) =>
+    buildBybitOffer({ side: TRADE_SIDE.SELL, price: price.toFixed(4) })
+  );
+  return (tick: number): BybitP2POffer[] => [
+    a,
+    tick >= 2 ? { ...b, price: '1.0250' } : b,
+    ...(tick === 3 ? [] : [c]),
+  ];
+};
+
+/**
+ * Run the same five sweeps and read back what analytics see
+ */
+const runScenario = async () => {
+  fake.setBook('USDT', 'USD', TRADE_SIDE.SELL, changingBook());
+  const fetchTimes: Date[] = [];
+  for (let tick = 0; tick < 5; tick++) {
+    fetchTimes.push((await sweep()).fetch_time);
+    fake.advance();
+  }
+
+  const rows = await db.query(`
+    SELECT price, total_quantity, COUNT(*) AS snapshots
+    FROM offer_snapshots GROUP BY price, total_quantity ORDER BY price
+  `);
+  const payments = await db.query(`SELECT method_id, COUNT(*) AS rows FROM offer_payment_snapshots GROUP BY method_id`);
+  // The window runs up to the moment the summary is taken, which differs between modes
+  const { from: _from, to: _to, previous: { from: _previousFrom, to: _previousTo, ...previous }, ...summary } =
+    await p2pService.getMarketSummary('USDT', 'USD');
+  const aggregations = await p2pService.getPriceAggregations('USDT', 'USD', TRADE_SIDE.SELL, 'hour');
+
+  return {
+    fetchTimes,
+    rows: rows.map((row) => ({ ...row, snapshots: Number(row.snapshots) })),
+    payments: payments.map((row) => ({ ...row, rows: Number(row.rows) })),
+    summary: { ...summary, previous },
+    aggregations: aggregations.map(({ time_bucket: _bucket, ...rest }) => rest),
+  };
+};
+
+describe('CDC storage mode', () => {
+  beforeAll(() => {
+    fake.start();
+  });
+
+  afterAll(async () => {
+    await fake.stop();
+  });
+
+  beforeEach(async () => {
+    fake.reset();
+    await clearP2PData();
+    registerExchangeAdapter(fake.adapter(new ExchangeHttpClient({ baseDelayMs: 5, maxDelayMs: 50, ratePerSec: 1000, burst: 100 })));
+  });
+
+  afterEach(() => {
+    configs.storageMode = 'snapshot';
+  });
+
+  it('should only store a version when a tracked field changes', async () => {
+    configs.storageMode = 'cdc';
+
+    await runScenario();
+
+    expect(await count('p2p_offers')).toBe(0);
+    expect(await count('offer_heartbeats')).toBe(5);
+    // A, B, C, then B repriced and C back after leaving the book
+    expect(await count('offer_versions')).toBe(5);
+    expect(await count('offer_snapshots')).toBe(14);
+  });
+
+  it('should answer analytics queries the same way as snapshot mode', async () => {
+    const snapshot = await runScenario();
+    expect(await count('p2p_offers')).toBe(14);
+
+    fake.reset();
+    await clearP2PData();
+    configs.storageMode = 'cdc';
+    const cdc = await runScenario();
+
+    expect(rounded(cdc.rows)).toEqual(rounded(snapshot.rows));
+    expect(rounded(cdc.payments)).toEqual(rounded(snapshot.payments));
+    expect(rounded(cdc.summary)).toEqual(rounded(snapshot.summary));
+    expect(rounded(cdc.aggregations)).toEqual(rounded(snapshot.aggregations));
+  });
+
+  it('should reconstruct the book at any timestamp', async () => {
+    configs.storageMode = 'cdc';
+    const { fetchTimes } = await runScenario();
+
+    const bookAt = async (at: Date) =>
+      (await db.query(`SELECT price FROM offer_book_at(?::TIMESTAMP) ORDER BY price`, [at])).map((row) => row.price);
+
+    expect(await bookAt(new Date(fetchTimes[0].getTime() - 1))).toEqual([]);
+    expect(await bookAt(fetchTimes[1])).toEqual([1.01, 1.02, 1.03]);
+    expect(await bookAt(new Date(fetchTimes[3].getTime() + 1))).toEqual([1.01, 1.025]);
+    expect(await bookAt(fetchTimes[4])).toEqual([1.01, 1.025, 1.03]);
+  });
+
+  it('should refuse to reprocess the archive', async () => {
+    configs.storageMode = 'cdc';
+    await sweep();
+
+    const error = await p2pService.reprocessArchive({ from: new Date(0), to: new Date() }).catch((e) => e);
+
+    expect(error.status).toBe(400);
+  });
+});
@@ -0,0 +1,170 @@
+import { beforeEach, describe, it } from 'jsr:@std/testing/bdd';
+import { expect } from '@std/expect';
+import db from '../../../db/db.ts';
+import { P2PService } from '../../../services/p2p.service.ts';
+import {
+  ExchangeAdapter,
+  ExchangeError,
+  ExchangePage,
+  ExchangePageRequest,
+  ExchangeResponse,
+  getExchangeAdapter,
+  getExchangeNames,
+  registerExchangeAdapter,
+} from '../../../services/exchanges/index.ts';
+import { BybitAdapter, BybitP2PResponse } from '../../../services/exchanges/bybit.adapter.ts';
+import { TRADE_SIDE } from '../../../shared/constants.ts';
+import { clearP2PData } from '../../utils/utils.ts';
+import recording from '../../fixtures/bybit/online-items.usdt-usd.json' with { type: 'json' };
+
+/**
+ * Payload of a made-up venue that names its fields differently from Bybit
+ */
+interface MemoryVenueBook {
+  total: number;
+  ads: Array<{ id: number; merchant: number; name: string; token: string; fiat: string; side: number; price: number; methods: number[] }>;
+}
+
+/**
+ * In-memory venue: serves a fixed book without HTTP and keeps the page requests it was asked for
+ */
+class MemoryVenueAdapter implements ExchangeAdapter<MemoryVenueBook> {
+  readonly name = 'memory';
+  readonly requests: ExchangePageRequest[] = [];
+
+  constructor(private readonly book: MemoryVenueBook) {}
+
+  fetchPage(request: ExchangePageRequest): Promise<ExchangeResponse<MemoryVenueBook>> {
+    this.requests.push(request);
+    return Promise.resolve({ status: 200, body: this.book });
+  }
+
+  normalize(raw: MemoryVenueBook): ExchangePage {
+    return {
+      total: raw.total,
+      offers: raw.ads.map((ad) => ({
+        offer: {
+          exchange: this.name,
+          offer_id: BigInt(ad.id),
+          account_id: BigInt(ad.merchant),
+          user_id: BigInt(ad.merchant),
+          token_id: ad.token,
+          currency_id: ad.fiat,
+          side: ad.side,
+          price_type: 0,
+          price: ad.price,
+          premium: 0,
+          last_quantity: 100,
+          total_quantity: 100,
+          frozen_quantity: 0,
+          executed_quantity: 0,
+          min_amount: 10,
+          max_amount: 100,
+          status: 10,
+          is_online: true,
+          version: 1,
+          auth_status: 0,
+          user_type: 'PERSONAL',
+          payment_period: 15,
+          user_mask_id: `mask-${ad.merchant}`,
+        },
+        user: { exchange: this.name, user_id: BigInt(ad.merchant), nick_name: ad.name },
+        payments: ad.methods,
+        assets: [ad.token, ad.fiat],
+      })),
+    };
+  }
+}
+
+const p2pService = new P2PService();
+
+describe('Exchange adapters', () => {
+  beforeEach(async () => {
+    await clearP2PData();
+  });
+
+  it('should normalize a Bybit page into exchange-neutral records', () => {
+    const page = new BybitAdapter().normalize(recording as unknown as BybitP2PResponse);
+
+    expect(page.total).toBe(6);
+    expect(page.offers.length).toBe(6);
+    const [first] = page.offers;
+    expect(first.offer).toMatchObject({
+      exchange: 'bybit',
+      offer_id: 1000001n,
+      user_id: 3000001n,
+      token_id: 'USDT',
+      currency_id: 'USD',
+      side: TRADE_SIDE.BUY,
+      price: 1.002,
+      last_quantity: 1250.5,
+      total_quantity: 3000,
+      min_amount: 10,
+      max_amount: 1250,
+      is_online: true,
+      user_type: 'PERSONAL',
+      payment_period: 15,
+      user_mask_id: 'mask-1',
+    });
+    expect(first.user).toMatchObject({ exchange: 'bybit', user_id: 3000001n, nick_name: 'NorthDesk', blocked: false });
+    expect(first.payments).toEqual([165]);
+    expect(first.preferences).toMatchObject({ is_kyc: true, order_finish_30d: 50, complete_rate_30d: 98 });
+    expect(first.symbol?.token_id).toBe('USDT');
+    expect(first.assets).toEqual(['USDT', 'USD']);
+  });
+
+  it('should raise Bybit error payloads as exchange errors', () => {
+    const error = (() => {
+      try {
+        new BybitAdapter().normalize({ ret_code: 912100027, ret_msg: 'Invalid params', result: null } as unknown as BybitP2PResponse);
+      } catch (e) {
+        return e;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(ExchangeError);
+    expect(error).toMatchObject({ code: 912100027, venueMessage: 'Invalid params', retryable: false });
+  });
+
+  it('should store the offers of any registered venue under its name', async () => {
+    const adapter = new MemoryVenueAdapter({
+      total: 2,
+      ads: [
+        { id: 91001, merchant: 92001, name: 'memory-one', token: 'USDT', fiat: 'GEL', side: TRADE_SIDE.BUY, price: 2.71, methods: [165] },
+        { id: 91002, merchant: 92002, name: 'memory-two', token: 'USDT', fiat: 'GEL', side: TRADE_SIDE.BUY, price: 2.69, methods: [165, 14] },
+      ],
+    });
+    registerExchangeAdapter(adapter);
+
+    const result = await p2pService.sweepAndStoreP2PData('USDT', 'GEL', TRADE_SIDE.BUY, ['165'], 10, 5, 'memory');
+
+    expect(getExchangeNames()).toContain('memory');
+    expect(result).toMatchObject({ pages: 1, offers: 2, total: 2 });
+    expect(adapter.requests).toEqual([
+      { tokenId: 'USDT', currencyId: 'GEL', side: TRADE_SIDE.BUY, payment: ['165'], size: 10, page: 1 },
+    ]);
+    const offers = await db.query(`SELECT exchange, offer_id, price FROM p2p_offers ORDER BY offer_id`);
+    expect(offers).toEqual([
+      { exchange: 'memory', offer_id: 91001n, price: 2.71 },
+      { exchange: 'memory', offer_id: 91002n, price: 2.69 },
+    ]);
+    const users = await db.query(`SELECT exchange, nick_name FROM p2p_users WHERE user_id IN (92001, 92002) ORDER BY user_id`);
+    expect(users).toEqual([
+      { exchange: 'memory', nick_name: 'memory-one' },
+      { exchange: 'memory', nick_name: 'memory-two' },
+    ]);
+    const payments = await db.query(`SELECT DISTINCT exchange FROM offer_payments`);
+    expect(payments).toEqual([{ exchange: 'memory' }]);
+  });
+
+  it('should refuse venues without a registered adapter', async () => {
+    expect(() => getExchangeAdapter('nowhere')).toThrow('Unsupported exchange: nowhere');
+
+    await expect(p2pService.sweepAndStoreP2PData('USDT', 'USD', TRADE_SIDE.BUY, ['165'], 10, 5, 'nowhere'))
+      .rejects.toThrow('Unsupported exchange: nowhere');
+
+    const [run] = await p2pService.getFetchRuns();
+    expect(run).toMatchObject({ exchange: 'nowhere', status: 'error', error: 'Unsupported exchange: nowhere' });
+    expect(Number((await db.get(`SELECT COUNT(*) AS count FROM p2p_offers`))?.count)).toBe(0);
+  });
+});
@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, it } from 'jsr:@std/testing/bdd';
+import { expect } from '@std/expect';
+import { ExchangeError, ExchangeHttpClient } from '../../../services/exchanges/index.ts';
+import { BybitAdapter } from '../../../services/exchanges/bybit.adapter.ts';
+
+/**
+ * Local fake venue: every request is answered by the next scripted response
+ */
+let server: Deno.HttpServer<Deno.NetAddr>;
+let baseUrl: string;
+let url: string;
+let responses: Array<() => Response>;
+let hits: number;
+
+const ok = (body: unknown = { ret_code: 0, ret_msg: 'SUCCESS', result: { count: 0, items: [] } }) => () =>
+  Response.json(body);
+const status = (code: number, headers: Record<string, string> = {}) => () =>
+  new Response('error', { status: code, headers });
+
+const fastClient = (options = {}) =>
+  new ExchangeHttpClient({
+    maxRetries: 3,
+    baseDelayMs: 5,
+    maxDelayMs: 50,
+    ratePerSec: 1000,
+    burst: 100,
+    breakerThreshold: 2,
+    breakerCooldownMs: 100,
+    ...options,
+  });
+
+const post = (client: ExchangeHttpClient, key = 'bybit:USDT/USD') =>
+  client.request(url, { method: 'POST', body: '{}' }, { key });
+
+describe('Exchange HTTP client', () => {
+  beforeEach(() => {
+    responses = [];
+    hits = 0;
+    server = Deno.serve({ port: 0, onListen: () => {} }, async (request) => {
+      await request.body?.cancel();
+      hits++;
+      return (responses.shift() || ok())();
+    });
+    baseUrl = `http://localhost:${server.addr.port}`;
+    url = `${baseUrl}/fiat/otc/item/online`;
+  });
+
+  afterEach(async () => {
+    await server.shutdown();
+  });
+
+  it('should retry 5xx responses with backoff until the venue recovers', async () => {
+    responses = [status(502), status(503), ok()];
+
+    const response = await post(fastClient());
+
+    expect(response.status).toBe(200);
+    expect(hits).toBe(3);
+  });
+
+  it('should honour Retry-After on HTTP 429', async () => {
+    responses = [status(429, { 'Retry-After': '0.05' }), ok()];
+
+    const startedAt = Date.now();
+    await post(fastClient({ baseDelayMs: 0 }));
+
+    expect(hits).toBe(2);
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(45);
+  });
+
+  it('should give up after the retry budget is spent', async () => {
+    responses = [status(500), status(500), status(500)];
+
+    const error = await post(fastClient({ maxRetries: 2 })).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ExchangeError);
+    expect(error.status).toBe(500);
+    expect(hits).toBe(3);
+  });
+
+  it('should not retry client errors', async () => {
+    responses = [status(400)];
+
+    const error = await post(fastClient()).catch((e) => e);
+
+    expect(error.status).toBe(400);
+    expect(hits).toBe(1);
+  });
+
+  it('should retry rate-limited Bybit payloads and surface other error codes', async () => {
+    const adapter = new BybitAdapter(fastClient(), baseUrl);
+    const request = { tokenId: 'USDT', currencyId: 'USD', side: 1, payment: ['165'], size: 10, page: 1 };
+
+    responses = [ok({ ret_code: 10006, ret_msg: 'Too many visits', result: null }), ok()];
+    const response = await adapter.fetchPage(request);
+    expect(response.body.ret_code).toBe(0);
+    expect(hits).toBe(2);
+
+    responses = [ok({ ret_code: 912100027, ret_msg: 'Invalid params', result: null })];
+    const error = await adapter.fetchPage(request).catch((e) => e);
+    expect(error.code).toBe(912100027);
+    expect(error.venueMessage).toBe('Invalid params');
+    expect(hits).toBe(3);
+  });
+
+  it('should open the circuit of a market after repeated failures and close it after a successful trial', async () => {
+    const client = fastClient({ maxRetries: 0 });
+    responses = [status(500), status(500)];
+
+    await post(client).catch(() => {});
+    await post(client).catch(() => {});
+    const rejected = await post(client).catch((e) => e);
+
+    expect(rejected.message).toContain('Circuit open');
+    expect(hits).toBe(2);
+    expect(client.getState().circuits[0].state).toBe('open');
+
+    // Other markets are not paused
+    await post(client, 'bybit:USDT/EUR');
+    expect(hits).toBe(3);
+
+    await new Promise((resolve) => setTimeout(resolve, 120));
+    await post(client);
+    expect(client.getState().circuits.find((c) => c.key === 'bybit:USDT/USD')?.state).toBe('closed');
+  });
+
+  it('should pace requests with the token bucket', async () => {
+    const client = fastClient({ ratePerSec: 20, burst: 1 });
+
+    const startedAt = Date.now();
+    await post(client);
+    await post(client);
+    await post(client);
+
+    expect(hits).toBe(3);
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(90);
+  });
+});
@@ -0,0 +1,124 @@
+import { afterAll, beforeAll, beforeEach, describe, it } from 'jsr:@std/testing/bdd';
+import { expect } from '@std/expect';
+import { P2PService } from '../../../services/p2p.service.ts';
+import { ExchangeHttpClient, registerExchangeAdapter } from '../../../services/exchanges/index.ts';
+import { TRADE_SIDE } from '../../../shared/constants.ts';
+import { api, clearCollection, clearP2PData, createUser, generateAccessToken, withTestServer } from '../../utils/utils.ts';
+import { user } from '../../fixtures/users.fixtures.ts';
+import { evolvingBook, fakeBybitReplies, FakeBybitServer } from '../../utils/fake-bybit.server.ts';
+
+const fake = new FakeBybitServer();
+const p2pService = new P2PService();
+
+let userToken: string;
+
+const sweep = (side: number, marketId?: string) =>
+  p2pService.sweepAndStoreP2PData('USDT', 'USD', side, ['165'], 10, 5, 'bybit', marketId);
+
+describe('Fetch run ledger', () => {
+  beforeAll(async () => {
+    fake.start();
+    await clearCollection('users');
+    userToken = await generateAccessToken(await createUser(user));
+  });
+
+  afterAll(async () => {
+    await fake.stop();
+    await clearCollection('users');
+  });
+
+  beforeEach(async () => {
+    await clearP2PData();
+    fake.reset()
+      .setBook('USDT', 'USD', TRADE_SIDE.SELL, evolvingBook({
+        tokenId: 'USDT', currencyId: 'USD', side: TRADE_SIDE.SELL, count: 23, price: 1.01, step: 0.001,
+      }))
+      .setBook('USDT', 'USD', TRADE_SIDE.BUY, evolvingBook({
+        tokenId: 'USDT', currencyId: 'USD', side: TRADE_SIDE.BUY, count: 4, price: 1, step: -0.001,
+      }));
+    registerExchangeAdapter(fake.adapter(new ExchangeHttpClient({ baseDelayMs: 5, maxDelayMs: 50, ratePerSec: 1000, burst: 100 })));
+  });
+
+  it('should record one successful run per page with the venue reply and row counts', async () => {
+    const before = new Date();
+    await sweep(TRADE_SIDE.SELL, 'market-1');
+
+    const runs = (await p2pService.getFetchRuns()).sort((a, b) => a.page - b.page);
+    expect(runs.map((run) => [run.page, run.items_received, run.rows_inserted])).toEqual([[1, 10, 10], [2, 10, 10], [3, 3, 3]]);
+    for (const run of runs) {
+      expect(run).toMatchObject({
+        market_id: 'market-1',
+        exchange: 'bybit',
+        token_id: 'USDT',
+        currency_id: 'USD',
+        side: TRADE_SIDE.SELL,
+        status: 'success',
+        http_status: 200,
+        ret_code: 0,
+        ret_msg: 'SUCCESS',
+        error: null,
+      });
+      expect(run.started_at.getTime()).toBeGreaterThanOrEqual(before.getTime() - 1);
+      expect(run.finished_at.getTime()).toBeGreaterThanOrEqual(run.started_at.getTime());
+    }
+  });
+
+  it('should tell an empty market apart from a failed fetch', async () => {
+    fake.setBook('USDT', 'USD', TRADE_SIDE.BUY, evolvingBook({
+      tokenId: 'USDT', currencyId: 'USD', side: TRADE_SIDE.BUY, count: 4, price: 1, step: -0.001, payments: ['14'],
+    }));
+    await sweep(TRADE_SIDE.BUY);
+
+    const [empty] = await p2pService.getFetchRuns();
+    expect(empty).toMatchObject({ status: 'success', http_status: 200, ret_code: 0, items_received: 0, rows_inserted: 0, error: null });
+
+    await clearP2PData();
+    fake.enqueue(fakeBybitReplies.status(400));
+    await sweep(TRADE_SIDE.BUY).catch(() => undefined);
+
+    const [failed] = await p2pService.getFetchRuns();
+    expect(failed).toMatchObject({ page: 1, status: 'error', http_status: 400, ret_code: null, items_received: 0, rows_inserted: 0 });
+    expect(failed.error).toContain('400');
+  });
+
+  it('should filter runs by market, side, status and time range and page through them', async () => {
+    await sweep(TRADE_SIDE.BUY, 'market-buy');
+    const between = new Date();
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await sweep(TRADE_SIDE.SELL, 'market-sell');
+    fake.enqueue(fakeBybitReplies.retCode(912100027, 'Invalid params'));
+    await sweep(TRADE_SIDE.BUY, 'market-buy').catch(() => undefined);
+
+    expect((await p2pService.getFetchRuns()).length).toBe(5);
+    expect((await p2pService.getFetchRuns({ marketId: 'market-sell' })).map((run) => run.page).sort()).toEqual([1, 2, 3]);
+    expect((await p2pService.getFetchRuns({ side: TRADE_SIDE.BUY })).map((run) => run.status)).toEqual(['error', 'success']);
+    expect((await p2pService.getFetchRuns({ status: 'error' })).map((run) => run.ret_code)).toEqual([912100027]);
+    expect((await p2pService.getFetchRuns({ to: between })).map((run) => run.market_id)).toEqual(['market-buy']);
+    expect((await p2pService.getFetchRuns({ from: between, side: TRADE_SIDE.BUY })).map((run) => run.status)).toEqual(['error']);
+
+    const newest = await p2pService.getFetchRuns({ limit: 2 });
+    const rest = await p2pService.getFetchRuns({ limit: 10, offset: 2 });
+    expect(newest.length).toBe(2);
+    expect(rest.length).toBe(3);
+    expect(newest[0].status).toBe('error');
+    expect(rest[rest.length - 1].market_id).toBe('market-buy');
+  });
+
+  it('should serve the filtered ledger to authenticated users', async () => {
+    await sweep(TRADE_SIDE.SELL);
+    await sweep(TRADE_SIDE.BUY);
+
+    await withTestServer(async (port) => {
+      const unauthenticated = await api(port, '/api/p2p/runs');
+      expect(unauthenticated.status).toBe(401);
+
+      const runs = await api(port, `/api/p2p/runs?side=${TRADE_SIDE.SELL}&limit=2`, { token: userToken });
+      expect(runs.status).toBe(200);
+      expect(runs.body.data.length).toBe(2);
+      expect(runs.body.data.every((run: { side: number }) => run.side === TRADE_SIDE.SELL)).toBe(true);
+
+      const invalid = await api(port, '/api/p2p/runs?limit=0', { token: userToken });
+      expect(invalid.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { afterAll, beforeAll, beforeEach, describe, it } from 'jsr:@std/testing/bdd';
+import { expect } from '@std/expect';
+import { P2POffer, P2POfferModel } from '../../../models/p2p_offer.model.ts';
+import { OfferPaymentModel } from '../../../models/payment_method.model.ts';
+import { PAYMENT_METHODS, TRADE_SIDE } from '../../../shared/constants.ts';
+import { clearCollection, clearP2PData, createUser, generateAccessToken, withTestServer } from '../../utils/utils.ts';
+import { user } from '../../fixtures/users.fixtures.ts';
+
+const p2pOfferModel = new P2POfferModel();
+const offerPaymentModel = new OfferPaymentModel();
+
+const HOUR = 60 * 60 * 1000;
+const MINUTE = 60 * 1000;
+
+let userToken: string;
+
+interface BookOffer {
+  offerId: number;
+  userId: number;
+  side: number;
+  price: number;
+}
+
+/**
+ * Store one snapshot of USDT/USD at `fetchTime`, every offer listing 100 USDT and accepting TBC Bank
+ */
+const storeSnapshot = async (fetchTime: Date, book: BookOffer[]) => {
+  const offers = book.map(({ offerId, userId, side, price }): P2POffer => ({
+    fetch_time: fetchTime,
+    exchange: 'bybit',
+    offer_id: BigInt(offerId),
+    account_id: 1n,
+    user_id: BigInt(userId),
+    token_id: 'USDT',
+    currency_id: 'USD',
+    side,
+    price_type: 0,
+    price,
+    premium: 0,
+    last_quantity: 100,
+    total_quantity: 100,
+    frozen_quantity: 0,
+    executed_quantity: 0,
+    min_amount: 10,
+    max_amount: 1000,
+    status: 10,
+    is_online: true,
+    version: 1,
+    auth_status: 2,
+    user_type: 'PERSONAL',
+    payment_period: 15,
+    user_mask_id: 'mask',
+  }));
+
+  await p2pOfferModel.createMany(offers);
+  await offerPaymentModel.createMany(offers.map((item) => ({
+    fetch_time: fetchTime,
+    exchange: item.exchange,
+    offer_id: item.offer_id,
+    method_id: PAYMENT_METHODS.TBC_BANK,
+  })));
+};
+
+const summary = async (port: number, query: string = '') => {
+  const response = await fetch(`http://localhost:${port}/api/p2p/summary/USDT/USD${query}`, {
+    headers: { 'Authorization': `Bearer ${userToken}` },
+  });
+  return { status: response.status, body: await response.json() };
+};
+
+describe('Market summary', () => {
+  // Three hours ago, on the hour: the summarized hour starts at base, the previous one an hour earlier
+  const base = Math.floor(Date.now() / HOUR) * HOUR - 3 * HOUR;
+  const window = `?from=${new Date(base).toISOString()}&to=${new Date(base + HOUR).toISOString()}`;
+
+  // 100 asks from 10 merchants priced 1.000 to 1.099, and two bids from two merchants
+  const asks = Array.from({ length: 100 }, (_, i) => ({
+    offerId: i + 1,
+    userId: i % 10 + 1,
+    side: TRADE_SIDE.SELL,
+    price: Number((1 + i / 1000).toFixed(3)),
+  }));
+  const bids = (best: number) => [
+    { offerId: 1001, userId: 11, side: TRADE_SIDE.BUY, price: best - 0.01 },
+    { offerId: 1002, userId: 12, side: TRADE_SIDE.BUY, price: best },
+  ];
+
+  beforeAll(async () => {
+    await clearCollection('users');
+    userToken = await generateAccessToken(await createUser(user));
+  });
+
+  afterAll(async () => {
+    await clearCollection('users');
+  });
+
+  beforeEach(async () => {
+    await clearP2PData();
+  });
+
+  it('should aggregate every sighting in the window, past the old 1000 row cap', async () => {
+    // 11 snapshots of 102 offers: 1122 rows, asks fetched before the bids they are quoted with
+    for (let tick = 0; tick < 11; tick++) {
+      const fetchTime = base + (tick + 1) * MINUTE;
+      await storeSnapshot(new Date(fetchTime), asks);
+      await storeSnapshot(new Date(fetchTime + 10_000), bids(tick === 10 ? 0.99 : 0.98));
+    }
+    // Outside the window: a cheap ask after it must not become the best ask
+    await storeSnapshot(new Date(base + 90 * MINUTE), [{ offerId: 2001, userId: 20, side: TRADE_SIDE.SELL, price: 0.5 }]);
+
+    await withTestServer(async (port) => {
+      const response = await summary(port, window);
+      expect(response.status).toBe(200);
+
+      const { sell_offers: sell, buy_offers: buy } = response.body.data;
+      expect(sell).toMatchObject({ count: 100, merchants: 10, snapshots: 11, best_price: 1, min_price: 1, max_price: 1.099 });
+      expect(sell.median_price).toBeCloseTo(1.0495);
+      // Each price is seen 11 times: the 10th percentile falls between the 10th and 11th price
+      expect(sell.p10_price).toBeCloseTo(1.0099);
+      expect(sell.p90_price).toBeCloseTo(1.0891);
+      expect(sell.liquidity).toBe(10000);
+      expect(sell.liquidity_amount).toBeCloseTo(100 * 104.95);
+
+      expect(buy).toMatchObject({ count: 2, merchants: 2, snapshots: 11, best_price: 0.99, liquidity: 200 });
+
+      // The spread pairs the latest best bid with the best ask quoted with it
+      expect(response.body.data).toMatchObject({ best_bid: 0.99, best_ask: 1 });
+      expect(response.body.data.spread).toBeCloseTo(0.01 / 0.99 * 100);
+      expect(response.body.data.spread_abs).toBeCloseTo(0.01);
+      expect(response.body.data.avg_spread_pct).toBeCloseTo((10 * (0.02 / 0.98) + 0.01 / 0.99) / 11 * 100);
+    });
+  });
+
+  it('should compare the window with the one before it', async () => {
+    await storeSnapshot(new Date(base - 30 * MINUTE), asks.slice(0, 5).map((ask) => ({ ...ask, price: ask.price + 0.02 })));
+    await storeSnapshot(new Date(base - 30 * MINUTE + 10_000), bids(0.97));
+    await storeSnapshot(new Date(base + 30 * MINUTE), asks.slice(0, 10));
+    await storeSnapshot(new Date(base + 30 * MINUTE + 10_000), bids(0.98));
+
+    await withTestServer(async (port) => {
+      const { body } = await summary(port, window);
+
+      expect(body.data.previous).toMatchObject({
+        from: new Date(base - HOUR).toISOString(),
+        to: new Date(base).toISOString(),
+        best_bid: 0.97,
+        best_ask: 1.02,
+      });
+      expect(body.data.previous.sell_offers).toMatchObject({ count: 5, merchants: 5 });
+
+      expect(body.data.change.sell_offers).toMatchObject({ count: 5, merchants: 5, liquidity: 500 });
+      expect(body.data.change.sell_offers.best_price).toBeCloseTo(-0.02);
+      expect(body.data.change.buy_offers.best_price).toBeCloseTo(0.01);
+      expect(body.data.change.spread).toBeCloseTo(0.02 / 0.98 * 100 - 0.05 / 0.97 * 100);
+    });
+  });
+
+  it('should report empty sides and reject inverted windows', async () => {
+    await withTestServer(async (port) => {
+      const empty = await summary(port, window);
+      expect(empty.status).toBe(200);
+      expect(empty.body.data.sell_offers).toMatchObject({ count: 0, best_price: null, median_price: null, liquidity: 0 });
+      expect(empty.body.data).toMatchObject({ best_bid: null, best_ask: null, spread: null });
+      expect(empty.body.data.change.spread).toBe(null);
+
+      const inverted = await summary(port, `?from=${new Date(base + HOUR).toISOString()}&to=${new Date(base).toISOString()}`);
+      expect(inverted.status).toBe(400);
+
+      const unknown = await summary(port, '?hours=2');
+      expect(unknown.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { afterAll, beforeAll, beforeEach, describe, it } from 'jsr:@std/testing/bdd';
+import { expect } from '@std/expect';
+import { P2POffer, P2POfferModel } from '../../../models/p2p_offer.model.ts';
+import { OfferPaymentModel } from '../../../models/payment_method.model.ts';
+import { P2PUserModel } from '../../../models/p2p_user.model.ts';
+import { PAYMENT_METHODS, TRADE_SIDE } from '../../../shared/constants.ts';
+import { clearCollection, clearP2PData, createUser, generateAccessToken, withTestServer } from '../../utils/utils.ts';
+import { user } from '../../fixtures/users.fixtures.ts';
+
+const p2pOfferModel = new P2POfferModel();
+const offerPaymentModel = new OfferPaymentModel();
+const p2pUserModel = new P2PUserModel();
+
+const HOUR = 60 * 60 * 1000;
+const MINUTE = 60 * 1000;
+
+let userToken: string;
+
+interface BookOffer {
+  offerId: number;
+  userId: number;
+  side: number;
+  price: number;
+  quantity: number;
+}
+
+/**
+ * Store one snapshot of USDT/USD at `fetchTime`, every offer accepting TBC Bank
+ */
+const storeSnapshot = async (fetchTime: Date, book: BookOffer[]) => {
+  const offers = book.map(({ offerId, userId, side, price, quantity }): P2POffer => ({
+    fetch_time: fetchTime,
+    exchange: 'bybit',
+    offer_id: BigInt(offerId),
+    account_id: 1n,
+    user_id: BigInt(userId),
+    token_id: 'USDT',
+    currency_id: 'USD',
+    side,
+    price_type: 0,
+    price,
+    premium: 0,
+    last_quantity: quantity,
+    total_quantity: quantity,
+    frozen_quantity: 0,
+    executed_quantity: 0,
+    min_amount: 10,
+    max_amount: 1000,
+    status: 10,
+    is_online: true,
+    version: 1,
+    auth_status: 2,
+    user_type: 'PERSONAL',
+    payment_period: 15,
+    user_mask_id: 'mask',
+  }));
+
+  await p2pOfferModel.createMany(offers);
+  await offerPaymentModel.createMany(offers.map((item) => ({
+    fetch_time: fetchTime,
+    exchange: item.exchange,
+    offer_id: item.offer_id,
+    method_id: PAYMENT_METHODS.TBC_BANK,
+  })));
+};
+
+const leaderboard = async (port: number, query: string) => {
+  const response = await fetch(`http://localhost:${port}/api/p2p/merchants/leaderboard/USDT/USD${query}`, {
+    headers: { 'Authorization': `Bearer ${userToken}` },
+  });
+  return { status: response.status, body: await response.json() };
+};
+
+describe('Merchant leaderboard', () => {
+  // Three hours ago, on the hour: asks at base, base + 10m and base + 20m, summarized up to base + 30m
+  const base = Math.floor(Date.now() / HOUR) * HOUR - 3 * HOUR;
+  const window = `from=${new Date(base).toISOString()}&to=${new Date(base + 30 * MINUTE).toISOString()}&interval=10m`;
+
+  const ask = (offerId: number, userId: number, price: number, quantity: number) =>
+    ({ offerId, userId, side: TRADE_SIDE.SELL, price, quantity });
+
+  beforeAll(async () => {
+    await clearCollection('users');
+    await clearCollection('p2p_users');
+    userToken = await generateAccessToken(await createUser(user));
+    await p2pUserModel.upsertMany([1, 2, 3].map((id) => ({ exchange: 'bybit', user_id: BigInt(id), nick_name: `maker-${id}` })));
+  });
+
+  afterAll(async () => {
+    await clearCollection('users');
+    await clearCollection('p2p_users');
+  });
+
+  beforeEach(async () => {
+    await clearP2PData();
+
+    // maker-1 shares the best ask with maker-3, holds it alone, then reprices behind maker-2
+    await storeSnapshot(new Date(base), [ask(101, 1, 1.00, 100), ask(201, 2, 1.01, 300), ask(301, 3, 1.00, 100)]);
+    await storeSnapshot(new Date(base + 5_000), [{ offerId: 202, userId: 2, side: TRADE_SIDE.BUY, price: 0.99, quantity: 50 }]);
+    await storeSnapshot(new Date(base + 10 * MINUTE), [ask(101, 1, 1.00, 100), ask(201, 2, 1.01, 300)]);
+    await storeSnapshot(new Date(base + 20 * MINUTE), [ask(101, 1, 1.02, 100), ask(201, 2, 1.01, 300)]);
+    // After the window
+    await storeSnapshot(new Date(base + 40 * MINUTE), [ask(401, 3, 0.9, 1000)]);
+  });
+
+  it('should rank merchants by time at the best price, then listed quantity', async () => {
+    await withTestServer(async (port) => {
+      const response = await leaderboard(port, `?side=${TRADE_SIDE.SELL}&${window}`);
+      expect(response.status).toBe(200);
+
+      const entries = response.body.data.leaderboard;
+      expect(entries.map((entry: { user_id: string; rank: number }) => [entry.rank, entry.user_id]))
+        .toEqual([[1, '1'], [2, '2'], [3, '3']]);
+
+      const [first, second, third] = entries;
+      expect(first).toMatchObject({ nick_name: 'maker-1', ads: 1, snapshots: 3, best_snapshots: 2, time_at_best: 1200, reprices: 1 });
+      expect(first.time_at_best_share).toBeCloseTo(2 / 3);
+      expect(first.quantity_share).toBeCloseTo(300 / 1300);
+      // maker-2 and maker-3 held the best ask equally long; maker-2 listed more
+      expect(second).toMatchObject({ best_snapshots: 1, time_at_best: 600, reprices: 0, avg_quantity: 300 });
+      expect(second.quantity_share).toBeCloseTo(900 / 1300);
+      expect(third).toMatchObject({ best_snapshots: 1, time_at_best: 600, snapshots: 1 });
+    });
+  });
+
+  it('should measure concentration per interval and cover both sides by default', async () => {
+    await withTestServer(async (port) => {
+      const response = await leaderboard(port, `?${window}`);
+      expect(response.body.data).toMatchObject({ side: null, interval: '10m' });
+
+      const bids = response.body.data.leaderboard.filter((entry: { side: number }) => entry.side === TRADE_SIDE.BUY);
+      expect(bids.length).toBe(1);
+      expect(bids[0]).toMatchObject({ rank: 1, user_id: '2', time_at_best: 1795, quantity_share: 1 });
+
+      const asks = response.body.data.concentration.filter((bucket: { side: number }) => bucket.side === TRADE_SIDE.SELL);
+      expect(asks.length).toBe(3);
+      // 20/60/20 then 25/75 percent of the listed quantity
+      expect(asks[0]).toMatchObject({ merchants: 3, quantity: 500 });
+      expect(asks[0].hhi).toBeCloseTo(4400);
+      expect(asks[0].top5_share).toBeCloseTo(100);
+      expect(asks[1]).toMatchObject({ merchants: 2, quantity: 400 });
+      expect(asks[1].hhi).toBeCloseTo(6250);
+    });
+  });
+
+  it('should reject invalid windows and intervals', async () => {
+    await withTestServer(async (port) => {
+      const inverted = await leaderboard(port, `?from=${new Date(base).toISOString()}&to=${new Date(base - HOUR).toISOString()}`);
+      expect(inverted.status).toBe(400);
+
+      const weekly = await leaderboard(port, '?interval=1w');
+      expect(weekly.status).toBe(400);
+
+      const unwatched = await fetch(`http://localhost:${port}/api/p2p/merchants/leaderboard/BTC/XYZ`, {
+        headers: { 'Authorization': `Bearer ${userToken}` },
+      });
+      expect(unwatched.status).toBe(404);
+      await unwatched.body?.cancel();
+    });
+  });
+});
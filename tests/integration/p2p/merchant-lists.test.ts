@@ -0,0 +1,180 @@
+import { afterAll, beforeAll, beforeEach, describe, it } from 'jsr:@std/testing/bdd';
+import { expect } from '@std/expect';
+import { P2POffer, P2POfferModel } from '../../../models/p2p_offer.model.ts';
+import { OfferPaymentModel } from '../../../models/payment_method.model.ts';
+import { P2PUserModel } from '../../../models/p2p_user.model.ts';
+import { BookSnapshotModel, streamKey } from '../../../models/book_snapshot.model.ts';
+import { PAYMENT_METHODS, TRADE_SIDE } from '../../../shared/constants.ts';
+import { api, clearCollection, clearP2PData, createUser, generateAccessToken, withTestServer } from '../../utils/utils.ts';
+import { user } from '../../fixtures/users.fixtures.ts';
+
+const p2pOfferModel = new P2POfferModel();
+const offerPaymentModel = new OfferPaymentModel();
+const p2pUserModel = new P2PUserModel();
+const bookSnapshotModel = new BookSnapshotModel();
+
+let userToken: string;
+
+/**
+ * Store one snapshot of USDT/USD asks, one offer per merchant, every offer accepting TBC Bank
+ */
+const storeAsks = async (fetchTime: Date, asks: Array<{ userId: number; price: number }>) => {
+  const offers = asks.map(({ userId, price }): P2POffer => ({
+    fetch_time: fetchTime,
+    exchange: 'bybit',
+    offer_id: BigInt(userId * 100),
+    account_id: 1n,
+    user_id: BigInt(userId),
+    token_id: 'USDT',
+    currency_id: 'USD',
+    side: TRADE_SIDE.SELL,
+    price_type: 0,
+    price,
+    premium: 0,
+    last_quantity: 1000,
+    total_quantity: 1000,
+    frozen_quantity: 0,
+    executed_quantity: 0,
+    min_amount: 10,
+    max_amount: 1000,
+    status: 10,
+    is_online: true,
+    version: 1,
+    auth_status: 2,
+    user_type: 'PERSONAL',
+    payment_period: 15,
+    user_mask_id: 'mask',
+  }));
+
+  await p2pOfferModel.createMany(offers);
+  await offerPaymentModel.createMany(offers.map((item) => ({
+    fetch_time: fetchTime,
+    exchange: item.exchange,
+    offer_id: item.offer_id,
+    method_id: PAYMENT_METHODS.TBC_BANK,
+  })));
+  await bookSnapshotModel.create({
+    stream: streamKey('bybit', 'USDT', 'USD', TRADE_SIDE.SELL, [PAYMENT_METHODS.TBC_BANK]),
+    fetch_time: fetchTime,
+    exchange: 'bybit',
+    token_id: 'USDT',
+    currency_id: 'USD',
+    side: TRADE_SIDE.SELL,
+    offers: offers.length,
+  });
+};
+
+describe('Merchant lists', () => {
+  beforeAll(async () => {
+    await clearCollection('users');
+    await clearCollection('p2p_users');
+    userToken = await generateAccessToken(await createUser(user));
+    await p2pUserModel.upsertMany([
+      { exchange: 'bybit', user_id: 1n, nick_name: 'FastTrader' },
+      { exchange: 'bybit', user_id: 2n, nick_name: 'FastTrader Pro' },
+      { exchange: 'bybit', user_id: 3n, nick_name: 'slowpoke', blocked: true },
+    ]);
+  });
+
+  afterAll(async () => {
+    await clearCollection('users');
+    await clearCollection('p2p_users');
+    await clearCollection('user_merchants');
+  });
+
+  beforeEach(async () => {
+    await clearP2PData();
+    await clearCollection('user_merchants');
+    await storeAsks(new Date(Date.now() - 60_000), [
+      { userId: 1, price: 1.01 },
+      { userId: 2, price: 1.02 },
+      { userId: 3, price: 1.03 },
+    ]);
+  });
+
+  it('should keep each merchant on one list of the signed-in user', async () => {
+    await withTestServer(async (port) => {
+      const trusted = await api(port, '/api/me/merchants', {
+        method: 'POST',
+        token: userToken,
+        body: { merchantId: '2', list: 'trusted', note: 'quick releases' },
+      });
+      expect(trusted.status).toBe(201);
+      expect(trusted.body.data).toMatchObject({ merchant_id: '2', nick_name: 'FastTrader Pro', list: 'trusted', note: 'quick releases' });
+
+      // An exact nickname wins over partial matches, and the merchant moves between lists
+      await api(port, '/api/me/merchants', { method: 'POST', token: userToken, body: { nickname: 'fasttrader', list: 'trusted' } });
+      const moved = await api(port, '/api/me/merchants', {
+        method: 'POST',
+        token: userToken,
+        body: { nickname: 'FastTrader', list: 'avoided' },
+      });
+      expect(moved.body.data).toMatchObject({ merchant_id: '1', list: 'avoided', note: null });
+
+      const lists = await api(port, '/api/me/merchants', { token: userToken });
+      expect(lists.status).toBe(200);
+      expect(lists.body.data.trusted.map((entry: { merchant_id: string }) => entry.merchant_id)).toEqual(['2']);
+      expect(lists.body.data.avoided.map((entry: { merchant_id: string }) => entry.merchant_id)).toEqual(['1']);
+      expect(lists.body.data.blocked.map((entry: { user_id: string }) => entry.user_id)).toEqual(['3']);
+
+      const search = await api(port, '/api/me/merchants/search?nickname=Fast', { token: userToken });
+      expect(search.body.data.map((merchant: { user_id: string; list: string }) => [merchant.user_id, merchant.list]))
+        .toEqual([['1', 'avoided'], ['2', 'trusted']]);
+
+      const removed = await api(port, '/api/me/merchants/1', { method: 'DELETE', token: userToken });
+      expect(removed.status).toBe(204);
+      const again = await api(port, '/api/me/merchants/1', { method: 'DELETE', token: userToken });
+      expect(again.status).toBe(404);
+    });
+  });
+
+  it('should reject unknown, ambiguous and anonymous changes', async () => {
+    await withTestServer(async (port) => {
+      const unknown = await api(port, '/api/me/merchants', { method: 'POST', token: userToken, body: { merchantId: '99', list: 'trusted' } });
+      expect(unknown.status).toBe(404);
+
+      const ambiguous = await api(port, '/api/me/merchants', { method: 'POST', token: userToken, body: { nickname: 'Trader', list: 'trusted' } });
+      expect(ambiguous.status).toBe(400);
+
+      const missing = await api(port, '/api/me/merchants', { method: 'POST', token: userToken, body: { list: 'trusted' } });
+      expect(missing.status).toBe(400);
+
+      const invalid = await api(port, '/api/me/merchants', { method: 'POST', token: userToken, body: { merchantId: '1', list: 'blocked' } });
+      expect(invalid.status).toBe(400);
+
+      const anonymous = await api(port, '/api/me/merchants');
+      expect(anonymous.status).toBe(401);
+    });
+  });
+
+  it('should filter quotes, the book and offers by the signed-in user\'s lists', async () => {
+    await withTestServer(async (port) => {
+      await api(port, '/api/me/merchants', { method: 'POST', token: userToken, body: { merchantId: '1', list: 'avoided' } });
+      await api(port, '/api/me/merchants', { method: 'POST', token: userToken, body: { merchantId: '3', list: 'trusted' } });
+
+      const quote = await api(port, `/api/p2p/quote?token=USDT&currency=USD&side=${TRADE_SIDE.SELL}&amount=100&excludeAvoided=true`, {
+        token: userToken,
+      });
+      expect(quote.status).toBe(200);
+      expect(quote.body.data).toMatchObject({ best_price: 1.01, executable_price: 1.02, eligible: 2 });
+      expect(quote.body.data.excluded.merchant).toBe(1);
+
+      const book = await api(port, '/api/p2p/book/USDT/USD?excludeAvoided=true', { token: userToken });
+      expect(book.status).toBe(200);
+      expect(book.body.data.asks.levels.map((level: { user_id: string }) => level.user_id)).toEqual(['2', '3']);
+      expect(book.body.data.asks.levels[1].cumulative_quantity).toBe(2000);
+
+      const trusted = await api(port, '/api/p2p/book/USDT/USD?trustedOnly=true', { token: userToken });
+      expect(trusted.body.data.best_ask).toBe(1.03);
+
+      const offers = await api(port, '/api/p2p/offers?trustedOnly=true', { token: userToken });
+      expect(offers.body.data.map((offer: { user_id: string }) => offer.user_id)).toEqual(['3']);
+
+      // The book and offers stay public; only filtering by lists needs a user
+      const everyone = await api(port, '/api/p2p/book/USDT/USD');
+      expect(everyone.body.data.asks.levels.length).toBe(3);
+      const anonymous = await api(port, '/api/p2p/offers?excludeAvoided=true');
+      expect(anonymous.status).toBe(401);
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import { afterAll, beforeAll, beforeEach, describe, it } from 'jsr:@std/testing/bdd';
+import { expect } from '@std/expect';
+import { ExchangeHttpClient, registerExchangeAdapter } from '../../../services/exchanges/index.ts';
+import { TRADE_SIDE } from '../../../shared/constants.ts';
+import { api, clearCollection, clearP2PData, createUser, generateAccessToken, withTestServer } from '../../utils/utils.ts';
+import { user } from '../../fixtures/users.fixtures.ts';
+import { buildBybitOffer, FakeBybitServer } from '../../utils/fake-bybit.server.ts';
+import type { BybitP2POffer } from '../../../services/exchanges/bybit.adapter.ts';
+
+const fake = new FakeBybitServer();
+
+let userToken: string;
+
+const MERCHANT = '4000001';
+const RIVAL = '4000002';
+
+/**
+ * Offer of a merchant whose 30-day stats and online flag change over ticks
+ */
+const listing = (
+  side: number,
+  price: string,
+  merchant: { userId: string; nickName: string; isOnline: boolean; completeRate: string; orders: number },
+): BybitP2POffer => {
+  const base = buildBybitOffer({ side, price });
+  return {
+    ...base,
+    userId: merchant.userId,
+    nickName: merchant.nickName,
+    isOnline: merchant.isOnline,
+    tradingPreferenceSet: {
+      ...base.tradingPreferenceSet,
+      completeRateDay30: merchant.completeRate,
+      orderFinishNumberDay30: merchant.orders,
+    },
+  };
+};
+
+describe('Merchant profiles', () => {
+  // The merchant renames itself and improves its stats at tick 2, and is offline at tick 1;
+  // its best ask is always second behind the rival's
+  const [bestAsk, merchantAsk, thirdAsk, merchantHighAsk, merchantBid] = [
+    buildBybitOffer(), buildBybitOffer(), buildBybitOffer(), buildBybitOffer(), buildBybitOffer(),
+  ].map((offer) => offer.id);
+  const merchant = (tick: number) => ({
+    userId: MERCHANT,
+    nickName: tick >= 2 ? 'new-nick' : 'old-nick',
+    isOnline: tick !== 1,
+    completeRate: tick >= 2 ? '97' : '95',
+    orders: tick >= 2 ? 45 : 40,
+  });
+  const rival = (tick: number) => ({ userId: RIVAL, nickName: 'rival', isOnline: tick < 2, completeRate: '99', orders: 300 });
+  const asks = (tick: number) => [
+    { ...listing(TRADE_SIDE.SELL, '1.0000', rival(tick)), id: bestAsk },
+    { ...listing(TRADE_SIDE.SELL, '1.0100', merchant(tick)), id: merchantAsk },
+    { ...listing(TRADE_SIDE.SELL, '1.0200', rival(tick)), id: thirdAsk },
+    { ...listing(TRADE_SIDE.SELL, '1.0300', merchant(tick)), id: merchantHighAsk },
+  ];
+  const bids = (tick: number) => [{ ...listing(TRADE_SIDE.BUY, '0.9900', merchant(tick)), id: merchantBid }];
+
+  beforeAll(async () => {
+    fake.start();
+    await clearCollection('users');
+    await clearCollection('p2p_users');
+    userToken = await generateAccessToken(await createUser(user));
+  });
+
+  afterAll(async () => {
+    await fake.stop();
+    await clearCollection('users');
+    await clearCollection('p2p_users');
+  });
+
+  beforeEach(async () => {
+    await clearP2PData();
+    fake.reset()
+      .setBook('USDT', 'USD', TRADE_SIDE.SELL, asks)
+      .setBook('USDT', 'USD', TRADE_SIDE.BUY, bids);
+    registerExchangeAdapter(fake.adapter(new ExchangeHttpClient({ baseDelayMs: 5, maxDelayMs: 50, ratePerSec: 1000, burst: 100 })));
+  });
+
+  const fetchTicks = async (port: number, ticks: number) => {
+    for (let tick = 0; tick < ticks; tick++) {
+      await api(port, '/api/p2p/fetch', { method: 'POST', body: {} });
+      fake.advance();
+    }
+  };
+
+  it('should list merchants with their activity and latest reputation', async () => {
+    await withTestServer(async (port) => {
+      await fetchTicks(port, 3);
+
+      const list = await api(port, '/api/p2p/merchants', { token: userToken });
+      expect(list.status).toBe(200);
+      expect(list.body.data.map((row: { user_id: string }) => row.user_id)).toEqual([MERCHANT, RIVAL]);
+
+      const [profile] = list.body.data;
+      expect(profile).toMatchObject({
+        nick_name: 'new-nick',
+        ads: 3,
+        active_ads: 3,
+        markets: 1,
+        is_online: true,
+        complete_rate_30d: 97,
+        order_finish_30d: 45,
+      });
+      // Offline for all three offers of one tick out of three
+      expect(profile.online_ratio).toBeCloseTo(2 / 3);
+
+      const searched = await api(port, '/api/p2p/merchants?search=NEW', { token: userToken });
+      expect(searched.body.data.map((row: { user_id: string }) => row.user_id)).toEqual([MERCHANT]);
+
+      const offline = await api(port, '/api/p2p/merchants?online=false', { token: userToken });
+      expect(offline.body.data.map((row: { user_id: string }) => row.user_id)).toEqual([RIVAL]);
+
+      const otherPair = await api(port, '/api/p2p/merchants?currencyId=EUR', { token: userToken });
+      expect(otherPair.body.data).toEqual([]);
+    });
+  });
+
+  it('should build a merchant profile with nickname, reputation and price rank history', async () => {
+    await withTestServer(async (port) => {
+      await fetchTicks(port, 3);
+
+      const response = await api(port, `/api/p2p/merchants/${MERCHANT}`, { token: userToken });
+      expect(response.status).toBe(200);
+
+      const profile = response.body.data;
+      expect(profile).toMatchObject({ user_id: MERCHANT, exchange: 'bybit', nick_name: 'new-nick' });
+      expect(profile.nicknames.map((entry: { nick_name: string }) => entry.nick_name)).toEqual(['old-nick', 'new-nick']);
+      expect(profile.reputation[profile.reputation.length - 1]).toMatchObject({ order_finish_30d: 45, complete_rate_30d: 97 });
+
+      const [sell, buy] = profile.markets;
+      expect(sell).toMatchObject({
+        side: TRADE_SIDE.SELL,
+        ads: 2,
+        active_ads: 2,
+        snapshots: 3,
+        median_price_rank: 2,
+        best_price_rank: 2,
+        book_size: 4,
+      });
+      expect(sell.avg_price).toBeCloseTo(1.02);
+      expect(buy).toMatchObject({ side: TRADE_SIDE.BUY, ads: 1, snapshots: 3, best_price_rank: 1 });
+
+      const sightings = profile.online_hours.reduce((sum: number, hour: { sightings: number }) => sum + hour.sightings, 0);
+      expect(sightings).toBe(6);
+    });
+  });
+
+  it('should reject unknown merchants', async () => {
+    await withTestServer(async (port) => {
+      const unknown = await api(port, '/api/p2p/merchants/999', { token: userToken });
+      expect(unknown.status).toBe(404);
+
+      const malformed = await api(port, '/api/p2p/merchants/nick', { token: userToken });
+      expect(malformed.status).toBe(400);
+
+      const unauthenticated = await api(port, '/api/p2p/merchants');
+      expect(unauthenticated.status).toBe(401);
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { afterAll, beforeAll, beforeEach, describe, it } from 'jsr:@std/testing/bdd';
+import { expect } from '@std/expect';
+import { P2PService } from '../../../services/p2p.service.ts';
+import { ExchangeHttpClient, registerExchangeAdapter } from '../../../services/exchanges/index.ts';
+import { TRADE_SIDE } from '../../../shared/constants.ts';
+import { clearCollection, clearP2PData, createUser, generateAccessToken, withTestServer } from '../../utils/utils.ts';
+import { user } from '../../fixtures/users.fixtures.ts';
+import { buildBybitOffer, FakeBybitServer } from '../../utils/fake-bybit.server.ts';
+import type { BybitP2POffer } from '../../../services/exchanges/bybit.adapter.ts';
+
+const fake = new FakeBybitServer();
+const p2pService = new P2PService();
+
+let userToken: string;
+
+const sweep = () => p2pService.sweepAndStoreP2PData('USDT', 'USD', TRADE_SIDE.SELL, ['165'], 10, 5, 'bybit');
+
+const history = async (port: number, offerId: string, query: string = '') => {
+  const response = await fetch(`http://localhost:${port}/api/p2p/offers/${offerId}/history${query}`, {
+    headers: { 'Authorization': `Bearer ${userToken}` },
+  });
+  return { status: response.status, body: await response.json() };
+};
+
+describe('Offer lifecycle events', () => {
+  const [a, b, c] = [1.01, 1.02, 1.03].map((price) => buildBybitOffer({ side: TRADE_SIDE.SELL, price: price.toFixed(4) }));
+
+  /**
+   * B reprices at tick 1; A fills 100 and C goes offline at tick 2;
+   * C leaves and A raises its limit at tick 3; C comes back at tick 4
+   */
+  const book = (tick: number): BybitP2POffer[] => [
+    tick >= 3
+      ? { ...a, lastQuantity: '400', executedQuantity: '100', maxAmount: '8000', version: 2 }
+      : tick === 2
+      ? { ...a, lastQuantity: '400', executedQuantity: '100' }
+      : a,
+    tick >= 1 ? { ...b, price: '1.0150' } : b,
+    ...(tick === 3 ? [] : [tick === 2 ? { ...c, isOnline: false } : c]),
+  ];
+
+  beforeAll(async () => {
+    fake.start();
+    await clearCollection('users');
+    userToken = await generateAccessToken(await createUser(user));
+  });
+
+  afterAll(async () => {
+    await fake.stop();
+    await clearCollection('users');
+  });
+
+  beforeEach(async () => {
+    await clearP2PData();
+    fake.reset().setBook('USDT', 'USD', TRADE_SIDE.SELL, book);
+    registerExchangeAdapter(fake.adapter(new ExchangeHttpClient({ baseDelayMs: 5, maxDelayMs: 50, ratePerSec: 1000, burst: 100 })));
+    for (let tick = 0; tick < 5; tick++) {
+      await sweep();
+      fake.advance();
+    }
+  });
+
+  it('should record appearance, edits and disappearance of offers', async () => {
+    await withTestServer(async (port) => {
+      const offerA = await history(port, a.id);
+      expect(offerA.status).toBe(200);
+      expect(offerA.body.data.map((event: { type: string }) => event.type)).toEqual(['created', 'quantity_changed', 'edited']);
+      expect(offerA.body.data[1]).toMatchObject({
+        last_quantity: 400,
+        previous_last_quantity: 500,
+        executed_quantity: 100,
+        previous_executed_quantity: 0,
+      });
+      expect(offerA.body.data[2]).toMatchObject({ version: 2, previous_version: 1 });
+
+      const offerB = await history(port, b.id);
+      expect(offerB.body.data.map((event: { type: string }) => event.type)).toEqual(['created', 'price_changed']);
+      expect(offerB.body.data[1]).toMatchObject({ price: 1.015, previous_price: 1.02, offer_id: b.id, user_id: b.userId });
+
+      const offerC = await history(port, c.id);
+      expect(offerC.body.data.map((event: { type: string }) => event.type))
+        .toEqual(['created', 'went_offline', 'removed', 'reappeared']);
+      expect(offerC.body.data[3]).toMatchObject({ is_online: true, previous_version: 1 });
+    });
+  });
+
+  it('should filter the history by event type', async () => {
+    await withTestServer(async (port) => {
+      const removals = await history(port, c.id, '?types=removed,reappeared');
+      expect(removals.body.data.map((event: { type: string }) => event.type)).toEqual(['removed', 'reappeared']);
+
+      const limited = await history(port, c.id, '?limit=1');
+      expect(limited.body.data.map((event: { type: string }) => event.type)).toEqual(['created']);
+    });
+  });
+
+  it('should reject unknown offers and invalid filters', async () => {
+    await withTestServer(async (port) => {
+      const missing = await history(port, '42');
+      expect(missing.status).toBe(404);
+
+      const badType = await history(port, a.id, '?types=created,traded');
+      expect(badType.status).toBe(400);
+
+      const badId = await history(port, 'abc');
+      expect(badId.status).toBe(400);
+
+      const unauthenticated = await fetch(`http://localhost:${port}/api/p2p/offers/${a.id}/history`);
+      await unauthenticated.body?.cancel();
+      expect(unauthenticated.status).toBe(401);
+    });
+  });
+});
@@ -0,0 +1,222 @@
+import { beforeAll, afterAll, beforeEach, describe, it } from 'jsr:@std/testing/bdd';
+import { expect } from '@std/expect';
+import { P2POffer, P2POfferModel } from '../../../models/p2p_offer.model.ts';
+import { OfferPaymentModel } from '../../../models/payment_method.model.ts';
+import { WatchedMarketModel } from '../../../models/watched_market.model.ts';
+import { BookSnapshotModel, streamKey } from '../../../models/book_snapshot.model.ts';
+import { PAYMENT_METHODS, TRADE_SIDE } from '../../../shared/constants.ts';
+import { clearCollection, clearP2PData, withTestServer } from '../../utils/utils.ts';
+
+const p2pOfferModel = new P2POfferModel();
+const offerPaymentModel = new OfferPaymentModel();
+const bookSnapshotModel = new BookSnapshotModel();
+
+const MINUTE = 60 * 1000;
+
+let nextOfferId = 1n;
+
+/**
+ * Store one snapshot of a book side at `fetchTime` by the market stream sweeping `methods`, as [price, quantity]
+ * levels, every offer accepting `methods` unless its level lists the methods it accepts
+ */
+const storeSide = async (
+  fetchTime: Date,
+  side: number,
+  levels: Array<[number, number, number[]?]>,
+  methods: number[] = [PAYMENT_METHODS.TBC_BANK],
+) => {
+  const offers: P2POffer[] = levels.map(([price, quantity]) => ({
+    fetch_time: fetchTime,
+    exchange: 'bybit',
+    offer_id: nextOfferId++,
+    account_id: 1n,
+    user_id: 1n,
+    token_id: 'USDT',
+    currency_id: 'USD',
+    side,
+    price_type: 0,
+    price,
+    premium: 0,
+    last_quantity: quantity,
+    total_quantity: quantity,
+    frozen_quantity: 0,
+    executed_quantity: 0,
+    min_amount: 10,
+    max_amount: 1000,
+    status: 10,
+    is_online: true,
+    version: 1,
+    auth_status: 2,
+    user_type: 'PERSONAL',
+    payment_period: 15,
+    user_mask_id: 'mask',
+  }));
+
+  await p2pOfferModel.createMany(offers);
+  await offerPaymentModel.createMany(offers.flatMap((item, index) => (levels[index][2] ?? methods).map((methodId) => ({
+    fetch_time: fetchTime,
+    exchange: item.exchange,
+    offer_id: item.offer_id,
+    method_id: methodId,
+  }))));
+  await bookSnapshotModel.create({
+    stream: streamKey('bybit', 'USDT', 'USD', side, methods),
+    fetch_time: fetchTime,
+    exchange: 'bybit',
+    token_id: 'USDT',
+    currency_id: 'USD',
+    side,
+    offers: offers.length,
+  });
+};
+
+const book = async (port: number, query: string = '') => {
+  const response = await fetch(`http://localhost:${port}/api/p2p/book/USDT/USD${query}`);
+  return { status: response.status, body: await response.json() };
+};
+
+describe('Order book depth', () => {
+  const base = Math.floor(Date.now() / MINUTE) * MINUTE - 60 * MINUTE;
+  const at = (offset: number) => `?at=${new Date(base + offset).toISOString()}`;
+
+  beforeAll(async () => {
+    await clearCollection('users');
+  });
+
+  afterAll(async () => {
+    await clearCollection('users');
+  });
+
+  beforeEach(async () => {
+    await clearP2PData();
+    // Each side is fetched on its own, so bids land a few seconds after asks
+    await storeSide(new Date(base), TRADE_SIDE.SELL, [[1.03, 50], [1.01, 100], [1.02, 200]]);
+    await storeSide(new Date(base + 5000), TRADE_SIDE.BUY, [[0.98, 300], [0.99, 100]]);
+    await storeSide(new Date(base + 10 * MINUTE), TRADE_SIDE.SELL, [[1.05, 10]]);
+    await storeSide(new Date(base + 10 * MINUTE + 5000), TRADE_SIDE.BUY, [[0.97, 20]]);
+  });
+
+  it('should return both sides best price first with cumulative depth', async () => {
+    await withTestServer(async (port) => {
+      const earliest = await book(port, at(2 * MINUTE));
+      expect(earliest.status).toBe(200);
+      expect(earliest.body.data).toMatchObject({ best_bid: 0.99, best_ask: 1.01 });
+      expect(earliest.body.data.spread).toBeCloseTo(0.02);
+
+      const { asks, bids } = earliest.body.data;
+      expect(new Date(asks.fetch_time).getTime()).toBe(base);
+      expect(new Date(bids.fetch_time).getTime()).toBe(base + 5000);
+      expect(asks.levels.map((level: { price: number; cumulative_quantity: number }) => [level.price, level.cumulative_quantity]))
+        .toEqual([[1.01, 100], [1.02, 300], [1.03, 350]]);
+      expect(bids.levels.map((level: { price: number; cumulative_quantity: number }) => [level.price, level.cumulative_quantity]))
+        .toEqual([[0.99, 100], [0.98, 400]]);
+      expect(asks.total_quantity).toBe(350);
+      expect(bids.total_amount).toBeCloseTo(0.99 * 100 + 0.98 * 300);
+    });
+  });
+
+  it('should use the snapshot nearest to the requested time', async () => {
+    await withTestServer(async (port) => {
+      const later = await book(port, at(7 * MINUTE));
+      expect(later.body.data).toMatchObject({ best_bid: 0.97, best_ask: 1.05 });
+
+      const beforeFirst = await book(port, at(-MINUTE));
+      expect(beforeFirst.body.data).toMatchObject({ best_bid: 0.99, best_ask: 1.01 });
+
+      const latest = await book(port);
+      expect(new Date(latest.body.data.asks.fetch_time).getTime()).toBe(base + 10 * MINUTE);
+      expect(latest.body.data.asks.levels.length).toBe(1);
+    });
+  });
+
+  it('should serve the depth chart request the dashboard sends for its newest offer', async () => {
+    await withTestServer(async (port) => {
+      const offers = await fetch(`http://localhost:${port}/api/p2p/offers?limit=200&t=${Date.now()}`);
+      const [newest] = (await offers.json()).data;
+
+      const response = await fetch(`http://localhost:${port}/api/p2p/book/${newest.token_id}/${newest.currency_id}`, { cache: 'no-store' });
+      const depth = await response.json();
+      expect(response.status).toBe(200);
+      expect(depth.success).toBe(true);
+      expect(depth.data.asks.levels.length).toBe(1);
+      expect(depth.data.bids.levels.length).toBe(1);
+    });
+  });
+
+  it('should combine the latest snapshots of every watched market of the pair', async () => {
+    const watchedMarketModel = new WatchedMarketModel();
+    const bankTransfer = await watchedMarketModel.create({
+      exchange: 'bybit', token_id: 'USDT', currency_id: 'USD', sides: [TRADE_SIDE.SELL], payment_methods: [14],
+      page_depth: 1, poll_interval_sec: 60, enabled: true,
+    });
+    try {
+      // The TBC market is swept first; the later bank transfer sweep also returns an offer accepting both
+      await storeSide(new Date(base + 20 * MINUTE), TRADE_SIDE.SELL, [[1.04, 30]]);
+      await storeSide(new Date(base + 20 * MINUTE + 1000), TRADE_SIDE.SELL, [[1.06, 40], [1.045, 5, [14, PAYMENT_METHODS.TBC_BANK]]], [14]);
+
+      await withTestServer(async (port) => {
+        const { asks } = (await book(port)).body.data;
+        expect(asks.levels.map((level: { price: number; cumulative_quantity: number }) => [level.price, level.cumulative_quantity]))
+          .toEqual([[1.04, 30], [1.045, 35], [1.06, 75]]);
+        expect(new Date(asks.fetch_time).getTime()).toBe(base + 20 * MINUTE + 1000);
+
+        // Scoped to one market, only its stream's snapshot counts
+        const transfers = (await book(port, `?marketId=${bankTransfer.id}`)).body.data;
+        expect(transfers.asks.levels.map((level: { price: number }) => level.price)).toEqual([1.045, 1.06]);
+      });
+    } finally {
+      await watchedMarketModel.delete(bankTransfer.id);
+    }
+  });
+
+  it('should take the nearest snapshot of each overlapping market from its own stream', async () => {
+    const watchedMarketModel = new WatchedMarketModel();
+    const wide = await watchedMarketModel.create({
+      exchange: 'bybit', token_id: 'USDT', currency_id: 'USD', sides: [TRADE_SIDE.SELL], payment_methods: [14, PAYMENT_METHODS.TBC_BANK],
+      page_depth: 1, poll_interval_sec: 60, enabled: true,
+    });
+    try {
+      // The narrower TBC market is swept after the wide one, holding only offers the wide market also accepts
+      await storeSide(new Date(base + 20 * MINUTE), TRADE_SIDE.SELL, [[1.00, 10, [14]], [1.04, 30]], [14, PAYMENT_METHODS.TBC_BANK]);
+      await storeSide(new Date(base + 21 * MINUTE), TRADE_SIDE.SELL, [[1.045, 5]]);
+
+      await withTestServer(async (port) => {
+        const { asks } = (await book(port, at(21 * MINUTE))).body.data;
+        expect(asks.levels.map((level: { price: number }) => level.price)).toEqual([1, 1.04, 1.045]);
+      });
+    } finally {
+      await watchedMarketModel.delete(wide.id);
+    }
+  });
+
+  it('should leave out a market side whose nearest sweep came back empty', async () => {
+    await storeSide(new Date(base + 11 * MINUTE), TRADE_SIDE.SELL, []);
+
+    await withTestServer(async (port) => {
+      const emptied = (await book(port, at(12 * MINUTE))).body.data;
+      expect(emptied).toMatchObject({ best_bid: 0.97, best_ask: null });
+      expect(emptied.asks.levels).toEqual([]);
+    });
+  });
+
+  it('should only use snapshots within the lookback of the requested time', async () => {
+    await withTestServer(async (port) => {
+      const dayBefore = await book(port, at(-23 * 60 * MINUTE));
+      expect(dayBefore.body.data).toMatchObject({ best_bid: 0.99, best_ask: 1.01 });
+
+      const dayAfter = await book(port, at(25 * 60 * MINUTE));
+      expect(dayAfter.status).toBe(404);
+    });
+  });
+
+  it('should reject invalid book requests', async () => {
+    await withTestServer(async (port) => {
+      const badTime = await book(port, '?at=yesterday-ish');
+      expect(badTime.status).toBe(400);
+
+      const unwatched = await fetch(`http://localhost:${port}/api/p2p/book/BTC/USD`);
+      expect(unwatched.status).toBe(404);
+      await unwatched.body?.cancel();
+    });
+  });
+});
@@ -0,0 +1,209 @@
+import { afterAll, beforeAll, beforeEach, describe, it } from 'jsr:@std/testing/bdd';
+import { expect } from '@std/expect';
+import db from '../../../db/db.ts';
+import { P2PService } from '../../../services/p2p.service.ts';
+import { P2POfferModel } from '../../../models/p2p_offer.model.ts';
+import { P2PUserModel } from '../../../models/p2p_user.model.ts';
+import { ExchangeHttpClient, registerExchangeAdapter } from '../../../services/exchanges/index.ts';
+import { TRADE_SIDE } from '../../../shared/constants.ts';
+import { clearP2PData } from '../../utils/utils.ts';
+import { buildBybitOffer, evolvingBook, fakeBybitReplies, FakeBybitServer } from '../../utils/fake-bybit.server.ts';
+import recording from '../../fixtures/bybit/online-items.usdt-usd.json' with { type: 'json' };
+import type { BybitP2PResponse } from '../../../services/exchanges/bybit.adapter.ts';
+
+const fake = new FakeBybitServer();
+const p2pService = new P2PService();
+
+const sweep = (side: number, size = 10, maxPages = 5) =>
+  p2pService.sweepAndStoreP2PData('USDT', 'USD', side, ['165'], size, maxPages, 'bybit');
+
+const count = async (table: string) => Number((await db.get(`SELECT COUNT(*) AS count FROM ${table}`))?.count);
+
+describe('P2P ETL against the fake Bybit API', () => {
+  beforeAll(() => {
+    fake.start();
+  });
+
+  afterAll(async () => {
+    await fake.stop();
+  });
+
+  beforeEach(async () => {
+    fake.reset();
+    await clearP2PData();
+    // A fresh client per test keeps circuit state from leaking between tests
+    registerExchangeAdapter(fake.adapter(new ExchangeHttpClient({ baseDelayMs: 5, maxDelayMs: 50, ratePerSec: 1000, burst: 100 })));
+  });
+
+  it('should store a recorded book with the full offer mapping', async () => {
+    fake.loadRecording(recording as unknown as BybitP2PResponse);
+
+    const result = await sweep(TRADE_SIDE.BUY);
+
+    expect(result.offers).toBe(3);
+    expect(result.pages).toBe(1);
+    const offers = await db.query(`SELECT * FROM p2p_offers ORDER BY price DESC`);
+    expect(offers.map((offer) => offer.price)).toEqual([1.002, 0.998, 0.995]);
+    expect(offers[0].user_type).toBe('PERSONAL');
+    expect(offers[0].payment_period).toBe(15);
+    expect(await count('offer_payments')).toBe(4);
+    expect(await count('trading_preferences')).toBe(3);
+    expect(await count('raw_responses')).toBe(1);
+  });
+
+  it('should walk every page of a deep book into one snapshot', async () => {
+    fake.setBook('USDT', 'USD', TRADE_SIDE.SELL, evolvingBook({
+      tokenId: 'USDT', currencyId: 'USD', side: TRADE_SIDE.SELL, count: 23, price: 1.01, step: 0.001,
+    }));
+
+    const result = await sweep(TRADE_SIDE.SELL, 10);
+
+    expect(result).toMatchObject({ pages: 3, offers: 23, total: 23 });
+    expect(fake.requests.map((request) => request.page)).toEqual(['1', '2', '3']);
+    const [snapshot] = await db.query(`SELECT COUNT(DISTINCT fetch_time) AS snapshots, COUNT(*) AS offers FROM p2p_offers`);
+    expect(Number(snapshot.snapshots)).toBe(1);
+    expect(Number(snapshot.offers)).toBe(23);
+    const runs = await p2pService.getFetchRuns();
+    expect(runs.map((run) => run.status)).toEqual(['success', 'success', 'success']);
+  });
+
+  it('should stop a sweep at maxPages and keep the pages walked so far as one snapshot', async () => {
+    fake.setBook('USDT', 'USD', TRADE_SIDE.BUY, evolvingBook({
+      tokenId: 'USDT', currencyId: 'USD', side: TRADE_SIDE.BUY, count: 35, price: 1, step: -0.001,
+    }));
+
+    const result = await sweep(TRADE_SIDE.BUY, 10, 2);
+
+    expect(result).toMatchObject({ pages: 2, offers: 20, total: 35 });
+    expect(fake.requests.map((request) => [request.page, request.size])).toEqual([['1', '10'], ['2', '10']]);
+    const snapshots = await db.query(`SELECT fetch_time, COUNT(*) AS offers FROM p2p_offers GROUP BY fetch_time`);
+    expect(snapshots.length).toBe(1);
+    expect((snapshots[0].fetch_time as Date).getTime()).toBe(result.fetch_time.getTime());
+    expect(Number(snapshots[0].offers)).toBe(20);
+  });
+
+  it('should keep the first sighting of an offer pushed onto the next page mid-sweep', async () => {
+    const offers = evolvingBook({
+      tokenId: 'USDT', currencyId: 'USD', side: TRADE_SIDE.SELL, count: 15, price: 1.01, step: 0.001,
+    })(0);
+    const newcomer = buildBybitOffer({ side: TRADE_SIDE.SELL, price: '1.0050' });
+    // A better offer appears between the two page requests and pushes the tenth offer onto page 2
+    fake.setBook('USDT', 'USD', TRADE_SIDE.SELL, (tick) => tick === 0 ? offers : [newcomer, ...offers]);
+    fake.enqueue(fakeBybitReplies.book(), () => {
+      fake.advance();
+    });
+
+    const result = await sweep(TRADE_SIDE.SELL, 10);
+
+    expect(result).toMatchObject({ pages: 2, offers: 15, total: 16 });
+    const [stored] = await db.query(`SELECT COUNT(*) AS rows, COUNT(DISTINCT offer_id) AS offers FROM p2p_offers`);
+    expect(Number(stored.rows)).toBe(15);
+    expect(Number(stored.offers)).toBe(15);
+    const runs = await p2pService.getFetchRuns();
+    expect(runs.map((run) => [run.page, run.items_received, run.rows_inserted])).toEqual([[2, 6, 5], [1, 10, 10]]);
+  });
+
+  it('should only serve offers accepting the requested payment methods', async () => {
+    fake.setBook('USDT', 'USD', TRADE_SIDE.BUY, evolvingBook({
+      tokenId: 'USDT', currencyId: 'USD', side: TRADE_SIDE.BUY, count: 4, price: 1, step: -0.001, payments: ['14'],
+    }));
+
+    const result = await sweep(TRADE_SIDE.BUY);
+
+    expect(result.offers).toBe(0);
+    expect(await count('p2p_offers')).toBe(0);
+  });
+
+  it('should retry rate-limited requests and keep the snapshot', async () => {
+    fake.loadRecording(recording as unknown as BybitP2PResponse);
+    fake.enqueue(fakeBybitReplies.rateLimited(0), fakeBybitReplies.status(503));
+
+    const result = await sweep(TRADE_SIDE.SELL);
+
+    expect(result.offers).toBe(3);
+    expect(fake.requests.length).toBe(3);
+    expect(await count('p2p_offers')).toBe(3);
+  });
+
+  it('should record venue errors in the run ledger without storing rows', async () => {
+    fake.enqueue(fakeBybitReplies.retCode(912100027, 'Invalid params'));
+
+    const error = await sweep(TRADE_SIDE.BUY).catch((e) => e);
+
+    expect(error.code).toBe(912100027);
+    const [run] = await p2pService.getFetchRuns();
+    expect(run).toMatchObject({ status: 'error', http_status: 200, ret_code: 912100027, ret_msg: 'Invalid params' });
+    expect(await count('p2p_offers')).toBe(0);
+  });
+
+  it('should reject malformed payloads', async () => {
+    fake.enqueue(fakeBybitReplies.malformed());
+
+    await expect(sweep(TRADE_SIDE.BUY)).rejects.toThrow();
+
+    const [run] = await p2pService.getFetchRuns();
+    expect(run.status).toBe('error');
+    expect(await count('p2p_offers')).toBe(0);
+    expect(await count('raw_responses')).toBe(0);
+  });
+
+  it('should discard a sweep whose later page fails', async () => {
+    fake.setBook('USDT', 'USD', TRADE_SIDE.SELL, evolvingBook({
+      tokenId: 'USDT', currencyId: 'USD', side: TRADE_SIDE.SELL, count: 15, price: 1.01, step: 0.001,
+    }));
+    fake.enqueue(fakeBybitReplies.book(), fakeBybitReplies.status(400));
+
+    const error = await sweep(TRADE_SIDE.SELL, 10).catch((e) => e);
+
+    expect(error.status).toBe(400);
+    expect(await count('p2p_offers')).toBe(0);
+    const runs = await p2pService.getFetchRuns();
+    expect(runs.map((run) => [run.page, run.status, run.rows_inserted])).toEqual([[2, 'error', 0], [1, 'error', 0]]);
+  });
+
+  it('should capture evolving prices as separate snapshots', async () => {
+    fake.setBook('USDT', 'USD', TRADE_SIDE.BUY, evolvingBook({
+      tokenId: 'USDT', currencyId: 'USD', side: TRADE_SIDE.BUY, count: 3, price: 1, step: -0.01, drift: 0.005,
+    }));
+
+    await sweep(TRADE_SIDE.BUY);
+    fake.advance(2);
+    await sweep(TRADE_SIDE.BUY);
+
+    const snapshots = await db.query(`
+      SELECT fetch_time, MAX(price) AS best FROM p2p_offers GROUP BY fetch_time ORDER BY fetch_time
+    `);
+    expect(snapshots.map((snapshot) => snapshot.best)).toEqual([1, 1.01]);
+  });
+
+  it('should keep offers and merchants of two exchanges with the same IDs apart', async () => {
+    // A second venue answering with the same offer and user IDs under other nicknames
+    const mirror = new FakeBybitServer();
+    mirror.start();
+    try {
+      const renamed = structuredClone(recording) as unknown as BybitP2PResponse;
+      renamed.result?.items.forEach((item) => item.nickName = `mirror-${item.nickName}`);
+      mirror.loadRecording(renamed);
+      fake.loadRecording(recording as unknown as BybitP2PResponse);
+      const client = new ExchangeHttpClient({ baseDelayMs: 5, maxDelayMs: 50, ratePerSec: 1000, burst: 100 });
+      registerExchangeAdapter(Object.assign(mirror.adapter(client), { name: 'mirror' }));
+
+      await sweep(TRADE_SIDE.BUY);
+      await p2pService.sweepAndStoreP2PData('USDT', 'USD', TRADE_SIDE.BUY, ['165'], 10, 5, 'mirror');
+
+      const users = await db.query(`SELECT exchange FROM p2p_users WHERE user_id IN (3000001, 3000002, 3000003)`);
+      expect(users.map((user) => user.exchange).sort()).toEqual(['bybit', 'bybit', 'bybit', 'mirror', 'mirror', 'mirror']);
+      expect(await count('offer_payments')).toBe(8);
+      expect(await count('trading_preferences')).toBe(6);
+      expect((await new P2PUserModel().getById(3000001n, 'mirror'))?.nick_name).toBe('mirror-NorthDesk');
+      expect((await new P2PUserModel().getById(3000001n))?.nick_name).toBe('NorthDesk');
+
+      const book = await new P2POfferModel().getLatestSnapshotOffers({
+        exchange: 'bybit', tokenId: 'USDT', currencyId: 'USD', side: TRADE_SIDE.BUY, paymentMethodSets: [[165]], lookbackHours: 1,
+      });
+      expect(book.map((offer) => offer.nick_name)).toEqual(['NorthDesk', 'TbilisiOTC', 'quick_usd']);
+    } finally {
+      await mirror.stop();
+    }
+  });
+});
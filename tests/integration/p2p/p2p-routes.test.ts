@@ -0,0 +1,193 @@
+import { afterAll, beforeAll, beforeEach, describe, it } from 'jsr:@std/testing/bdd';
+import { expect } from '@std/expect';
+import { ExchangeHttpClient, registerExchangeAdapter } from '../../../services/exchanges/index.ts';
+import { TRADE_SIDE } from '../../../shared/constants.ts';
+import configs from '../../../config/config.ts';
+import {
+  api,
+  clearCollection,
+  clearP2PData,
+  createUser,
+  generateAccessToken,
+  withTestServer,
+} from '../../utils/utils.ts';
+import { admin, user } from '../../fixtures/users.fixtures.ts';
+import { evolvingBook, fakeBybitReplies, FakeBybitServer } from '../../utils/fake-bybit.server.ts';
+
+const fake = new FakeBybitServer();
+
+let adminToken: string;
+let userToken: string;
+
+describe('P2P endpoints against the fake Bybit API', () => {
+  beforeAll(async () => {
+    fake.start();
+    await clearCollection('users');
+    adminToken = await generateAccessToken(await createUser(admin));
+    userToken = await generateAccessToken(await createUser(user));
+  });
+
+  afterAll(async () => {
+    await fake.stop();
+    await clearCollection('users');
+  });
+
+  beforeEach(async () => {
+    await clearP2PData();
+    fake.reset()
+      .setBook('USDT', 'USD', TRADE_SIDE.BUY, evolvingBook({
+        tokenId: 'USDT', currencyId: 'USD', side: TRADE_SIDE.BUY, count: 5, price: 1.0, step: -0.002, drift: 0.001,
+      }))
+      .setBook('USDT', 'USD', TRADE_SIDE.SELL, evolvingBook({
+        tokenId: 'USDT', currencyId: 'USD', side: TRADE_SIDE.SELL, count: 5, price: 1.01, step: 0.002, drift: 0.001,
+      }));
+    registerExchangeAdapter(fake.adapter(new ExchangeHttpClient({ baseDelayMs: 5, maxDelayMs: 50, ratePerSec: 1000, burst: 100 })));
+  });
+
+  it('should fetch the watched markets and serve the stored offers', async () => {
+    await withTestServer(async (port) => {
+      const fetched = await api(port, '/api/p2p/fetch', { method: 'POST', body: {} });
+      expect(fetched.status).toBe(200);
+
+      const offers = await api(port, '/api/p2p/offers?limit=50');
+      expect(offers.status).toBe(200);
+      expect(offers.body.data.length).toBe(10);
+    });
+  });
+
+  it('should reject unbounded fetch requests and cap sweeps at the configured depth', async () => {
+    await withTestServer(async (port) => {
+      for (const body of [{ maxPages: 0 }, { maxPages: 1.5 }, { size: 0 }, { size: 1000 }, { pages: 3 }]) {
+        const rejected = await api(port, '/api/p2p/fetch', { method: 'POST', body });
+        expect(rejected.status).toBe(400);
+      }
+      const notANumber = await api(port, '/api/p2p/fetch?maxPages=all');
+      expect(notANumber.status).toBe(400);
+      expect(fake.requests.length).toBe(0);
+
+      fake.setBook('USDT', 'USD', TRADE_SIDE.SELL, evolvingBook({
+        tokenId: 'USDT', currencyId: 'USD', side: TRADE_SIDE.SELL, count: (configs.sweepMaxPages + 5) * 10, price: 1.01, step: 0.0001,
+      }));
+      const capped = await api(port, '/api/p2p/fetch', { method: 'POST', body: { maxPages: 1000, size: 10 } });
+      expect(capped.status).toBe(200);
+      expect(capped.body.data[0].sides[TRADE_SIDE.SELL].pages).toBe(configs.sweepMaxPages);
+    });
+  });
+
+  it('should summarise and aggregate the fetched book for authenticated users', async () => {
+    await withTestServer(async (port) => {
+      await api(port, '/api/p2p/fetch', { method: 'POST', body: {} });
+
+      const summary = await api(port, '/api/p2p/summary/USDT/USD', { token: userToken });
+      expect(summary.status).toBe(200);
+      expect(summary.body.data.buy_offers.count).toBe(5);
+      expect(summary.body.data.buy_offers.max_price).toBe(1);
+      expect(summary.body.data.sell_offers.min_price).toBe(1.01);
+
+      const aggregations = await api(port, `/api/p2p/aggregations/USDT/USD?side=${TRADE_SIDE.SELL}&interval=hour`, { token: userToken });
+      expect(aggregations.status).toBe(200);
+      expect(aggregations.body.data.length).toBeGreaterThan(0);
+    });
+  });
+
+  it('should bucket aggregations by spec and reject unsupported intervals', async () => {
+    await withTestServer(async (port) => {
+      await api(port, '/api/p2p/fetch', { method: 'POST', body: {} });
+      const aggregations = (query: string) => api(port, `/api/p2p/aggregations/USDT/USD?side=${TRADE_SIDE.SELL}${query}`, { token: userToken });
+
+      for (const query of ['', '&interval=5m', '&interval=15m', '&interval=4h', '&interval=1d']) {
+        const bucketed = await aggregations(query);
+        expect(bucketed.status).toBe(200);
+        expect(bucketed.body.data.length).toBe(1);
+        expect(Number(bucketed.body.data[0].offer_count)).toBe(5);
+      }
+
+      for (const interval of ['7m', '2d', '1y', "1 hour'); DROP TABLE p2p_offers; --"]) {
+        const rejected = await aggregations(`&interval=${encodeURIComponent(interval)}`);
+        expect(rejected.status).toBe(400);
+      }
+
+      const offers = await api(port, '/api/p2p/offers?limit=50');
+      expect(offers.body.data.length).toBe(10);
+    });
+  });
+
+  it('should require a token for protected endpoints', async () => {
+    await withTestServer(async (port) => {
+      const response = await api(port, '/api/p2p/summary/USDT/USD');
+      expect(response.status).toBe(401);
+    });
+  });
+
+  it('should record failed fetches in the run ledger', async () => {
+    await withTestServer(async (port) => {
+      fake.enqueue(fakeBybitReplies.retCode(912100027, 'Invalid params'));
+      await api(port, '/api/p2p/fetch', { method: 'POST', body: {} });
+
+      const runs = await api(port, '/api/p2p/runs?status=error', { token: userToken });
+      expect(runs.status).toBe(200);
+      expect(runs.body.data.length).toBe(1);
+      expect(runs.body.data[0].ret_code).toBe(912100027);
+
+      const invalid = await api(port, '/api/p2p/runs?status=unknown', { token: userToken });
+      expect(invalid.status).toBe(400);
+    });
+  });
+
+  it('should report the exchange client and scheduler state', async () => {
+    await withTestServer(async (port) => {
+      const health = await api(port, '/api/p2p/health');
+      expect(health.status).toBe(200);
+      expect(health.body.data.exchange_client.rate_limit).toBeDefined();
+
+      const scheduler = await api(port, '/api/p2p/scheduler', { token: userToken });
+      expect(scheduler.status).toBe(200);
+      expect(scheduler.body.data.running).toBe(false);
+    });
+  });
+
+  it('should let admins manage watched markets', async () => {
+    await withTestServer(async (port) => {
+      const forbidden = await api(port, '/api/p2p/markets', {
+        method: 'POST',
+        token: userToken,
+        body: { tokenId: 'USDT', currencyId: 'EUR', sides: [TRADE_SIDE.BUY], paymentMethods: [165] },
+      });
+      expect(forbidden.status).toBe(403);
+
+      const created = await api(port, '/api/p2p/markets', {
+        method: 'POST',
+        token: adminToken,
+        body: { tokenId: 'USDT', currencyId: 'EUR', sides: [TRADE_SIDE.BUY], paymentMethods: [165] },
+      });
+      expect(created.status).toBe(201);
+
+      const markets = await api(port, '/api/p2p/markets', { token: userToken });
+      expect(markets.body.data.some((market: { currency_id: string }) => market.currency_id === 'EUR')).toBe(true);
+
+      const removed = await api(port, `/api/p2p/markets/${created.body.data.id}`, { method: 'DELETE', token: adminToken });
+      expect(removed.status).toBe(204);
+    });
+  });
+
+  it('should rebuild snapshots from the raw response archive', async () => {
+    await withTestServer(async (port) => {
+      await api(port, '/api/p2p/fetch', { method: 'POST', body: {} });
+
+      const now = Date.now();
+      const reprocessed = await api(port, '/api/p2p/reprocess', {
+        method: 'POST',
+        token: adminToken,
+        body: { from: new Date(now - 60_000).toISOString(), to: new Date(now + 60_000).toISOString() },
+      });
+      expect(reprocessed.status).toBe(200);
+      expect(reprocessed.body.data).toMatchObject({ snapshots: 2, pages: 2, offers: 10 });
+
+      const offers = await api(port, '/api/p2p/offers?limit=50');
+      expect(offers.body.data.length).toBe(10);
+
+      const invalid = await api(port, '/api/p2p/reprocess', { method: 'POST', token: adminToken, body: { from: 'soon' } });
+      expect(invalid.status).toBe(400);
+    });
+  });
+});
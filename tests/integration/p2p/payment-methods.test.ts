@@ -0,0 +1,136 @@
+import { afterAll, beforeAll, beforeEach, describe, it } from 'jsr:@std/testing/bdd';
+import { expect } from '@std/expect';
+import { ExchangeHttpClient, registerExchangeAdapter } from '../../../services/exchanges/index.ts';
+import { PaymentMethodService } from '../../../services/payment_method.service.ts';
+import { P2PService } from '../../../services/p2p.service.ts';
+import { TRADE_SIDE } from '../../../shared/constants.ts';
+import {
+  api,
+  clearCollection,
+  clearP2PData,
+  createUser,
+  generateAccessToken,
+  withTestServer,
+} from '../../utils/utils.ts';
+import { admin, user } from '../../fixtures/users.fixtures.ts';
+import { evolvingBook, FakeBybitServer } from '../../utils/fake-bybit.server.ts';
+
+const fake = new FakeBybitServer();
+const paymentMethodService = new PaymentMethodService();
+const p2pService = new P2PService();
+
+let adminToken: string;
+let userToken: string;
+
+describe('Payment method catalog', () => {
+  beforeAll(async () => {
+    fake.start();
+    await clearCollection('users');
+    adminToken = await generateAccessToken(await createUser(admin));
+    userToken = await generateAccessToken(await createUser(user));
+  });
+
+  afterAll(async () => {
+    await fake.stop();
+    await clearCollection('users');
+  });
+
+  beforeEach(async () => {
+    await clearP2PData();
+    await clearCollection('payment_methods');
+    await paymentMethodService.syncFromSeed();
+    fake.reset()
+      .setBook('USDT', 'USD', TRADE_SIDE.BUY, evolvingBook({
+        tokenId: 'USDT', currencyId: 'USD', side: TRADE_SIDE.BUY, count: 3, price: 1.0, step: -0.002, payments: ['165', '4242'],
+      }))
+      .setPaymentMethods([
+        { paymentType: 165, paymentName: 'TBC Bank', currencies: ['GEL'] },
+        { paymentType: 4242, paymentName: 'Revolut', currencies: ['EUR', 'USD'] },
+        { paymentType: 4243, paymentName: 'Cash in Person', currencies: ['USD'] },
+      ]);
+    registerExchangeAdapter(fake.adapter(new ExchangeHttpClient({ baseDelayMs: 5, maxDelayMs: 50, ratePerSec: 1000, burst: 100 })));
+  });
+
+  it('should serve seeded names on offers, summaries and markets', async () => {
+    await withTestServer(async (port) => {
+      await api(port, '/api/p2p/fetch', { method: 'POST', body: {} });
+
+      const offers = await api(port, '/api/p2p/offers?limit=50');
+      expect(offers.body.data.length).toBe(3);
+      expect(offers.body.data[0].payment_methods).toEqual(['TBC Bank', 'Payment Method 4242']);
+
+      const summary = await api(port, '/api/p2p/summary/USDT/USD', { token: userToken });
+      expect(summary.body.data.payment_methods).toEqual([{ method_id: 165, name: 'TBC Bank', type: 'bank' }]);
+
+      const markets = await api(port, '/api/p2p/markets', { token: userToken });
+      expect(markets.body.data[0].payment_method_names).toEqual(['TBC Bank']);
+    });
+  });
+
+  it('should keep placeholders for unknown methods until a sync names them', async () => {
+    await p2pService.sweepAndStoreP2PData('USDT', 'USD', TRADE_SIDE.BUY, ['165'], 10, 1, 'bybit');
+    expect(await paymentMethodService.getPaymentMethod(4242)).toMatchObject({ name: 'Payment Method 4242', source: 'unknown' });
+
+    await withTestServer(async (port) => {
+      const forbidden = await api(port, '/api/p2p/payment-methods/sync', { method: 'POST', token: userToken, body: {} });
+      expect(forbidden.status).toBe(403);
+
+      const synced = await api(port, '/api/p2p/payment-methods/sync', { method: 'POST', token: adminToken, body: {} });
+      expect(synced.status).toBe(200);
+      expect(synced.body.data).toMatchObject({ source: 'exchange', exchange: 'bybit', received: 3 });
+
+      const revolut = await api(port, '/api/p2p/payment-methods/4242', { token: userToken });
+      expect(revolut.body.data).toMatchObject({ name: 'Revolut', currency_id: null, source: 'exchange' });
+
+      const cash = await api(port, '/api/p2p/payment-methods?type=cash', { token: userToken });
+      expect(cash.body.data.map((method: { method_id: number; currency_id: string }) => [method.method_id, method.currency_id]))
+        .toEqual([[4243, 'USD']]);
+
+      // Fields Bybit does not report keep their seeded values
+      const tbc = await api(port, '/api/p2p/payment-methods/165', { token: userToken });
+      expect(tbc.body.data).toMatchObject({ name: 'TBC Bank', type: 'bank', country: 'GE', currency_id: 'GEL' });
+    });
+  });
+
+  it('should keep admin overrides across syncs until they are released', async () => {
+    await withTestServer(async (port) => {
+      const forbidden = await api(port, '/api/p2p/payment-methods/165', { method: 'PUT', token: userToken, body: { name: 'TBC' } });
+      expect(forbidden.status).toBe(403);
+
+      const overridden = await api(port, '/api/p2p/payment-methods/165', {
+        method: 'PUT',
+        token: adminToken,
+        body: { name: 'TBC Bank (GE)', country: 'ge' },
+      });
+      expect(overridden.status).toBe(200);
+      expect(overridden.body.data).toMatchObject({ name: 'TBC Bank (GE)', country: 'GE', type: 'bank', source: 'admin' });
+
+      await api(port, '/api/p2p/payment-methods/sync', { method: 'POST', token: adminToken, body: {} });
+      await api(port, '/api/p2p/payment-methods/sync', { method: 'POST', token: adminToken, body: { source: 'seed' } });
+      await api(port, '/api/p2p/fetch', { method: 'POST', body: {} });
+
+      const offers = await api(port, '/api/p2p/offers?limit=1');
+      expect(offers.body.data[0].payment_methods).toContain('TBC Bank (GE)');
+
+      const released = await api(port, '/api/p2p/payment-methods/165/override', { method: 'DELETE', token: adminToken });
+      expect(released.status).toBe(200);
+      expect(released.body.data).toMatchObject({ name: 'TBC Bank', source: 'seed' });
+    });
+  });
+
+  it('should reject invalid catalog requests', async () => {
+    await withTestServer(async (port) => {
+      const unknownType = await api(port, '/api/p2p/payment-methods?type=crypto', { token: userToken });
+      expect(unknownType.status).toBe(400);
+
+      const missing = await api(port, '/api/p2p/payment-methods/999999', { token: userToken });
+      expect(missing.status).toBe(404);
+
+      const unnamed = await api(port, '/api/p2p/payment-methods/999999', { method: 'PUT', token: adminToken, body: { type: 'bank' } });
+      expect(unnamed.status).toBe(400);
+
+      const unauthenticated = await api(port, '/api/p2p/payment-methods');
+      expect(unauthenticated.status).toBe(401);
+    });
+  });
+});
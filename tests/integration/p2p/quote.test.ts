@@ -0,0 +1,160 @@
+import { afterAll, beforeAll, beforeEach, describe, it } from 'jsr:@std/testing/bdd';
+import { expect } from '@std/expect';
+import { ExchangeHttpClient, registerExchangeAdapter } from '../../../services/exchanges/index.ts';
+import { P2PService } from '../../../services/p2p.service.ts';
+import { MarketService } from '../../../services/market.service.ts';
+import { TRADE_SIDE } from '../../../shared/constants.ts';
+import { api, clearCollection, clearP2PData, createUser, generateAccessToken, withTestServer } from '../../utils/utils.ts';
+import { user } from '../../fixtures/users.fixtures.ts';
+import { buildBybitOffer, FakeBybitServer } from '../../utils/fake-bybit.server.ts';
+import type { BybitP2POffer } from '../../../services/exchanges/bybit.adapter.ts';
+
+const fake = new FakeBybitServer();
+const p2pService = new P2PService();
+const marketService = new MarketService();
+
+let userToken: string;
+
+/**
+ * SELL offer with limits in USD and merchant stats
+ */
+const offer = (
+  price: string,
+  limits: { min: string; max: string; quantity: string },
+  merchant: { completeRate?: string; isKyc?: number } = {},
+): BybitP2POffer => {
+  const base = buildBybitOffer({ side: TRADE_SIDE.SELL, price });
+  return {
+    ...base,
+    minAmount: limits.min,
+    maxAmount: limits.max,
+    lastQuantity: limits.quantity,
+    quantity: limits.quantity,
+    tradingPreferenceSet: {
+      ...base.tradingPreferenceSet,
+      completeRateDay30: merchant.completeRate ?? base.tradingPreferenceSet.completeRateDay30,
+      isKyc: merchant.isKyc ?? base.tradingPreferenceSet.isKyc,
+    },
+  };
+};
+
+describe('Amount-aware quotes', () => {
+  const book = [
+    offer('1.0100', { min: '10', max: '1000', quantity: '10000' }),
+    offer('1.0200', { min: '100', max: '10000', quantity: '2000' }),
+    offer('1.0300', { min: '100', max: '10000', quantity: '10000' }, { completeRate: '90' }),
+    offer('1.0400', { min: '100', max: '20000', quantity: '10000' }, { completeRate: '99' }),
+    offer('1.0500', { min: '100', max: '20000', quantity: '10000' }, { completeRate: '99', isKyc: 0 }),
+  ];
+  const quote = (port: number, query: string) =>
+    api(port, `/api/p2p/quote?token=USDT&currency=USD&side=${TRADE_SIDE.SELL}&amount=5000${query}`, { token: userToken });
+
+  beforeAll(async () => {
+    fake.start();
+    await clearCollection('users');
+    userToken = await generateAccessToken(await createUser(user));
+  });
+
+  afterAll(async () => {
+    await fake.stop();
+    await clearCollection('users');
+  });
+
+  beforeEach(async () => {
+    await clearP2PData();
+    fake.reset()
+      .setBook('USDT', 'USD', TRADE_SIDE.SELL, book)
+      .setBook('USDT', 'USD', TRADE_SIDE.BUY, []);
+    registerExchangeAdapter(fake.adapter(new ExchangeHttpClient({ baseDelayMs: 5, maxDelayMs: 50, ratePerSec: 1000, burst: 100 })));
+  });
+
+  it('should quote the best executable price within order limits and liquidity', async () => {
+    await withTestServer(async (port) => {
+      await api(port, '/api/p2p/fetch', { method: 'POST', body: {} });
+
+      const quoted = await quote(port, '');
+      expect(quoted.status).toBe(200);
+      expect(quoted.body.data).toMatchObject({
+        amount: 5000,
+        best_price: 1.01,
+        executable_price: 1.03,
+        offers: 5,
+        eligible: 3,
+        excluded: { merchant: 0, limits: 1, liquidity: 1, completion_rate: 0, orders: 0, kyc: 0 },
+      });
+      expect(quoted.body.data.slippage).toBeCloseTo(0.02);
+      expect(quoted.body.data.slippage_pct).toBeCloseTo(0.02 / 1.01 * 100);
+      expect(quoted.body.data.quantity).toBeCloseTo(5000 / 1.03);
+      expect(quoted.body.data.merchants.map((merchant: { offer_id: string }) => merchant.offer_id))
+        .toEqual([book[2].id, book[3].id, book[4].id]);
+      expect(quoted.body.data.merchants[0]).toMatchObject({ nick_name: book[2].nickName, complete_rate_30d: 90 });
+    });
+  });
+
+  it('should apply merchant completion rate and KYC preferences', async () => {
+    await withTestServer(async (port) => {
+      await api(port, '/api/p2p/fetch', { method: 'POST', body: {} });
+
+      const reliable = await quote(port, '&minCompletionRate=95');
+      expect(reliable.body.data).toMatchObject({ executable_price: 1.04, eligible: 2 });
+      expect(reliable.body.data.excluded.completion_rate).toBe(1);
+
+      const verified = await quote(port, '&minCompletionRate=95&requireKyc=true&limit=1');
+      expect(verified.body.data).toMatchObject({ executable_price: 1.04, eligible: 1 });
+      expect(verified.body.data.excluded.kyc).toBe(1);
+      expect(verified.body.data.merchants.length).toBe(1);
+
+      const unfillable = await quote(port, '&minOrders=1000');
+      expect(unfillable.status).toBe(200);
+      expect(unfillable.body.data).toMatchObject({ executable_price: null, slippage: null, eligible: 0, merchants: [] });
+    });
+  });
+
+  it('should quote every overlapping market from the latest snapshot of its own stream', async () => {
+    const tbc = offer('1.0100', { min: '10', max: '10000', quantity: '10000' });
+    const transfer = { ...offer('1.0000', { min: '10', max: '10000', quantity: '10000' }), payments: ['14'] };
+    fake.setBook('USDT', 'USD', TRADE_SIDE.SELL, [tbc, transfer]);
+    const wide = await marketService.createMarket({
+      tokenId: 'USDT', currencyId: 'USD', sides: [TRADE_SIDE.SELL], paymentMethods: [14, 165], pollIntervalSec: 60,
+    });
+    try {
+      await p2pService.sweepAndStoreP2PData('USDT', 'USD', TRADE_SIDE.SELL, ['14', '165'], 10, 5, 'bybit', wide.id);
+      // The later sweep of the narrower market only holds offers the wide market's snapshot also holds
+      await p2pService.sweepAndStoreP2PData('USDT', 'USD', TRADE_SIDE.SELL, ['165'], 10, 5, 'bybit');
+
+      await withTestServer(async (port) => {
+        const quoted = await quote(port, '');
+        expect(quoted.status).toBe(200);
+        expect(quoted.body.data).toMatchObject({ best_price: 1, executable_price: 1, offers: 2 });
+      });
+    } finally {
+      await marketService.removeMarket(wide.id);
+    }
+  });
+
+  it('should stop quoting a book whose latest sweep came back empty', async () => {
+    await p2pService.sweepAndStoreP2PData('USDT', 'USD', TRADE_SIDE.SELL, ['165'], 10, 5, 'bybit');
+    fake.setBook('USDT', 'USD', TRADE_SIDE.SELL, []);
+    await p2pService.sweepAndStoreP2PData('USDT', 'USD', TRADE_SIDE.SELL, ['165'], 10, 5, 'bybit');
+
+    await withTestServer(async (port) => {
+      const quoted = await quote(port, '');
+      expect(quoted.status).toBe(404);
+    });
+  });
+
+  it('should reject incomplete quote requests', async () => {
+    await withTestServer(async (port) => {
+      await api(port, '/api/p2p/fetch', { method: 'POST', body: {} });
+
+      const noAmount = await api(port, `/api/p2p/quote?token=USDT&currency=USD&side=${TRADE_SIDE.SELL}`, { token: userToken });
+      expect(noAmount.status).toBe(400);
+
+      const emptySide = await api(port, `/api/p2p/quote?token=USDT&currency=USD&side=${TRADE_SIDE.BUY}&amount=100`, { token: userToken });
+      expect(emptySide.status).toBe(404);
+
+      const unauthenticated = await api(port, `/api/p2p/quote?token=USDT&currency=USD&side=${TRADE_SIDE.SELL}&amount=100`);
+      expect(unauthenticated.status).toBe(401);
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { afterAll, beforeAll, beforeEach, describe, it } from 'jsr:@std/testing/bdd';
+import { expect } from '@std/expect';
+import db from '../../../db/db.ts';
+import { P2PService } from '../../../services/p2p.service.ts';
+import { ExchangeHttpClient, registerExchangeAdapter } from '../../../services/exchanges/index.ts';
+import CompressionHelper from '../../../helpers/compression.helper.ts';
+import { TRADE_SIDE } from '../../../shared/constants.ts';
+import { clearP2PData } from '../../utils/utils.ts';
+import { buildBybitOffer, evolvingBook, fakeBybitReplies, FakeBybitServer } from '../../utils/fake-bybit.server.ts';
+import type { BybitP2PResponse } from '../../../services/exchanges/bybit.adapter.ts';
+
+const fake = new FakeBybitServer();
+const p2pService = new P2PService();
+
+const sweep = () => p2pService.sweepAndStoreP2PData('USDT', 'USD', TRADE_SIDE.SELL, ['165'], 10, 5, 'bybit', 'market-1');
+
+/**
+ * Stored offers of a snapshot, as compared before and after reprocessing
+ */
+const storedOffers = (fetchTime: Date) =>
+  db.query(`
+    SELECT offer_id, price, user_type, payment_period FROM p2p_offers WHERE fetch_time = ? ORDER BY offer_id
+  `, [fetchTime]);
+
+/**
+ * Damage the stored rows of a snapshot the way a faulty mapping would
+ */
+const corrupt = async (fetchTime: Date) => {
+  await db.run(`UPDATE p2p_offers SET user_type = 'regular', payment_period = 0 WHERE fetch_time = ?`, [fetchTime]);
+  await db.run(`DELETE FROM offer_payments WHERE fetch_time = ?`, [fetchTime]);
+};
+
+const paymentCount = async (fetchTime: Date) =>
+  Number((await db.get(`SELECT COUNT(*) AS count FROM offer_payments WHERE fetch_time = ?`, [fetchTime]))?.count);
+
+describe('Raw response archive', () => {
+  beforeAll(() => {
+    fake.start();
+  });
+
+  afterAll(async () => {
+    await fake.stop();
+  });
+
+  beforeEach(async () => {
+    await clearP2PData();
+    fake.reset().setBook('USDT', 'USD', TRADE_SIDE.SELL, evolvingBook({
+      tokenId: 'USDT', currencyId: 'USD', side: TRADE_SIDE.SELL, count: 15, price: 1.01, step: 0.001, drift: 0.001,
+    }));
+    registerExchangeAdapter(fake.adapter(new ExchangeHttpClient({ baseDelayMs: 5, maxDelayMs: 50, ratePerSec: 1000, burst: 100 })));
+  });
+
+  it('should archive every page of a snapshot gzip-compressed under its fetch time', async () => {
+    const result = await sweep();
+
+    const archived = await db.query(`SELECT * FROM raw_responses ORDER BY page`);
+    expect(archived.map((response) => [response.page, response.encoding, response.http_status, response.market_id]))
+      .toEqual([[1, 'gzip', 200, 'market-1'], [2, 'gzip', 200, 'market-1']]);
+    expect(archived.every((response) => (response.fetch_time as Date).getTime() === result.fetch_time.getTime())).toBe(true);
+
+    const offerIds = (await storedOffers(result.fetch_time)).map((offer) => String(offer.offer_id));
+    const bodies: BybitP2PResponse[] = [];
+    for (const response of archived) {
+      bodies.push(JSON.parse(await CompressionHelper.gunzip(response.body as Uint8Array)));
+    }
+    expect(bodies.map((body) => [body.ret_code, body.result?.count, body.result?.items.length])).toEqual([[0, 15, 10], [0, 15, 5]]);
+    expect(bodies.flatMap((body) => body.result?.items.map((item) => item.id) ?? []).sort()).toEqual(offerIds.sort());
+  });
+
+  it('should not archive pages of a sweep that failed', async () => {
+    fake.enqueue(fakeBybitReplies.book(), fakeBybitReplies.status(400));
+
+    await expect(sweep()).rejects.toThrow();
+
+    expect(Number((await db.get(`SELECT COUNT(*) AS count FROM raw_responses`))?.count)).toBe(0);
+  });
+
+  it('should rebuild the snapshots in a time range from the archive and leave the others untouched', async () => {
+    const first = await sweep();
+    fake.advance();
+    const second = await sweep();
+    const expected = await storedOffers(second.fetch_time);
+    const payments = await paymentCount(second.fetch_time);
+
+    await corrupt(first.fetch_time);
+    await corrupt(second.fetch_time);
+
+    const result = await p2pService.reprocessArchive({ from: second.fetch_time, to: second.fetch_time, marketId: 'market-1' });
+
+    expect(result).toEqual({ snapshots: 1, pages: 2, offers: 15, failed: [] });
+    expect(await storedOffers(second.fetch_time)).toEqual(expected);
+    expect(await paymentCount(second.fetch_time)).toBe(payments);
+    const untouched = await storedOffers(first.fetch_time);
+    expect(untouched.every((offer) => offer.user_type === 'regular' && offer.payment_period === 0)).toBe(true);
+    expect(await paymentCount(first.fetch_time)).toBe(0);
+
+    const elsewhere = await p2pService.reprocessArchive({ from: first.fetch_time, to: second.fetch_time, marketId: 'other' });
+    expect(elsewhere).toEqual({ snapshots: 0, pages: 0, offers: 0, failed: [] });
+  });
+
+  it('should replay a snapshot with the same first-sighting rule as the sweep', async () => {
+    const offers = evolvingBook({
+      tokenId: 'USDT', currencyId: 'USD', side: TRADE_SIDE.SELL, count: 15, price: 1.01, step: 0.001,
+    })(0);
+    const newcomer = buildBybitOffer({ side: TRADE_SIDE.SELL, price: '1.0050' });
+    // The tenth offer is pushed onto page 2 between requests, so the archive holds it twice
+    fake.setBook('USDT', 'USD', TRADE_SIDE.SELL, (tick) => tick === 0 ? offers : [newcomer, ...offers]);
+    fake.enqueue(fakeBybitReplies.book(), () => {
+      fake.advance();
+    });
+    const { fetch_time } = await sweep();
+    const expected = await storedOffers(fetch_time);
+
+    const result = await p2pService.reprocessArchive({ from: fetch_time, to: fetch_time });
+
+    expect(result).toMatchObject({ snapshots: 1, pages: 2, offers: 15 });
+    expect(await storedOffers(fetch_time)).toEqual(expected);
+  });
+
+  it('should report a snapshot whose archive cannot be read and keep its rows', async () => {
+    const { fetch_time } = await sweep();
+    await corrupt(fetch_time);
+    await db.run(`UPDATE raw_responses SET body = 'not gzip'::BLOB WHERE page = 2`);
+
+    const result = await p2pService.reprocessArchive({ from: fetch_time, to: fetch_time });
+
+    expect(result).toMatchObject({ snapshots: 0, pages: 0, offers: 0 });
+    expect(result.failed.length).toBe(1);
+    expect(result.failed[0]).toMatchObject({ exchange: 'bybit', token_id: 'USDT', currency_id: 'USD', side: TRADE_SIDE.SELL });
+    expect(result.failed[0].error).toBeTruthy();
+    const kept = await storedOffers(fetch_time);
+    expect(kept.length).toBe(15);
+    expect(kept.every((offer) => offer.user_type === 'regular')).toBe(true);
+  });
+});
@@ -0,0 +1,203 @@
+import { afterAll, beforeAll, beforeEach, describe, it } from 'jsr:@std/testing/bdd';
+import { expect } from '@std/expect';
+import { P2POffer, P2POfferModel } from '../../../models/p2p_offer.model.ts';
+import { OfferPaymentModel } from '../../../models/payment_method.model.ts';
+import { PAYMENT_METHODS, TRADE_SIDE } from '../../../shared/constants.ts';
+import { ExchangeHttpClient } from '../../../services/exchanges/index.ts';
+import {
+  FileReferenceRateProvider,
+  HttpReferenceRateProvider,
+  registerReferenceRateProvider,
+} from '../../../services/reference_rates/index.ts';
+import { api, clearCollection, clearP2PData, createUser, generateAccessToken, withTestServer } from '../../utils/utils.ts';
+import { admin, user } from '../../fixtures/users.fixtures.ts';
+
+const p2pOfferModel = new P2POfferModel();
+const offerPaymentModel = new OfferPaymentModel();
+
+const HOUR = 60 * 60 * 1000;
+const MINUTE = 60 * 1000;
+
+let userToken: string;
+let adminToken: string;
+let nextOfferId = 1n;
+
+/**
+ * Store one snapshot of both book sides of USDT/`currencyId` at `fetchTime`, every offer accepting TBC Bank
+ */
+const storeSnapshot = async (fetchTime: Date, currencyId: string, book: { asks: number[]; bids: number[] }) => {
+  const offer = (side: number, price: number): P2POffer => ({
+    fetch_time: fetchTime,
+    exchange: 'bybit',
+    offer_id: nextOfferId++,
+    account_id: 1n,
+    user_id: 1n,
+    token_id: 'USDT',
+    currency_id: currencyId,
+    side,
+    price_type: 0,
+    price,
+    premium: 0,
+    last_quantity: 100,
+    total_quantity: 100,
+    frozen_quantity: 0,
+    executed_quantity: 0,
+    min_amount: 10,
+    max_amount: 1000,
+    status: 10,
+    is_online: true,
+    version: 1,
+    auth_status: 2,
+    user_type: 'PERSONAL',
+    payment_period: 15,
+    user_mask_id: 'mask',
+  });
+  const offers = [
+    ...book.asks.map((price) => offer(TRADE_SIDE.SELL, price)),
+    ...book.bids.map((price) => offer(TRADE_SIDE.BUY, price)),
+  ];
+
+  await p2pOfferModel.createMany(offers);
+  await offerPaymentModel.createMany(offers.map((item) => ({
+    fetch_time: fetchTime,
+    exchange: item.exchange,
+    offer_id: item.offer_id,
+    method_id: PAYMENT_METHODS.TBC_BANK,
+  })));
+};
+
+describe('Reference rates and P2P premium', () => {
+  // Three hours ago, on the hour
+  const base = Math.floor(Date.now() / HOUR) * HOUR - 3 * HOUR;
+  const directory = Deno.makeTempDirSync();
+  const csvPath = `${directory}/rates.csv`;
+  const jsonPath = `${directory}/rates.json`;
+  let standIn: Deno.HttpServer<Deno.NetAddr>;
+  let standInStatus = 200;
+
+  beforeAll(async () => {
+    await clearCollection('users');
+    userToken = await generateAccessToken(await createUser(user));
+    adminToken = await generateAccessToken(await createUser(admin));
+
+    await Deno.writeTextFile(csvPath, [
+      '# USD/GEL fixings',
+      'base,quote,rate,time',
+      `usd,gel,2.70,${new Date(base - HOUR).toISOString()}`,
+      `USD,GEL,2.80,${new Date(base + HOUR).toISOString()}`,
+    ].join('\n'));
+    await Deno.writeTextFile(jsonPath, JSON.stringify({
+      rates: [{ base: 'USD', quote: 'EUR', rate: 0.92, time: new Date(base).toISOString() }],
+    }));
+
+    standIn = Deno.serve({ port: 0, onListen: () => {} }, () =>
+      standInStatus === 200
+        ? Response.json([{ base: 'USD', quote: 'GEL', rate: 2.75, time: new Date(base).toISOString() }])
+        : new Response('unavailable', { status: standInStatus }));
+    const client = new ExchangeHttpClient({ maxRetries: 0, baseDelayMs: 5, maxDelayMs: 50, ratePerSec: 1000, burst: 100 });
+
+    registerReferenceRateProvider(new FileReferenceRateProvider(csvPath, 'csv'));
+    registerReferenceRateProvider(new FileReferenceRateProvider(jsonPath, 'json'));
+    registerReferenceRateProvider(
+      new HttpReferenceRateProvider(`http://localhost:${standIn.addr.port}/rates`, 'local', client),
+    );
+  });
+
+  afterAll(async () => {
+    await standIn.shutdown();
+    await Deno.remove(directory, { recursive: true });
+    await clearCollection('users');
+  });
+
+  beforeEach(async () => {
+    await clearP2PData();
+    standInStatus = 200;
+  });
+
+  it('should sync rates from file and HTTP sources', async () => {
+    await withTestServer(async (port) => {
+      const forbidden = await api(port, '/api/p2p/reference-rates/sync', { method: 'POST', token: userToken, body: { source: 'csv' } });
+      expect(forbidden.status).toBe(403);
+
+      const csv = await api(port, '/api/p2p/reference-rates/sync', { method: 'POST', token: adminToken, body: { source: 'csv' } });
+      expect(csv.status).toBe(200);
+      expect(csv.body.data).toEqual({ source: 'csv', received: 2, pairs: ['USD/GEL'] });
+
+      const json = await api(port, '/api/p2p/reference-rates/sync', { method: 'POST', token: adminToken, body: { source: 'json' } });
+      expect(json.body.data).toEqual({ source: 'json', received: 1, pairs: ['USD/EUR'] });
+
+      const http = await api(port, '/api/p2p/reference-rates/sync', { method: 'POST', token: adminToken, body: { source: 'local' } });
+      expect(http.body.data).toEqual({ source: 'local', received: 1, pairs: ['USD/GEL'] });
+
+      // Syncing again replaces the stored rates instead of duplicating them
+      await api(port, '/api/p2p/reference-rates/sync', { method: 'POST', token: adminToken, body: { source: 'csv' } });
+      const gel = await api(port, '/api/p2p/reference-rates?base=usd&quote=gel', { token: userToken });
+      expect(gel.body.data.map((rate: { source: string; rate: number }) => [rate.source, rate.rate]))
+        .toEqual([['csv', 2.8], ['local', 2.75], ['csv', 2.7]]);
+    });
+  });
+
+  it('should reject unknown and failing sources', async () => {
+    await withTestServer(async (port) => {
+      const unknown = await api(port, '/api/p2p/reference-rates/sync', { method: 'POST', token: adminToken, body: { source: 'ecb' } });
+      expect(unknown.status).toBe(400);
+
+      standInStatus = 503;
+      const failing = await api(port, '/api/p2p/reference-rates/sync', { method: 'POST', token: adminToken, body: { source: 'local' } });
+      expect(failing.status).toBe(502);
+    });
+  });
+
+  it('should compute the premium of the best bid and ask over the reference rate', async () => {
+    await withTestServer(async (port) => {
+      const market = await api(port, '/api/p2p/markets', {
+        method: 'POST',
+        token: adminToken,
+        body: { tokenId: 'USDT', currencyId: 'GEL', sides: [TRADE_SIDE.SELL, TRADE_SIDE.BUY], paymentMethods: [PAYMENT_METHODS.TBC_BANK] },
+      });
+      const gelMarketId = market.body.data.id;
+
+      try {
+        await api(port, '/api/p2p/reference-rates/sync', { method: 'POST', token: adminToken, body: { source: 'csv' } });
+        await storeSnapshot(new Date(base + 5 * MINUTE), 'GEL', { asks: [2.76, 2.78], bids: [2.70] });
+        await storeSnapshot(new Date(base + 2 * HOUR + 10 * MINUTE), 'GEL', { asks: [2.85], bids: [2.79] });
+
+        const premium = await api(port, '/api/p2p/premium/USDT/GEL', { token: userToken });
+        expect(premium.status).toBe(200);
+        expect(premium.body.data).toMatchObject({ reference_base_id: 'USD', reference_quote_id: 'GEL', interval: '1h' });
+
+        // Each interval is judged against the last rate published before it closed
+        const [first, second] = premium.body.data.points;
+        expect(first).toMatchObject({ reference_rate: 2.7, bid: 2.7, ask: 2.76 });
+        expect(first.bid_premium_pct).toBeCloseTo(0);
+        expect(first.ask_premium_pct).toBeCloseTo((2.76 / 2.7 - 1) * 100);
+        expect(second).toMatchObject({ reference_rate: 2.8, bid: 2.79, ask: 2.85 });
+        expect(second.bid_premium_pct).toBeCloseTo((2.79 / 2.8 - 1) * 100);
+        expect(second.mid_premium_pct).toBeCloseTo((2.82 / 2.8 - 1) * 100);
+
+        const missing = await api(port, '/api/p2p/premium/USDT/GEL?source=json', { token: userToken });
+        expect(missing.status).toBe(404);
+      } finally {
+        const removed = await fetch(`http://localhost:${port}/api/p2p/markets/${gelMarketId}`, {
+          method: 'DELETE',
+          headers: { 'Authorization': `Bearer ${adminToken}` },
+        });
+        await removed.body?.cancel();
+      }
+    });
+  });
+
+  it('should compare a stablecoin quoted in its own fiat with parity', async () => {
+    await withTestServer(async (port) => {
+      await storeSnapshot(new Date(base + 5 * MINUTE), 'USD', { asks: [1.01], bids: [0.99] });
+
+      const premium = await api(port, '/api/p2p/premium/USDT/USD', { token: userToken });
+      expect(premium.body.data.points[0]).toMatchObject({ reference_rate: 1, reference_time: null });
+      expect(premium.body.data.points[0].ask_premium_pct).toBeCloseTo(1);
+      expect(premium.body.data.points[0].bid_premium_pct).toBeCloseTo(-1);
+
+      const badInterval = await api(port, '/api/p2p/premium/USDT/USD?interval=1w', { token: userToken });
+      expect(badInterval.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,229 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, it } from 'jsr:@std/testing/bdd';
+import { expect } from '@std/expect';
+import { SchedulerService } from '../../../services/scheduler.service.ts';
+import { MarketService } from '../../../services/market.service.ts';
+import { P2PService } from '../../../services/p2p.service.ts';
+import { WatchedMarket, WatchedMarketModel } from '../../../models/watched_market.model.ts';
+import { ExchangeHttpClient, registerExchangeAdapter } from '../../../services/exchanges/index.ts';
+import { TRADE_SIDE } from '../../../shared/constants.ts';
+import { clearP2PData } from '../../utils/utils.ts';
+import { evolvingBook, fakeBybitReplies, FakeBybitServer } from '../../utils/fake-bybit.server.ts';
+
+const fake = new FakeBybitServer();
+const marketService = new MarketService();
+const p2pService = new P2PService();
+const watchedMarketModel = new WatchedMarketModel();
+
+let scheduler: SchedulerService;
+let market: WatchedMarket;
+let paused: WatchedMarket[] = [];
+const releases: Array<() => void> = [];
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Poll until `condition` holds, failing after `timeoutMs`
+ */
+const waitFor = async (condition: () => boolean, timeoutMs = 5000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error(`Condition not met within ${timeoutMs}ms`);
+    }
+    await sleep(20);
+  }
+};
+
+const state = () => scheduler.getStatus().markets.find((entry) => entry.market_id === market.id);
+
+/**
+ * Reply that holds the request until the returned `release` is called, then serves the book.
+ * Every held request is released after each test, so a failed assertion cannot leave one hanging.
+ */
+const held = () => {
+  let release!: () => void;
+  const gate = new Promise<void>((resolve) => (release = resolve));
+  releases.push(release);
+  return { reply: async () => { await gate; }, release };
+};
+
+describe('Ingestion scheduler', () => {
+  beforeAll(async () => {
+    fake.start();
+    // Only the market created by each test is polled
+    paused = await watchedMarketModel.getEnabled();
+    for (const watched of paused) {
+      await watchedMarketModel.update(watched.id, { enabled: false });
+    }
+  });
+
+  afterAll(async () => {
+    for (const watched of paused) {
+      await watchedMarketModel.update(watched.id, { enabled: true });
+    }
+    await fake.stop();
+  });
+
+  beforeEach(async () => {
+    await clearP2PData();
+    fake.reset().setBook('USDT', 'EUR', TRADE_SIDE.SELL, evolvingBook({
+      tokenId: 'USDT', currencyId: 'EUR', side: TRADE_SIDE.SELL, count: 5, price: 0.93, step: 0.001, payments: ['14'],
+    }));
+    registerExchangeAdapter(fake.adapter(new ExchangeHttpClient({ baseDelayMs: 5, maxDelayMs: 50, ratePerSec: 1000, burst: 100 })));
+    market = await marketService.createMarket({
+      tokenId: 'USDT', currencyId: 'EUR', sides: [TRADE_SIDE.SELL], paymentMethods: [14], pollIntervalSec: 1,
+    });
+    scheduler = new SchedulerService(0);
+  });
+
+  afterEach(async () => {
+    releases.splice(0).forEach((release) => release());
+    await scheduler.stop();
+    await watchedMarketModel.delete(market.id);
+  });
+
+  it('should poll an enabled market on its interval and report its state', async () => {
+    await scheduler.start();
+    await waitFor(() => (state()?.runs ?? 0) >= 2);
+
+    const status = scheduler.getStatus();
+    expect(status.running).toBe(true);
+    expect(status.started_at).toBeInstanceOf(Date);
+    expect(status.markets.length).toBe(1);
+    expect(state()).toMatchObject({ exchange: 'bybit', token_id: 'USDT', currency_id: 'EUR', poll_interval_sec: 1, failures: 0, last_error: null });
+    expect(state()?.next_run_at?.getTime()).toBeGreaterThan(state()?.last_finished_at?.getTime() ?? Infinity);
+
+    const runs = await p2pService.getFetchRuns({ marketId: market.id });
+    expect(runs.length).toBeGreaterThanOrEqual(2);
+    expect(runs.every((run) => run.status === 'success')).toBe(true);
+    const gapMs = runs[0].started_at.getTime() - runs[1].started_at.getTime();
+    expect(gapMs).toBeGreaterThanOrEqual(950);
+
+    await scheduler.stop();
+    expect(scheduler.getStatus()).toMatchObject({ running: false, markets: [] });
+  });
+
+  it('should not start another run of a market while one is in flight', async () => {
+    const slow = held();
+    fake.enqueue(slow.reply);
+
+    await scheduler.start();
+    await waitFor(() => state()?.running === true);
+
+    // Nothing is planned while the run is held, however long it takes
+    expect(fake.requests.length).toBe(1);
+    expect(state()).toMatchObject({ running: true, runs: 0, next_run_at: null });
+
+    slow.release();
+    await waitFor(() => state()?.runs === 1);
+    const finishedAt = state()?.last_finished_at?.getTime() ?? 0;
+    expect(state()?.next_run_at?.getTime()).toBeGreaterThanOrEqual(finishedAt + 1000);
+  });
+
+  it('should wait for an in-flight run when stopped and plan no further runs', async () => {
+    const slow = held();
+    fake.enqueue(slow.reply);
+
+    await scheduler.start();
+    await waitFor(() => state()?.running === true);
+    const stopping = scheduler.stop();
+    // The schedule is only cleared once the held run is over
+    expect(scheduler.getStatus().running).toBe(false);
+    expect(state()?.running).toBe(true);
+
+    slow.release();
+    await stopping;
+
+    expect(scheduler.getStatus()).toMatchObject({ running: false, markets: [] });
+    expect(fake.requests.length).toBe(1);
+    const runs = await p2pService.getFetchRuns({ marketId: market.id });
+    expect(runs.map((run) => run.status)).toEqual(['success']);
+  });
+
+  it('should record a failed run and keep polling the market', async () => {
+    fake.enqueue(fakeBybitReplies.retCode(912100027, 'Invalid params'));
+
+    await scheduler.start();
+    await waitFor(() => (state()?.runs ?? 0) >= 2);
+
+    expect(state()).toMatchObject({ failures: 1, last_error: null });
+    expect(state()?.last_error_at).toBeInstanceOf(Date);
+    const runs = await p2pService.getFetchRuns({ marketId: market.id });
+    expect(runs.map((run) => run.status).slice(-2)).toEqual(['success', 'error']);
+  });
+
+  it('should pick up watchlist changes on refresh', async () => {
+    await scheduler.start();
+    expect(scheduler.getStatus().markets.map((entry) => entry.market_id)).toEqual([market.id]);
+
+    await marketService.updateMarket(market.id, { pollIntervalSec: 30 });
+    await scheduler.refresh();
+    expect(state()?.poll_interval_sec).toBe(30);
+
+    await marketService.updateMarket(market.id, { enabled: false });
+    await scheduler.refresh();
+    expect(scheduler.getStatus().markets).toEqual([]);
+  });
+
+  it('should not run a re-enabled market until the run it had when disabled finishes', async () => {
+    const slow = held();
+    fake.enqueue(slow.reply);
+
+    await scheduler.start();
+    await waitFor(() => state()?.running === true);
+    await marketService.updateMarket(market.id, { enabled: false });
+    await scheduler.refresh();
+    await marketService.updateMarket(market.id, { enabled: true });
+    await scheduler.refresh();
+
+    expect(state()).toMatchObject({ running: false, runs: 0, next_run_at: null });
+
+    slow.release();
+    await waitFor(() => state()?.runs === 1);
+
+    expect(fake.requests.length).toBe(2);
+    const [first, second] = (await p2pService.getFetchRuns({ marketId: market.id })).reverse();
+    expect(second.started_at.getTime()).toBeGreaterThanOrEqual(first.finished_at.getTime());
+  });
+
+  it('should plan no runs when stopped while the watchlist is loading', async () => {
+    const getEnabledMarkets = MarketService.prototype.getEnabledMarkets;
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => (release = resolve));
+    MarketService.prototype.getEnabledMarkets = async function (this: MarketService) {
+      await gate;
+      return await getEnabledMarkets.call(this);
+    };
+
+    try {
+      const starting = scheduler.start();
+      await scheduler.stop();
+      release();
+      await starting;
+    } finally {
+      MarketService.prototype.getEnabledMarkets = getEnabledMarkets;
+    }
+
+    expect(scheduler.getStatus()).toMatchObject({ running: false, markets: [] });
+    expect(fake.requests.length).toBe(0);
+  });
+
+  it('should wait when stopped for a run of a market removed by a refresh', async () => {
+    const slow = held();
+    fake.enqueue(slow.reply);
+
+    await scheduler.start();
+    await waitFor(() => state()?.running === true);
+    await marketService.updateMarket(market.id, { enabled: false });
+    await scheduler.refresh();
+    expect(scheduler.getStatus().markets).toEqual([]);
+
+    const stopping = scheduler.stop();
+    slow.release();
+    await stopping;
+
+    // The run was recorded before stop resolved
+    const runs = await p2pService.getFetchRuns({ marketId: market.id });
+    expect(runs.map((run) => run.status)).toEqual(['success']);
+  });
+});
@@ -0,0 +1,149 @@
+import { afterAll, beforeAll, beforeEach, describe, it } from 'jsr:@std/testing/bdd';
+import { expect } from '@std/expect';
+import db from '../../../db/db.ts';
+import { P2PService } from '../../../services/p2p.service.ts';
+import { RawResponseModel } from '../../../models/raw_response.model.ts';
+import { ExchangeHttpClient, registerExchangeAdapter } from '../../../services/exchanges/index.ts';
+import { TRADE_SIDE } from '../../../shared/constants.ts';
+import { clearP2PData } from '../../utils/utils.ts';
+import { evolvingBook, FakeBybitServer } from '../../utils/fake-bybit.server.ts';
+
+const fake = new FakeBybitServer();
+const p2pService = new P2PService();
+
+const SNAPSHOT_TABLES = ['p2p_offers', 'offer_payments', 'trading_preferences', 'offer_events', 'book_snapshots', 'raw_responses'];
+
+const sweep = () => p2pService.sweepAndStoreP2PData('USDT', 'USD', TRADE_SIDE.SELL, ['165'], 10, 5, 'bybit');
+
+const count = async (table: string) => Number((await db.get(`SELECT COUNT(*) AS count FROM ${table}`))?.count);
+
+const counts = async () => Object.fromEntries(await Promise.all(SNAPSHOT_TABLES.map(async (table) => [table, await count(table)])));
+
+/**
+ * Make archiving fail, the last write of a snapshot transaction, for the duration of `work`
+ */
+const withFailingArchive = async (work: () => Promise<void>) => {
+  const createMany = RawResponseModel.prototype.createMany;
+  RawResponseModel.prototype.createMany = () => Promise.reject(new Error('disk full'));
+  try {
+    await work();
+  } finally {
+    RawResponseModel.prototype.createMany = createMany;
+  }
+};
+
+describe('Transactional snapshot writes', () => {
+  beforeAll(async () => {
+    fake.start();
+    await db.run(`CREATE TABLE IF NOT EXISTS tx_probe (id INTEGER PRIMARY KEY, label VARCHAR)`);
+  });
+
+  afterAll(async () => {
+    await db.run(`DROP TABLE IF EXISTS tx_probe`);
+    await fake.stop();
+  });
+
+  beforeEach(async () => {
+    await clearP2PData();
+    await db.run(`DELETE FROM tx_probe`);
+    fake.reset().setBook('USDT', 'USD', TRADE_SIDE.SELL, evolvingBook({
+      tokenId: 'USDT', currencyId: 'USD', side: TRADE_SIDE.SELL, count: 15, price: 1.01, step: 0.001, drift: 0.001,
+    }));
+    registerExchangeAdapter(fake.adapter(new ExchangeHttpClient({ baseDelayMs: 5, maxDelayMs: 50, ratePerSec: 1000, burst: 100 })));
+  });
+
+  it('should keep none of a snapshot whose write fails part-way', async () => {
+    await withFailingArchive(async () => {
+      const error = await sweep().catch((e) => e);
+      expect(error.message).toBe('Failed to store snapshot: disk full');
+    });
+
+    expect(await counts()).toEqual({
+      p2p_offers: 0, offer_payments: 0, trading_preferences: 0, offer_events: 0, book_snapshots: 0, raw_responses: 0,
+    });
+    const runs = await p2pService.getFetchRuns();
+    expect(runs.map((run) => [run.status, run.items_received, run.rows_inserted])).toEqual([['error', 5, 0], ['error', 10, 0]]);
+    expect(runs.every((run) => run.error === 'disk full')).toBe(true);
+  });
+
+  it('should leave the previous snapshot intact when the next one fails', async () => {
+    await sweep();
+    const stored = await counts();
+
+    fake.advance();
+    await withFailingArchive(async () => {
+      await expect(sweep()).rejects.toThrow('Failed to store snapshot');
+    });
+
+    expect(await counts()).toEqual(stored);
+    const [snapshots] = await db.query(`SELECT COUNT(DISTINCT fetch_time) AS count FROM p2p_offers`);
+    expect(Number(snapshots.count)).toBe(1);
+
+    await sweep();
+    expect(await count('p2p_offers')).toBe(30);
+  });
+
+  it('should record every stored snapshot under its stream, an empty one included', async () => {
+    const full = await sweep();
+    fake.setBook('USDT', 'USD', TRADE_SIDE.SELL, []);
+    const empty = await sweep();
+
+    const snapshots = await db.query(`SELECT stream, fetch_time, side, offers FROM book_snapshots ORDER BY fetch_time`);
+    expect(snapshots).toEqual([
+      { stream: 'bybit:USDT:USD:0:165', fetch_time: full.fetch_time, side: TRADE_SIDE.SELL, offers: 15 },
+      { stream: 'bybit:USDT:USD:0:165', fetch_time: empty.fetch_time, side: TRADE_SIDE.SELL, offers: 0 },
+    ]);
+  });
+
+  it('should roll back every statement of a failed transaction', async () => {
+    const error = await db.transaction(async (tx) => {
+      await tx.run(`INSERT INTO tx_probe VALUES (1, 'first')`);
+      expect((await tx.get(`SELECT label FROM tx_probe WHERE id = 1`))?.label).toBe('first');
+      throw new Error('abort');
+    }).catch((e) => e);
+    expect(error.message).toBe('abort');
+
+    await expect(db.transaction([
+      { sql: `INSERT INTO tx_probe VALUES (?, ?)`, params: [2, 'second'] },
+      { sql: `INSERT INTO tx_probe VALUES (?, ?)`, params: [2, 'duplicate'] },
+    ])).rejects.toThrow();
+
+    expect(await count('tx_probe')).toBe(0);
+
+    const label = await db.transaction(async (tx) => {
+      await tx.run(`INSERT INTO tx_probe VALUES (3, 'third')`);
+      return (await tx.get<{ label: string }>(`SELECT label FROM tx_probe WHERE id = 3`))?.label;
+    });
+    expect(label).toBe('third');
+    expect(await db.query(`SELECT id, label FROM tx_probe`)).toEqual([{ id: 3, label: 'third' }]);
+  });
+
+  it('should hide uncommitted rows from readers and run transactions one at a time', async () => {
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => (release = resolve));
+    const order: string[] = [];
+
+    const first = db.transaction(async (tx) => {
+      await tx.run(`INSERT INTO tx_probe VALUES (1, 'first')`);
+      order.push('first:written');
+      await gate;
+      order.push('first:done');
+    });
+    const second = db.transaction(async (tx) => {
+      order.push('second:start');
+      await tx.run(`INSERT INTO tx_probe VALUES (2, 'second')`);
+    });
+
+    while (!order.includes('first:written')) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+    expect(await count('tx_probe')).toBe(0);
+    expect(order).toEqual(['first:written']);
+
+    release();
+    await Promise.all([first, second]);
+
+    expect(order).toEqual(['first:written', 'first:done', 'second:start']);
+    expect(await count('tx_probe')).toBe(2);
+  });
+});
@@ -0,0 +1,113 @@
+import { afterAll, beforeAll, beforeEach, describe, it } from 'jsr:@std/testing/bdd';
+import { expect } from '@std/expect';
+import { ExchangeHttpClient, registerExchangeAdapter } from '../../../services/exchanges/index.ts';
+import { TRADE_SIDE } from '../../../shared/constants.ts';
+import { api, clearCollection, clearP2PData, createUser, generateAccessToken, withTestServer } from '../../utils/utils.ts';
+import { user } from '../../fixtures/users.fixtures.ts';
+import { buildBybitOffer, FakeBybitServer } from '../../utils/fake-bybit.server.ts';
+import type { BybitP2POffer } from '../../../services/exchanges/bybit.adapter.ts';
+
+const fake = new FakeBybitServer();
+
+let userToken: string;
+
+type Bucket = { side: number; fills: number; volume: number; notional: number };
+
+/**
+ * Fold interval buckets into one total per side, whatever hour the ticks fell into
+ */
+const totalsBySide = (buckets: Bucket[]) => {
+  const totals: Record<number, { fills: number; volume: number; notional: number; vwap?: number }> = {};
+  for (const bucket of buckets) {
+    const total = totals[bucket.side] ??= { fills: 0, volume: 0, notional: 0 };
+    total.fills += bucket.fills;
+    total.volume += bucket.volume;
+    total.notional += bucket.notional;
+  }
+  for (const total of Object.values(totals)) {
+    total.vwap = Number((total.notional / total.volume).toFixed(6));
+    total.notional = Number(total.notional.toFixed(6));
+  }
+  return totals;
+};
+
+describe('Estimated trade flow', () => {
+  const sell = { side: TRADE_SIDE.SELL };
+  const [a, b, c] = [1.01, 1.02, 1.03].map((price) => buildBybitOffer({ ...sell, price: price.toFixed(4) }));
+  const d = buildBybitOffer({ side: TRADE_SIDE.BUY, price: '0.9900' });
+
+  /**
+   * Tick 1: A sells 100, B executes 50, C cuts its total to 300 (an edit, not a fill).
+   * Tick 2: A sells 50 more and reprices; the fill is priced at the listing it came from.
+   */
+  const sellBook = (tick: number): BybitP2POffer[] => [
+    tick === 0 ? a : tick === 1 ? { ...a, lastQuantity: '400' } : { ...a, lastQuantity: '350', price: '1.0200' },
+    tick === 0 ? b : { ...b, lastQuantity: '450', executedQuantity: '50' },
+    tick === 0 ? c : { ...c, lastQuantity: '300', quantity: '300' },
+  ];
+  const buyBook = (tick: number): BybitP2POffer[] => [tick < 2 ? d : { ...d, lastQuantity: '300' }];
+
+  beforeAll(async () => {
+    fake.start();
+    await clearCollection('users');
+    userToken = await generateAccessToken(await createUser(user));
+  });
+
+  afterAll(async () => {
+    await fake.stop();
+    await clearCollection('users');
+  });
+
+  beforeEach(async () => {
+    await clearP2PData();
+    fake.reset()
+      .setBook('USDT', 'USD', TRADE_SIDE.SELL, sellBook)
+      .setBook('USDT', 'USD', TRADE_SIDE.BUY, buyBook);
+    registerExchangeAdapter(fake.adapter(new ExchangeHttpClient({ baseDelayMs: 5, maxDelayMs: 50, ratePerSec: 1000, burst: 100 })));
+  });
+
+  it('should turn quantity deltas into estimated fills, volume and VWAP', async () => {
+    await withTestServer(async (port) => {
+      for (let tick = 0; tick < 3; tick++) {
+        await api(port, '/api/p2p/fetch', { method: 'POST', body: {} });
+        fake.advance();
+      }
+
+      const flow = await api(port, '/api/p2p/flow/USDT/USD', { token: userToken });
+      expect(flow.status).toBe(200);
+
+      const fills = flow.body.data.fills.map((fill: { offer_id: string; side: number; price: number; size: number }) =>
+        [fill.offer_id, fill.side, fill.price, fill.size]
+      );
+      expect(fills).toEqual([
+        [d.id, TRADE_SIDE.BUY, 0.99, 200],
+        [a.id, TRADE_SIDE.SELL, 1.01, 50],
+        [a.id, TRADE_SIDE.SELL, 1.01, 100],
+        [b.id, TRADE_SIDE.SELL, 1.02, 50],
+      ]);
+      expect(flow.body.data.fills[1]).toMatchObject({ user_id: a.userId, nick_name: a.nickName });
+
+      expect(totalsBySide(flow.body.data.buckets)).toEqual({
+        [TRADE_SIDE.SELL]: { fills: 3, volume: 200, notional: 202.5, vwap: 1.0125 },
+        [TRADE_SIDE.BUY]: { fills: 1, volume: 200, notional: 198, vwap: 0.99 },
+      });
+
+      const buyOnly = await api(port, `/api/p2p/flow/USDT/USD?side=${TRADE_SIDE.BUY}&interval=day`, { token: userToken });
+      expect(buyOnly.body.data.buckets.length).toBe(1);
+      expect(buyOnly.body.data.fills.length).toBe(1);
+    });
+  });
+
+  it('should reject invalid flow requests', async () => {
+    await withTestServer(async (port) => {
+      const badInterval = await api(port, `/api/p2p/flow/USDT/USD?interval=1 hour'`, { token: userToken });
+      expect(badInterval.status).toBe(400);
+
+      const unwatched = await api(port, '/api/p2p/flow/BTC/USD', { token: userToken });
+      expect(unwatched.status).toBe(404);
+
+      const unauthenticated = await api(port, '/api/p2p/flow/USDT/USD');
+      expect(unauthenticated.status).toBe(401);
+    });
+  });
+});
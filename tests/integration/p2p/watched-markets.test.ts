@@ -0,0 +1,161 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, it } from 'jsr:@std/testing/bdd';
+import { expect } from '@std/expect';
+import db from '../../../db/db.ts';
+import { MarketInput, MarketService } from '../../../services/market.service.ts';
+import { WatchedMarket, WatchedMarketModel } from '../../../models/watched_market.model.ts';
+import { ExchangeHttpClient, registerExchangeAdapter } from '../../../services/exchanges/index.ts';
+import { TRADE_SIDE } from '../../../shared/constants.ts';
+import { api, clearCollection, clearP2PData, createUser, generateAccessToken, withTestServer } from '../../utils/utils.ts';
+import { admin } from '../../fixtures/users.fixtures.ts';
+import { evolvingBook, FakeBybitServer } from '../../utils/fake-bybit.server.ts';
+
+const fake = new FakeBybitServer();
+const marketService = new MarketService();
+const watchedMarketModel = new WatchedMarketModel();
+const created: string[] = [];
+
+let adminToken: string;
+
+const watch = async (input: MarketInput): Promise<WatchedMarket> => {
+  const market = await marketService.createMarket(input);
+  created.push(market.id);
+  return market;
+};
+
+/**
+ * Requests the fake venue received for a fiat: [side, payment methods, page]
+ */
+const requestsFor = (currencyId: string) =>
+  fake.requests
+    .filter((request) => request.currencyId === currencyId)
+    .map((request) => [request.side, request.payment.join(','), request.page]);
+
+describe('Watched markets', () => {
+  beforeAll(async () => {
+    fake.start();
+    await clearCollection('users');
+    adminToken = await generateAccessToken(await createUser(admin));
+  });
+
+  afterAll(async () => {
+    await fake.stop();
+    await clearCollection('users');
+  });
+
+  beforeEach(async () => {
+    await clearP2PData();
+    fake.reset().setBook('USDT', 'EUR', TRADE_SIDE.SELL, evolvingBook({
+      tokenId: 'USDT', currencyId: 'EUR', side: TRADE_SIDE.SELL, count: 15, price: 0.93, step: 0.001, payments: ['14'],
+    }));
+    registerExchangeAdapter(fake.adapter(new ExchangeHttpClient({ baseDelayMs: 5, maxDelayMs: 50, ratePerSec: 1000, burst: 100 })));
+  });
+
+  afterEach(async () => {
+    for (const id of created.splice(0)) {
+      await watchedMarketModel.delete(id);
+    }
+  });
+
+  it('should fetch every enabled market with its own sides, payment methods and page depth', async () => {
+    const eur = await watch({
+      tokenId: 'USDT', currencyId: 'EUR', sides: [TRADE_SIDE.SELL], paymentMethods: [14, 165], pageDepth: 2,
+    });
+    await watch({ tokenId: 'USDT', currencyId: 'GEL', sides: [TRADE_SIDE.BUY], paymentMethods: [165], enabled: false });
+
+    await withTestServer(async (port) => {
+      const fetched = await api(port, '/api/p2p/fetch', { method: 'POST', body: {} });
+      expect(fetched.status).toBe(200);
+      expect(fetched.body.data.map((result: { market_id: string }) => result.market_id)).toContain(eur.id);
+    });
+
+    expect(requestsFor('EUR')).toEqual([['0', '14,165', '1'], ['0', '14,165', '2']]);
+    expect(requestsFor('GEL')).toEqual([]);
+    const [stored] = await db.query(`SELECT COUNT(*) AS offers FROM p2p_offers WHERE currency_id = 'EUR'`);
+    expect(Number(stored.offers)).toBe(15);
+  });
+
+  it('should fetch only the selected market or pair and refuse pairs without an enabled market', async () => {
+    const eur = await watch({ tokenId: 'USDT', currencyId: 'EUR', sides: [TRADE_SIDE.SELL], paymentMethods: [14] });
+    await watch({ tokenId: 'USDT', currencyId: 'GEL', sides: [TRADE_SIDE.BUY], paymentMethods: [165], enabled: false });
+
+    await withTestServer(async (port) => {
+      const byId = await api(port, '/api/p2p/fetch', { method: 'POST', body: { marketId: eur.id } });
+      expect(byId.status).toBe(200);
+      expect(byId.body.data.length).toBe(1);
+      expect(fake.requests.every((request) => request.currencyId === 'EUR')).toBe(true);
+
+      const disabled = await api(port, '/api/p2p/fetch', { method: 'POST', body: { tokenId: 'USDT', currencyId: 'GEL' } });
+      expect(disabled.status).toBe(404);
+      const unknown = await api(port, '/api/p2p/fetch', { method: 'POST', body: { marketId: 'missing' } });
+      expect(unknown.status).toBe(404);
+    });
+
+    expect(requestsFor('GEL')).toEqual([]);
+  });
+
+  it('should scope pair analytics to the payment methods of its enabled markets', async () => {
+    const eur = await watch({ tokenId: 'USDT', currencyId: 'EUR', sides: [TRADE_SIDE.SELL], paymentMethods: [14, 165] });
+    await watch({ tokenId: 'USDT', currencyId: 'EUR', sides: [TRADE_SIDE.BUY], paymentMethods: [14, 28] });
+    await watch({ tokenId: 'USDT', currencyId: 'EUR', sides: [TRADE_SIDE.BUY], paymentMethods: [62], enabled: false });
+
+    const scope = await marketService.resolveScope('USDT', 'EUR');
+    expect(scope.exchange).toBe('bybit');
+    expect(scope.markets.length).toBe(2);
+    expect(scope.paymentMethods).toEqual([14, 165, 28]);
+
+    const single = await marketService.resolveScope('USDT', 'EUR', { marketId: eur.id });
+    expect(single.paymentMethods).toEqual([14, 165]);
+
+    const otherPair = await marketService.resolveScope('USDT', 'GBP', { marketId: eur.id }).catch((e) => e);
+    expect(otherPair.status).toBe(404);
+    const unwatched = await marketService.resolveScope('USDT', 'GBP').catch((e) => e);
+    expect(unwatched.status).toBe(404);
+  });
+
+  it('should validate markets and apply updates to later fetches', async () => {
+    await withTestServer(async (port) => {
+      const invalid = [
+        { tokenId: 'USDT', currencyId: 'EUR', sides: [TRADE_SIDE.SELL] },
+        { tokenId: 'USDT', currencyId: 'EUR', sides: [5], paymentMethods: [14] },
+        { tokenId: 'USDT', currencyId: 'EUR', sides: [TRADE_SIDE.SELL], paymentMethods: [14], pageDepth: 0 },
+        { exchange: 'nowhere', tokenId: 'USDT', currencyId: 'EUR', sides: [TRADE_SIDE.SELL], paymentMethods: [14] },
+      ];
+      for (const body of invalid) {
+        const rejected = await api(port, '/api/p2p/markets', { method: 'POST', token: adminToken, body });
+        expect(rejected.status).toBe(400);
+      }
+
+      const market = await api(port, '/api/p2p/markets', {
+        method: 'POST',
+        token: adminToken,
+        body: { tokenId: 'USDT', currencyId: 'EUR', sides: [TRADE_SIDE.SELL], paymentMethods: [165] },
+      });
+      expect(market.status).toBe(201);
+      created.push(market.body.data.id);
+      expect(market.body.data).toMatchObject({ exchange: 'bybit', page_depth: 1, poll_interval_sec: 5, enabled: true });
+
+      const updated = await api(port, `/api/p2p/markets/${market.body.data.id}`, {
+        method: 'PUT',
+        token: adminToken,
+        body: { paymentMethods: [14] },
+      });
+      expect(updated.status).toBe(200);
+      expect(updated.body.data.payment_methods).toEqual([14]);
+
+      await api(port, '/api/p2p/fetch', { method: 'POST', body: { tokenId: 'USDT', currencyId: 'EUR' } });
+      expect(requestsFor('EUR')).toEqual([['0', '14', '1']]);
+
+      const disabled = await api(port, `/api/p2p/markets/${market.body.data.id}`, {
+        method: 'PUT',
+        token: adminToken,
+        body: { enabled: false },
+      });
+      expect(disabled.body.data.enabled).toBe(false);
+      const skipped = await api(port, '/api/p2p/fetch', { method: 'POST', body: { tokenId: 'USDT', currencyId: 'EUR' } });
+      expect(skipped.status).toBe(404);
+
+      const missing = await api(port, '/api/p2p/markets/missing', { method: 'PUT', token: adminToken, body: { enabled: true } });
+      expect(missing.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,270 @@
+import { afterAll, beforeAll, beforeEach, describe, it } from 'jsr:@std/testing/bdd';
+import { expect } from '@std/expect';
+import configs from '../../../config/config.ts';
+import { ExchangeHttpClient, registerExchangeAdapter } from '../../../services/exchanges/index.ts';
+import webhookDispatcher from '../../../services/webhook_dispatcher.service.ts';
+import { TRADE_SIDE } from '../../../shared/constants.ts';
+import { api, clearCollection, clearP2PData, createUser, generateAccessToken, withTestServer } from '../../utils/utils.ts';
+import { user, user2 } from '../../fixtures/users.fixtures.ts';
+import { buildBybitOffer, FakeBybitServer, fakeBybitReplies } from '../../utils/fake-bybit.server.ts';
+
+const fake = new FakeBybitServer();
+
+let userToken: string;
+let otherToken: string;
+
+const WEBHOOK_TABLES = ['webhooks', 'webhook_deliveries', 'webhook_price_refs'];
+
+interface ReceivedWebhook {
+  event: string;
+  delivery: string;
+  verified: boolean;
+  body: { event: string; webhook_id: string; data: Record<string, unknown> };
+}
+
+/**
+ * Local endpoint recording the webhooks it receives and checking their signature against `secret`;
+ * it answers the first `failures` requests with HTTP 500
+ */
+const withReceiver = async (
+  options: { secret: string; failures?: number },
+  fn: (url: string, received: ReceivedWebhook[]) => Promise<void>,
+) => {
+  const received: ReceivedWebhook[] = [];
+  let failures = options.failures ?? 0;
+  const key = await crypto.subtle.importKey(
+    'raw', new TextEncoder().encode(options.secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['verify'],
+  );
+
+  const server = Deno.serve({ port: 0, onListen: () => {} }, async (request) => {
+    const body = await request.text();
+    const signature = (request.headers.get('X-Webhook-Signature') || '').replace('sha256=', '');
+    const bytes = new Uint8Array((signature.match(/../g) || []).map((byte) => parseInt(byte, 16)));
+    const message = `${request.headers.get('X-Webhook-Timestamp')}.${body}`;
+
+    received.push({
+      event: request.headers.get('X-Webhook-Event') as string,
+      delivery: request.headers.get('X-Webhook-Delivery') as string,
+      verified: await crypto.subtle.verify('HMAC', key, bytes, new TextEncoder().encode(message)),
+      body: JSON.parse(body),
+    });
+    if (failures > 0) {
+      failures--;
+      return new Response('unavailable', { status: 500 });
+    }
+    return new Response(null, { status: 204 });
+  });
+
+  try {
+    await fn(`http://localhost:${server.addr.port}/hooks`, received);
+  } finally {
+    await webhookDispatcher.idle();
+    await server.shutdown();
+  }
+};
+
+describe('Webhooks', () => {
+  const secret = 'a-long-enough-shared-secret';
+  // The best ask moves 1% at tick 1, then 5% away from the price first seen at tick 2
+  const askPrices = ['1.0000', '1.0100', '1.0500'];
+  const asks = (tick: number) => [buildBybitOffer({ side: TRADE_SIDE.SELL, price: askPrices[tick] ?? '1.0500' })];
+  const bids = () => [buildBybitOffer({ side: TRADE_SIDE.BUY, price: '0.9900' })];
+
+  const allowedHosts = configs.webhookAllowedHosts;
+
+  beforeAll(async () => {
+    // The local receivers listen on localhost, which is refused unless allowed
+    configs.webhookAllowedHosts = ['localhost'];
+    fake.start();
+    await clearCollection('users');
+    userToken = await generateAccessToken(await createUser(user));
+    otherToken = await generateAccessToken(await createUser(user2));
+  });
+
+  afterAll(async () => {
+    configs.webhookAllowedHosts = allowedHosts;
+    await fake.stop();
+    await clearCollection('users');
+    for (const table of WEBHOOK_TABLES) {
+      await clearCollection(table);
+    }
+  });
+
+  beforeEach(async () => {
+    await clearP2PData();
+    for (const table of WEBHOOK_TABLES) {
+      await clearCollection(table);
+    }
+    fake.reset()
+      .setBook('USDT', 'USD', TRADE_SIDE.SELL, asks)
+      .setBook('USDT', 'USD', TRADE_SIDE.BUY, bids);
+    registerExchangeAdapter(fake.adapter(new ExchangeHttpClient({ baseDelayMs: 5, maxDelayMs: 50, ratePerSec: 1000, burst: 100 })));
+  });
+
+  it('should manage the webhooks of the signed-in user and only show the secret on creation', async () => {
+    await withTestServer(async (port) => {
+      const created = await api(port, '/api/webhooks', {
+        method: 'POST',
+        token: userToken,
+        body: { url: 'http://localhost:9/hooks', events: ['snapshot.stored', 'price.changed'], tokenId: 'USDT' },
+      });
+      expect(created.status).toBe(201);
+      expect(created.body.data).toMatchObject({
+        url: 'http://localhost:9/hooks', events: ['snapshot.stored', 'price.changed'], token_id: 'USDT', currency_id: null,
+        price_change_pct: 1, enabled: true,
+      });
+      expect(created.body.data.secret.length).toBe(64);
+      const { id } = created.body.data;
+
+      const updated = await api(port, `/api/webhooks/${id}`, { method: 'PUT', token: userToken, body: { priceChangePct: 0.5, enabled: false } });
+      expect(updated.body.data).toMatchObject({ price_change_pct: 0.5, enabled: false });
+      expect(updated.body.data.secret).toBe(undefined);
+
+      const listed = await api(port, '/api/webhooks', { token: userToken });
+      expect(listed.body.data.length).toBe(1);
+      expect(listed.body.data[0].secret).toBe(undefined);
+
+      // Someone else's webhook does not exist for them
+      expect((await api(port, `/api/webhooks/${id}`, { token: otherToken })).status).toBe(404);
+      expect((await api(port, `/api/webhooks/${id}/deliveries`, { token: otherToken })).status).toBe(404);
+
+      const removed = await api(port, `/api/webhooks/${id}`, { method: 'DELETE', token: userToken });
+      expect(removed.status).toBe(204);
+      expect((await api(port, `/api/webhooks/${id}`, { token: userToken })).status).toBe(404);
+    });
+  });
+
+  it('should reject invalid endpoints, events and secrets, and anonymous requests', async () => {
+    await withTestServer(async (port) => {
+      const create = async (body: Record<string, unknown>) =>
+        (await api(port, '/api/webhooks', { method: 'POST', token: userToken, body })).status;
+
+      expect(await create({ url: 'ftp://localhost/hooks', events: ['snapshot.stored'] })).toBe(400);
+      expect(await create({ url: 'http://localhost/hooks', events: ['trade.executed'] })).toBe(400);
+      expect(await create({ url: 'http://localhost/hooks', events: [] })).toBe(400);
+      expect(await create({ url: 'http://localhost/hooks', events: ['snapshot.stored'], secret: 'short' })).toBe(400);
+
+      expect((await api(port, '/api/webhooks')).status).toBe(401);
+    });
+  });
+
+  it('should deliver signed ingestion events to a local receiver, retrying failed deliveries', async () => {
+    await withReceiver({ secret, failures: 1 }, async (url, received) => {
+      await withTestServer(async (port) => {
+        const created = await api(port, '/api/webhooks', {
+          method: 'POST',
+          token: userToken,
+          body: { url, secret, events: ['snapshot.stored', 'price.changed', 'ingestion.failed'], tokenId: 'USDT', priceChangePct: 2 },
+        });
+        const { id } = created.body.data;
+        // Subscribed to another pair: receives nothing
+        await api(port, '/api/webhooks', {
+          method: 'POST', token: userToken, body: { url, secret, events: ['snapshot.stored'], tokenId: 'BTC' },
+        });
+
+        for (let tick = 0; tick < askPrices.length; tick++) {
+          await api(port, '/api/p2p/fetch', { method: 'POST', body: {} });
+          fake.advance();
+        }
+        fake.enqueue(fakeBybitReplies.retCode(912100027, 'Invalid params'));
+        await api(port, '/api/p2p/fetch', { method: 'POST', body: {} });
+        await webhookDispatcher.idle();
+
+        // Two sides over three ticks, one price change, then a failed ask side whose bid side is still stored;
+        // the first request was answered 500 and retried
+        const events = received.map((entry) => entry.event);
+        expect(events.length).toBe(10);
+        expect(events.filter((event) => event === 'snapshot.stored').length).toBe(8);
+        expect(events.filter((event) => event === 'price.changed').length).toBe(1);
+        expect(events.filter((event) => event === 'ingestion.failed').length).toBe(1);
+        expect(received.every((entry) => entry.verified)).toBe(true);
+        expect(received.every((entry) => entry.body.webhook_id === id)).toBe(true);
+        expect(received.filter((entry) => entry.delivery === received[0].delivery).length).toBe(2);
+
+        const changed = received.find((entry) => entry.event === 'price.changed') as ReceivedWebhook;
+        expect(changed.body.data).toMatchObject({ token_id: 'USDT', currency_id: 'USD', side: TRADE_SIDE.SELL, previous_price: 1, price: 1.05 });
+        expect(changed.body.data.change_pct).toBeCloseTo(5);
+
+        const failed = received.find((entry) => entry.event === 'ingestion.failed') as ReceivedWebhook;
+        expect(failed.body.data.error).toContain('Invalid params');
+
+        const deliveries = await api(port, `/api/webhooks/${id}/deliveries`, { token: userToken });
+        expect(deliveries.status).toBe(200);
+        expect(deliveries.body.data.length).toBe(9);
+        expect(deliveries.body.data.every((delivery: { status: string }) => delivery.status === 'succeeded')).toBe(true);
+
+        const retried = deliveries.body.data.find((delivery: { id: string }) => delivery.id === received[0].delivery);
+        expect(retried).toMatchObject({ attempts: 2, response_status: 204, error: null });
+        expect(retried.payload.event).toBe('snapshot.stored');
+
+        const failedOnly = await api(port, `/api/webhooks/${id}/deliveries?status=failed`, { token: userToken });
+        expect(failedOnly.body.data.length).toBe(0);
+      });
+    });
+  });
+
+  it('should refuse endpoints on local and private hosts unless they are allowed', async () => {
+    await withReceiver({ secret }, async (url, received) => {
+      await withTestServer(async (port) => {
+        const create = async (endpoint: string) =>
+          await api(port, '/api/webhooks', { method: 'POST', token: userToken, body: { url: endpoint, events: ['snapshot.stored'] } });
+        const { id } = (await create(url)).body.data;
+
+        configs.webhookAllowedHosts = [];
+        try {
+          for (const endpoint of [
+            url,
+            'http://127.0.0.1:8080/hooks',
+            'http://2130706433/hooks',
+            'http://10.0.0.5/hooks',
+            'http://172.20.1.1/hooks',
+            'http://192.168.1.10/hooks',
+            'http://169.254.169.254/latest/meta-data',
+            'http://[::1]/hooks',
+            'http://[::ffff:127.0.0.1]/hooks',
+            'http://[fd00::1]/hooks',
+            'http://[fe80::1]/hooks',
+            'http://0.0.0.0/hooks',
+          ]) {
+            const refused = await create(endpoint);
+            expect({ endpoint, status: refused.status }).toEqual({ endpoint, status: 400 });
+          }
+          expect((await create('https://hooks.example.com/p2p')).status).toBe(201);
+
+          // A webhook registered while its host was allowed is not called once it no longer is
+          const ping = await api(port, `/api/webhooks/${id}/ping`, { method: 'POST', token: userToken });
+          await webhookDispatcher.idle();
+          const [delivery] = (await api(port, `/api/webhooks/${id}/deliveries`, { token: userToken })).body.data;
+          expect(delivery).toMatchObject({ id: ping.body.data.id, status: 'failed', attempts: 1, error: 'Endpoint host localhost is not public' });
+          expect(received.length).toBe(0);
+        } finally {
+          configs.webhookAllowedHosts = ['localhost'];
+        }
+      });
+    });
+  });
+
+  it('should take a zero best price as a new reference instead of a price change', async () => {
+    fake.setBook('USDT', 'USD', TRADE_SIDE.SELL, (tick) => [
+      buildBybitOffer({ side: TRADE_SIDE.SELL, price: ['0', '1.0000', '1.0500'][tick] ?? '1.0500' }),
+    ]);
+
+    await withReceiver({ secret }, async (url, received) => {
+      await withTestServer(async (port) => {
+        await api(port, '/api/webhooks', {
+          method: 'POST', token: userToken, body: { url, secret, events: ['price.changed'], tokenId: 'USDT', priceChangePct: 2 },
+        });
+
+        for (let tick = 0; tick < 3; tick++) {
+          await api(port, '/api/p2p/fetch', { method: 'POST', body: {} });
+          fake.advance();
+        }
+        await webhookDispatcher.idle();
+
+        expect(received.length).toBe(1);
+        expect(received[0].body.data).toMatchObject({ side: TRADE_SIDE.SELL, previous_price: 1, price: 1.05 });
+        expect(received[0].body.data.change_pct).toBeCloseTo(5);
+      });
+    });
+  });
+});
@@ -0,0 +1,358 @@
+import {
+  BYBIT_ONLINE_ITEMS_PATH,
+  BYBIT_PAYMENT_CONFIG_PATH,
+  BybitAdapter,
+  BybitP2POffer,
+  BybitP2PResponse,
+  BybitPaymentConfigResponse,
+} from '../../services/exchanges/bybit.adapter.ts';
+import { ExchangeHttpClient } from '../../services/exchanges/http.client.ts';
+
+/**
+ * Body the Bybit adapter posts to the online items endpoint
+ */
+export interface FakeBybitRequest {
+  tokenId: string;
+  currencyId: string;
+  side: string;
+  payment: string[];
+  size: string;
+  page: string;
+}
+
+/**
+ * Scripted reply served instead of the order book; returning nothing serves the book as usual
+ */
+export type FakeBybitReply = (request: FakeBybitRequest) => Response | void | Promise<Response | void>;
+
+/**
+ * Offers of one book side; a function is evaluated at the server's current tick
+ */
+export type FakeBybitBook = BybitP2POffer[] | ((tick: number) => BybitP2POffer[]);
+
+/**
+ * Ready-made scripted replies: HTTP errors, rate limits, venue error codes and broken payloads
+ */
+export const fakeBybitReplies = {
+  book: (): FakeBybitReply => () => {},
+  status: (status: number, headers: Record<string, string> = {}): FakeBybitReply => () =>
+    new Response('error', { status, headers }),
+  rateLimited: (retryAfterSec: number = 0): FakeBybitReply =>
+    fakeBybitReplies.status(429, { 'Retry-After': String(retryAfterSec) }),
+  retCode: (retCode: number, retMsg: string): FakeBybitReply => () =>
+    Response.json({ ret_code: retCode, ret_msg: retMsg, result: null, ext_code: '', ext_info: {}, time_now: nowSeconds() }),
+  malformed: (body: string = '{"ret_code":0,"result":{"count":'): FakeBybitReply => () =>
+    new Response(body, { headers: { 'Content-Type': 'application/json' } }),
+};
+
+let nextOfferId = 1;
+
+/**
+ * Build a complete Bybit offer; only the fields a test cares about need to be given
+ */
+export function buildBybitOffer(overrides: Partial<BybitP2POffer> = {}): BybitP2POffer {
+  const id = nextOfferId++;
+  const tokenId = overrides.tokenId ?? 'USDT';
+  const currencyId = overrides.currencyId ?? 'USD';
+
+  return {
+    id: String(1_000_000 + id),
+    accountId: String(2_000_000 + id),
+    userId: String(3_000_000 + id),
+    nickName: `maker-${id}`,
+    tokenId,
+    tokenName: tokenId,
+    currencyId,
+    side: 1,
+    priceType: 0,
+    price: '1.00',
+    premium: '0',
+    lastQuantity: '500',
+    quantity: '500',
+    frozenQuantity: '0',
+    executedQuantity: '0',
+    minAmount: '10',
+    maxAmount: '5000',
+    remark: '',
+    status: 10,
+    createDate: '1700000000000',
+    payments: ['165'],
+    orderNum: 100,
+    finishNum: 98,
+    recentOrderNum: 20,
+    recentExecuteRate: 98,
+    fee: '0',
+    isOnline: true,
+    lastLogoutTime: '1700000000',
+    blocked: 'N',
+    makerContact: false,
+    symbolInfo: {
+      id: '1',
+      exchangeId: '301',
+      orgId: '9001',
+      tokenId,
+      currencyId,
+      status: 1,
+      lowerLimitAlarm: 90,
+      upperLimitAlarm: 110,
+      itemDownRange: '70',
+      itemUpRange: '130',
+      currencyMinQuote: '10',
+      currencyMaxQuote: '100000',
+      currencyLowerMaxQuote: '10000',
+      tokenMinQuote: '5',
+      tokenMaxQuote: '100000',
+      kycCurrencyLimit: '1000',
+      itemSideLimit: 2,
+      buyFeeRate: '0',
+      sellFeeRate: '0',
+      orderAutoCancelMinute: 15,
+      orderFinishMinute: 30,
+      tradeSide: 9,
+      currency: { id: '1', exchangeId: '301', orgId: '9001', currencyId, scale: 2 },
+      token: { id: '1', exchangeId: '301', orgId: '9001', tokenId, scale: 4, sequence: 1 },
+      buyAd: null,
+      sellAd: null,
+    },
+    tradingPreferenceSet: {
+      hasUnPostAd: 0,
+      isKyc: 1,
+      isEmail: 1,
+      isMobile: 1,
+      hasRegisterTime: 0,
+      registerTimeThreshold: 0,
+      orderFinishNumberDay30: 50,
+      completeRateDay30: '98',
+      nationalLimit: '',
+      hasOrderFinishNumberDay30: 0,
+      hasCompleteRateDay30: 0,
+      hasNationalLimit: 0,
+    },
+    version: 1,
+    authStatus: 2,
+    recommend: false,
+    recommendTag: '',
+    authTag: [],
+    userType: 'PERSONAL',
+    itemType: 'ORIGIN',
+    paymentPeriod: 15,
+    userMaskId: `mask-${id}`,
+    verificationOrderSwitch: false,
+    verificationOrderLabels: [],
+    verificationOrderAmount: '0',
+    ban: false,
+    baned: false,
+    ...overrides,
+  };
+}
+
+/**
+ * Book side whose prices move by `drift` every tick: `count` offers starting at `price`, `step` apart
+ */
+export function evolvingBook(options: {
+  tokenId: string;
+  currencyId: string;
+  side: number;
+  count: number;
+  price: number;
+  step: number;
+  drift?: number;
+  payments?: string[];
+}): (tick: number) => BybitP2POffer[] {
+  const offers = Array.from({ length: options.count }, () =>
+    buildBybitOffer({
+      tokenId: options.tokenId,
+      currencyId: options.currencyId,
+      side: options.side,
+      payments: options.payments ?? ['165'],
+    }));
+
+  return (tick) =>
+    offers.map((offer, i) => ({
+      ...offer,
+      price: (options.price + i * options.step + tick * (options.drift ?? 0)).toFixed(4),
+    }));
+}
+
+/**
+ * Payment method listed by the fake payment configuration endpoint, with the fiats it is offered in
+ */
+export interface FakeBybitPaymentMethod {
+  paymentType: number;
+  paymentName: string;
+  currencies?: string[];
+}
+
+/**
+ * Offline stand-in for Bybit's P2P online items and payment configuration endpoints.
+ * Serves books set per token pair and side with Bybit's pagination and payment filter,
+ * unless a scripted reply is queued for the next request.
+ */
+export class FakeBybitServer {
+  /** Every request received, in order */
+  readonly requests: FakeBybitRequest[] = [];
+  private server: Deno.HttpServer<Deno.NetAddr> | null = null;
+  private books = new Map<string, FakeBybitBook>();
+  private paymentMethods: FakeBybitPaymentMethod[] = [];
+  private replies: FakeBybitReply[] = [];
+  private tick = 0;
+
+  /**
+   * Start listening; port 0 picks a free port
+   */
+  start(port: number = 0): this {
+    this.server = Deno.serve({ port, onListen: () => {} }, (request) => this.handle(request));
+    return this;
+  }
+
+  async stop(): Promise<void> {
+    await this.server?.shutdown();
+    this.server = null;
+  }
+
+  /**
+   * Base URL to give the Bybit adapter (`BYBIT_BASE_URL`)
+   */
+  get url(): string {
+    if (!this.server) {
+      throw new Error('Fake Bybit server is not running');
+    }
+    return `http://localhost:${this.server.addr.port}`;
+  }
+
+  /**
+   * Bybit adapter pointed at this server
+   */
+  adapter(client?: ExchangeHttpClient): BybitAdapter {
+    return new BybitAdapter(client, this.url);
+  }
+
+  /**
+   * Set the offers served for a token pair and side
+   */
+  setBook(tokenId: string, currencyId: string, side: number, book: FakeBybitBook): this {
+    this.books.set(bookKey(tokenId, currencyId, side), book);
+    return this;
+  }
+
+  /**
+   * Set the payment methods served by the payment configuration endpoint
+   */
+  setPaymentMethods(methods: FakeBybitPaymentMethod[]): this {
+    this.paymentMethods = methods;
+    return this;
+  }
+
+  /**
+   * Serve the items of a recorded Bybit response, split by token pair and side
+   */
+  loadRecording(recording: BybitP2PResponse): this {
+    const sides = new Map<string, BybitP2POffer[]>();
+    for (const item of recording.result?.items ?? []) {
+      const key = bookKey(item.tokenId, item.currencyId, item.side);
+      sides.set(key, [...(sides.get(key) ?? []), item]);
+    }
+    for (const [key, offers] of sides) {
+      this.books.set(key, offers);
+    }
+    return this;
+  }
+
+  /**
+   * Queue replies served, one per request, before the order book
+   */
+  enqueue(...replies: FakeBybitReply[]): this {
+    this.replies.push(...replies);
+    return this;
+  }
+
+  /**
+   * Move evolving books forward
+   */
+  advance(ticks: number = 1): this {
+    this.tick += ticks;
+    return this;
+  }
+
+  /**
+   * Drop books, payment methods, queued replies, recorded requests and the tick counter
+   */
+  reset(): this {
+    this.books.clear();
+    this.paymentMethods = [];
+    this.replies = [];
+    this.requests.length = 0;
+    this.tick = 0;
+    return this;
+  }
+
+  private async handle(request: Request): Promise<Response> {
+    const { pathname } = new URL(request.url);
+    if (request.method === 'POST' && pathname === BYBIT_PAYMENT_CONFIG_PATH) {
+      await request.body?.cancel();
+      return Response.json(this.paymentConfig());
+    }
+    if (request.method !== 'POST' || pathname !== BYBIT_ONLINE_ITEMS_PATH) {
+      await request.body?.cancel();
+      return new Response('Not Found', { status: 404 });
+    }
+
+    let body: FakeBybitRequest;
+    try {
+      body = await request.json();
+    } catch {
+      return new Response('Invalid JSON', { status: 400 });
+    }
+    this.requests.push(body);
+
+    const scripted = await this.replies.shift()?.(body);
+    if (scripted) {
+      return scripted;
+    }
+
+    const book = this.books.get(bookKey(body.tokenId, body.currencyId, Number(body.side))) ?? [];
+    const offers = (typeof book === 'function' ? book(this.tick) : book)
+      .filter((offer) => body.payment.length === 0 || offer.payments.some((id) => body.payment.includes(id)));
+
+    const size = Number(body.size) || 10;
+    const page = Number(body.page) || 1;
+    const response: BybitP2PResponse = {
+      ret_code: 0,
+      ret_msg: 'SUCCESS',
+      result: { count: offers.length, items: offers.slice((page - 1) * size, page * size) },
+      ext_code: '',
+      ext_info: {},
+      time_now: nowSeconds(),
+    };
+    return Response.json(response);
+  }
+
+  private paymentConfig(): BybitPaymentConfigResponse {
+    const currencyPaymentIdMap: Record<string, number[]> = {};
+    for (const method of this.paymentMethods) {
+      for (const currencyId of method.currencies ?? []) {
+        currencyPaymentIdMap[currencyId] = [...(currencyPaymentIdMap[currencyId] ?? []), method.paymentType];
+      }
+    }
+
+    return {
+      ret_code: 0,
+      ret_msg: 'SUCCESS',
+      result: {
+        paymentConfigVo: this.paymentMethods.map(({ paymentType, paymentName }) => ({ paymentType, paymentName })),
+        currencyPaymentIdMap,
+      },
+      ext_code: '',
+      ext_info: {},
+      time_now: nowSeconds(),
+    };
+  }
+}
+
+function bookKey(tokenId: string, currencyId: string, side: number): string {
+  return `${tokenId}/${currencyId}/${side}`;
+}
+
+function nowSeconds(): string {
+  return (Date.now() / 1000).toFixed(6);
+}
@@ -8,33 +8,50 @@ import JwtHelper from '../../helpers/jwt.helper.ts';
 import { app } from '../../app.ts';
 
 export const clearCollection = async (collection: string) => {
-  const _collection = db.getDatabase.collection(collection);
   try {
-    await _collection.dropIndexes({ index: '*' });
+    return await db.run(`DELETE FROM ${collection}`);
   } catch (e) {
     log.error(e);
   }
-  return await _collection.deleteMany({});
+};
+
+/**
+ * Tables written by the P2P ETL, in an order that can be cleared safely
+ */
+export const P2P_TABLES = [
+  'offer_payments',
+  'trading_preferences',
+  'p2p_offers',
+  'offer_versions',
+  'offer_heartbeats',
+  'offer_events',
+  'book_snapshots',
+  'fetch_runs',
+  'raw_responses',
+  'reference_rates',
+  'p2p_user_nicknames',
+];
+
+export const clearP2PData = async () => {
+  for (const table of P2P_TABLES) {
+    await clearCollection(table);
+  }
 };
 
 export const createUser = async (user: CreateUserStructure) => {
   const { name, email, password, role, isDisabled } = user;
   const hashedPassword = await HashHelper.encrypt(password);
-  const createdAt = new Date();
-
-  const _user = await User.insertOne(
-    {
-      name,
-      email,
-      password: hashedPassword,
-      role,
-      isDisabled,
-      createdAt,
-      docVersion: 1,
-    },
-  );
 
-  return _user.toString();
+  const _user = await User.create({
+    name,
+    email,
+    password: hashedPassword,
+    role,
+    isDisabled,
+    docVersion: 1,
+  });
+
+  return _user.id;
 };
 
 export const generateAccessToken = async (userId: string) => {
@@ -42,13 +59,21 @@ export const generateAccessToken = async (userId: string) => {
   return await JwtHelper.getToken(accessTokenExpires, userId);
 };
 
+const getFreePort = (): number => {
+  const listener = Deno.listen({ port: 0 });
+  const { port } = listener.addr as Deno.NetAddr;
+  listener.close();
+  return port;
+};
+
 /**
  * Helper function that starts the Oak server on a known port,
  * runs the provided async callback passing
  * the port, and then shuts down the server.
  */
 export const withTestServer = async (fn: (port: number) => Promise<void>) => {
-  const port = 8000; // or a dynamic/free port if needed
+  // A fresh port per server, so a server still shutting down cannot collide with the next one
+  const port = getFreePort();
   const controller = new AbortController();
   const { signal } = controller;
   app.listen({ port, signal });
@@ -58,3 +83,24 @@ export const withTestServer = async (fn: (port: number) => Promise<void>) => {
     controller.abort();
   }
 };
+
+/**
+ * Call an endpoint of a server started by `withTestServer`,
+ * sending `body` as JSON and `token` as a bearer token.
+ * Resolves with the status and the parsed JSON body (null for 204).
+ */
+export const api = async (port: number, path: string, options: { method?: string; token?: string; body?: unknown } = {}) => {
+  const response = await fetch(`http://localhost:${port}${path}`, {
+    method: options.method || 'GET',
+    headers: {
+      ...(options.body ? { 'Content-Type': 'application/json' } : {}),
+      ...(options.token ? { 'Authorization': `Bearer ${options.token}` } : {}),
+    },
+    body: options.body ? JSON.stringify(options.body) : undefined,
+  });
+  if (response.status === 204) {
+    await response.body?.cancel();
+    return { status: response.status, body: null };
+  }
+  return { status: response.status, body: await response.json() };
+};
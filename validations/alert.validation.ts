@@ -0,0 +1,139 @@
+import * as yup from 'npm:yup';
+import { TRADE_SIDE } from '../shared/constants.ts';
+import { ALERT_TYPES } from '../models/alert.model.ts';
+
+const SIDES = [TRADE_SIDE.SELL, TRADE_SIDE.BUY];
+
+const ruleParams = yup.object({
+  id: yup
+    .string()
+    .required()
+    .trim(),
+});
+
+export const getAlertsValidation = {};
+
+export const getAlertValidation = {
+  params: ruleParams,
+};
+
+export const getAlertEventsValidation = {
+  queries: yup.object({
+    ruleId: yup
+      .string()
+      .trim(),
+    from: yup
+      .date(),
+    to: yup
+      .date(),
+    limit: yup
+      .number()
+      .integer()
+      .min(1)
+      .max(1000),
+  }),
+};
+
+export const createAlertValidation = {
+  body: yup.object({
+    name: yup
+      .string()
+      .trim()
+      .max(100),
+    exchange: yup
+      .string()
+      .trim(),
+    tokenId: yup
+      .string()
+      .trim()
+      .required(`tokenId is required`),
+    currencyId: yup
+      .string()
+      .trim()
+      .required(`currencyId is required`),
+    marketId: yup
+      .string()
+      .trim()
+      .nullable(),
+    type: yup
+      .string()
+      .oneOf(ALERT_TYPES)
+      .required(`type is required`),
+    side: yup
+      .number()
+      .oneOf(SIDES)
+      .nullable(),
+    threshold: yup
+      .number()
+      .min(0)
+      .nullable(),
+    amount: yup
+      .number()
+      .positive()
+      .nullable(),
+    merchantId: yup
+      .string()
+      .matches(/^\d+$/, 'merchantId must be a numeric user ID')
+      .nullable(),
+    cooldownSec: yup
+      .number()
+      .integer()
+      .min(0)
+      .max(7 * 24 * 60 * 60),
+    enabled: yup
+      .bool(),
+  }),
+};
+
+export const updateAlertValidation = {
+  params: ruleParams,
+  body: yup.object({
+    name: yup
+      .string()
+      .trim()
+      .max(100),
+    exchange: yup
+      .string()
+      .trim(),
+    tokenId: yup
+      .string()
+      .trim(),
+    currencyId: yup
+      .string()
+      .trim(),
+    marketId: yup
+      .string()
+      .trim()
+      .nullable(),
+    type: yup
+      .string()
+      .oneOf(ALERT_TYPES),
+    side: yup
+      .number()
+      .oneOf(SIDES)
+      .nullable(),
+    threshold: yup
+      .number()
+      .min(0)
+      .nullable(),
+    amount: yup
+      .number()
+      .positive()
+      .nullable(),
+    merchantId: yup
+      .string()
+      .matches(/^\d+$/, 'merchantId must be a numeric user ID')
+      .nullable(),
+    cooldownSec: yup
+      .number()
+      .integer()
+      .min(0)
+      .max(7 * 24 * 60 * 60),
+    enabled: yup
+      .bool(),
+  }),
+};
+
+export const deleteAlertValidation = {
+  params: ruleParams,
+};
@@ -0,0 +1,100 @@
+import * as yup from 'npm:yup';
+import { TRADE_SIDE } from '../shared/constants.ts';
+
+const SIDES = [TRADE_SIDE.SELL, TRADE_SIDE.BUY];
+
+export const getMarketsValidation = {};
+
+export const getMarketValidation = {
+  params: yup.object({
+    id: yup
+      .string()
+      .required()
+      .trim(),
+  }),
+};
+
+export const createMarketValidation = {
+  body: yup.object({
+    exchange: yup
+      .string()
+      .trim(),
+    tokenId: yup
+      .string()
+      .trim()
+      .required(`tokenId is required`),
+    currencyId: yup
+      .string()
+      .trim()
+      .required(`currencyId is required`),
+    sides: yup
+      .array()
+      .of(yup.number().oneOf(SIDES))
+      .min(1)
+      .required(`sides is required`),
+    paymentMethods: yup
+      .array()
+      .of(yup.number().integer().positive())
+      .min(1)
+      .required(`paymentMethods is required`),
+    pageDepth: yup
+      .number()
+      .integer()
+      .min(1)
+      .max(100),
+    pollIntervalSec: yup
+      .number()
+      .integer()
+      .min(1),
+    enabled: yup
+      .bool(),
+  }),
+};
+
+export const updateMarketValidation = {
+  params: yup.object({
+    id: yup
+      .string()
+      .required()
+      .trim(),
+  }),
+  body: yup.object({
+    exchange: yup
+      .string()
+      .trim(),
+    tokenId: yup
+      .string()
+      .trim(),
+    currencyId: yup
+      .string()
+      .trim(),
+    sides: yup
+      .array()
+      .of(yup.number().oneOf(SIDES))
+      .min(1),
+    paymentMethods: yup
+      .array()
+      .of(yup.number().integer().positive())
+      .min(1),
+    pageDepth: yup
+      .number()
+      .integer()
+      .min(1)
+      .max(100),
+    pollIntervalSec: yup
+      .number()
+      .integer()
+      .min(1),
+    enabled: yup
+      .bool(),
+  }),
+};
+
+export const deleteMarketValidation = {
+  params: yup.object({
+    id: yup
+      .string()
+      .required()
+      .trim(),
+  }),
+};
@@ -0,0 +1,91 @@
+import * as yup from 'npm:yup';
+import { MAX_BUCKET, TRADE_SIDE } from '../shared/constants.ts';
+import BucketHelper from '../helpers/bucket.helper.ts';
+
+export const getMerchantsValidation = {
+  queries: yup.object({
+    hours: yup
+      .number()
+      .integer()
+      .min(1)
+      .max(24 * 90),
+    exchange: yup
+      .string()
+      .trim(),
+    tokenId: yup
+      .string()
+      .trim(),
+    currencyId: yup
+      .string()
+      .trim(),
+    search: yup
+      .string()
+      .trim(),
+    online: yup
+      .boolean(),
+    limit: yup
+      .number()
+      .integer()
+      .min(1)
+      .max(1000),
+  }),
+};
+
+export const getMerchantValidation = {
+  params: yup.object({
+    userId: yup
+      .string()
+      .matches(/^\d+$/, 'userId must be a numeric user ID')
+      .required(),
+  }),
+  queries: yup.object({
+    days: yup
+      .number()
+      .integer()
+      .min(1)
+      .max(365),
+    exchange: yup
+      .string()
+      .trim(),
+  }),
+};
+
+export const getLeaderboardValidation = {
+  params: yup.object({
+    tokenId: yup
+      .string()
+      .trim()
+      .required(),
+    currencyId: yup
+      .string()
+      .trim()
+      .required(),
+  }),
+  queries: yup.object({
+    side: yup
+      .number()
+      .oneOf([TRADE_SIDE.SELL, TRADE_SIDE.BUY]),
+    from: yup
+      .date(),
+    to: yup
+      .date(),
+    interval: yup
+      .string()
+      .test(
+        'bucket',
+        `interval must be a bucket such as 5m, 15m, 4h or 1d, at most ${MAX_BUCKET.CONCENTRATION}`,
+        (value) => value === undefined || BucketHelper.isValid(value, MAX_BUCKET.CONCENTRATION),
+      ),
+    limit: yup
+      .number()
+      .integer()
+      .min(1)
+      .max(100),
+    marketId: yup
+      .string()
+      .trim(),
+    exchange: yup
+      .string()
+      .trim(),
+  }),
+};
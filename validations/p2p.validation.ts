@@ -0,0 +1,315 @@
+import * as yup from 'npm:yup';
+import { MAX_BUCKET, TRADE_SIDE } from '../shared/constants.ts';
+import BucketHelper from '../helpers/bucket.helper.ts';
+import { OFFER_EVENT_TYPES } from '../models/offer_event.model.ts';
+
+/**
+ * Time bucket spec such as `5m`, `15m`, `4h` or `1d`, no larger than `maxSpec`
+ */
+const bucketSpec = (maxSpec: string) =>
+  yup
+    .string()
+    .test(
+      'bucket',
+      `interval must be a bucket such as 5m, 15m, 4h or 1d, at most ${maxSpec}`,
+      (value) => value === undefined || BucketHelper.isValid(value, maxSpec),
+    );
+
+const pairParams = yup.object({
+  tokenId: yup
+    .string()
+    .trim()
+    .required(),
+  currencyId: yup
+    .string()
+    .trim()
+    .required(),
+});
+
+// Ingestion can be triggered anonymously, so sweeps are bounded: `maxPages` is further capped at P2P_SWEEP_MAX_PAGES
+const fetchOptions = yup.object({
+  marketId: yup
+    .string()
+    .trim(),
+  exchange: yup
+    .string()
+    .trim(),
+  tokenId: yup
+    .string()
+    .trim(),
+  currencyId: yup
+    .string()
+    .trim(),
+  size: yup
+    .number()
+    .integer()
+    .min(1)
+    .max(100),
+  maxPages: yup
+    .number()
+    .integer()
+    .min(1),
+  sweep: yup
+    .boolean(),
+});
+
+export const fetchP2PDataValidation = {
+  queries: fetchOptions,
+  body: fetchOptions,
+};
+
+export const getFetchRunsValidation = {
+  queries: yup.object({
+    marketId: yup
+      .string()
+      .trim(),
+    exchange: yup
+      .string()
+      .trim(),
+    tokenId: yup
+      .string()
+      .trim(),
+    currencyId: yup
+      .string()
+      .trim(),
+    side: yup
+      .number()
+      .oneOf([TRADE_SIDE.SELL, TRADE_SIDE.BUY]),
+    status: yup
+      .string()
+      .oneOf(['success', 'error']),
+    from: yup
+      .date(),
+    to: yup
+      .date(),
+    limit: yup
+      .number()
+      .integer()
+      .min(1)
+      .max(1000),
+    offset: yup
+      .number()
+      .integer()
+      .min(0),
+  }),
+};
+
+export const reprocessValidation = {
+  body: yup.object({
+    from: yup
+      .date()
+      .required(),
+    to: yup
+      .date()
+      .required()
+      .min(yup.ref('from'), 'to must not be before from'),
+    marketId: yup
+      .string()
+      .trim(),
+    exchange: yup
+      .string()
+      .trim(),
+    tokenId: yup
+      .string()
+      .trim(),
+    currencyId: yup
+      .string()
+      .trim(),
+  }),
+};
+
+export const getOfferHistoryValidation = {
+  params: yup.object({
+    offerId: yup
+      .string()
+      .matches(/^\d+$/, 'offerId must be a numeric offer ID')
+      .required(),
+  }),
+  queries: yup.object({
+    exchange: yup
+      .string()
+      .trim(),
+    types: yup
+      .string()
+      .test('types', `types must be a comma separated list of ${OFFER_EVENT_TYPES.join(', ')}`, (value) =>
+        value === undefined || value.split(',').every((type) => (OFFER_EVENT_TYPES as string[]).includes(type.trim()))
+      ),
+    from: yup
+      .date(),
+    to: yup
+      .date(),
+    limit: yup
+      .number()
+      .integer()
+      .min(1)
+      .max(1000),
+  }),
+};
+
+export const getPriceAggregationsValidation = {
+  params: pairParams,
+  queries: yup.object({
+    side: yup
+      .number()
+      .oneOf([TRADE_SIDE.SELL, TRADE_SIDE.BUY]),
+    interval: bucketSpec(MAX_BUCKET.AGGREGATIONS),
+    hours: yup
+      .number()
+      .integer()
+      .min(1)
+      .max(24 * 90),
+    marketId: yup
+      .string()
+      .trim(),
+    exchange: yup
+      .string()
+      .trim(),
+  }),
+};
+
+export const getTradeFlowValidation = {
+  params: pairParams,
+  queries: yup.object({
+    side: yup
+      .number()
+      .oneOf([TRADE_SIDE.SELL, TRADE_SIDE.BUY]),
+    interval: bucketSpec(MAX_BUCKET.FLOW),
+    hours: yup
+      .number()
+      .integer()
+      .min(1)
+      .max(24 * 90),
+    limit: yup
+      .number()
+      .integer()
+      .min(1)
+      .max(1000),
+    marketId: yup
+      .string()
+      .trim(),
+    exchange: yup
+      .string()
+      .trim(),
+  }),
+};
+
+export const getCandlesValidation = {
+  params: pairParams,
+  queries: yup.object({
+    interval: bucketSpec(MAX_BUCKET.CANDLES),
+    hours: yup
+      .number()
+      .integer()
+      .min(1)
+      .max(24 * 90),
+    fill: yup
+      .boolean(),
+    marketId: yup
+      .string()
+      .trim(),
+    exchange: yup
+      .string()
+      .trim(),
+  }),
+};
+
+export const getPremiumValidation = {
+  params: pairParams,
+  queries: yup.object({
+    interval: bucketSpec(MAX_BUCKET.CANDLES),
+    hours: yup
+      .number()
+      .integer()
+      .min(1)
+      .max(24 * 90),
+    source: yup
+      .string()
+      .trim(),
+    marketId: yup
+      .string()
+      .trim(),
+    exchange: yup
+      .string()
+      .trim(),
+  }),
+};
+
+export const getMarketSummaryValidation = {
+  params: pairParams,
+  queries: yup.object({
+    from: yup
+      .date(),
+    to: yup
+      .date(),
+    marketId: yup
+      .string()
+      .trim(),
+    exchange: yup
+      .string()
+      .trim(),
+  }),
+};
+
+export const getOrderBookValidation = {
+  params: pairParams,
+  queries: yup.object({
+    at: yup
+      .date(),
+    trustedOnly: yup
+      .boolean(),
+    excludeAvoided: yup
+      .boolean(),
+    marketId: yup
+      .string()
+      .trim(),
+    exchange: yup
+      .string()
+      .trim(),
+  }),
+};
+
+export const getQuoteValidation = {
+  queries: yup.object({
+    token: yup
+      .string()
+      .trim()
+      .required(),
+    currency: yup
+      .string()
+      .trim()
+      .required(),
+    side: yup
+      .number()
+      .oneOf([TRADE_SIDE.SELL, TRADE_SIDE.BUY])
+      .required(),
+    amount: yup
+      .number()
+      .positive()
+      .required(),
+    limit: yup
+      .number()
+      .integer()
+      .min(1)
+      .max(50),
+    minCompletionRate: yup
+      .number()
+      .min(0)
+      .max(100),
+    minOrders: yup
+      .number()
+      .integer()
+      .min(0),
+    requireKyc: yup
+      .boolean(),
+    trustedOnly: yup
+      .boolean(),
+    excludeAvoided: yup
+      .boolean(),
+    marketId: yup
+      .string()
+      .trim(),
+    exchange: yup
+      .string()
+      .trim(),
+  }),
+};
@@ -0,0 +1,70 @@
+import * as yup from 'npm:yup';
+import { PAYMENT_METHOD_SOURCES, PAYMENT_METHOD_TYPES } from '../models/payment_method.model.ts';
+
+const methodIdParams = yup.object({
+  methodId: yup
+    .number()
+    .integer()
+    .positive()
+    .required(),
+});
+
+export const getPaymentMethodsValidation = {
+  queries: yup.object({
+    type: yup
+      .string()
+      .oneOf(PAYMENT_METHOD_TYPES),
+    country: yup
+      .string()
+      .trim()
+      .length(2),
+    currencyId: yup
+      .string()
+      .trim(),
+    source: yup
+      .string()
+      .oneOf(PAYMENT_METHOD_SOURCES),
+    search: yup
+      .string()
+      .trim(),
+  }),
+};
+
+export const getPaymentMethodValidation = {
+  params: methodIdParams,
+};
+
+export const overridePaymentMethodValidation = {
+  params: methodIdParams,
+  body: yup.object({
+    name: yup
+      .string()
+      .trim()
+      .min(1),
+    type: yup
+      .string()
+      .oneOf(PAYMENT_METHOD_TYPES),
+    country: yup
+      .string()
+      .trim()
+      .length(2),
+    currencyId: yup
+      .string()
+      .trim(),
+  }),
+};
+
+export const releasePaymentMethodOverrideValidation = {
+  params: methodIdParams,
+};
+
+export const syncPaymentMethodsValidation = {
+  body: yup.object({
+    source: yup
+      .string()
+      .oneOf(['seed', 'exchange']),
+    exchange: yup
+      .string()
+      .trim(),
+  }),
+};
@@ -0,0 +1,32 @@
+import * as yup from 'npm:yup';
+
+export const getReferenceRatesValidation = {
+  queries: yup.object({
+    source: yup
+      .string()
+      .trim(),
+    base: yup
+      .string()
+      .trim(),
+    quote: yup
+      .string()
+      .trim(),
+    from: yup
+      .date(),
+    to: yup
+      .date(),
+    limit: yup
+      .number()
+      .integer()
+      .min(1)
+      .max(10000),
+  }),
+};
+
+export const syncReferenceRatesValidation = {
+  body: yup.object({
+    source: yup
+      .string()
+      .trim(),
+  }),
+};
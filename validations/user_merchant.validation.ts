@@ -0,0 +1,58 @@
+import * as yup from 'npm:yup';
+import { MERCHANT_LISTS } from '../models/user_merchant.model.ts';
+
+export const getMerchantListsValidation = {};
+
+export const searchMerchantsValidation = {
+  queries: yup.object({
+    nickname: yup
+      .string()
+      .trim()
+      .min(2)
+      .required(),
+    exchange: yup
+      .string()
+      .trim(),
+  }),
+};
+
+export const addMerchantValidation = {
+  body: yup.object({
+    merchantId: yup
+      .string()
+      .matches(/^\d+$/, 'merchantId must be a numeric user ID'),
+    nickname: yup
+      .string()
+      .trim()
+      .min(2),
+    list: yup
+      .string()
+      .oneOf(MERCHANT_LISTS)
+      .required(),
+    exchange: yup
+      .string()
+      .trim(),
+    note: yup
+      .string()
+      .trim()
+      .max(500),
+  }).test(
+    'merchant',
+    'merchantId or nickname is required',
+    (value) => value.merchantId !== undefined || value.nickname !== undefined,
+  ),
+};
+
+export const removeMerchantValidation = {
+  params: yup.object({
+    merchantId: yup
+      .string()
+      .matches(/^\d+$/, 'merchantId must be a numeric user ID')
+      .required(),
+  }),
+  queries: yup.object({
+    exchange: yup
+      .string()
+      .trim(),
+  }),
+};
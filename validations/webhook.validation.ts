@@ -0,0 +1,121 @@
+import * as yup from 'npm:yup';
+import configs from '../config/config.ts';
+import UrlHelper from '../helpers/url.helper.ts';
+import { WEBHOOK_EVENTS } from '../models/webhook.model.ts';
+
+const webhookParams = yup.object({
+  id: yup
+    .string()
+    .required()
+    .trim(),
+});
+
+// yup's `url()` rejects hosts without a TLD such as `localhost`.
+// The server posts to this URL, so local and private hosts are refused unless listed in WEBHOOK_ALLOWED_HOSTS.
+const endpointUrl = yup
+  .string()
+  .trim()
+  .test('http-url', 'url must be an http(s) URL', (value) => {
+    if (value === undefined) return true;
+    try {
+      return ['http:', 'https:'].includes(new URL(value).protocol);
+    } catch {
+      return false;
+    }
+  })
+  .test('public-host', 'url must point to a public host', (value) => {
+    if (value === undefined || !URL.canParse(value)) return true;
+    return UrlHelper.isPublicHttpUrl(value, configs.webhookAllowedHosts);
+  });
+
+const events = yup
+  .array()
+  .of(yup.string().oneOf(WEBHOOK_EVENTS).required())
+  .min(1, 'events must list at least one event');
+
+export const getWebhooksValidation = {};
+
+export const getWebhookValidation = {
+  params: webhookParams,
+};
+
+export const getWebhookDeliveriesValidation = {
+  params: webhookParams,
+  queries: yup.object({
+    status: yup
+      .string()
+      .oneOf(['pending', 'succeeded', 'failed']),
+    limit: yup
+      .number()
+      .integer()
+      .min(1)
+      .max(1000),
+  }),
+};
+
+export const createWebhookValidation = {
+  body: yup.object({
+    url: endpointUrl
+      .required(`url is required`),
+    secret: yup
+      .string()
+      .min(16)
+      .max(256),
+    events: events
+      .required(`events is required`),
+    exchange: yup
+      .string()
+      .trim()
+      .nullable(),
+    tokenId: yup
+      .string()
+      .trim()
+      .nullable(),
+    currencyId: yup
+      .string()
+      .trim()
+      .nullable(),
+    priceChangePct: yup
+      .number()
+      .positive(),
+    enabled: yup
+      .bool(),
+  }),
+};
+
+export const updateWebhookValidation = {
+  params: webhookParams,
+  body: yup.object({
+    url: endpointUrl,
+    secret: yup
+      .string()
+      .min(16)
+      .max(256),
+    events,
+    exchange: yup
+      .string()
+      .trim()
+      .nullable(),
+    tokenId: yup
+      .string()
+      .trim()
+      .nullable(),
+    currencyId: yup
+      .string()
+      .trim()
+      .nullable(),
+    priceChangePct: yup
+      .number()
+      .positive(),
+    enabled: yup
+      .bool(),
+  }),
+};
+
+export const pingWebhookValidation = {
+  params: webhookParams,
+};
+
+export const deleteWebhookValidation = {
+  params: webhookParams,
+};